@@ -0,0 +1,134 @@
+/**
+ * Evaluation Command - Cross-validate the CNN-LSTM on a local CHB-MIT copy
+ *
+ * Purpose: Run leave-one-patient-out or leave-one-seizure-out cross-validation
+ * headless and write the clinical metrics as JSON and CSV
+ *
+ * Usage:
+ *   npm run evaluate:model -- <dataset-dir> [--scheme lopo|loso] [--cases chb01,chb02]
+ *                             [--epochs 20] [--horizon-minutes 30] [--guard-minutes 60]
+ *                             [--max-windows 300] [--threshold 0.5] [--sph-seconds 60]
+ *                             [--sop-minutes 30] [--stride-seconds 5] [--max-folds n]
+ *                             [--seed 42] [--out evaluation]
+ *
+ * Writes <out>.json (full report, per-seizure outcomes) and <out>.csv (one row
+ * per fold plus the pooled result).
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { CrossValidation, type CrossValidationOptions } from '../src/ai/evaluation/crossValidation';
+import { DEFAULT_EVALUATION_CONFIG, type EvaluationConfig } from '../src/ai/evaluation/predictionMetrics';
+import { DEFAULT_TRAINING_CONFIG, type TrainingConfig } from '../src/ai/training/trainingPipeline';
+import { openTrainingSources } from './lib/nodeDatasetSource';
+
+interface EvaluateOptions {
+  datasetDir: string;
+  out: string;
+  caseIds?: string[];
+  crossValidation: CrossValidationOptions;
+}
+
+const USAGE = 'Usage: npm run evaluate:model -- <dataset-dir> [--scheme lopo|loso] [--cases chb01,chb02] [--epochs 20] ' +
+  '[--horizon-minutes 30] [--guard-minutes 60] [--max-windows 300] [--threshold 0.5] [--sph-seconds 60] ' +
+  '[--sop-minutes 30] [--stride-seconds 5] [--max-folds n] [--seed 42] [--out evaluation]';
+
+function parseArgs(argv: string[]): EvaluateOptions {
+  const training: TrainingConfig = { ...DEFAULT_TRAINING_CONFIG };
+  const evaluation: EvaluationConfig = { ...DEFAULT_EVALUATION_CONFIG };
+  const crossValidation: CrossValidationOptions = { scheme: 'leave-one-patient-out', training, evaluation };
+  const options: Partial<EvaluateOptions> = { out: 'evaluation', crossValidation };
+
+  const number = (value: string | undefined, name: string) => {
+    const parsed = Number(value);
+    if (value === undefined || !Number.isFinite(parsed)) throw new Error(`${name} needs a number\n${USAGE}`);
+    return parsed;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--scheme': {
+        const scheme = argv[++i];
+        if (scheme !== 'lopo' && scheme !== 'loso') throw new Error(USAGE);
+        crossValidation.scheme = scheme === 'lopo' ? 'leave-one-patient-out' : 'leave-one-seizure-out';
+        break;
+      }
+      case '--cases':
+        options.caseIds = (argv[++i] ?? '').split(',').map(caseId => caseId.trim().toLowerCase()).filter(Boolean);
+        break;
+      case '--epochs':
+        training.epochs = number(argv[++i], arg);
+        break;
+      case '--horizon-minutes':
+        training.preictalHorizonSeconds = number(argv[++i], arg) * 60;
+        break;
+      case '--guard-minutes':
+        training.interictalGuardSeconds = number(argv[++i], arg) * 60;
+        break;
+      case '--max-windows':
+        training.maxWindowsPerClass = number(argv[++i], arg);
+        break;
+      case '--seed':
+        training.seed = number(argv[++i], arg);
+        break;
+      case '--threshold':
+        evaluation.threshold = number(argv[++i], arg);
+        break;
+      case '--sph-seconds':
+        evaluation.sphSeconds = number(argv[++i], arg);
+        break;
+      case '--sop-minutes':
+        evaluation.sopSeconds = number(argv[++i], arg) * 60;
+        break;
+      case '--stride-seconds':
+        crossValidation.strideSeconds = number(argv[++i], arg);
+        break;
+      case '--max-folds':
+        crossValidation.maxFolds = number(argv[++i], arg);
+        break;
+      case '--out':
+        options.out = argv[++i];
+        break;
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}\n${USAGE}`);
+        options.datasetDir = arg;
+    }
+  }
+
+  if (!options.datasetDir || !options.out) {
+    throw new Error(USAGE);
+  }
+
+  return options as EvaluateOptions;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const { sources } = await openTrainingSources(resolve(options.datasetDir), options.caseIds);
+
+  // Ctrl+C finishes the current batch and reports the folds completed so far
+  let interrupted = false;
+  process.once('SIGINT', () => {
+    console.log('\n⏹️ Stopping after the current batch...');
+    interrupted = true;
+  });
+
+  const report = await CrossValidation.run(sources, options.crossValidation, { shouldStop: () => interrupted });
+
+  const out = resolve(options.out);
+  await writeFile(`${out}.json`, CrossValidation.toJSON(report));
+  await writeFile(`${out}.csv`, CrossValidation.toCSV(report));
+
+  const { overall } = report;
+  console.log(`📋 ${report.folds.length} folds (${report.skippedFolds.length} skipped): ` +
+    `sensitivity ${overall.sensitivity?.toFixed(3) ?? 'n/a'}, ${overall.falsePredictionsPerHour.toFixed(2)} false/h, ` +
+    `time in warning ${(overall.timeInWarning * 100).toFixed(1)}%, AUC ${overall.auc?.toFixed(3) ?? 'n/a'}, ` +
+    `random-predictor p = ${overall.randomPredictor.pValue.toFixed(4)}`);
+  console.log(`💾 Report written to ${out}.json and ${out}.csv`);
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
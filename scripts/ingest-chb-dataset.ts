@@ -0,0 +1,209 @@
+/**
+ * CHB-MIT Ingestion Command - Index a local dataset copy and store it
+ *
+ * Purpose: Walk a downloaded CHB-MIT directory, build the dataset manifest and
+ * upsert it into chb_seizure_events / chb_collection_status, or write it to a
+ * JSON manifest when running offline
+ * Learning Focus: The indexer itself is environment-neutral; this script only
+ * supplies Node filesystem access and a service-side Supabase client
+ *
+ * Usage:
+ *   npm run ingest:chb -- <dataset-dir> [--out manifest.json] [--offline]
+ *                         [--cases chb01,chb02] [--no-headers]
+ *
+ * Environment: SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY, falling back to
+ * VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY.
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { createClient } from '@supabase/supabase-js';
+import { CHBDatasetIndexer, type CHBManifest } from '../src/ai/data/chbDatasetIndex';
+import { createFileSystemSource } from './lib/nodeDatasetSource';
+
+interface IngestOptions {
+  datasetDir: string;
+  outFile: string;
+  offline: boolean;
+  readEDFHeaders: boolean;
+  caseIds?: string[];
+}
+
+// Column shapes of chb_seizure_events / chb_collection_status (see CHBDatabaseService)
+interface SeizureRow {
+  case_id: string;
+  file_name: string;
+  seizure_number: number;
+  start_time: number;
+  end_time: number;
+  duration: number;
+  start_sample: number;
+  end_sample: number;
+}
+
+interface CollectionStatusRow {
+  case_id: string;
+  total_seizures: number;
+  total_files: number;
+  collection_date: string;
+  status: 'collected' | 'error';
+  error_message: string | null;
+  api_source: 'local';
+}
+
+const USAGE = 'Usage: npm run ingest:chb -- <dataset-dir> [--out manifest.json] [--offline] [--cases chb01,chb02] [--no-headers]';
+
+function parseArgs(argv: string[]): IngestOptions {
+  const options: Partial<IngestOptions> = { outFile: 'chb-manifest.json', offline: false, readEDFHeaders: true };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out') {
+      options.outFile = argv[++i];
+    } else if (arg === '--offline') {
+      options.offline = true;
+    } else if (arg === '--no-headers') {
+      options.readEDFHeaders = false;
+    } else if (arg === '--cases') {
+      options.caseIds = (argv[++i] ?? '').split(',').map(caseId => caseId.trim().toLowerCase()).filter(Boolean);
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}\n${USAGE}`);
+    } else {
+      options.datasetDir = arg;
+    }
+  }
+
+  if (!options.datasetDir || !options.outFile) {
+    throw new Error(USAGE);
+  }
+
+  return options as IngestOptions;
+}
+
+/**
+ * Seizure rows numbered per case in file/start order, matching CHB_SEIZURE_DATABASE,
+ * so re-ingesting updates rows written by CHBDatabaseService.loadCHBDataToDatabase
+ */
+function toSeizureRows(manifest: CHBManifest): SeizureRow[] {
+  return manifest.cases.flatMap(entry => {
+    const samplingRate = entry.samplingRate ?? 256;
+    const seizures = entry.files
+      .flatMap(file => file.seizures)
+      .sort((a, b) => a.fileName.localeCompare(b.fileName) || a.startTime - b.startTime);
+
+    return seizures.map((seizure, index) => ({
+      case_id: entry.caseId,
+      file_name: seizure.fileName,
+      seizure_number: index + 1,
+      start_time: Math.round(seizure.startTime),
+      end_time: Math.round(seizure.endTime),
+      duration: Math.round(seizure.duration),
+      start_sample: Math.round(seizure.startTime * samplingRate),
+      end_sample: Math.round(seizure.endTime * samplingRate)
+    }));
+  });
+}
+
+function toCollectionStatusRows(manifest: CHBManifest): CollectionStatusRow[] {
+  return manifest.cases.map(entry => ({
+    case_id: entry.caseId,
+    total_seizures: entry.seizureCount,
+    total_files: entry.files.length,
+    collection_date: manifest.generatedAt,
+    status: entry.files.length > 0 ? 'collected' : 'error',
+    error_message: entry.files.length > 0 ? null : 'No EDF files found',
+    api_source: 'local'
+  }));
+}
+
+/**
+ * Upsert the manifest into Supabase. Seizures go through insert_chb_seizure so
+ * the (case_id, file_name, seizure_number) key is deduplicated server-side.
+ */
+async function upsertManifest(manifest: CHBManifest): Promise<{ stored: number; failed: number }> {
+  const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY ?? process.env.VITE_SUPABASE_ANON_KEY;
+
+  if (!url || !key) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or the VITE_ equivalents) must be set');
+  }
+
+  console.log(`🔌 Connecting to Supabase: ${url}`);
+  const supabase = createClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { headers: { 'X-Client-Info': 'chb-ingest' } }
+  });
+
+  let stored = 0;
+  let failed = 0;
+
+  for (const record of toSeizureRows(manifest)) {
+    const { error } = await supabase.rpc('insert_chb_seizure', {
+      p_case_id: record.case_id,
+      p_file_name: record.file_name,
+      p_seizure_number: record.seizure_number,
+      p_start_time: record.start_time,
+      p_end_time: record.end_time,
+      p_duration: record.duration,
+      p_start_sample: record.start_sample,
+      p_end_sample: record.end_sample
+    });
+
+    if (error) {
+      console.log(`❌ ${record.case_id} ${record.file_name} #${record.seizure_number}: ${error.message}`);
+      failed++;
+    } else {
+      stored++;
+    }
+  }
+
+  const statusRows = toCollectionStatusRows(manifest);
+  const { error: statusError } = await supabase
+    .from('chb_collection_status')
+    .upsert(statusRows, { onConflict: 'case_id' });
+
+  if (statusError) {
+    console.log(`❌ Collection status upsert failed: ${statusError.message}`);
+    failed += statusRows.length;
+  }
+
+  return { stored, failed };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const root = resolve(options.datasetDir);
+
+  const manifest = await CHBDatasetIndexer.buildManifest(createFileSystemSource(root), root, {
+    readEDFHeaders: options.readEDFHeaders,
+    caseIds: options.caseIds
+  });
+
+  if (manifest.warnings.length > 0) {
+    console.log(`⚠️ ${manifest.warnings.length} warnings:`);
+    manifest.warnings.forEach(warning => console.log(`   ${warning}`));
+  }
+
+  let writeManifest = options.offline;
+
+  if (!options.offline) {
+    try {
+      const { stored, failed } = await upsertManifest(manifest);
+      console.log(`✅ Stored ${stored} seizures for ${manifest.totals.cases} cases${failed > 0 ? ` (${failed} failed)` : ''}`);
+      writeManifest = failed > 0;
+    } catch (error) {
+      console.log(`❌ Database ingestion failed: ${error instanceof Error ? error.message : error}`);
+      writeManifest = true;
+    }
+  }
+
+  if (writeManifest) {
+    await writeFile(options.outFile, JSON.stringify(manifest, null, 2));
+    console.log(`💾 Manifest written to ${resolve(options.outFile)}`);
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,95 @@
+/**
+ * File System Model Store - ModelRegistry storage for the Node scripts
+ *
+ * Purpose: Keep each model version in its own directory using the standard
+ * TensorFlow.js layout, so a saved version can also be served as-is and
+ * opened with tf.loadLayersModel('…/model.json'):
+ *
+ *   <root>/v3/model.json     topology + weights manifest
+ *   <root>/v3/weights.bin
+ *   <root>/v3/metadata.json  ModelMetadata
+ */
+
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import type { ModelMetadata, ModelStore } from '../../src/ai/models/modelRegistry';
+
+/**
+ * ModelStore backed by a directory per version under `root`
+ */
+export function createFileSystemModelStore(root: string): ModelStore {
+  const directory = (version: string) => join(root, version);
+
+  return {
+    async save({ metadata, artifacts }) {
+      const dir = directory(metadata.version);
+      await mkdir(dir, { recursive: true });
+
+      await writeFile(join(dir, 'weights.bin'), new Uint8Array(artifacts.weightData as ArrayBuffer));
+      await writeFile(join(dir, 'model.json'), JSON.stringify({
+        modelTopology: artifacts.modelTopology,
+        format: artifacts.format ?? 'layers-model',
+        generatedBy: artifacts.generatedBy ?? `TensorFlow.js tfjs-layers v${tf.version.tfjs}`,
+        convertedBy: artifacts.convertedBy ?? null,
+        weightsManifest: [{ paths: ['weights.bin'], weights: artifacts.weightSpecs }]
+      }));
+      await writeFile(join(dir, 'metadata.json'), JSON.stringify(metadata, null, 2));
+    },
+
+    async list() {
+      let entries: string[];
+      try {
+        entries = await readdir(root);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+
+      const versions: ModelMetadata[] = [];
+      for (const entry of entries) {
+        try {
+          versions.push(JSON.parse(await readFile(join(directory(entry), 'metadata.json'), 'utf8')));
+        } catch {
+          // Not a model directory
+        }
+      }
+      return versions;
+    },
+
+    async load(version) {
+      const dir = directory(version);
+      let modelJSON: tf.io.ModelJSON;
+      let metadata: ModelMetadata;
+      try {
+        modelJSON = JSON.parse(await readFile(join(dir, 'model.json'), 'utf8'));
+        metadata = JSON.parse(await readFile(join(dir, 'metadata.json'), 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw new Error(`Model ${version} not found in ${root}`);
+        throw error;
+      }
+
+      const manifest = modelJSON.weightsManifest ?? [];
+      const buffers = await Promise.all(manifest.flatMap(group => group.paths).map(async path => {
+        const bytes = await readFile(join(dir, path));
+        return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+      }));
+
+      return {
+        metadata,
+        artifacts: {
+          modelTopology: modelJSON.modelTopology,
+          format: modelJSON.format,
+          generatedBy: modelJSON.generatedBy,
+          convertedBy: modelJSON.convertedBy ?? undefined,
+          weightSpecs: manifest.flatMap(group => group.weights),
+          weightData: tf.io.concatenateArrayBuffers(buffers)
+        }
+      };
+    },
+
+    async remove(version) {
+      await rm(directory(version), { recursive: true, force: true });
+    }
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Node Dataset Source - Local filesystem access for the CHB-MIT scripts
+ *
+ * Purpose: Implement CHBDatasetSource over node:fs and open EDF files as
+ * random-access Blobs, shared by the ingestion, training and evaluation commands
+ */
+
+import { openAsBlob } from 'node:fs';
+import { open, readFile, readdir, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { CHBDatasetIndexer, type CHBDatasetSource, type CHBManifest } from '../../src/ai/data/chbDatasetIndex';
+import { CHBEDFStreamReader } from '../../src/ai/data/chbEDFStreamReader';
+import { TrainingPipeline, type TrainingRecordingSource } from '../../src/ai/training/trainingPipeline';
+import { DEFAULT_EEG_CHANNELS } from '../../src/lib/aiSeizurePrediction';
+
+/**
+ * CHBDatasetSource backed by the local filesystem
+ */
+export function createFileSystemSource(root: string): CHBDatasetSource {
+  const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+  return {
+    async readText(path) {
+      try {
+        return await readFile(join(root, path), 'utf8');
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    },
+
+    async readBytes(path, start, length) {
+      let handle;
+      try {
+        handle = await open(join(root, path), 'r');
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+      try {
+        const bytes = new Uint8Array(length);
+        const { bytesRead } = await handle.read(bytes, 0, length, start);
+        return bytes.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    },
+
+    async fileSize(path) {
+      try {
+        return (await stat(join(root, path))).size;
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    },
+
+    async listDirectory(path) {
+      try {
+        return await readdir(join(root, path));
+      } catch (error) {
+        if (isMissing(error)) return [];
+        throw error;
+      }
+    }
+  };
+}
+
+/**
+ * Open a dataset file as a Blob (read lazily, so slicing a 40 MB EDF is cheap)
+ */
+export function openDatasetBlob(root: string, path: string): Promise<Blob> {
+  return openAsBlob(join(root, path));
+}
+
+/**
+ * Index a local dataset and open every EDF file as a TrainingRecordingSource,
+ * with each case's seizures placed on every file's timeline
+ */
+export async function openTrainingSources(
+  root: string,
+  caseIds?: string[]
+): Promise<{ manifest: CHBManifest; sources: TrainingRecordingSource[] }> {
+  const manifest = await CHBDatasetIndexer.buildManifest(createFileSystemSource(root), root, { caseIds });
+
+  const sources: TrainingRecordingSource[] = [];
+  for (const entry of manifest.cases) {
+    for (let i = 0; i < entry.files.length; i++) {
+      const file = entry.files[i];
+      if (file.headerSource !== 'edf') continue;
+
+      const reader = await CHBEDFStreamReader.open(await openDatasetBlob(root, file.path), file.fileName);
+      const missing = TrainingPipeline.missingChannels(TrainingPipeline.channelLabelsOf(reader), DEFAULT_EEG_CHANNELS);
+      if (missing.length > 0) {
+        console.warn(`⚠️ Skipping ${file.fileName}: no ${missing.join(', ')} channel`);
+        continue;
+      }
+
+      sources.push(TrainingPipeline.fromEDFReader(
+        reader,
+        entry.caseId,
+        TrainingPipeline.seizuresOnTimeline(entry.files, i),
+        DEFAULT_EEG_CHANNELS,
+        file.clockStartSeconds
+      ));
+    }
+  }
+
+  if (sources.length === 0) {
+    throw new Error(`No readable EDF files found under ${root}`);
+  }
+  return { manifest, sources };
+}
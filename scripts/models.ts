@@ -0,0 +1,79 @@
+/**
+ * Model Registry Command - Inspect trained model versions on disk
+ *
+ * Purpose: List, inspect, compare and remove the versions written by
+ * `npm run train:model`, without opening the browser
+ *
+ * Usage:
+ *   npm run models -- list [--dir models]
+ *   npm run models -- show <version> [--dir models]      (loads the weights to check them)
+ *   npm run models -- compare <baseline> <candidate> [--dir models]
+ *   npm run models -- remove <version> [--dir models]
+ */
+
+import { resolve } from 'node:path';
+import { ModelRegistry, type ModelMetadata } from '../src/ai/models/modelRegistry';
+import { createFileSystemModelStore } from './lib/fileSystemModelStore';
+
+const USAGE = 'Usage: npm run models -- list | show <version> | compare <baseline> <candidate> | remove <version> [--dir models]';
+
+function describe(metadata: ModelMetadata): string {
+  const { metrics } = metadata;
+  const validation = metrics.valAccuracy !== undefined
+    ? `, val_loss ${metrics.valLoss?.toFixed(4)}, val_acc ${metrics.valAccuracy.toFixed(3)}`
+    : '';
+  return `${metadata.version.padEnd(5)} ${metadata.createdAt}  ${metadata.trainingCases.join(',') || '-'}  ` +
+    `${metrics.epochs} epochs, loss ${metrics.loss.toFixed(4)}, acc ${metrics.accuracy.toFixed(3)}${validation}`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dirIndex = args.indexOf('--dir');
+  const root = resolve(dirIndex >= 0 ? args.splice(dirIndex, 2)[1] ?? 'models' : 'models');
+  const [command, ...versions] = args;
+  const store = createFileSystemModelStore(root);
+
+  switch (command) {
+    case 'list': {
+      const models = await ModelRegistry.list(store);
+      if (models.length === 0) console.log(`📭 No models in ${root}`);
+      models.forEach(metadata => console.log(describe(metadata)));
+      break;
+    }
+    case 'show': {
+      if (!versions[0]) throw new Error(USAGE);
+      const { metadata } = await store.load(versions[0]);
+      console.log(JSON.stringify(metadata, null, 2));
+      const model = await ModelRegistry.load(store, versions[0]);
+      console.log(`✅ Weights load: ${model.model.countParams().toLocaleString()} parameters`);
+      model.dispose();
+      break;
+    }
+    case 'compare': {
+      if (versions.length !== 2) throw new Error(USAGE);
+      const [baseline, candidate] = await Promise.all(versions.map(version => store.load(version)));
+      const comparison = ModelRegistry.compare(baseline.metadata, candidate.metadata);
+
+      console.log(describe(baseline.metadata));
+      console.log(describe(candidate.metadata));
+      for (const [metric, delta] of Object.entries(comparison.deltas)) {
+        console.log(`   ${metric.padEnd(12)} ${delta >= 0 ? '+' : ''}${delta.toFixed(4)}`);
+      }
+      if (!comparison.sameChannels) console.log('⚠️ Channel lists differ');
+      if (!comparison.sameWindowConfig) console.log('⚠️ Window / labelling configs differ - metrics are not directly comparable');
+      break;
+    }
+    case 'remove':
+      if (!versions[0]) throw new Error(USAGE);
+      await store.remove(versions[0]);
+      console.log(`🗑️ Removed ${versions[0]}`);
+      break;
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
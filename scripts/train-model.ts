@@ -0,0 +1,138 @@
+/**
+ * Headless Training Command - Train the CNN-LSTM on a local CHB-MIT copy
+ *
+ * Purpose: Run the same TrainingPipeline as the AITrainingPipeline page from
+ * the command line, so long runs can go overnight on a CPU-only machine
+ * Learning Focus: Seizure times from every file of a case are mapped onto each
+ * file's own time axis (via the summary clock times), so the pre-ictal horizon
+ * can reach back into the previous recording
+ *
+ * Usage:
+ *   npm run train:model -- <dataset-dir> [--cases chb01,chb02] [--epochs 20]
+ *                          [--horizon-minutes 30] [--guard-minutes 60]
+ *                          [--balance undersample|oversample|none]
+ *                          [--max-windows 300] [--input raw|spectrogram]
+ *                          [--seed 42] [--out models]
+ *
+ * Each run is saved as the next version (models/v1, models/v2, ...) - see
+ * scripts/models.ts to list and compare them.
+ */
+
+import { join, resolve } from 'node:path';
+import { CNNLSTMModel } from '../src/ai/models/cnnLstmModel';
+import { ModelRegistry } from '../src/ai/models/modelRegistry';
+import {
+  DEFAULT_TRAINING_CONFIG,
+  TrainingPipeline,
+  type BalanceStrategy,
+  type TrainingConfig
+} from '../src/ai/training/trainingPipeline';
+import { DEFAULT_EEG_CHANNELS } from '../src/lib/aiSeizurePrediction';
+import { createFileSystemModelStore } from './lib/fileSystemModelStore';
+import { openTrainingSources } from './lib/nodeDatasetSource';
+
+interface TrainOptions {
+  datasetDir: string;
+  outDir: string;
+  caseIds?: string[];
+  inputType: 'raw' | 'spectrogram';
+  training: TrainingConfig;
+}
+
+const USAGE = 'Usage: npm run train:model -- <dataset-dir> [--cases chb01] [--epochs 20] [--horizon-minutes 30] ' +
+  '[--guard-minutes 60] [--balance undersample|oversample|none] [--max-windows 300] [--input raw|spectrogram] [--seed 42] [--out registry-dir]';
+
+function parseArgs(argv: string[]): TrainOptions {
+  const training: TrainingConfig = { ...DEFAULT_TRAINING_CONFIG };
+  const options: Partial<TrainOptions> = { outDir: 'models', inputType: 'raw', training };
+
+  const number = (value: string | undefined, name: string) => {
+    const parsed = Number(value);
+    if (value === undefined || !Number.isFinite(parsed)) throw new Error(`${name} needs a number\n${USAGE}`);
+    return parsed;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--cases':
+        options.caseIds = (argv[++i] ?? '').split(',').map(caseId => caseId.trim().toLowerCase()).filter(Boolean);
+        break;
+      case '--epochs':
+        training.epochs = number(argv[++i], arg);
+        break;
+      case '--horizon-minutes':
+        training.preictalHorizonSeconds = number(argv[++i], arg) * 60;
+        break;
+      case '--guard-minutes':
+        training.interictalGuardSeconds = number(argv[++i], arg) * 60;
+        break;
+      case '--balance':
+        training.balance = argv[++i] as BalanceStrategy;
+        if (!['undersample', 'oversample', 'none'].includes(training.balance)) throw new Error(USAGE);
+        break;
+      case '--max-windows':
+        training.maxWindowsPerClass = number(argv[++i], arg);
+        break;
+      case '--seed':
+        training.seed = number(argv[++i], arg);
+        break;
+      case '--input':
+        options.inputType = argv[++i] === 'spectrogram' ? 'spectrogram' : 'raw';
+        break;
+      case '--out':
+        options.outDir = argv[++i];
+        break;
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}\n${USAGE}`);
+        options.datasetDir = arg;
+    }
+  }
+
+  if (!options.datasetDir || !options.outDir) {
+    throw new Error(USAGE);
+  }
+
+  return options as TrainOptions;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const root = resolve(options.datasetDir);
+  const { training } = options;
+
+  const { manifest, sources } = await openTrainingSources(root, options.caseIds);
+
+  const dataset = await TrainingPipeline.buildDataset(sources, training);
+  const model = await CNNLSTMModel.create({
+    inputType: options.inputType,
+    channels: DEFAULT_EEG_CHANNELS.length,
+    samplingRate: sources[0].samplingRate,
+    windowSeconds: training.windowSize,
+    seed: training.seed
+  });
+
+  // Ctrl+C finishes the current batch, then saves what has been learned so far
+  let interrupted = false;
+  process.once('SIGINT', () => {
+    console.log('\n⏹️ Stopping after the current batch...');
+    interrupted = true;
+  });
+
+  const result = await TrainingPipeline.train(model, dataset, training, { shouldStop: () => interrupted });
+
+  const metadata = await ModelRegistry.save(createFileSystemModelStore(resolve(options.outDir)), model, {
+    trainingCases: manifest.cases.map(entry => entry.caseId),
+    trainingFiles: sources.map(source => source.id),
+    windowConfig: ModelRegistry.windowConfigFrom(training),
+    channels: [...DEFAULT_EEG_CHANNELS],
+    metrics: ModelRegistry.metricsFromTraining(result, dataset)
+  });
+  console.log(`💾 Model ${metadata.version} saved to ${join(resolve(options.outDir), metadata.version)}`);
+  model.dispose();
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
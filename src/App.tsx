@@ -16,11 +16,14 @@ import DoctorLogin from "./pages/DoctorLogin";
 import DoctorDashboard from "./pages/DoctorDashboard";
 import PatientDetails from "./pages/PatientDetails";
 import NotFound from "./pages/NotFound";
+import AcknowledgeAlert from "./pages/AcknowledgeAlert";
 import { SimpleCHBTest } from "./ai/components/SimpleCHBTest";
 import { SeizureAPITester } from "./ai/components/SeizureAPITester";
 import { BulkSeizureCollector } from "./ai/components/BulkSeizureCollector";
 import { DatabaseTester } from "./ai/components/DatabaseTester";
 import { AITestingDashboard } from "./ai/components/AITestingDashboard";
+import AITrainingPipeline from "./ai/components/AITrainingPipeline";
+import RealTimeAIPredictor from "./ai/components/RealTimeAIPredictor";
 
 const queryClient = new QueryClient();
 
@@ -36,6 +39,7 @@ const App = () => (
               <Routes>
                 <Route path="/auth" element={<Auth />} />
                 <Route path="/doctor-login" element={<DoctorLogin />} />
+                <Route path="/acknowledge" element={<AcknowledgeAlert />} />
                 <Route path="/doctor-dashboard" element={<DoctorDashboard />} />
                 <Route path="/patient-details/:patientId" element={<PatientDetails />} />
                 <Route path="/" element={
@@ -86,6 +90,18 @@ const App = () => (
                     <AITestingDashboard />
                   </ProtectedRoute>
                 } />
+                <Route path="/ai-training" element={
+                  <ProtectedRoute>
+                    <Header />
+                    <AITrainingPipeline />
+                  </ProtectedRoute>
+                } />
+                <Route path="/ai-realtime" element={
+                  <ProtectedRoute>
+                    <Header />
+                    <RealTimeAIPredictor />
+                  </ProtectedRoute>
+                } />
                 <Route path="/database-test" element={
                   <ProtectedRoute>
                     <Header />
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -11,6 +11,7 @@ import {
   EEGData,
   SeizurePredictionUtils 
 } from '@/lib/aiSeizurePrediction';
+import { predictionWorker, PredictionWorkerClient } from '../workers/predictionWorkerClient';
 
 export const AITestingDashboard: React.FC = () => {
   const [isInitialized, setIsInitialized] = useState(false);
@@ -19,6 +20,12 @@ export const AITestingDashboard: React.FC = () => {
   const [currentEEG, setCurrentEEG] = useState<EEGData | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [initProgress, setInitProgress] = useState(0);
+  const [modelVersion, setModelVersion] = useState<string | null>(null);
+  const [modelTrained, setModelTrained] = useState(true);
+  const batchController = useRef<AbortController | null>(null);
+
+  // Cancel a running batch when leaving the page
+  useEffect(() => () => batchController.current?.abort(), []);
 
   const initializeAI = async () => {
     setIsLoading(true);
@@ -28,22 +35,11 @@ export const AITestingDashboard: React.FC = () => {
     try {
       console.log('🧠 Initializing AI Seizure Prediction System...');
       
-      // Simulate progressive loading
-      const steps = [
-        'Initializing CNN layers...',
-        'Loading LSTM components...',
-        'Loading trained weights...',
-        'Optimizing for inference...',
-        'Validating model architecture...'
-      ];
-      
-      for (let i = 0; i < steps.length; i++) {
-        console.log(`🔄 ${steps[i]}`);
-        setInitProgress((i + 1) * 20);
-        await new Promise(resolve => setTimeout(resolve, 400));
-      }
-      
-      await aiSeizurePrediction.initialize();
+      // Newest saved model from the browser registry (untrained when none), loaded in the prediction worker
+      setInitProgress(30);
+      await predictionWorker.initializeFromRegistry();
+      setModelVersion(predictionWorker.getModelVersion());
+      setModelTrained(predictionWorker.isTrained());
       setIsInitialized(true);
       setInitProgress(100);
       console.log('✅ AI System fully initialized');
@@ -72,7 +68,7 @@ export const AITestingDashboard: React.FC = () => {
     setIsLoading(true);
     try {
       console.log('🤖 Running AI prediction...');
-      const prediction = await aiSeizurePrediction.predict(currentEEG);
+      const prediction = await predictionWorker.predict(currentEEG);
       setPredictions(prev => [prediction, ...prev].slice(0, 10));
       
       console.log(`🎯 Prediction: ${SeizurePredictionUtils.formatProbability(prediction.seizureProbability)} (${prediction.riskLevel})`);
@@ -89,27 +85,29 @@ export const AITestingDashboard: React.FC = () => {
     
     setIsLoading(true);
     setPredictions([]);
+    const controller = new AbortController();
+    batchController.current = controller;
     
     try {
       console.log('🔬 Running batch AI test...');
       
-      // Test 5 normal and 5 seizure patterns
-      for (let i = 0; i < 10; i++) {
-        const isSeizure = i >= 5;
-        const eeg = aiSeizurePrediction.generateSyntheticEEG(3, isSeizure);
-        const prediction = await aiSeizurePrediction.predict(eeg);
-        
+      // Test 5 normal and 5 seizure patterns; all windows are queued in the worker at once
+      const windows = Array.from({ length: 10 }, (_, i) => aiSeizurePrediction.generateSyntheticEEG(3, i >= 5));
+      await Promise.all(windows.map(async eeg => {
+        const prediction = await predictionWorker.predict(eeg, { signal: controller.signal });
         setPredictions(prev => [prediction, ...prev]);
-        
-        // Small delay to show progress
-        await new Promise(resolve => setTimeout(resolve, 200));
-      }
+      }));
       
       console.log('✅ Batch test completed');
       
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Batch test failed');
+      if (PredictionWorkerClient.isCancellation(err)) {
+        console.log('⏹️ Batch test cancelled');
+      } else {
+        setError(err instanceof Error ? err.message : 'Batch test failed');
+      }
     } finally {
+      batchController.current = null;
       setIsLoading(false);
     }
   };
@@ -117,7 +115,6 @@ export const AITestingDashboard: React.FC = () => {
   const clearTests = () => {
     setPredictions([]);
     setCurrentEEG(null);
-    aiSeizurePrediction.clearHistory();
     console.log('🧹 Test results cleared');
   };
 
@@ -169,6 +166,15 @@ export const AITestingDashboard: React.FC = () => {
                 <CheckCircle className="h-4 w-4 mr-1" />
                 AI Model Ready
               </Badge>
+              {modelTrained ? (
+                <Badge variant="outline">
+                  Model {modelVersion ?? 'unsaved'}
+                </Badge>
+              ) : (
+                <Badge variant="destructive">
+                  Untrained model - predictions held at LOW
+                </Badge>
+              )}
             </div>
           )}
 
@@ -231,6 +237,14 @@ export const AITestingDashboard: React.FC = () => {
                   </>
                 )}
               </Button>
+              {isLoading && batchController.current && (
+                <Button
+                  onClick={() => batchController.current?.abort()}
+                  variant="outline"
+                >
+                  Stop Batch
+                </Button>
+              )}
             </div>
 
             {/* Current EEG Info */}
@@ -308,6 +322,15 @@ export const AITestingDashboard: React.FC = () => {
                       <span className="text-sm text-gray-600">
                         Confidence: {SeizurePredictionUtils.formatProbability(prediction.confidence)}
                       </span>
+                      {prediction.untrained ? (
+                        <Badge variant="destructive" className="text-xs">
+                          untrained
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-xs">
+                          {prediction.modelVersion ?? 'unsaved model'}
+                        </Badge>
+                      )}
                     </div>
                     <div className="flex items-center gap-2 text-xs text-gray-500">
                       <Clock className="h-3 w-3" />
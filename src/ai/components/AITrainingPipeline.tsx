@@ -1,13 +1,556 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Legend, Tooltip } from 'recharts';
+import { Brain, FileUp, Play, Square, CheckCircle, Save, Package, FlaskConical, Download } from 'lucide-react';
+import { CHBEDFStreamReader } from '../data/chbEDFStreamReader';
+import { CHBSummaryParser, type CHBSummary } from '../data/chbSummaryParser';
+import { CrossValidation, type CrossValidationScheme, type EvaluationReport } from '../evaluation/crossValidation';
+import { CNNLSTMModel } from '../models/cnnLstmModel';
+import { IndexedDBModelStore, ModelRegistry, type ModelMetadata } from '../models/modelRegistry';
+import {
+  DEFAULT_TRAINING_CONFIG,
+  TrainingPipeline,
+  type BalanceStrategy,
+  type EpochProgress,
+  type TrainingConfig,
+  type TrainingDataset,
+  type TrainingResult,
+  type TrainingRecordingSource,
+  type WindowLabel
+} from '../training/trainingPipeline';
+import { predictionWorker } from '../workers/predictionWorkerClient';
+import { aiSeizurePrediction, DEFAULT_EEG_CHANNELS } from '@/lib/aiSeizurePrediction';
+
+/**
+ * Seizure intervals for an EDF file, taken from whichever summary lists it
+ */
+function seizuresFor(fileName: string, summaries: CHBSummary[]) {
+  for (const summary of summaries) {
+    const index = summary.files.findIndex(file => file.fileName === fileName);
+    if (index === -1) continue;
+
+    const files = summary.files.map(file => ({ clockStartSeconds: file.startSeconds, seizures: file.seizures }));
+    return {
+      caseId: summary.caseId,
+      seizures: TrainingPipeline.seizuresOnTimeline(files, index),
+      clockStartSeconds: summary.files[index].startSeconds
+    };
+  }
+  return null;
+}
+
+function downloadFile(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const modelStore = new IndexedDBModelStore();
 
 const AITrainingPipeline: React.FC = () => {
+  const [edfFiles, setEdfFiles] = useState<File[]>([]);
+  const [summaries, setSummaries] = useState<CHBSummary[]>([]);
+  const [epochs, setEpochs] = useState(DEFAULT_TRAINING_CONFIG.epochs);
+  const [horizonMinutes, setHorizonMinutes] = useState(DEFAULT_TRAINING_CONFIG.preictalHorizonSeconds / 60);
+  const [guardMinutes, setGuardMinutes] = useState(DEFAULT_TRAINING_CONFIG.interictalGuardSeconds / 60);
+  const [balance, setBalance] = useState<BalanceStrategy>(DEFAULT_TRAINING_CONFIG.balance);
+  const [maxWindows, setMaxWindows] = useState(DEFAULT_TRAINING_CONFIG.maxWindowsPerClass);
+
+  const [isTraining, setIsTraining] = useState(false);
+  const [history, setHistory] = useState<EpochProgress[]>([]);
+  const [counts, setCounts] = useState<Record<WindowLabel, number> | null>(null);
+  const [logs, setLogs] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [trainedModel, setTrainedModel] = useState<CNNLSTMModel | null>(null);
+  const [isDeployed, setIsDeployed] = useState(false);
+  const [lastRun, setLastRun] = useState<{ config: TrainingConfig; dataset: TrainingDataset; result: TrainingResult; sources: TrainingRecordingSource[] } | null>(null);
+  const [savedModels, setSavedModels] = useState<ModelMetadata[]>([]);
+  const [activeVersion, setActiveVersion] = useState<string | null>(aiSeizurePrediction.getModelVersion());
+  const [scheme, setScheme] = useState<CrossValidationScheme>('leave-one-patient-out');
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const stopRequested = useRef(false);
+
+  const refreshSavedModels = async () => {
+    try {
+      setSavedModels(await ModelRegistry.list(modelStore));
+    } catch (err) {
+      console.error('❌ Could not list saved models:', err);
+    }
+  };
+
+  useEffect(() => {
+    refreshSavedModels();
+  }, []);
+
+  const log = (message: string) => {
+    console.log(message);
+    setLogs(prev => [...prev, message].slice(-100));
+  };
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    setError(null);
+
+    try {
+      const parsed = await Promise.all(
+        files.filter(file => file.name.toLowerCase().endsWith('.txt')).map(file => CHBSummaryParser.parseFile(file))
+      );
+      setEdfFiles(files.filter(file => file.name.toLowerCase().endsWith('.edf')));
+      setSummaries(parsed);
+      console.log(`📁 Selected ${files.length} files (${parsed.length} summaries)`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the selected files');
+    }
+  };
+
+  const trainingConfig = (): TrainingConfig => ({
+    ...DEFAULT_TRAINING_CONFIG,
+    epochs,
+    preictalHorizonSeconds: horizonMinutes * 60,
+    interictalGuardSeconds: guardMinutes * 60,
+    balance,
+    maxWindowsPerClass: maxWindows
+  });
+
+  const openSources = async (): Promise<TrainingRecordingSource[]> => {
+    const sources: TrainingRecordingSource[] = [];
+    for (const file of edfFiles) {
+      const reader = await CHBEDFStreamReader.open(file, file.name);
+      const labelled = seizuresFor(file.name, summaries);
+      if (!labelled) log(`⚠️ ${file.name} is not in any summary - treating it as seizure-free`);
+
+      const missing = TrainingPipeline.missingChannels(TrainingPipeline.channelLabelsOf(reader), DEFAULT_EEG_CHANNELS);
+      if (missing.length > 0) {
+        log(`⚠️ Skipping ${file.name}: no ${missing.join(', ')} channel`);
+        continue;
+      }
+
+      sources.push(TrainingPipeline.fromEDFReader(
+        reader,
+        labelled?.caseId ?? file.name.split('_')[0],
+        labelled?.seizures ?? [],
+        DEFAULT_EEG_CHANNELS,
+        labelled?.clockStartSeconds ?? null
+      ));
+    }
+    if (sources.length === 0) {
+      throw new Error('None of the EDF files has every channel the model uses');
+    }
+    return sources;
+  };
+
+  const startTraining = async () => {
+    setIsTraining(true);
+    setError(null);
+    setHistory([]);
+    setCounts(null);
+    setLogs([]);
+    setIsDeployed(false);
+    setReport(null);
+    stopRequested.current = false;
+
+    const config = trainingConfig();
+
+    try {
+      const sources = await openSources();
+
+      const callbacks = {
+        onLog: log,
+        onEpochEnd: (progress: EpochProgress) => setHistory(prev => [...prev, progress]),
+        shouldStop: () => stopRequested.current
+      };
+
+      const dataset = await TrainingPipeline.buildDataset(sources, config, callbacks);
+      setCounts(dataset.counts);
+
+      const model = await CNNLSTMModel.create({
+        channels: DEFAULT_EEG_CHANNELS.length,
+        samplingRate: sources[0].samplingRate,
+        windowSeconds: config.windowSize,
+        seed: config.seed
+      });
+      const result = await TrainingPipeline.train(model, dataset, config, callbacks);
+
+      // A deployed model now belongs to aiSeizurePrediction, which disposes it on replacement
+      if (trainedModel && !isDeployed) trainedModel.dispose();
+      setTrainedModel(model);
+      setLastRun({ config, dataset, result, sources });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Training failed');
+      console.error('❌ Training failed:', err);
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
+  const runCrossValidation = async () => {
+    setIsTraining(true);
+    setIsEvaluating(true);
+    setError(null);
+    setHistory([]);
+    setCounts(null);
+    setLogs([]);
+    setReport(null);
+    stopRequested.current = false;
+
+    try {
+      const sources = await openSources();
+      const result = await CrossValidation.run(sources, { scheme, training: trainingConfig() }, {
+        onLog: log,
+        onEpochEnd: progress => setHistory(prev => [...prev.filter(entry => entry.epoch < progress.epoch), progress]),
+        shouldStop: () => stopRequested.current
+      });
+      setReport(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Cross-validation failed');
+      console.error('❌ Cross-validation failed:', err);
+    } finally {
+      setIsTraining(false);
+      setIsEvaluating(false);
+    }
+  };
+
+  const deployModel = async () => {
+    if (!trainedModel) return;
+    // The prediction worker gets its own copy of the weights
+    await predictionWorker.initialize(trainedModel);
+    await aiSeizurePrediction.initialize(trainedModel);
+    setIsDeployed(true);
+    setActiveVersion(trainedModel.version);
+    console.log('✅ Trained model is now used for predictions');
+  };
+
+  const saveModel = async () => {
+    if (!trainedModel || !lastRun) return;
+    setError(null);
+
+    try {
+      await ModelRegistry.save(modelStore, trainedModel, {
+        trainingCases: [...new Set(lastRun.sources.map(source => source.caseId))],
+        trainingFiles: lastRun.sources.map(source => source.id),
+        windowConfig: ModelRegistry.windowConfigFrom(lastRun.config),
+        channels: [...DEFAULT_EEG_CHANNELS],
+        metrics: ModelRegistry.metricsFromTraining(lastRun.result, lastRun.dataset)
+      });
+      if (isDeployed) {
+        setActiveVersion(trainedModel.version);
+        // Reload the worker's copy so its predictions carry the new version
+        await predictionWorker.initializeFromRegistry(trainedModel.version);
+      }
+      await refreshSavedModels();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Saving the model failed');
+    }
+  };
+
+  const loadSavedModel = async (version: string) => {
+    setError(null);
+    try {
+      await predictionWorker.initializeFromRegistry(version);
+      await aiSeizurePrediction.initializeFromRegistry(modelStore, version);
+      setActiveVersion(version);
+      if (isDeployed) {
+        // Replaced (and disposed) by the loaded version
+        setTrainedModel(null);
+        setIsDeployed(false);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Loading ${version} failed`);
+    }
+  };
+
+  const removeSavedModel = async (version: string) => {
+    await modelStore.remove(version);
+    console.log(`🗑️ Removed model ${version}`);
+    await refreshSavedModels();
+  };
+
+  const chartData = history.map(progress => ({
+    epoch: progress.epoch,
+    loss: progress.loss,
+    val_loss: progress.valLoss,
+    accuracy: progress.accuracy,
+    val_accuracy: progress.valAccuracy
+  }));
+  const latest = history[history.length - 1];
+
   return (
-    <div className="container mx-auto p-4">
-      <h1 className="text-3xl font-bold mb-4">AI Training Pipeline</h1>
-      <div className="bg-white p-6 rounded-lg shadow">
-        <p className="text-lg">AI Training component is working!</p>
-        <p className="mt-4 text-gray-600">This is the AI training interface for the CNN-LSTM seizure prediction model.</p>
-      </div>
+    <div className="p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Brain className="h-6 w-6 text-blue-600" />
+            CNN-LSTM Training Pipeline
+          </CardTitle>
+          <CardDescription>
+            Train the seizure prediction model on CHB-MIT EDF recordings, labelled from the case summary files
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="training-files" className="flex items-center gap-2">
+              <FileUp className="h-4 w-4" />
+              EDF recordings and chbXX-summary.txt files
+            </Label>
+            <Input id="training-files" type="file" multiple accept=".edf,.txt" onChange={handleFiles} disabled={isTraining} />
+            <div className="flex gap-2">
+              <Badge variant="outline">{edfFiles.length} EDF files</Badge>
+              <Badge variant="outline">{summaries.length} summaries</Badge>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="epochs">Epochs</Label>
+              <Input id="epochs" type="number" min={1} value={epochs} onChange={e => setEpochs(Number(e.target.value))} disabled={isTraining} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="horizon">Pre-ictal horizon (min)</Label>
+              <Input id="horizon" type="number" min={1} value={horizonMinutes} onChange={e => setHorizonMinutes(Number(e.target.value))} disabled={isTraining} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="guard">Interictal guard (min)</Label>
+              <Input id="guard" type="number" min={0} value={guardMinutes} onChange={e => setGuardMinutes(Number(e.target.value))} disabled={isTraining} />
+            </div>
+            <div className="space-y-1">
+              <Label>Class balancing</Label>
+              <Select value={balance} onValueChange={value => setBalance(value as BalanceStrategy)} disabled={isTraining}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="undersample">Undersample</SelectItem>
+                  <SelectItem value="oversample">Oversample</SelectItem>
+                  <SelectItem value="none">None</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="max-windows">Max windows / class</Label>
+              <Input id="max-windows" type="number" min={1} value={maxWindows} onChange={e => setMaxWindows(Number(e.target.value))} disabled={isTraining} />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={startTraining} disabled={isTraining || edfFiles.length === 0} className="flex-1">
+              <Play className="h-5 w-5 mr-2" />
+              {isTraining ? 'Training...' : 'Start Training'}
+            </Button>
+            <Select value={scheme} onValueChange={value => setScheme(value as CrossValidationScheme)} disabled={isTraining}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="leave-one-patient-out">Leave one patient out</SelectItem>
+                <SelectItem value="leave-one-seizure-out">Leave one seizure out</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="secondary" onClick={runCrossValidation} disabled={isTraining || edfFiles.length === 0}>
+              <FlaskConical className="h-4 w-4 mr-2" />
+              {isEvaluating ? 'Cross-validating...' : 'Cross-Validate'}
+            </Button>
+            <Button variant="outline" onClick={() => { stopRequested.current = true; }} disabled={!isTraining}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          </div>
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-red-700">❌ Error: {error}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {(isTraining || history.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Training Progress</CardTitle>
+            {counts && (
+              <CardDescription>
+                Windows found: {counts.interictal} interictal, {counts.preictal} pre-ictal, {counts.ictal} ictal
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Progress value={latest ? (latest.epoch / latest.epochs) * 100 : 0} className="w-full" />
+              <p className="text-sm text-center text-gray-600">
+                {latest
+                  ? `Epoch ${latest.epoch}/${latest.epochs} - loss ${latest.loss.toFixed(4)}, accuracy ${(latest.accuracy * 100).toFixed(1)}%`
+                  : 'Preparing windows...'}
+              </p>
+            </div>
+
+            {chartData.length > 0 && (
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="epoch" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Line type="monotone" dataKey="loss" stroke="#2563eb" dot={false} />
+                    <Line type="monotone" dataKey="val_loss" stroke="#2563eb" strokeDasharray="4 4" dot={false} />
+                    <Line type="monotone" dataKey="accuracy" stroke="#16a34a" dot={false} />
+                    <Line type="monotone" dataKey="val_accuracy" stroke="#16a34a" strokeDasharray="4 4" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            {trainedModel && !isTraining && !report && (
+              <div className="flex items-center gap-4">
+                <Button onClick={deployModel} disabled={isDeployed}>
+                  Use for Predictions
+                </Button>
+                <Button variant="outline" onClick={saveModel} disabled={trainedModel.version !== null}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {trainedModel.version ? `Saved as ${trainedModel.version}` : 'Save Version'}
+                </Button>
+                {isDeployed && (
+                  <Badge variant="outline" className="text-green-600 border-green-600">
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Active model
+                  </Badge>
+                )}
+              </div>
+            )}
+
+            <div className="max-h-48 overflow-y-auto rounded-md bg-gray-50 p-3 font-mono text-xs space-y-1">
+              {logs.map((message, i) => (
+                <div key={i}>{message}</div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FlaskConical className="h-6 w-6 text-green-600" />
+              Cross-Validation ({report.scheme === 'leave-one-patient-out' ? 'leave one patient out' : 'leave one seizure out'})
+            </CardTitle>
+            <CardDescription>
+              Alarms at P ≥ {report.evaluation.threshold}, SPH {report.evaluation.sphSeconds}s, SOP {report.evaluation.sopSeconds / 60} min
+              {report.skippedFolds.length > 0 && ` · ${report.skippedFolds.length} folds skipped (${report.skippedFolds.map(fold => fold.name).join(', ')})`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4">Fold</th>
+                    <th className="py-2 pr-4">Sensitivity</th>
+                    <th className="py-2 pr-4">False / h</th>
+                    <th className="py-2 pr-4">Time in warning</th>
+                    <th className="py-2 pr-4">Mean horizon</th>
+                    <th className="py-2 pr-4">AUC</th>
+                    <th className="py-2 pr-4">vs random</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...report.folds.map(fold => ({ name: fold.name, metrics: fold.metrics })), { name: 'Overall', metrics: report.overall }].map(({ name, metrics }) => (
+                    <tr key={name} className={`border-b ${name === 'Overall' ? 'font-bold' : ''}`}>
+                      <td className="py-2 pr-4">{name}</td>
+                      <td className="py-2 pr-4">
+                        {metrics.sensitivity !== null ? `${(metrics.sensitivity * 100).toFixed(0)}% (${metrics.predictedSeizures}/${metrics.seizures})` : 'n/a'}
+                      </td>
+                      <td className="py-2 pr-4">{metrics.falsePredictionsPerHour.toFixed(2)}</td>
+                      <td className="py-2 pr-4">{(metrics.timeInWarning * 100).toFixed(1)}%</td>
+                      <td className="py-2 pr-4">
+                        {metrics.meanPredictionHorizonSeconds !== null ? `${(metrics.meanPredictionHorizonSeconds / 60).toFixed(1)} min` : 'n/a'}
+                      </td>
+                      <td className="py-2 pr-4">{metrics.auc !== null ? metrics.auc.toFixed(3) : 'n/a'}</td>
+                      <td className="py-2 pr-4">
+                        <Badge variant="outline" className={metrics.randomPredictor.significant ? 'text-green-600 border-green-600' : ''}>
+                          p = {metrics.randomPredictor.pValue.toFixed(3)}
+                        </Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => downloadFile(CrossValidation.toJSON(report), 'evaluation.json', 'application/json')}>
+                <Download className="h-4 w-4 mr-2" />
+                Export JSON
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => downloadFile(CrossValidation.toCSV(report), 'evaluation.csv', 'text/csv')}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Package className="h-6 w-6 text-purple-600" />
+            Saved Models ({savedModels.length})
+          </CardTitle>
+          <CardDescription>
+            Versions stored in this browser - the newest one is loaded by the AI dashboards
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {savedModels.length === 0 && (
+            <p className="text-sm text-gray-600">No saved versions yet - train a model and press Save Version.</p>
+          )}
+          {savedModels.map((metadata, i) => {
+            const previous = savedModels[i + 1];
+            const delta = previous ? ModelRegistry.compare(previous, metadata).deltas.valAccuracy : undefined;
+
+            return (
+              <div key={metadata.version} className="flex items-center justify-between p-3 border rounded-md">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold">{metadata.version}</span>
+                    {metadata.version === activeVersion && (
+                      <Badge variant="outline" className="text-green-600 border-green-600">Active</Badge>
+                    )}
+                    <span className="text-xs text-gray-500">{new Date(metadata.createdAt).toLocaleString()}</span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {metadata.trainingCases.join(', ')} · {metadata.metrics.epochs} epochs ·
+                    {' '}accuracy {(metadata.metrics.accuracy * 100).toFixed(1)}%
+                    {metadata.metrics.valAccuracy !== undefined && ` · validation ${(metadata.metrics.valAccuracy * 100).toFixed(1)}%`}
+                    {delta !== undefined && ` (${delta >= 0 ? '+' : ''}${(delta * 100).toFixed(1)} vs ${previous.version})`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => loadSavedModel(metadata.version)} disabled={metadata.version === activeVersion}>
+                    Load
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => removeSavedModel(metadata.version)}>
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
     </div>
   );
 };
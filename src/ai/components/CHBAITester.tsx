@@ -10,6 +10,7 @@ import {
   SeizurePredictionUtils,
   EEGData 
 } from '@/lib/aiSeizurePrediction';
+import { IndexedDBModelStore } from '../models/modelRegistry';
 
 interface CHBTestResult {
   caseId: string;
@@ -34,7 +35,7 @@ export const CHBAITester: React.FC = () => {
     
     try {
       console.log('🧠 Initializing AI for CHB testing...');
-      await aiSeizurePrediction.initialize();
+      await aiSeizurePrediction.initializeFromRegistry(new IndexedDBModelStore());
       setIsInitialized(true);
       console.log('✅ AI ready for CHB data testing');
     } catch (err) {
@@ -228,10 +229,17 @@ export const CHBAITester: React.FC = () => {
               )}
             </Button>
           ) : (
-            <Badge variant="outline" className="text-green-600 border-green-600">
-              <CheckCircle className="h-4 w-4 mr-1" />
-              AI Ready for CHB Testing
-            </Badge>
+            <div className="flex items-center gap-4">
+              <Badge variant="outline" className="text-green-600 border-green-600">
+                <CheckCircle className="h-4 w-4 mr-1" />
+                AI Ready for CHB Testing
+              </Badge>
+              {!aiSeizurePrediction.isTrained() && (
+                <Badge variant="destructive">
+                  Untrained model - predictions held at LOW
+                </Badge>
+              )}
+            </div>
           )}
 
           {/* CHB Data Loading */}
@@ -380,6 +388,16 @@ export const CHBAITester: React.FC = () => {
                       <span className="text-lg font-bold">
                         {SeizurePredictionUtils.formatProbability(result.aiPrediction.seizureProbability)}
                       </span>
+
+                      {result.aiPrediction.untrained ? (
+                        <Badge variant="destructive" className="text-xs">
+                          untrained
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-xs">
+                          {result.aiPrediction.modelVersion ?? 'unsaved model'}
+                        </Badge>
+                      )}
                     </div>
                     
                     <div className="text-right text-sm">
@@ -18,25 +18,17 @@ import {
   Download,
   Presentation
 } from 'lucide-react';
-import { CHBDatabaseService } from '../data/chbDatabaseService';
+import { CHBDatabaseService, type CHBDatabaseStats, type FailedSeizureRecord } from '../data/chbDatabaseService';
 import { getSeizureStats } from '../data/chbSeizureData';
 
-interface DatabaseStats {
-  totalSeizures: number;
-  uniquePatients: number;
-  avgDuration: number;
-  completedCases: number;
-  databaseConnected: boolean;
-}
-
 export const DatabaseTester: React.FC = () => {
-  const [stats, setStats] = useState<DatabaseStats | null>(null);
+  const [stats, setStats] = useState<CHBDatabaseStats | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingData, setLoadingData] = useState(false);
   const [message, setMessage] = useState<string>('');
   const [messageType, setMessageType] = useState<'success' | 'error' | 'info'>('info');
   const [localStats] = useState(getSeizureStats());
-  const [failedRecords, setFailedRecords] = useState<any[]>([]);
+  const [failedRecords, setFailedRecords] = useState<FailedSeizureRecord[]>([]);
 
   // Load initial stats
   useEffect(() => {
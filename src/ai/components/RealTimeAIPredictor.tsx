@@ -1,13 +1,232 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Activity, Play, Square, Radio, Eye } from 'lucide-react';
+import { EEGModal } from '@/components/EEGModal';
+import { CHBEDFStreamReader } from '../data/chbEDFStreamReader';
+import { StreamingPredictor, type RiskTransition } from '../realtime/streamingPredictor';
+import { predictionWorker } from '../workers/predictionWorkerClient';
+import {
+  RISK_LEVEL_THRESHOLDS,
+  SeizurePredictionUtils,
+  type RiskLevel
+} from '@/lib/aiSeizurePrediction';
+
+const CHART_POINTS = 120;
 
 const RealTimeAIPredictor: React.FC = () => {
+  const [file, setFile] = useState<File | null>(null);
+  const [speed, setSpeed] = useState('1');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [riskLevel, setRiskLevel] = useState<RiskLevel>('LOW');
+  const [points, setPoints] = useState<{ time: number; probability: number }[]>([]);
+  const [transitions, setTransitions] = useState<RiskTransition[]>([]);
+  const [progress, setProgress] = useState({ time: 0, duration: 0 });
+  const [modelVersion, setModelVersion] = useState<string | null>(null);
+  const [modelTrained, setModelTrained] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [viewingEEG, setViewingEEG] = useState(false);
+  const stopRequested = useRef(false);
+
+  // Stop a running replay when leaving the page
+  useEffect(() => () => { stopRequested.current = true; }, []);
+
+  const startReplay = async () => {
+    if (!file) return;
+
+    setIsStreaming(true);
+    setError(null);
+    setPoints([]);
+    setTransitions([]);
+    setRiskLevel('LOW');
+    stopRequested.current = false;
+
+    try {
+      // Inference runs in the prediction worker so the chart keeps animating
+      if (!predictionWorker.isReady()) {
+        await predictionWorker.initializeFromRegistry();
+      }
+      setModelVersion(predictionWorker.getModelVersion());
+      setModelTrained(predictionWorker.isTrained());
+
+      const reader = await CHBEDFStreamReader.open(file, file.name);
+      const streaming = new StreamingPredictor(predictionWorker, {
+        samplingRate: reader.header.signals.find(signal => !signal.isAnnotation)?.samplingRate ?? 256
+      });
+
+      streaming.on('prediction', ({ streamTime, prediction }) => {
+        setPoints(prev => [...prev, { time: Math.round(streamTime), probability: prediction.seizureProbability }].slice(-CHART_POINTS));
+      });
+      streaming.on('riskchange', transition => {
+        setRiskLevel(transition.to);
+        setTransitions(prev => [transition, ...prev].slice(0, 20));
+      });
+      streaming.on('error', err => setError(err.message));
+
+      await StreamingPredictor.replay(reader, streaming, {
+        speed: speed === 'max' ? Infinity : Number(speed),
+        shouldStop: () => stopRequested.current,
+        onProgress: (time, duration) => setProgress({ time, duration })
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Replay failed');
+      console.error('❌ Replay failed:', err);
+    } finally {
+      setIsStreaming(false);
+    }
+  };
+
+  const latest = points[points.length - 1];
+
   return (
-    <div className="container mx-auto p-4">
-      <h1 className="text-3xl font-bold mb-4">Real-Time AI Predictor</h1>
-      <div className="bg-white p-6 rounded-lg shadow">
-        <p className="text-lg">AI Predictor component is working!</p>
-        <p className="mt-4 text-gray-600">This is the real-time seizure prediction interface using the trained CNN-LSTM model.</p>
-      </div>
+    <div className="p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Radio className="h-6 w-6 text-blue-600" />
+            Real-Time AI Predictor
+          </CardTitle>
+          <CardDescription>
+            Replay an EDF recording as a live stream - the model runs every second on the latest 5 s window,
+            and the risk level only changes when 3 of the last 5 predictions agree
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="replay-file">EDF recording</Label>
+              <Input
+                id="replay-file"
+                type="file"
+                accept=".edf"
+                onChange={e => setFile(e.target.files?.[0] ?? null)}
+                disabled={isStreaming}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Replay speed</Label>
+              <Select value={speed} onValueChange={setSpeed} disabled={isStreaming}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">Real time</SelectItem>
+                  <SelectItem value="2">2x</SelectItem>
+                  <SelectItem value="10">10x</SelectItem>
+                  <SelectItem value="max">As fast as possible</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={startReplay} disabled={isStreaming || !file} className="flex-1">
+              <Play className="h-5 w-5 mr-2" />
+              {isStreaming ? 'Streaming...' : 'Start Replay'}
+            </Button>
+            <Button variant="outline" onClick={() => { stopRequested.current = true; }} disabled={!isStreaming}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+            <Button variant="outline" onClick={() => setViewingEEG(true)} disabled={!file}>
+              <Eye className="h-4 w-4 mr-2" />
+              View EEG
+            </Button>
+          </div>
+
+          {progress.duration > 0 && (
+            <div className="space-y-1">
+              <Progress value={(progress.time / progress.duration) * 100} className="w-full" />
+              <p className="text-sm text-center text-gray-600">
+                {progress.time.toFixed(0)}s / {progress.duration.toFixed(0)}s
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-red-700">❌ Error: {error}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {(isStreaming || points.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <Activity className="h-6 w-6 text-green-600" />
+                Live Risk
+              </span>
+              <span className="flex items-center gap-2">
+                {modelTrained
+                  ? <Badge variant="outline">Model {modelVersion ?? 'unsaved'}</Badge>
+                  : <Badge variant="destructive">Untrained model</Badge>}
+                <Badge style={{ backgroundColor: SeizurePredictionUtils.getRiskLevelColor(riskLevel), color: 'white' }}>
+                  {riskLevel}
+                </Badge>
+              </span>
+            </CardTitle>
+            {!modelTrained && (
+              <CardDescription>
+                No trained model is saved, so every window is reported as LOW. Train and save one on the AI Training page first.
+              </CardDescription>
+            )}
+            {modelTrained && latest && (
+              <CardDescription>
+                Latest window: {SeizurePredictionUtils.formatProbability(latest.probability)} at {latest.time}s
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={points}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="time" unit="s" />
+                  <YAxis domain={[0, 1]} />
+                  {Object.entries(RISK_LEVEL_THRESHOLDS).map(([level, threshold]) => (
+                    <ReferenceLine
+                      key={level}
+                      y={threshold}
+                      stroke={SeizurePredictionUtils.getRiskLevelColor(level)}
+                      strokeDasharray="4 4"
+                    />
+                  ))}
+                  <Line type="monotone" dataKey="probability" stroke="#2563eb" dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Risk transitions</h4>
+              {transitions.length === 0 && <p className="text-sm text-gray-600">No transitions yet</p>}
+              {transitions.map((transition, i) => (
+                <div key={i} className="flex items-center gap-2 text-sm">
+                  <span className="text-gray-500 w-16">{transition.streamTime.toFixed(0)}s</span>
+                  <Badge variant="outline">{transition.from}</Badge>
+                  →
+                  <Badge style={{ backgroundColor: SeizurePredictionUtils.getRiskLevelColor(transition.to), color: 'white' }}>
+                    {transition.to}
+                  </Badge>
+                  <span className="text-gray-600">
+                    ({SeizurePredictionUtils.formatProbability(transition.prediction.seizureProbability)})
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <EEGModal isOpen={viewingEEG} onClose={() => setViewingEEG(false)} eegData={null} recording={file} />
     </div>
   );
 };
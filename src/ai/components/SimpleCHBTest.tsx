@@ -112,7 +112,7 @@ export function SimpleCHBTest() {
           numberOfRecords: chbData.header.numberOfRecords,
           durationOfRecord: chbData.header.durationOfRecord,
           numberOfSignals: chbData.header.numberOfSignals,
-          calculatedFileSize: ((chbData.header.headerBytes + (chbData.header.numberOfRecords * chbData.header.numberOfSignals * chbData.header.durationOfRecord * 256 * 2)) / 1024 / 1024).toFixed(1) + ' MB'
+          calculatedFileSize: ((chbData.header.headerBytes + (chbData.header.numberOfRecords * chbData.header.recordBytes)) / 1024 / 1024).toFixed(1) + ' MB'
         },
         signalData: chbData.signalData ? {
           sampleCount: chbData.signalData.sampleCount,
@@ -314,7 +314,7 @@ export function SimpleCHBTest() {
                       <div><strong>Total EEG Samples:</strong> {testResult.signalData.sampleCount.toLocaleString()}</div>
                       <div><strong>Time Points:</strong> {testResult.signalData.timePoints.toLocaleString()}</div>
                       <div><strong>Data Quality:</strong> {testResult.signalData.dataQuality}</div>
-                      <div><strong>Sample Type:</strong> {testResult.signalData.dataQuality === 'SAMPLE' ? 'First 1000 points' : 'Full dataset'}</div>
+                      <div><strong>Sample Type:</strong> {testResult.signalData.dataQuality === 'SAMPLE' ? 'Truncated file (complete records only)' : 'Full dataset'}</div>
                     </div>
                     
                     {testResult.signalData.channelSample.length > 0 && (
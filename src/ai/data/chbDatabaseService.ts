@@ -6,7 +6,8 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
-import { CHB_SEIZURE_DATABASE, getSeizuresForCase } from './chbSeizureData';
+import type { Database, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { CHB_SEIZURE_DATABASE, getSeizuresForCase, type SeizureRecord } from './chbSeizureData';
 
 // Initialize Supabase client with environment variables
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || 'http://127.0.0.1:54321';
@@ -14,8 +15,8 @@ const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY || 'eyJhbGciOiJIUzI1N
 
 console.log(`🔌 Connecting to Supabase: ${supabaseUrl}`);
 
-// Create a raw Supabase client for CHB data (bypasses type restrictions)
-const supabase = createClient(supabaseUrl, supabaseKey, {
+// Separate client so CHB data can come from a local database (VITE_SUPABASE_URL)
+const supabase = createClient<Database>(supabaseUrl, supabaseKey, {
   auth: {
     persistSession: true,
     autoRefreshToken: true,
@@ -45,29 +46,38 @@ const testConnection = async () => {
 // Run connection test
 testConnection();
 
-export interface DatabaseSeizureRecord {
-  id?: string;
-  case_id: string;
-  file_name: string;
-  seizure_number: number;
-  start_time: number;
-  end_time: number;
-  duration: number;
-  start_sample: number;
-  end_sample: number;
-  created_at?: string;
-  updated_at?: string;
+export type DatabaseSeizureRecord = Tables<'chb_seizure_events'>;
+
+// What the loader writes; ids and timestamps come from the database
+export type NewSeizureRecord = Omit<DatabaseSeizureRecord, 'id' | 'created_at' | 'updated_at'>;
+
+export interface FailedSeizureRecord extends NewSeizureRecord {
+  error: string;
+  index: number;                        // 1-based position in the batch
 }
 
-export interface CollectionStatus {
-  id?: string;
-  case_id: string;
-  total_seizures: number;
-  total_files: number;
-  collection_date?: string;
+export type CollectionStatus = Omit<TablesInsert<'chb_collection_status'>, 'status' | 'api_source'> & {
   status: 'pending' | 'collected' | 'error';
-  error_message?: string;
   api_source: 'api' | 'local' | 'manual';
+};
+
+// Shape of the JSON get_chb_stats() returns
+export type CHBDatabaseStats =
+  | {
+      databaseConnected: true;
+      totalSeizures: number;
+      uniquePatients: number;
+      avgDuration: number;
+      completedCases: number;
+    }
+  | { databaseConnected: false };
+
+export interface CHBLoadStats {
+  totalRecords: number;
+  stored: number;
+  errors: number;
+  patients: number;
+  failedRecords: FailedSeizureRecord[];
 }
 
 export class CHBDatabaseService {
@@ -75,7 +85,7 @@ export class CHBDatabaseService {
   /**
    * Store a single seizure record in database using secure function
    */
-  static async storeSeizureRecord(record: Omit<DatabaseSeizureRecord, 'id' | 'created_at' | 'updated_at'>): Promise<{ success: boolean; error?: string }> {
+  static async storeSeizureRecord(record: NewSeizureRecord): Promise<{ success: boolean; error?: string }> {
     try {
       console.log(`💾 Storing seizure: ${record.case_id} - ${record.file_name} - Seizure #${record.seizure_number}`);
       console.log(`📊 Record details:`, record);
@@ -110,12 +120,12 @@ export class CHBDatabaseService {
   /**
    * Store multiple seizure records in batch using individual function calls
    */
-  static async storeSeizuresBatch(records: Omit<DatabaseSeizureRecord, 'id' | 'created_at' | 'updated_at'>[]): Promise<{ success: boolean; stored: number; errors: number; failedRecords: any[] }> {
+  static async storeSeizuresBatch(records: NewSeizureRecord[]): Promise<{ success: boolean; stored: number; errors: number; failedRecords: FailedSeizureRecord[] }> {
     console.log(`💾 Batch storing ${records.length} seizure records using secure functions...`);
     
     let stored = 0;
     let errors = 0;
-    const failedRecords: any[] = [];
+    const failedRecords: FailedSeizureRecord[] = [];
 
     // Process each record individually using the secure function
     for (let i = 0; i < records.length; i++) {
@@ -128,7 +138,7 @@ export class CHBDatabaseService {
         console.log(`✅ SUCCESS: ${record.case_id} - ${record.file_name} - Seizure #${record.seizure_number}`);
       } else {
         errors++;
-        const failedRecord = {
+        const failedRecord: FailedSeizureRecord = {
           ...record,
           error: result.error,
           index: i + 1
@@ -153,13 +163,13 @@ export class CHBDatabaseService {
   /**
    * Load all CHB seizure data into database
    */
-  static async loadCHBDataToDatabase(): Promise<{ success: boolean; message: string; stats: any }> {
+  static async loadCHBDataToDatabase(): Promise<{ success: boolean; message: string; stats: CHBLoadStats | null }> {
     console.log(`🚀 Loading complete CHB-MIT dataset to database...`);
     console.log(`📊 Source: ${CHB_SEIZURE_DATABASE.length} seizure records`);
 
     try {
       // Convert TypeScript data to database format
-      const dbRecords: Omit<DatabaseSeizureRecord, 'id' | 'created_at' | 'updated_at'>[] = CHB_SEIZURE_DATABASE.map((record, index) => {
+      const dbRecords: NewSeizureRecord[] = CHB_SEIZURE_DATABASE.map((record, index) => {
         console.log(`🔄 Converting record ${index + 1}: ${record.caseId} - ${record.fileName} - Seizure #${record.seizureNumber}`);
         return {
           case_id: record.caseId,
@@ -225,7 +235,7 @@ export class CHBDatabaseService {
     } catch (error) {
       const message = `❌ Failed to load CHB data: ${error}`;
       console.log(message);
-      return { success: false, message, stats: {} };
+      return { success: false, message, stats: null };
     }
   }
 
@@ -266,7 +276,8 @@ export class CHBDatabaseService {
       const { data, error } = await supabase
         .from('chb_seizure_events')
         .select('*')
-        .order('case_id, seizure_number');
+        .order('case_id')
+        .order('seizure_number');
 
       if (error) {
         console.log(`❌ Database query error: ${error.message}`);
@@ -283,13 +294,23 @@ export class CHBDatabaseService {
   }
 
   /**
-   * Update collection status for a case (simplified version)
+   * Record how much of a case has been collected (one row per case)
    */
   static async updateCollectionStatus(status: Omit<CollectionStatus, 'id' | 'collection_date'>): Promise<void> {
     try {
       console.log(`📊 Updating collection status for ${status.case_id}`);
-      // Skip collection status for now to focus on seizure data
-      // This can be re-enabled once the main data loading works
+
+      const { error } = await supabase
+        .from('chb_collection_status')
+        .upsert({
+          ...status,
+          collection_date: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'case_id' });
+
+      if (error) {
+        console.log(`❌ Status update failed: ${error.message}`);
+      }
     } catch (error) {
       console.log(`❌ Status update failed: ${error}`);
     }
@@ -298,7 +319,7 @@ export class CHBDatabaseService {
   /**
    * Get database statistics using secure function
    */
-  static async getDatabaseStats(): Promise<any> {
+  static async getDatabaseStats(): Promise<CHBDatabaseStats> {
     try {
       const { data, error } = await supabase.rpc('get_chb_stats');
 
@@ -308,7 +329,7 @@ export class CHBDatabaseService {
       }
 
       console.log(`✅ Database stats retrieved:`, data);
-      return data;
+      return data as unknown as CHBDatabaseStats;
       
     } catch (error) {
       console.log(`❌ Stats error: ${error}`);
@@ -319,7 +340,7 @@ export class CHBDatabaseService {
   /**
    * Smart seizure fetcher - tries database first, falls back to local data
    */
-  static async getSeizures(caseId: string): Promise<any[]> {
+  static async getSeizures(caseId: string): Promise<Omit<SeizureRecord, 'caseId'>[]> {
     // Try database first
     const dbSeizures = await this.getSeizuresFromDatabase(caseId);
     
@@ -0,0 +1,275 @@
+/**
+ * CHB-MIT Dataset Index - Manifest of a local CHB-MIT copy
+ *
+ * Purpose: Walk a downloaded CHB-MIT directory (RECORDS, RECORDS-WITH-SEIZURES,
+ * SUBJECT-INFO, chbXX-summary.txt, .edf headers) and describe every case, file,
+ * duration, channel set and seizure interval in one manifest
+ * Learning Focus: Only EDF headers are read (a few KB per 40 MB file), so the
+ * whole 42 GB dataset can be indexed in seconds
+ *
+ * File access goes through CHBDatasetSource so the same indexer works with the
+ * Node filesystem (scripts/ingest-chb-dataset.ts) or browser File objects.
+ */
+
+import { CHBEDFReader } from './chbEDFReader';
+import { CHBSummaryParser, type CHBSummary } from './chbSummaryParser';
+import { WFDBAnnotationDecoder } from './wfdbAnnotationDecoder';
+import type { SeizureEvent } from './chbSeizureAPI';
+
+export interface CHBDatasetSource {
+  readText(path: string): Promise<string | null>;                                  // null if missing
+  readBytes(path: string, start: number, length: number): Promise<Uint8Array | null>;
+  fileSize(path: string): Promise<number | null>;
+  listDirectory(path: string): Promise<string[]>;                                   // Entry names, [] if missing
+}
+
+export interface CHBManifestFile {
+  fileName: string;              // e.g. "chb01_03.edf"
+  path: string;                  // Relative to the dataset root, e.g. "chb01/chb01_03.edf"
+  fileSize: number | null;
+  durationSeconds: number | null;
+  samplingRate: number | null;
+  channels: string[];
+  startTime: string | null;      // Clock time from the summary
+  endTime: string | null;
+  clockStartSeconds: number | null; // Seconds since midnight of the case's first day (orders files in time)
+  hasSeizures: boolean;
+  seizures: SeizureEvent[];
+  seizureSource: 'summary' | 'annotation' | 'none';
+  headerSource: 'edf' | 'summary';
+}
+
+export interface CHBManifestCase {
+  caseId: string;
+  gender: string | null;
+  age: number | null;
+  samplingRate: number | null;
+  montages: string[][];
+  files: CHBManifestFile[];
+  seizureCount: number;
+  totalDurationSeconds: number;
+}
+
+export interface CHBManifest {
+  generatedAt: string;
+  rootPath: string;
+  cases: CHBManifestCase[];
+  totals: {
+    cases: number;
+    files: number;
+    seizureFiles: number;
+    seizures: number;
+    durationHours: number;
+  };
+  warnings: string[];
+}
+
+export interface CHBIndexOptions {
+  readEDFHeaders?: boolean;      // Default true; false uses summary times only
+  caseIds?: string[];            // Restrict to these cases
+  onProgress?: (message: string) => void;
+}
+
+export class CHBDatasetIndexer {
+
+  /**
+   * Build a manifest for the dataset rooted at `rootPath`
+   */
+  static async buildManifest(
+    source: CHBDatasetSource,
+    rootPath: string,
+    options: CHBIndexOptions = {}
+  ): Promise<CHBManifest> {
+    const readEDFHeaders = options.readEDFHeaders ?? true;
+    const progress = options.onProgress ?? ((message: string) => console.log(message));
+    const warnings: string[] = [];
+
+    progress(`📂 Indexing CHB-MIT dataset at ${rootPath}...`);
+
+    const records = this.parseRecordList(await source.readText('RECORDS'));
+    const seizureRecords = new Set(this.parseRecordList(await source.readText('RECORDS-WITH-SEIZURES')));
+    const subjects = this.parseSubjectInfo(await source.readText('SUBJECT-INFO'));
+
+    if (records.length === 0) {
+      warnings.push('RECORDS is missing or empty - discovering files from case directories');
+    }
+
+    // Group record paths by case, falling back to directory listings
+    const caseIds = new Set<string>(records.map(record => record.split('/')[0]));
+    if (caseIds.size === 0) {
+      for (const entry of await source.listDirectory('')) {
+        if (/^chb\d+$/i.test(entry)) caseIds.add(entry);
+      }
+    }
+
+    const cases: CHBManifestCase[] = [];
+
+    for (const caseId of [...caseIds].sort()) {
+      if (options.caseIds && !options.caseIds.includes(caseId)) continue;
+
+      progress(`🔍 ${caseId}: reading summary and headers...`);
+
+      const summaryText = await source.readText(`${caseId}/${caseId}-summary.txt`);
+      let summary: CHBSummary | null = null;
+      if (summaryText) {
+        summary = CHBSummaryParser.parse(summaryText, caseId);
+        warnings.push(...summary.warnings.map(warning => `${caseId}-summary.txt: ${warning}`));
+      } else {
+        warnings.push(`${caseId}: no summary file`);
+      }
+
+      let filePaths = records.filter(record => record.startsWith(`${caseId}/`));
+      if (filePaths.length === 0) {
+        filePaths = (await source.listDirectory(caseId))
+          .filter(entry => entry.toLowerCase().endsWith('.edf'))
+          .map(entry => `${caseId}/${entry}`);
+      }
+
+      const files: CHBManifestFile[] = [];
+      for (const path of filePaths.sort()) {
+        files.push(await this.indexFile(source, path, summary, seizureRecords.has(path), readEDFHeaders, warnings));
+      }
+
+      const subject = subjects.get(caseId);
+      cases.push({
+        caseId,
+        gender: subject?.gender ?? null,
+        age: subject?.age ?? null,
+        samplingRate: summary?.samplingRate ?? files.find(file => file.samplingRate)?.samplingRate ?? null,
+        montages: summary?.montages ?? [],
+        files,
+        seizureCount: files.reduce((sum, file) => sum + file.seizures.length, 0),
+        totalDurationSeconds: files.reduce((sum, file) => sum + (file.durationSeconds ?? 0), 0)
+      });
+    }
+
+    const allFiles = cases.flatMap(entry => entry.files);
+    const manifest: CHBManifest = {
+      generatedAt: new Date().toISOString(),
+      rootPath,
+      cases,
+      totals: {
+        cases: cases.length,
+        files: allFiles.length,
+        seizureFiles: allFiles.filter(file => file.hasSeizures).length,
+        seizures: allFiles.reduce((sum, file) => sum + file.seizures.length, 0),
+        durationHours: allFiles.reduce((sum, file) => sum + (file.durationSeconds ?? 0), 0) / 3600
+      },
+      warnings
+    };
+
+    progress(`✅ Indexed ${manifest.totals.cases} cases, ${manifest.totals.files} files, ${manifest.totals.seizures} seizures (${manifest.totals.durationHours.toFixed(1)} h)`);
+    return manifest;
+  }
+
+  /**
+   * Index one EDF file: header (if readable), summary metadata and seizures
+   */
+  private static async indexFile(
+    source: CHBDatasetSource,
+    path: string,
+    summary: CHBSummary | null,
+    listedWithSeizures: boolean,
+    readEDFHeaders: boolean,
+    warnings: string[]
+  ): Promise<CHBManifestFile> {
+    const fileName = path.split('/').pop() ?? path;
+    const summaryFile = summary?.files.find(file => file.fileName === fileName);
+    const fileSize = await source.fileSize(path);
+
+    const entry: CHBManifestFile = {
+      fileName,
+      path,
+      fileSize,
+      durationSeconds: summaryFile?.durationSeconds ?? null,
+      samplingRate: summary?.samplingRate ?? null,
+      channels: summary ? CHBSummaryParser.getChannelsForFile(summary, fileName) : [],
+      startTime: summaryFile?.startTime ?? null,
+      endTime: summaryFile?.endTime ?? null,
+      clockStartSeconds: summaryFile?.startSeconds ?? null,
+      hasSeizures: listedWithSeizures,
+      seizures: summaryFile?.seizures ?? [],
+      seizureSource: summaryFile && summaryFile.seizures.length > 0 ? 'summary' : 'none',
+      headerSource: 'summary'
+    };
+
+    if (readEDFHeaders && fileSize !== null) {
+      try {
+        const fixedHeader = await source.readBytes(path, 0, 256);
+        const headerBytes = fixedHeader ? parseInt(new TextDecoder('ascii').decode(fixedHeader.slice(184, 192)).trim()) : NaN;
+        const headerBuffer = isNaN(headerBytes) ? null : await source.readBytes(path, 0, headerBytes);
+
+        if (headerBuffer) {
+          const header = CHBEDFReader.parseEDFHeader(headerBuffer, fileSize);
+          const dataSignals = CHBEDFReader.getDataSignals(header);
+          entry.durationSeconds = header.numberOfRecords * header.durationOfRecord;
+          entry.samplingRate = dataSignals[0]?.samplingRate ?? entry.samplingRate;
+          entry.channels = dataSignals.map(signal => signal.label);
+          entry.headerSource = 'edf';
+        }
+      } catch (error) {
+        warnings.push(`${path}: could not read EDF header (${error instanceof Error ? error.message : error})`);
+      }
+    }
+
+    // Files listed with seizures but missing from the summary: fall back to the .seizures annotations
+    if (listedWithSeizures && entry.seizures.length === 0) {
+      const annotationBytes = await this.readWhole(source, `${path}.seizures`);
+      if (annotationBytes) {
+        try {
+          const annotationFile = WFDBAnnotationDecoder.decode(annotationBytes, entry.samplingRate ?? 256);
+          entry.seizures = WFDBAnnotationDecoder.toSeizureIntervals(annotationFile).map((interval, i) => {
+            const startTime = interval.startSample / annotationFile.timeResolution;
+            const endTime = interval.endSample / annotationFile.timeResolution;
+            return { fileName, seizureNumber: i + 1, startTime, endTime, duration: endTime - startTime };
+          });
+          entry.seizureSource = entry.seizures.length > 0 ? 'annotation' : 'none';
+        } catch (error) {
+          warnings.push(`${path}.seizures: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+      if (entry.seizures.length === 0) {
+        warnings.push(`${path}: listed in RECORDS-WITH-SEIZURES but no seizure times were found`);
+      }
+    }
+
+    entry.hasSeizures = entry.hasSeizures || entry.seizures.length > 0;
+    return entry;
+  }
+
+  private static async readWhole(source: CHBDatasetSource, path: string): Promise<Uint8Array | null> {
+    const size = await source.fileSize(path);
+    return size === null ? null : source.readBytes(path, 0, size);
+  }
+
+  /**
+   * RECORDS / RECORDS-WITH-SEIZURES: one relative path per line
+   */
+  private static parseRecordList(text: string | null): string[] {
+    if (!text) return [];
+    return text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && line.toLowerCase().endsWith('.edf'));
+  }
+
+  /**
+   * SUBJECT-INFO: "Case  Gender  Age (years)" table
+   */
+  private static parseSubjectInfo(text: string | null): Map<string, { gender: string; age: number | null }> {
+    const subjects = new Map<string, { gender: string; age: number | null }>();
+    if (!text) return subjects;
+
+    for (const line of text.split(/\r?\n/)) {
+      const match = line.trim().match(/^(chb\d+)\s+([MF])\s+([\d.]+)?/i);
+      if (match) {
+        subjects.set(match[1].toLowerCase(), {
+          gender: match[2].toUpperCase(),
+          age: match[3] ? parseFloat(match[3]) : null
+        });
+      }
+    }
+
+    return subjects;
+  }
+}
@@ -5,18 +5,40 @@
  * Learning Focus: Complete AI training pipeline with real medical data
  */
 
-import { CHBSeizureAPI } from './chbSeizureAPI';
+import { CHBSeizureAPI, type SeizureEvent } from './chbSeizureAPI';
+import { EDFPlusAnnotationParser, type EDFAnnotation } from './edfPlusAnnotations';
 
-interface EDFHeader {
+export interface EDFSignalHeader {
+  label: string;
+  transducerType: string;
+  physicalDimension: string;  // e.g. "uV"
+  physicalMinimum: number;
+  physicalMaximum: number;
+  digitalMinimum: number;
+  digitalMaximum: number;
+  prefiltering: string;
+  samplesPerRecord: number;
+  samplingRate: number;       // samplesPerRecord / durationOfRecord
+  gain: number;               // physical units per digital step
+  offset: number;             // physical value at digital 0
+  isAnnotation: boolean;      // EDF+ "EDF Annotations" signal (TAL bytes, not samples)
+}
+
+export interface EDFHeader {
   version: string;
   patientId: string;
   recordingId: string;
   startDate: string;
   startTime: string;
   headerBytes: number;
+  reserved: string;           // "EDF+C" / "EDF+D" for EDF+ files, empty for plain EDF
+  format: 'EDF' | 'EDF+C' | 'EDF+D';
   numberOfRecords: number;
   durationOfRecord: number;
   numberOfSignals: number;
+  signals: EDFSignalHeader[];
+  annotationSignalIndices: number[];
+  recordBytes: number;        // Bytes per data record across all signals
 }
 
 interface ValidationResult {
@@ -32,7 +54,7 @@ interface ValidationResult {
   confidence: 'HIGH' | 'MEDIUM' | 'LOW';
 }
 
-interface ParsedCHBData {
+export interface ParsedCHBData {
   header: EDFHeader;
   samplingRate: number;
   duration: number;
@@ -44,11 +66,16 @@ interface ParsedCHBData {
     sampleCount: number;   // Total samples across all channels
     dataQuality: 'FULL' | 'SAMPLE' | 'HEADER_ONLY';
   };
-  // ADD: Seizure labels from PhysioNet API
+  // ADD: Seizure labels from in-file annotations or the PhysioNet API
   seizureLabels?: {
     labels: number[];      // 0 = normal, 1 = seizure for each time point
     seizureCount: number;  // Number of seizures in this file
-    labelQuality: 'API' | 'LOCAL' | 'NONE';
+    labelQuality: 'FILE' | 'API' | 'LOCAL' | 'NONE';
+  };
+  // EDF+ only: events from the "EDF Annotations" signal
+  annotations?: {
+    events: EDFAnnotation[];
+    recordStartTimes: number[];
   };
   metadata: {
     caseId: string;
@@ -110,8 +137,15 @@ export class CHBEDFReader {
   
   /**
    * Parse EDF header from real medical file
+   * 
+   * Learning: The fixed 256-byte block is followed by ns × 256 bytes of
+   * per-signal fields, stored field-by-field (all labels, then all
+   * transducers, ...) rather than signal-by-signal.
+   * 
+   * `buffer` only needs to contain the header itself; pass `totalBytes` when
+   * it is a prefix of a larger file so an unknown record count can be derived.
    */
-  private static parseEDFHeader(buffer: Uint8Array): EDFHeader {
+  static parseEDFHeader(buffer: Uint8Array, totalBytes: number = buffer.length): EDFHeader {
     console.log('📋 Parsing real EDF header...');
     
     // Helper to read ASCII strings from buffer
@@ -139,19 +173,83 @@ export class CHBEDFReader {
     const headerBytes = parseInt(readASCII(offset, 8));
     offset += 8;
     
-    // Skip reserved field
+    // Reserved field - EDF+ writes "EDF+C" (continuous) or "EDF+D" (discontinuous) here
+    const reserved = readASCII(offset, 44);
     offset += 44;
+    const format: EDFHeader['format'] = reserved.startsWith('EDF+D') ? 'EDF+D'
+      : reserved.startsWith('EDF+C') ? 'EDF+C'
+      : 'EDF';
     
-    const numberOfRecords = parseInt(readASCII(offset, 8));
+    let numberOfRecords = parseInt(readASCII(offset, 8));
     offset += 8;
     
     const durationOfRecord = parseFloat(readASCII(offset, 8));
     offset += 8;
     
     const numberOfSignals = parseInt(readASCII(offset, 4));
+    offset += 4;
+    
+    if (isNaN(headerBytes) || isNaN(numberOfSignals) || numberOfSignals <= 0) {
+      throw new Error(`Invalid EDF header: headerBytes=${headerBytes}, signals=${numberOfSignals}`);
+    }
+    if (headerBytes !== 256 + numberOfSignals * 256 || buffer.length < headerBytes) {
+      throw new Error(`Header size ${headerBytes} does not match ${numberOfSignals} signals`);
+    }
+    
+    // Read one per-signal field for every signal, advancing past the block
+    const readField = (length: number): string[] => {
+      const values: string[] = [];
+      for (let i = 0; i < numberOfSignals; i++) {
+        values.push(readASCII(offset + i * length, length));
+      }
+      offset += numberOfSignals * length;
+      return values;
+    };
+    
+    const labels = readField(16);
+    const transducers = readField(80);
+    const dimensions = readField(8);
+    const physicalMins = readField(8).map(parseFloat);
+    const physicalMaxs = readField(8).map(parseFloat);
+    const digitalMins = readField(8).map(v => parseInt(v));
+    const digitalMaxs = readField(8).map(v => parseInt(v));
+    const prefilters = readField(80);
+    const samplesPerRecords = readField(8).map(v => parseInt(v));
+    readField(32); // Per-signal reserved field
+    
+    const signals: EDFSignalHeader[] = labels.map((label, i) => {
+      const digitalRange = digitalMaxs[i] - digitalMins[i];
+      const gain = digitalRange !== 0 ? (physicalMaxs[i] - physicalMins[i]) / digitalRange : 1;
+      return {
+        label,
+        transducerType: transducers[i],
+        physicalDimension: dimensions[i],
+        physicalMinimum: physicalMins[i],
+        physicalMaximum: physicalMaxs[i],
+        digitalMinimum: digitalMins[i],
+        digitalMaximum: digitalMaxs[i],
+        prefiltering: prefilters[i],
+        samplesPerRecord: samplesPerRecords[i],
+        samplingRate: samplesPerRecords[i] / durationOfRecord,
+        gain,
+        offset: physicalMaxs[i] - gain * digitalMaxs[i],
+        isAnnotation: format !== 'EDF' && label === 'EDF Annotations'
+      };
+    });
+    
+    const annotationSignalIndices = signals
+      .map((signal, i) => (signal.isAnnotation ? i : -1))
+      .filter(i => i >= 0);
+    
+    const recordBytes = signals.reduce((sum, signal) => sum + signal.samplesPerRecord * 2, 0);
+    
+    // -1 means "unknown" (recording still in progress) - derive it from the file size
+    if (numberOfRecords < 0 && recordBytes > 0 && totalBytes > headerBytes) {
+      numberOfRecords = Math.floor((totalBytes - headerBytes) / recordBytes);
+    }
     
     console.log('🔍 EXTRACTED DATA FROM YOUR CHB FILE:');
-    console.log(`   📝 Version: "${version}"`);
+    console.log(`   📝 Version: "${version}" (${format})`);
     console.log(`   👤 Patient ID: "${patientId}"`);
     console.log(`   📅 Recording ID: "${recordingId}"`);
     console.log(`   📅 Start Date: "${startDate}" Time: "${startTime}"`);
@@ -160,6 +258,13 @@ export class CHBEDFReader {
     console.log(`   ⏱️  Duration per Record: ${durationOfRecord} seconds`);
     console.log(`   📡 Number of Signals: ${numberOfSignals}`);
     console.log(`   🧮 Total Duration: ${numberOfRecords * durationOfRecord} seconds`);
+    signals.forEach((signal, i) => {
+      if (signal.isAnnotation) {
+        console.log(`   • ${i + 1}. ${signal.label} (annotation signal)`);
+        return;
+      }
+      console.log(`   • ${i + 1}. ${signal.label}: ${signal.samplingRate} Hz, ${signal.physicalMinimum}..${signal.physicalMaximum} ${signal.physicalDimension} (digital ${signal.digitalMinimum}..${signal.digitalMaximum})`);
+    });
     
     return {
       version,
@@ -168,9 +273,14 @@ export class CHBEDFReader {
       startDate,
       startTime,
       headerBytes,
+      reserved,
+      format,
       numberOfRecords,
       durationOfRecord,
-      numberOfSignals
+      numberOfSignals,
+      signals,
+      annotationSignalIndices,
+      recordBytes
     };
   }
   
@@ -181,11 +291,13 @@ export class CHBEDFReader {
     const caseMatch = fileName.match(/chb(\d+)/i);
     const sessionMatch = fileName.match(/(\d+)/);
     
+    const dataSignals = this.getDataSignals(header);
+    
     const result: ParsedCHBData = {
       header,
-      samplingRate: 256, // Standard CHB-MIT sampling rate
+      samplingRate: dataSignals[0]?.samplingRate || 256, // CHB-MIT records every channel at 256 Hz
       duration: header.numberOfRecords * header.durationOfRecord,
-      channelLabels: this.getStandardCHBChannels(header.numberOfSignals),
+      channelLabels: dataSignals.map(signal => signal.label),
       metadata: {
         caseId: caseMatch ? `chb${caseMatch[1].padStart(2, '0')}` : 'chb01',
         sessionNumber: sessionMatch ? sessionMatch[1] : '03',
@@ -208,6 +320,16 @@ export class CHBEDFReader {
       };
     }
     
+    // EDF+ files carry their own event markers
+    if (header.annotationSignalIndices.length > 0) {
+      try {
+        const { annotations, recordStartTimes } = EDFPlusAnnotationParser.extractAnnotations(header, buffer);
+        result.annotations = { events: annotations, recordStartTimes };
+      } catch (error) {
+        console.log(`⚠️ Could not parse EDF+ annotations: ${error}`);
+      }
+    }
+    
     return result;
   }
   
@@ -228,8 +350,13 @@ export class CHBEDFReader {
       startTime: '12:00:00',
       headerBytes: 256,
       numberOfRecords: 3600, // 1 hour
+      reserved: '',
+      format: 'EDF',
       durationOfRecord: 1,
-      numberOfSignals: 8
+      numberOfSignals: 8,
+      signals: [],
+      annotationSignalIndices: [],
+      recordBytes: 8 * 256 * 2
     };
     
     return {
@@ -246,6 +373,13 @@ export class CHBEDFReader {
     };
   }
   
+  /**
+   * Signals that hold samples (everything except EDF+ annotation signals)
+   */
+  static getDataSignals(header: EDFHeader): EDFSignalHeader[] {
+    return header.signals.filter(signal => !signal.isAnnotation);
+  }
+  
   /**
    * Get standard CHB-MIT channel names
    */
@@ -280,6 +414,11 @@ export class CHBEDFReader {
   /**
    * Extract actual EEG signal data for AI training
    * This is the REAL data that trains seizure prediction models
+   * 
+   * Learning: Each data record holds samplesPerRecord little-endian int16
+   * values for signal 0, then signal 1, and so on. Digital values become
+   * physical units via the per-signal gain and offset from the header:
+   *   physical = offset + gain × digital
    */
   private static extractSignalData(header: EDFHeader, buffer: Uint8Array): {
     channels: number[][];
@@ -289,54 +428,56 @@ export class CHBEDFReader {
   } {
     console.log('🔬 EXTRACTING REAL EEG DATA FOR AI TRAINING...');
     
+    if (this.getDataSignals(header).length === 0 || header.recordBytes === 0) {
+      throw new Error('EDF header has no data signals');
+    }
+    
     const dataStartOffset = header.headerBytes;
-    const samplesPerRecord = header.durationOfRecord * 256; // 256 Hz sampling
-    const totalTimePoints = header.numberOfRecords * samplesPerRecord;
+    const availableRecords = Math.floor((buffer.length - dataStartOffset) / header.recordBytes);
+    const recordCount = Math.min(header.numberOfRecords, availableRecords);
     
     console.log(`   📊 Data structure:`);
     console.log(`   • Channels: ${header.numberOfSignals}`);
-    console.log(`   • Time points per channel: ${totalTimePoints.toLocaleString()}`);
-    console.log(`   • Total EEG samples: ${(header.numberOfSignals * totalTimePoints).toLocaleString()}`);
-    console.log(`   • Data size: ${((totalTimePoints * header.numberOfSignals * 2) / 1024 / 1024).toFixed(1)} MB`);
+    console.log(`   • Records: ${recordCount.toLocaleString()} of ${header.numberOfRecords.toLocaleString()}`);
+    console.log(`   • Data size: ${((recordCount * header.recordBytes) / 1024 / 1024).toFixed(1)} MB`);
     
-    // For browser safety, extract a sample of the data (not all 18M points)
-    const sampleSize = Math.min(1000, totalTimePoints); // Sample first 1000 time points
-    const channels: number[][] = [];
+    if (recordCount < header.numberOfRecords) {
+      console.log(`   ⚠️ File is truncated - only ${recordCount} complete records available`);
+    }
+    
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    const dataSignals = this.getDataSignals(header);
+    const channels: number[][] = dataSignals.map(signal => new Array(recordCount * signal.samplesPerRecord));
     
     try {
-      for (let channelIndex = 0; channelIndex < header.numberOfSignals; channelIndex++) {
-        const channelData: number[] = [];
+      let byteOffset = dataStartOffset;
+      
+      for (let recordIndex = 0; recordIndex < recordCount; recordIndex++) {
+        let channelIndex = 0;
         
-        for (let timeIndex = 0; timeIndex < sampleSize; timeIndex++) {
-          // EDF stores data in records: [record][channel][sample]
-          const recordIndex = Math.floor(timeIndex / samplesPerRecord);
-          const sampleInRecord = timeIndex % samplesPerRecord;
+        for (const signal of header.signals) {
+          // Annotation signals hold TAL text, not samples - skip their bytes
+          if (signal.isAnnotation) {
+            byteOffset += signal.samplesPerRecord * 2;
+            continue;
+          }
           
-          // Calculate byte offset for this sample
-          const recordOffset = dataStartOffset + recordIndex * (header.numberOfSignals * samplesPerRecord * 2);
-          const channelOffset = recordOffset + channelIndex * samplesPerRecord * 2;
-          const sampleOffset = channelOffset + sampleInRecord * 2;
+          const channelData = channels[channelIndex++];
+          const baseIndex = recordIndex * signal.samplesPerRecord;
           
-          if (sampleOffset + 1 < buffer.length) {
-            // Read 16-bit signed integer (little-endian)
-            const low = buffer[sampleOffset];
-            const high = buffer[sampleOffset + 1];
-            const rawValue = (high << 8) | low;
-            
-            // Convert to signed 16-bit
-            const signedValue = rawValue > 32767 ? rawValue - 65536 : rawValue;
-            
-            // Convert to microvolts (typical EEG scaling)
-            const microvoltValue = signedValue * 0.1; // Approximate scaling
-            
-            channelData.push(microvoltValue);
+          for (let sampleInRecord = 0; sampleInRecord < signal.samplesPerRecord; sampleInRecord++) {
+            const digitalValue = view.getInt16(byteOffset, true);
+            channelData[baseIndex + sampleInRecord] = signal.offset + signal.gain * digitalValue;
+            byteOffset += 2;
           }
         }
-        
-        channels.push(channelData);
-        console.log(`   ✅ Channel ${channelIndex + 1} (${this.getStandardCHBChannels(header.numberOfSignals)[channelIndex]}): ${channelData.length} samples extracted`);
       }
       
+      channels.forEach((channelData, channelIndex) => {
+        const signal = dataSignals[channelIndex];
+        console.log(`   ✅ Channel ${channelIndex + 1} (${signal.label}): ${channelData.length.toLocaleString()} samples @ ${signal.samplingRate} Hz`);
+      });
+      
       const totalSamples = channels.reduce((sum, channel) => sum + channel.length, 0);
       
       console.log(`   🎯 EXTRACTED ${totalSamples.toLocaleString()} real EEG data points!`);
@@ -344,9 +485,9 @@ export class CHBEDFReader {
       
       return {
         channels,
-        timePoints: sampleSize,
+        timePoints: channels[0].length,
         sampleCount: totalSamples,
-        dataQuality: sampleSize < totalTimePoints ? 'SAMPLE' : 'FULL'
+        dataQuality: recordCount < header.numberOfRecords ? 'SAMPLE' : 'FULL'
       };
       
     } catch (error) {
@@ -356,9 +497,27 @@ export class CHBEDFReader {
   }
   
   /**
-   * Add seizure labels from PhysioNet API
+   * Add seizure labels from EDF+ annotations, falling back to the PhysioNet API
    */
   private static async addSeizureLabels(result: ParsedCHBData): Promise<void> {
+    const fileSeizures = this.getAnnotatedSeizures(result);
+    
+    if (fileSeizures.length > 0 && result.signalData) {
+      result.seizureLabels = {
+        labels: CHBSeizureAPI.generateSeizureLabels(
+          fileSeizures,
+          result.metadata.filePath,
+          result.signalData.timePoints,
+          result.samplingRate
+        ),
+        seizureCount: fileSeizures.length,
+        labelQuality: 'FILE'
+      };
+      
+      console.log(`✅ Added ${fileSeizures.length} seizure labels from EDF+ annotations`);
+      return;
+    }
+    
     console.log(`🏷️ Fetching seizure labels for ${result.metadata.caseId}...`);
     
     try {
@@ -396,6 +555,22 @@ export class CHBEDFReader {
     }
   }
   
+  /**
+   * Seizure intervals marked inside an EDF+ file, in signal time (EDF+D gaps removed)
+   */
+  static getAnnotatedSeizures(result: ParsedCHBData): SeizureEvent[] {
+    if (!result.annotations) return [];
+    
+    const { events, recordStartTimes } = result.annotations;
+    const durationOfRecord = result.header.durationOfRecord;
+    
+    return EDFPlusAnnotationParser.toSeizureEvents(events, result.metadata.filePath).map(event => {
+      const startTime = EDFPlusAnnotationParser.toSignalTime(event.startTime, recordStartTimes, durationOfRecord);
+      const endTime = EDFPlusAnnotationParser.toSignalTime(event.endTime, recordStartTimes, durationOfRecord);
+      return { ...event, startTime, endTime, duration: endTime - startTime };
+    });
+  }
+  
   /**
    * Validate parsed CHB-MIT data for accuracy and medical standards
    */
@@ -417,10 +592,9 @@ export class CHBEDFReader {
     }
     
     // Check 2: File size validation - CORRECTED for EDF format
-    // EDF structure: Header + (Records × Signals × Samples per record × 2 bytes)
-    // CHB-MIT uses 256 Hz sampling, so samples per record = durationOfRecord × 256
-    const samplesPerRecord = data.header.durationOfRecord * 256; // 256 Hz sampling rate
-    const expectedDataSize = data.header.numberOfRecords * data.header.numberOfSignals * samplesPerRecord * 2; // 2 bytes per sample
+    // EDF structure: Header + (Records × sum of samples per record × 2 bytes)
+    const samplesPerRecord = data.header.recordBytes / 2; // Across all signals
+    const expectedDataSize = data.header.numberOfRecords * data.header.recordBytes; // 2 bytes per sample
     const expectedTotalSize = data.header.headerBytes + expectedDataSize;
     
     console.log(`📐 FILE SIZE CALCULATION:`);
@@ -428,7 +602,7 @@ export class CHBEDFReader {
     console.log(`   Records: ${data.header.numberOfRecords}`);
     console.log(`   Signals: ${data.header.numberOfSignals}`);
     console.log(`   Duration per record: ${data.header.durationOfRecord}s`);
-    console.log(`   Samples per record: ${samplesPerRecord}`);
+    console.log(`   Samples per record (all signals): ${samplesPerRecord}`);
     console.log(`   Expected data size: ${(expectedDataSize / 1024 / 1024).toFixed(1)} MB`);
     console.log(`   Expected total: ${(expectedTotalSize / 1024 / 1024).toFixed(1)} MB`);
     console.log(`   Actual file: ${(buffer.length / 1024 / 1024).toFixed(1)} MB`);
@@ -0,0 +1,269 @@
+/**
+ * CHB-MIT EDF Stream Reader - Chunked decoding for hour-long recordings
+ *
+ * Purpose: Page through 40+ MB EDF files window by window instead of decoding
+ * the whole recording into memory at once
+ * Learning Focus: EDF data records make random access cheap - every record has
+ * the same byte size, so a time offset maps directly to a file offset
+ */
+
+import { CHBEDFReader, type EDFHeader } from './chbEDFReader';
+import type { EEGData } from '@/lib/aiSeizurePrediction';
+
+export interface EDFWindow {
+  startTime: number;          // Seconds from recording start
+  duration: number;           // Seconds covered (shorter than requested at end of file)
+  channelLabels: string[];
+  samplingRates: number[];    // Per channel, in Hz
+  channels: Float32Array[];   // [channel][sample] in physical units (µV)
+}
+
+export interface EDFWindowOptions {
+  windowSeconds?: number;     // Length of each window (default 10s)
+  hopSeconds?: number;        // Step between window starts (default = windowSeconds)
+  startTime?: number;         // Where to begin, in seconds (default 0)
+  endTime?: number;           // Where to stop, in seconds (default end of recording)
+}
+
+export type EDFSource = Blob | ReadableStream<Uint8Array>;
+
+export class CHBEDFStreamReader {
+  header: EDFHeader;            // Set by open() once the header has been read
+  readonly fileName: string;
+
+  private blob: Blob | null;
+  private streamReader: ReadableStreamDefaultReader<Uint8Array> | null;
+  private pending: Uint8Array = new Uint8Array(0);  // Stream bytes read but not yet discarded
+  private pendingOffset: number = 0;                 // File offset of pending[0]
+  private streamEnded: boolean = false;
+
+  private constructor(
+    fileName: string,
+    blob: Blob | null,
+    streamReader: ReadableStreamDefaultReader<Uint8Array> | null
+  ) {
+    this.fileName = fileName;
+    this.blob = blob;
+    this.streamReader = streamReader;
+  }
+
+  /**
+   * Open an EDF file from a Blob/File (random access) or a ReadableStream
+   * (forward-only). Only the header is read up front.
+   */
+  static async open(source: EDFSource, fileName: string = 'recording.edf'): Promise<CHBEDFStreamReader> {
+    console.log(`📂 Opening EDF stream: ${fileName}`);
+
+    const isBlob = source instanceof Blob;
+    const reader = isBlob
+      ? new CHBEDFStreamReader(fileName, source, null)
+      : new CHBEDFStreamReader(fileName, null, source.getReader());
+
+    const headerBytes = this.readHeaderBytes(await reader.readRange(0, 256));
+    const headerBuffer = await reader.readRange(0, headerBytes);
+    reader.header = CHBEDFReader.parseEDFHeader(headerBuffer, isBlob ? source.size : headerBuffer.length);
+
+    const recordCount = reader.header.numberOfRecords < 0 ? 'unknown' : reader.header.numberOfRecords;
+    console.log(`✅ Opened ${fileName}: ${reader.header.numberOfSignals} signals, ${recordCount} records (${isBlob ? 'random access' : 'forward-only stream'})`);
+    return reader;
+  }
+
+  /**
+   * Total recording length in seconds (Infinity when the record count is unknown)
+   */
+  get duration(): number {
+    if (this.header.numberOfRecords < 0) return Infinity;
+    return this.header.numberOfRecords * this.header.durationOfRecord;
+  }
+
+  /**
+   * Whether readWindow() can jump backwards (Blob sources only)
+   */
+  get isRandomAccess(): boolean {
+    return this.blob !== null;
+  }
+
+  /**
+   * Decode the window [startTime, startTime + duration) in physical units.
+   * Stream sources must request windows in non-decreasing start order.
+   */
+  async readWindow(startTime: number, duration: number): Promise<EDFWindow> {
+    const { durationOfRecord, recordBytes, headerBytes } = this.header;
+
+    if (startTime < 0 || duration <= 0) {
+      throw new Error(`Invalid window: start=${startTime}s, duration=${duration}s`);
+    }
+
+    const endTime = Math.min(startTime + duration, this.duration);
+    const firstRecord = Math.floor(startTime / durationOfRecord);
+    const lastRecord = Math.ceil(endTime / durationOfRecord);
+
+    const bytes = await this.readRange(
+      headerBytes + firstRecord * recordBytes,
+      Math.max(0, lastRecord - firstRecord) * recordBytes
+    );
+    const recordCount = Math.floor(bytes.length / recordBytes);
+    const decoded = CHBEDFStreamReader.decodeRecords(bytes, this.header, recordCount);
+
+    // Trim the record-aligned block down to the requested time span
+    const recordStartTime = firstRecord * durationOfRecord;
+    const availableEnd = Math.min(endTime, recordStartTime + recordCount * durationOfRecord);
+    const dataSignals = CHBEDFReader.getDataSignals(this.header);
+    const channels = decoded.map((channelData, i) => {
+      const rate = dataSignals[i].samplingRate;
+      const from = Math.min(channelData.length, Math.round((startTime - recordStartTime) * rate));
+      const to = Math.min(channelData.length, Math.round((availableEnd - recordStartTime) * rate));
+      return channelData.subarray(from, Math.max(from, to));
+    });
+
+    return {
+      startTime,
+      duration: Math.max(0, availableEnd - startTime),
+      channelLabels: dataSignals.map(signal => signal.label),
+      samplingRates: dataSignals.map(signal => signal.samplingRate),
+      channels
+    };
+  }
+
+  /**
+   * Iterate over the recording in fixed-length (optionally overlapping) windows
+   */
+  async *windows(options: EDFWindowOptions = {}): AsyncGenerator<EDFWindow> {
+    const windowSeconds = options.windowSeconds ?? 10;
+    const hopSeconds = options.hopSeconds ?? windowSeconds;
+    const endTime = Math.min(options.endTime ?? Infinity, this.duration);
+
+    if (windowSeconds <= 0 || hopSeconds <= 0) {
+      throw new Error(`Window and hop must be positive (got ${windowSeconds}s / ${hopSeconds}s)`);
+    }
+
+    for (let start = options.startTime ?? 0; start < endTime; start += hopSeconds) {
+      const window = await this.readWindow(start, Math.min(windowSeconds, endTime - start));
+      if (window.duration <= 0) return; // Stream ended before the declared length
+      yield window;
+    }
+  }
+
+  /**
+   * Release the underlying stream (no-op for Blob sources)
+   */
+  async close(): Promise<void> {
+    if (this.streamReader) {
+      await this.streamReader.cancel();
+      this.streamReader = null;
+    }
+    this.pending = new Uint8Array(0);
+  }
+
+  /**
+   * Decode `recordCount` consecutive data records into one typed array per data signal
+   */
+  static decodeRecords(bytes: Uint8Array, header: EDFHeader, recordCount: number): Float32Array[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const dataSignals = CHBEDFReader.getDataSignals(header);
+    const channels = dataSignals.map(signal => new Float32Array(recordCount * signal.samplesPerRecord));
+
+    let byteOffset = 0;
+    for (let recordIndex = 0; recordIndex < recordCount; recordIndex++) {
+      let channelIndex = 0;
+
+      for (const signal of header.signals) {
+        // EDF+ annotation signals hold TAL text, not samples
+        if (signal.isAnnotation) {
+          byteOffset += signal.samplesPerRecord * 2;
+          continue;
+        }
+
+        const channelData = channels[channelIndex++];
+        const baseIndex = recordIndex * signal.samplesPerRecord;
+
+        for (let sample = 0; sample < signal.samplesPerRecord; sample++) {
+          channelData[baseIndex + sample] = signal.offset + signal.gain * view.getInt16(byteOffset, true);
+          byteOffset += 2;
+        }
+      }
+    }
+
+    return channels;
+  }
+
+  /**
+   * Convert a window to the EEGData shape used by AISeizurePrediction
+   */
+  static toEEGData(window: EDFWindow): EEGData {
+    return {
+      channels: window.channels.map(channelData => Array.from(channelData)),
+      samplingRate: window.samplingRates[0] || 256,
+      timestamp: new Date(),
+      duration: window.duration
+    };
+  }
+
+  /**
+   * Read the "number of bytes in header" field from the fixed 256-byte block
+   */
+  private static readHeaderBytes(fixedHeader: Uint8Array): number {
+    if (fixedHeader.length < 256) {
+      throw new Error('File too small to be valid EDF');
+    }
+    const headerBytes = parseInt(new TextDecoder('ascii').decode(fixedHeader.slice(184, 192)).trim());
+    if (isNaN(headerBytes) || headerBytes < 256) {
+      throw new Error(`Invalid EDF header size: ${headerBytes}`);
+    }
+    return headerBytes;
+  }
+
+  /**
+   * Read `length` bytes at `offset` (may return fewer at end of file)
+   */
+  private async readRange(offset: number, length: number): Promise<Uint8Array> {
+    if (length <= 0) return new Uint8Array(0);
+
+    if (this.blob) {
+      return new Uint8Array(await this.blob.slice(offset, offset + length).arrayBuffer());
+    }
+
+    if (offset < this.pendingOffset) {
+      throw new Error(`Cannot seek backwards to byte ${offset} on a forward-only stream (at ${this.pendingOffset})`);
+    }
+
+    // Drop bytes before the requested offset; keep the rest so overlapping windows still work
+    const skip = Math.min(offset - this.pendingOffset, this.pending.length);
+    this.pending = this.pending.subarray(skip);
+    this.pendingOffset += skip;
+
+    const chunks: Uint8Array[] = [this.pending];
+    let available = this.pending.length;
+    let toSkip = offset - this.pendingOffset;
+
+    while (available - toSkip < length && !this.streamEnded && this.streamReader) {
+      const { value, done } = await this.streamReader.read();
+      if (done) {
+        this.streamEnded = true;
+        break;
+      }
+      chunks.push(value);
+      available += value.length;
+    }
+
+    if (chunks.length > 1) {
+      const merged = new Uint8Array(available);
+      let position = 0;
+      for (const chunk of chunks) {
+        merged.set(chunk, position);
+        position += chunk.length;
+      }
+      this.pending = merged;
+    }
+
+    // Requested offset may lie beyond what had been buffered before this read
+    if (toSkip > 0) {
+      const skipNow = Math.min(toSkip, this.pending.length);
+      this.pending = this.pending.subarray(skipNow);
+      this.pendingOffset += skipNow;
+      toSkip -= skipNow;
+    }
+
+    return this.pending.subarray(0, Math.min(length, this.pending.length));
+  }
+}
@@ -6,8 +6,9 @@
  */
 
 import { CHB_SEIZURE_DATABASE, getSeizuresForCase } from './chbSeizureData';
+import { CHBSummaryParser } from './chbSummaryParser';
 
-interface SeizureEvent {
+export interface SeizureEvent {
   fileName: string;
   seizureNumber: number;
   startTime: number;
@@ -76,7 +77,7 @@ export class CHBSeizureAPI {
       
       if (response.ok) {
         const summaryText = await response.text();
-        const parsedEvents = this.parseSummaryText(summaryText);
+        const parsedEvents = CHBSummaryParser.parse(summaryText, caseId).seizureEvents;
         
         // Validate parsed events
         if (parsedEvents.length > 0 && parsedEvents.every(e => !isNaN(e.startTime) && !isNaN(e.endTime))) {
@@ -98,7 +99,7 @@ export class CHBSeizureAPI {
       
       if (response.ok) {
         const summaryText = await response.text();
-        const parsedEvents = this.parseSummaryText(summaryText);
+        const parsedEvents = CHBSummaryParser.parse(summaryText, caseId).seizureEvents;
         
         // Validate parsed events
         if (parsedEvents.length > 0 && parsedEvents.every(e => !isNaN(e.startTime) && !isNaN(e.endTime))) {
@@ -175,83 +176,6 @@ export class CHBSeizureAPI {
     };
   }
   
-  /**
-   * Parse CHB-MIT summary text to extract seizure timing
-   */
-  private static parseSummaryText(summaryText: string): SeizureEvent[] {
-    console.log('📋 Parsing CHB-MIT summary text...');
-    console.log('🔍 Raw text preview:', summaryText.substring(0, 500));
-    
-    const lines = summaryText.split('\n');
-    const seizureEvents: SeizureEvent[] = [];
-    
-    let currentFileName: string | null = null;
-    let seizureCount = 0;
-    let pendingSeizure: Partial<SeizureEvent> | null = null;
-    
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      console.log(`📝 Processing line: "${trimmedLine}"`);
-      
-      if (trimmedLine.startsWith('File Name:')) {
-        currentFileName = trimmedLine.split(':')[1].trim();
-        seizureCount = 0;
-        console.log(`   📁 Processing file: ${currentFileName}`);
-      }
-      else if (trimmedLine.startsWith('Seizure Start Time:')) {
-        if (currentFileName) {
-          // More robust parsing - extract the number before 'seconds'
-          const timeMatch = trimmedLine.match(/(\d+)\s*seconds?/i);
-          if (timeMatch) {
-            const startTime = parseInt(timeMatch[1]);
-            seizureCount++;
-            
-            pendingSeizure = {
-              fileName: currentFileName,
-              seizureNumber: seizureCount,
-              startTime: startTime
-            };
-            
-            console.log(`   🚨 Seizure ${seizureCount} starts at ${startTime}s (parsed from: "${trimmedLine}")`);
-          } else {
-            console.log(`   ❌ Could not parse start time from: "${trimmedLine}"`);
-          }
-        }
-      }
-      else if (trimmedLine.startsWith('Seizure End Time:')) {
-        if (pendingSeizure) {
-          // More robust parsing - extract the number before 'seconds'
-          const timeMatch = trimmedLine.match(/(\d+)\s*seconds?/i);
-          if (timeMatch) {
-            const endTime = parseInt(timeMatch[1]);
-            const duration = endTime - pendingSeizure.startTime!;
-            
-            const completeSeizure: SeizureEvent = {
-              fileName: pendingSeizure.fileName!,
-              seizureNumber: pendingSeizure.seizureNumber!,
-              startTime: pendingSeizure.startTime!,
-              endTime: endTime,
-              duration: duration
-            };
-            
-            seizureEvents.push(completeSeizure);
-            console.log(`   ⏹️  Seizure ${pendingSeizure.seizureNumber} ends at ${endTime}s (${duration}s duration) (parsed from: "${trimmedLine}")`);
-            
-            pendingSeizure = null;
-          } else {
-            console.log(`   ❌ Could not parse end time from: "${trimmedLine}"`);
-          }
-        }
-      }
-    }
-    
-    console.log(`📊 Parsed ${seizureEvents.length} complete seizure events`);
-    if (seizureEvents.length === 0) {
-      console.log(`⚠️ No seizures found in summary text - falling back to local database`);
-    }
-    return seizureEvents;
-  }
-  
   /**
    * Get seizure labels for a specific time window in EEG data
    */
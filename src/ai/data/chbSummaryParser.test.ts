@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import seizureCSV from '../../../Seizure-CHB-Data.csv?raw';
+import chb01Summary from './fixtures/chb01-summary.txt?raw';
+import chb11Summary from './fixtures/chb11-summary.txt?raw';
+import { CHBSummaryParser } from './chbSummaryParser';
+
+// The fixtures follow the PhysioNet summary layout with seizure times taken from
+// Seizure-CHB-Data.csv. chb01 uses "Seizure Start Time"; chb11 uses the numbered
+// "Seizure 1 Start Time" form, changes montage and records across midnight.
+
+describe('CHBSummaryParser', () => {
+  const reference = CHBSummaryParser.parseSeizureCSV(seizureCSV);
+
+  describe('parseSeizureCSV', () => {
+    it('reads every row of the bundled CSV', () => {
+      expect(reference).toHaveLength(121);
+      expect(new Set(reference.map(record => record.caseId)).size).toBe(24);
+      expect(reference[0]).toEqual({
+        caseId: 'chb01',
+        fileName: 'chb01_03.edf',
+        seizureNumber: 1,
+        startTime: 2996,
+        endTime: 3036,
+        duration: 40
+      });
+    });
+
+    it('keeps durations consistent with start and end times', () => {
+      for (const record of reference) {
+        expect(record.endTime - record.startTime).toBe(record.duration);
+      }
+    });
+
+    it('rejects a CSV without the required columns', () => {
+      expect(() => CHBSummaryParser.parseSeizureCSV('patient,file\nchb01,chb01_03.edf')).toThrow(/seizure_number/);
+    });
+  });
+
+  describe('parse', () => {
+    it('reads the plain summary format', () => {
+      const summary = CHBSummaryParser.parse(chb01Summary);
+
+      expect(summary.caseId).toBe('chb01');
+      expect(summary.samplingRate).toBe(256);
+      expect(summary.montages).toHaveLength(1);
+      expect(summary.montages[0]).toHaveLength(23);
+      expect(summary.files).toHaveLength(10);
+      expect(summary.seizureEvents).toHaveLength(7);
+      expect(summary.warnings).toEqual([]);
+    });
+
+    it('reads numbered seizures, montage changes and recordings across midnight', () => {
+      const summary = CHBSummaryParser.parse(chb11Summary);
+
+      expect(summary.caseId).toBe('chb11');
+      expect(summary.montages.map(montage => montage.length)).toEqual([23, 18]);
+      expect(CHBSummaryParser.getChannelsForFile(summary, 'chb11_82.edf')).toHaveLength(23);
+      expect(CHBSummaryParser.getChannelsForFile(summary, 'chb11_99.edf')).toHaveLength(18);
+
+      const crossesMidnight = summary.files.find(file => file.fileName === 'chb11_92.edf');
+      expect(crossesMidnight.durationSeconds).toBe(3600);
+      expect(summary.seizureEvents.map(event => event.seizureNumber)).toEqual([1, 1, 1]);
+      expect(summary.warnings).toEqual([]);
+    });
+  });
+
+  describe('crossCheck', () => {
+    it.each([
+      ['chb01', chb01Summary, 7],
+      ['chb11', chb11Summary, 3]
+    ])('finds no mismatches between the %s summary and the CSV', (_caseId, text, seizures) => {
+      const result = CHBSummaryParser.crossCheck(CHBSummaryParser.parse(text), reference);
+
+      expect(result.mismatched).toEqual([]);
+      expect(result.missingFromSummary).toEqual([]);
+      expect(result.missingFromReference).toEqual([]);
+      expect(result.matched).toBe(seizures);
+    });
+
+    it('reports seizures that disagree with the reference', () => {
+      const edited = chb01Summary.replace('Seizure End Time: 3036 seconds', 'Seizure End Time: 3040 seconds');
+      const result = CHBSummaryParser.crossCheck(CHBSummaryParser.parse(edited), reference);
+
+      expect(result.matched).toBe(6);
+      expect(result.mismatched).toHaveLength(1);
+      expect(result.mismatched[0].reference.fileName).toBe('chb01_03.edf');
+    });
+  });
+});
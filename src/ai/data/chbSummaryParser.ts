@@ -0,0 +1,303 @@
+/**
+ * CHB-MIT Summary Parser - Typed metadata from chbXX-summary.txt
+ *
+ * Purpose: Parse the per-case summary files shipped with CHB-MIT (from PhysioNet
+ * or a local copy) into per-file metadata and seizure intervals
+ * Learning Focus: The summaries are hand-written and drift between cases, so the
+ * parser tolerates spelling variants and reports what it could not read
+ *
+ * Format (abridged):
+ *   Data Sampling Rate: 256 Hz
+ *   Channels in EDF Files:
+ *   Channel 1: FP1-F7
+ *   ...
+ *   File Name: chb01_03.edf
+ *   File Start Time: 13:43:04
+ *   File End Time: 14:43:04
+ *   Number of Seizures in File: 1
+ *   Seizure Start Time: 2996 seconds     (or "Seizure 1 Start Time: ...")
+ *   Seizure End Time: 3036 seconds
+ *   Channels changed:                    (montage change mid-case)
+ */
+
+import type { SeizureEvent } from './chbSeizureAPI';
+import type { SeizureRecord } from './chbSeizureData';
+
+export interface CHBSummaryFile {
+  fileName: string;
+  startTime: string | null;         // Clock time as written, e.g. "13:43:04"
+  endTime: string | null;
+  startSeconds: number | null;      // Seconds since midnight of the first day (may exceed 86400)
+  endSeconds: number | null;
+  durationSeconds: number | null;   // Handles recordings that cross midnight
+  montageIndex: number;             // Index into CHBSummary.montages
+  declaredSeizureCount: number | null;
+  seizures: SeizureEvent[];
+}
+
+export interface CHBSummary {
+  caseId: string;
+  samplingRate: number | null;
+  montages: string[][];             // Channel lists, in the order they appear
+  files: CHBSummaryFile[];
+  seizureEvents: SeizureEvent[];
+  warnings: string[];
+}
+
+export interface CHBSummaryCrossCheck {
+  matched: number;
+  missingFromSummary: SeizureRecord[];
+  missingFromReference: SeizureEvent[];
+  mismatched: { reference: SeizureRecord; parsed: SeizureEvent }[];
+}
+
+const SAMPLING_RATE_PATTERN = /^Data Sampling Rate:\s*([\d.]+)\s*Hz/i;
+const CHANNEL_HEADER_PATTERN = /^Channels? (in EDF Files|changed)\s*:?/i;
+const CHANNEL_PATTERN = /^Channel\s*(\d+)\s*:\s*(.+)$/i;
+const FILE_NAME_PATTERN = /^File Name:\s*(\S+)/i;
+const FILE_START_PATTERN = /^File Start Time:\s*(\d{1,2}:\d{2}:\d{2})/i;
+const FILE_END_PATTERN = /^File End Time:\s*(\d{1,2}:\d{2}:\d{2})/i;
+const SEIZURE_COUNT_PATTERN = /^Number of Seizures in File:\s*(\d+)/i;
+const SEIZURE_START_PATTERN = /^Seizure\s*(\d+)?\s*Start Time\s*:\s*(\d+(?:\.\d+)?)\s*(?:sec(?:onds?)?)?/i;
+const SEIZURE_END_PATTERN = /^Seizure\s*(\d+)?\s*End Time\s*:\s*(\d+(?:\.\d+)?)\s*(?:sec(?:onds?)?)?/i;
+
+export class CHBSummaryParser {
+
+  /**
+   * Parse summary text. `caseId` defaults to the one found in the file names.
+   */
+  static parse(summaryText: string, caseId?: string): CHBSummary {
+    console.log('📋 Parsing CHB-MIT summary file...');
+
+    const summary: CHBSummary = {
+      caseId: caseId ?? '',
+      samplingRate: null,
+      montages: [],
+      files: [],
+      seizureEvents: [],
+      warnings: []
+    };
+
+    let currentFile: CHBSummaryFile | null = null;
+    let readingChannels = false;
+    let pendingStart: { seizureNumber: number; startTime: number } | null = null;
+
+    const finishFile = () => {
+      if (!currentFile) return;
+      if (pendingStart) {
+        summary.warnings.push(`${currentFile.fileName}: seizure ${pendingStart.seizureNumber} has a start time but no end time`);
+        pendingStart = null;
+      }
+      if (currentFile.declaredSeizureCount !== null && currentFile.declaredSeizureCount !== currentFile.seizures.length) {
+        summary.warnings.push(
+          `${currentFile.fileName}: declares ${currentFile.declaredSeizureCount} seizures but ${currentFile.seizures.length} were parsed`
+        );
+      }
+      summary.files.push(currentFile);
+      currentFile = null;
+    };
+
+    const lines = summaryText.split(/\r?\n/);
+
+    lines.forEach((rawLine, index) => {
+      const line = rawLine.trim();
+      const lineNumber = index + 1;
+      let match: RegExpMatchArray | null;
+
+      if (line.length === 0 || /^\*+$/.test(line)) {
+        return;
+      }
+
+      if ((match = line.match(SAMPLING_RATE_PATTERN))) {
+        summary.samplingRate = parseFloat(match[1]);
+        return;
+      }
+
+      if (CHANNEL_HEADER_PATTERN.test(line)) {
+        finishFile();
+        summary.montages.push([]);
+        readingChannels = true;
+        return;
+      }
+
+      if (readingChannels && (match = line.match(CHANNEL_PATTERN))) {
+        summary.montages[summary.montages.length - 1][parseInt(match[1]) - 1] = match[2].trim();
+        return;
+      }
+
+      if ((match = line.match(FILE_NAME_PATTERN))) {
+        finishFile();
+        readingChannels = false;
+        currentFile = {
+          fileName: match[1],
+          startTime: null,
+          endTime: null,
+          startSeconds: null,
+          endSeconds: null,
+          durationSeconds: null,
+          montageIndex: Math.max(0, summary.montages.length - 1),
+          declaredSeizureCount: null,
+          seizures: []
+        };
+        return;
+      }
+
+      if (!currentFile) {
+        summary.warnings.push(`Line ${lineNumber}: unrecognised line outside a file block: "${line}"`);
+        return;
+      }
+
+      if ((match = line.match(FILE_START_PATTERN))) {
+        currentFile.startTime = match[1];
+        currentFile.startSeconds = this.parseClockTime(match[1]);
+      } else if ((match = line.match(FILE_END_PATTERN))) {
+        currentFile.endTime = match[1];
+        currentFile.endSeconds = this.parseClockTime(match[1]);
+        if (currentFile.startSeconds !== null) {
+          let duration = currentFile.endSeconds - currentFile.startSeconds;
+          if (duration < 0) duration += 24 * 3600; // Recording crossed midnight
+          currentFile.durationSeconds = duration;
+        }
+      } else if ((match = line.match(SEIZURE_COUNT_PATTERN))) {
+        currentFile.declaredSeizureCount = parseInt(match[1]);
+      } else if ((match = line.match(SEIZURE_START_PATTERN))) {
+        pendingStart = {
+          seizureNumber: match[1] ? parseInt(match[1]) : currentFile.seizures.length + 1,
+          startTime: parseFloat(match[2])
+        };
+      } else if ((match = line.match(SEIZURE_END_PATTERN))) {
+        if (!pendingStart) {
+          summary.warnings.push(`Line ${lineNumber}: seizure end time without a start time in ${currentFile.fileName}`);
+          return;
+        }
+        const endTime = parseFloat(match[2]);
+        currentFile.seizures.push({
+          fileName: currentFile.fileName,
+          seizureNumber: pendingStart.seizureNumber,
+          startTime: pendingStart.startTime,
+          endTime,
+          duration: endTime - pendingStart.startTime
+        });
+        pendingStart = null;
+      } else {
+        summary.warnings.push(`Line ${lineNumber}: unrecognised line in ${currentFile.fileName}: "${line}"`);
+      }
+    });
+
+    finishFile();
+
+    summary.seizureEvents = summary.files.flatMap(file => file.seizures);
+    if (!summary.caseId) {
+      const caseMatch = summary.files[0]?.fileName.match(/chb\d+/i);
+      summary.caseId = caseMatch ? caseMatch[0].toLowerCase() : 'unknown';
+    }
+
+    console.log(`✅ Parsed ${summary.files.length} files, ${summary.seizureEvents.length} seizures, ${summary.montages.length} montage(s) for ${summary.caseId}`);
+    if (summary.warnings.length > 0) {
+      console.log(`⚠️ ${summary.warnings.length} warnings while parsing summary`);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Parse a local chbXX-summary.txt (e.g. from a file input)
+   */
+  static async parseFile(file: Blob & { name?: string }): Promise<CHBSummary> {
+    const caseMatch = file.name?.match(/chb\d+/i);
+    return this.parse(await file.text(), caseMatch ? caseMatch[0].toLowerCase() : undefined);
+  }
+
+  /**
+   * Channel list in effect for a given file
+   */
+  static getChannelsForFile(summary: CHBSummary, fileName: string): string[] {
+    const file = summary.files.find(f => f.fileName === fileName);
+    return file ? summary.montages[file.montageIndex] ?? [] : [];
+  }
+
+  /**
+   * Parse the Seizure-CHB-Data.csv export into SeizureRecords
+   * (columns: patient,file,seizure_number,start_time,end_time,duration,...)
+   */
+  static parseSeizureCSV(csvText: string): SeizureRecord[] {
+    const [headerLine, ...rows] = csvText.trim().split(/\r?\n/);
+    const columns = headerLine.split(',').map(column => column.trim());
+    const column = (name: string) => {
+      const index = columns.indexOf(name);
+      if (index < 0) throw new Error(`Seizure CSV is missing the "${name}" column`);
+      return index;
+    };
+
+    const patient = column('patient');
+    const file = column('file');
+    const seizureNumber = column('seizure_number');
+    const startTime = column('start_time');
+    const endTime = column('end_time');
+    const duration = column('duration');
+
+    return rows
+      .filter(row => row.trim().length > 0)
+      .map(row => {
+        const cells = row.split(',').map(cell => cell.trim());
+        return {
+          caseId: cells[patient],
+          fileName: cells[file],
+          seizureNumber: parseInt(cells[seizureNumber]),
+          startTime: parseFloat(cells[startTime]),
+          endTime: parseFloat(cells[endTime]),
+          duration: parseFloat(cells[duration])
+        };
+      });
+  }
+
+  /**
+   * Compare parsed seizures with reference records for the same case
+   * (e.g. from Seizure-CHB-Data.csv), matching on file name and start time order
+   */
+  static crossCheck(summary: CHBSummary, reference: SeizureRecord[]): CHBSummaryCrossCheck {
+    const result: CHBSummaryCrossCheck = {
+      matched: 0,
+      missingFromSummary: [],
+      missingFromReference: [],
+      mismatched: []
+    };
+
+    const caseReference = reference.filter(record => record.caseId === summary.caseId);
+    const fileNames = new Set([
+      ...caseReference.map(record => record.fileName),
+      ...summary.seizureEvents.map(event => event.fileName)
+    ]);
+
+    for (const fileName of fileNames) {
+      const expected = caseReference
+        .filter(record => record.fileName === fileName)
+        .sort((a, b) => a.startTime - b.startTime);
+      const parsed = summary.seizureEvents
+        .filter(event => event.fileName === fileName)
+        .sort((a, b) => a.startTime - b.startTime);
+
+      for (let i = 0; i < Math.max(expected.length, parsed.length); i++) {
+        if (!parsed[i]) {
+          result.missingFromSummary.push(expected[i]);
+        } else if (!expected[i]) {
+          result.missingFromReference.push(parsed[i]);
+        } else if (expected[i].startTime === parsed[i].startTime && expected[i].endTime === parsed[i].endTime) {
+          result.matched++;
+        } else {
+          result.mismatched.push({ reference: expected[i], parsed: parsed[i] });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * "HH:MM:SS" to seconds; CHB-MIT writes hours past 23 for multi-day cases
+   */
+  private static parseClockTime(clock: string): number {
+    const [hours, minutes, seconds] = clock.split(':').map(part => parseInt(part));
+    return hours * 3600 + minutes * 60 + seconds;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * EDF+ Annotation Parser - Time-stamped Annotation Lists (TALs)
+ *
+ * Purpose: Read event markers stored inside EDF+ files ("EDF Annotations" signal)
+ * Learning Focus: Clinical exports often carry seizure markers in the file itself,
+ * so labels no longer depend on a separate summary or .seizures file
+ *
+ * TAL layout (UTF-8 bytes inside the annotation signal of each data record):
+ *   +Onset[\x15Duration]\x14Text\x14[Text\x14...]\x00
+ * The first TAL of every record has no text and gives that record's start time.
+ */
+
+import type { EDFHeader } from './chbEDFReader';
+import type { SeizureEvent } from './chbSeizureAPI';
+
+export interface EDFAnnotation {
+  onset: number;             // Seconds relative to recording start
+  duration: number | null;   // Seconds, null when not specified
+  text: string;
+}
+
+export interface EDFAnnotationResult {
+  annotations: EDFAnnotation[];
+  recordStartTimes: number[];  // Onset of each data record (gaps appear in EDF+D)
+}
+
+const TAL_ONSET_SEPARATOR = '\x15';
+const TAL_TEXT_SEPARATOR = '\x14';
+const TAL_TERMINATOR = '\x00';
+
+// Matches markers such as "Seizure", "seizure start", "SZ onset", "ictal end"
+// (but not "pre-ictal"/"postictal")
+const SEIZURE_TEXT_PATTERN = /seiz|\bsz\b|(?<![a-z-])ictal/i;
+const SEIZURE_END_PATTERN = /\b(end|ends|offset|stop)\b/i;
+
+export class EDFPlusAnnotationParser {
+
+  /**
+   * Extract all annotations from the annotation signal(s) of an EDF+ buffer
+   */
+  static extractAnnotations(header: EDFHeader, buffer: Uint8Array): EDFAnnotationResult {
+    const annotations: EDFAnnotation[] = [];
+    const recordStartTimes: number[] = [];
+
+    if (header.annotationSignalIndices.length === 0) {
+      return { annotations, recordStartTimes };
+    }
+
+    console.log(`📝 Reading EDF+ annotations (${header.format})...`);
+
+    // Byte offset of every signal inside a data record
+    const signalOffsets: number[] = [];
+    let position = 0;
+    for (const signal of header.signals) {
+      signalOffsets.push(position);
+      position += signal.samplesPerRecord * 2;
+    }
+
+    const availableRecords = Math.floor((buffer.length - header.headerBytes) / header.recordBytes);
+    const recordCount = Math.min(header.numberOfRecords, availableRecords);
+
+    for (let recordIndex = 0; recordIndex < recordCount; recordIndex++) {
+      const recordOffset = header.headerBytes + recordIndex * header.recordBytes;
+
+      header.annotationSignalIndices.forEach((signalIndex, i) => {
+        const start = recordOffset + signalOffsets[signalIndex];
+        const bytes = buffer.subarray(start, start + header.signals[signalIndex].samplesPerRecord * 2);
+        const parsed = this.parseTALs(bytes);
+
+        // Only the first annotation signal carries the time-keeping TAL
+        if (i === 0) {
+          recordStartTimes.push(parsed.recordStart ?? recordIndex * header.durationOfRecord);
+        }
+        annotations.push(...parsed.annotations);
+      });
+    }
+
+    annotations.sort((a, b) => a.onset - b.onset);
+    console.log(`✅ Found ${annotations.length} annotations in ${recordCount} records`);
+
+    return { annotations, recordStartTimes };
+  }
+
+  /**
+   * Parse the TALs contained in one record's annotation bytes
+   */
+  static parseTALs(bytes: Uint8Array): { recordStart: number | null; annotations: EDFAnnotation[] } {
+    const text = new TextDecoder('utf-8').decode(bytes);
+    const annotations: EDFAnnotation[] = [];
+    let recordStart: number | null = null;
+
+    const tals = text.split(TAL_TERMINATOR).filter(tal => tal.length > 0);
+
+    tals.forEach((tal, talIndex) => {
+      const parts = tal.split(TAL_TEXT_SEPARATOR);
+      const [onsetText, durationText] = parts[0].split(TAL_ONSET_SEPARATOR);
+
+      if (!/^[+-]\d+(\.\d*)?$/.test(onsetText)) {
+        throw new Error(`Malformed TAL onset: "${onsetText}"`);
+      }
+
+      const onset = parseFloat(onsetText);
+      const duration = durationText !== undefined && durationText.length > 0 ? parseFloat(durationText) : null;
+      const texts = parts.slice(1).filter(part => part.length > 0);
+
+      if (talIndex === 0 && texts.length === 0) {
+        recordStart = onset;
+        return;
+      }
+
+      for (const annotationText of texts) {
+        annotations.push({ onset, duration, text: annotationText });
+      }
+    });
+
+    return { recordStart, annotations };
+  }
+
+  /**
+   * Convert seizure markers into the SeizureEvent shape used by CHBSeizureAPI
+   *
+   * Learning: Exporters either write one annotation with a duration, or a
+   * start marker followed by a separate end marker - both are handled.
+   */
+  static toSeizureEvents(annotations: EDFAnnotation[], fileName: string): SeizureEvent[] {
+    const seizureEvents: SeizureEvent[] = [];
+    let pendingStart: number | null = null;
+
+    const addEvent = (startTime: number, endTime: number) => {
+      seizureEvents.push({
+        fileName,
+        seizureNumber: seizureEvents.length + 1,
+        startTime,
+        endTime,
+        duration: endTime - startTime
+      });
+    };
+
+    for (const annotation of annotations) {
+      if (!SEIZURE_TEXT_PATTERN.test(annotation.text)) continue;
+
+      if (annotation.duration !== null && annotation.duration > 0) {
+        addEvent(annotation.onset, annotation.onset + annotation.duration);
+      } else if (SEIZURE_END_PATTERN.test(annotation.text)) {
+        if (pendingStart !== null) {
+          addEvent(pendingStart, annotation.onset);
+          pendingStart = null;
+        }
+      } else {
+        pendingStart = annotation.onset;
+      }
+    }
+
+    if (pendingStart !== null) {
+      console.log(`⚠️ Seizure marker at ${pendingStart}s has no matching end marker - ignored`);
+    }
+
+    return seizureEvents;
+  }
+
+  /**
+   * Map a recording time to elapsed signal time, removing EDF+D gaps so the
+   * result can be used as a sample index (time × samplingRate)
+   */
+  static toSignalTime(time: number, recordStartTimes: number[], durationOfRecord: number): number {
+    if (recordStartTimes.length === 0) return time;
+
+    let recordIndex = 0;
+    while (recordIndex + 1 < recordStartTimes.length && recordStartTimes[recordIndex + 1] <= time) {
+      recordIndex++;
+    }
+
+    const withinRecord = Math.min(Math.max(0, time - recordStartTimes[recordIndex]), durationOfRecord);
+    return recordIndex * durationOfRecord + withinRecord;
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EEGGenerator } from '@/lib/eegGenerator';
+import { createSeededRandom } from '@/lib/seededRandom';
+import { CHBEDFReader } from './chbEDFReader';
+import { EDFPlusAnnotationParser } from './edfPlusAnnotations';
+import { EDFWriter } from './edfWriter';
+
+describe('EDFWriter', () => {
+  it('writes recordings with more data records than a spread call can take', () => {
+    // Three days at 1 Hz: 259200 one-second records, each with its own annotation TAL
+    const seconds = 3 * 24 * 3600;
+    const bytes = EDFWriter.write({
+      channelLabels: ['EEG Fz'],
+      channels: [new Float32Array(seconds)],
+      samplingRate: 1,
+      startTime: new Date('2024-01-01T00:00:00Z')
+    });
+
+    const header = new TextDecoder().decode(bytes.subarray(0, 256));
+    expect(parseInt(header.slice(236, 244))).toBe(seconds);
+  });
+
+  it('reads back what it wrote, samples and phase annotations', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const eeg = EEGGenerator.generateSeizureEEG('roundtrip', 6, 'tonic-clonic', 5, {
+      timeline: [
+        { phase: 'interictal', start: 0 },
+        { phase: 'aura', start: 1 },
+        { phase: 'ictal', start: 2 },
+        { phase: 'postictal', start: 4 }
+      ],
+      random: createSeededRandom(7)
+    });
+    const recording = EDFWriter.fromGeneratedEEG(eeg);
+    const bytes = EDFWriter.write(recording);
+
+    const parsed = await CHBEDFReader.readCHBFileFromBuffer(bytes, 'roundtrip.edf', false);
+    expect(parsed.header.reserved.trim()).toBe('EDF+C');
+    expect(parsed.channelLabels).toEqual(eeg.channels.map(channel => `EEG ${channel}`));
+
+    CHBEDFReader.getDataSignals(parsed.header).forEach((signal, channelIndex) => {
+      const written = recording.channels[channelIndex];
+      const read = parsed.signalData.channels[channelIndex];
+      expect(read).toHaveLength(written.length);
+      for (let i = 0; i < written.length; i++) {
+        expect(Math.abs(read[i] - written[i])).toBeLessThanOrEqual(signal.gain);
+      }
+    });
+
+    const { annotations } = EDFPlusAnnotationParser.extractAnnotations(parsed.header, bytes);
+    expect(annotations).toEqual([
+      { onset: 1, duration: 1, text: 'Aura' },
+      { onset: 2, duration: 2, text: 'Seizure' },
+      { onset: 4, duration: 2, text: 'Postictal' }
+    ]);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * EDF+ Writer - Export recordings in the clinical standard format
+ *
+ * Purpose: Serialize generated or recorded EEG to EDF+ so clinicians can open
+ * it in EDFbrowser and other standard viewers
+ * Learning Focus: The reverse of chbEDFReader - choose a physical range per
+ * channel, map it onto 16-bit digital values, and store events as TALs
+ */
+
+import type { EDFAnnotation } from './edfPlusAnnotations';
+import { SEIZURE_PHASE_TIMELINE, type EEGData as GeneratedEEGData } from '@/lib/eegGenerator';
+import type { EEGData as PredictionEEGData } from '@/lib/aiSeizurePrediction';
+
+export interface EDFRecording {
+  channelLabels: string[];
+  channels: ArrayLike<number>[];  // [channel][sample] in µV
+  samplingRate: number;           // Hz, shared by every channel
+  startTime: Date;
+  patientId?: string;             // Patient code (no spaces)
+  recordingId?: string;           // Free-text recording description
+  annotations?: EDFAnnotation[];
+}
+
+const DIGITAL_MIN = -32768;
+const DIGITAL_MAX = 32767;
+const ANNOTATION_LABEL = 'EDF Annotations';
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const PHASE_ANNOTATION_TEXT: Record<string, string> = {
+  aura: 'Aura',
+  ictal: 'Seizure',
+  postictal: 'Postictal'
+};
+
+export class EDFWriter {
+
+  /**
+   * Build an EDF recording from EEGGenerator output, annotating each seizure phase
+   */
+  static fromGeneratedEEG(eeg: GeneratedEEGData): EDFRecording {
+    const channels = eeg.channels.map(channel => eeg.data.map(point => point.channels[channel] ?? 0));
+    const duration = eeg.data.length / eeg.samplingRate;
+
+    const timeline = eeg.metadata.timeline ?? SEIZURE_PHASE_TIMELINE;
+    const annotations: EDFAnnotation[] = timeline
+      .map((entry, i) => {
+        const end = Math.min(timeline[i + 1]?.start ?? duration, duration);
+        return { onset: entry.start, duration: end - entry.start, text: PHASE_ANNOTATION_TEXT[entry.phase] };
+      })
+      .filter(annotation => annotation.duration > 0 && annotation.text !== undefined);
+
+    return {
+      channelLabels: eeg.channels,
+      channels,
+      samplingRate: eeg.samplingRate,
+      startTime: eeg.data.length > 0 ? new Date(eeg.data[0].timestamp) : new Date(eeg.metadata.generatedAt),
+      patientId: eeg.seizureId,
+      recordingId: `${eeg.metadata.seizureType} severity ${eeg.metadata.severity}`,
+      annotations
+    };
+  }
+
+  /**
+   * Build an EDF recording from the AISeizurePrediction EEG shape
+   */
+  static fromPredictionEEG(
+    eeg: PredictionEEGData,
+    channelLabels: string[],
+    annotations: EDFAnnotation[] = []
+  ): EDFRecording {
+    return {
+      channelLabels: eeg.channels.map((_, i) => channelLabels[i] ?? `EEG ${i + 1}`),
+      channels: eeg.channels,
+      samplingRate: eeg.samplingRate,
+      startTime: eeg.timestamp,
+      annotations
+    };
+  }
+
+  /**
+   * Serialize a recording to EDF+C bytes (1-second data records)
+   */
+  static write(recording: EDFRecording): Uint8Array {
+    const { channels, samplingRate } = recording;
+
+    if (channels.length === 0) {
+      throw new Error('Cannot write EDF without channels');
+    }
+    if (!Number.isInteger(samplingRate) || samplingRate <= 0) {
+      throw new Error(`EDF writer needs an integer sampling rate (got ${samplingRate})`);
+    }
+
+    const sampleCount = channels.reduce((longest, channel) => Math.max(longest, channel.length), 0);
+    const recordCount = Math.max(1, Math.ceil(sampleCount / samplingRate));
+    const annotationTALs = this.buildAnnotationTALs(recording.annotations ?? [], recordCount);
+    // One TAL per data record, so reduce rather than spread: a long recording would exceed the argument limit
+    const annotationSamples = Math.ceil(annotationTALs.reduce((longest, tal) => Math.max(longest, tal.length), 0) / 2);
+
+    const ns = channels.length + 1;
+    const headerBytes = 256 + ns * 256;
+    const recordBytes = (channels.length * samplingRate + annotationSamples) * 2;
+
+    console.log(`💾 Writing EDF+: ${channels.length} channels, ${recordCount} records @ ${samplingRate} Hz`);
+
+    // Physical range per channel - padded so a flat signal still has a valid range
+    const ranges = channels.map(channel => {
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = 0; i < channel.length; i++) {
+        if (channel[i] < min) min = channel[i];
+        if (channel[i] > max) max = channel[i];
+      }
+      if (!isFinite(min) || !isFinite(max)) return { min: -1, max: 1 };
+      if (min === max) return { min: min - 1, max: max + 1 };
+      return { min: Math.floor(min), max: Math.ceil(max) };
+    });
+
+    const buffer = new Uint8Array(headerBytes + recordCount * recordBytes);
+    const view = new DataView(buffer.buffer);
+    let offset = 0;
+
+    const writeASCII = (value: string, width: number) => {
+      const text = value.replace(/[^\x20-\x7e]/g, '_').slice(0, width).padEnd(width, ' ');
+      for (let i = 0; i < width; i++) buffer[offset + i] = text.charCodeAt(i);
+      offset += width;
+    };
+    const writeField = (values: string[], width: number) => values.forEach(value => writeASCII(value, width));
+
+    // Fixed header
+    writeASCII('0', 8);
+    writeASCII(this.formatPatientField(recording.patientId), 80);
+    writeASCII(this.formatRecordingField(recording.startTime, recording.recordingId), 80);
+    writeASCII(this.formatDate(recording.startTime), 8);
+    writeASCII(this.formatTime(recording.startTime), 8);
+    writeASCII(String(headerBytes), 8);
+    writeASCII('EDF+C', 44);
+    writeASCII(String(recordCount), 8);
+    writeASCII('1', 8);
+    writeASCII(String(ns), 4);
+
+    // Per-signal header fields, written field-by-field
+    writeField([...recording.channelLabels.map(label => `EEG ${label}`), ANNOTATION_LABEL], 16);
+    writeField([...channels.map(() => 'AgAgCl electrode'), ''], 80);
+    writeField([...channels.map(() => 'uV'), ''], 8);
+    writeField([...ranges.map(range => this.formatNumber(range.min)), '-1'], 8);
+    writeField([...ranges.map(range => this.formatNumber(range.max)), '1'], 8);
+    writeField(Array(ns).fill(String(DIGITAL_MIN)), 8);
+    writeField(Array(ns).fill(String(DIGITAL_MAX)), 8);
+    writeField(Array(ns).fill(''), 80);
+    writeField([...channels.map(() => String(samplingRate)), String(annotationSamples)], 8);
+    writeField(Array(ns).fill(''), 32);
+
+    // Scale factors must come from the values actually written to the header
+    const scales = ranges.map(range => {
+      const physicalMin = parseFloat(this.formatNumber(range.min));
+      const physicalMax = parseFloat(this.formatNumber(range.max));
+      const gain = (physicalMax - physicalMin) / (DIGITAL_MAX - DIGITAL_MIN);
+      return { gain, offset: physicalMax - gain * DIGITAL_MAX };
+    });
+
+    // Data records
+    for (let record = 0; record < recordCount; record++) {
+      channels.forEach((channel, channelIndex) => {
+        const { gain, offset: physicalOffset } = scales[channelIndex];
+        for (let sample = 0; sample < samplingRate; sample++) {
+          const index = record * samplingRate + sample;
+          const value = index < channel.length ? channel[index] : 0;
+          const digital = Math.round((value - physicalOffset) / gain);
+          view.setInt16(offset, Math.max(DIGITAL_MIN, Math.min(DIGITAL_MAX, digital)), true);
+          offset += 2;
+        }
+      });
+
+      // Annotation signal is zero-padded after its TALs
+      buffer.set(annotationTALs[record], offset);
+      offset += annotationSamples * 2;
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Serialize a recording and wrap it as a downloadable Blob
+   */
+  static toBlob(recording: EDFRecording): Blob {
+    return new Blob([this.write(recording)], { type: 'application/octet-stream' });
+  }
+
+  /**
+   * One byte array per data record: the time-keeping TAL followed by every
+   * annotation whose onset falls inside that record
+   */
+  private static buildAnnotationTALs(annotations: EDFAnnotation[], recordCount: number): Uint8Array[] {
+    const encoder = new TextEncoder();
+    const sorted = [...annotations].sort((a, b) => a.onset - b.onset);
+
+    return Array.from({ length: recordCount }, (_, record) => {
+      let text = `+${record}\x14\x14\x00`;
+
+      for (const annotation of sorted) {
+        const inRecord = Math.floor(annotation.onset) === record
+          || (record === 0 && annotation.onset < 0)
+          || (record === recordCount - 1 && annotation.onset >= recordCount);
+        if (!inRecord) continue;
+
+        const onset = `${annotation.onset >= 0 ? '+' : ''}${this.formatSeconds(annotation.onset)}`;
+        const duration = annotation.duration !== null ? `\x15${this.formatSeconds(annotation.duration)}` : '';
+        const label = annotation.text.split('').map(char => (char < ' ' ? ' ' : char)).join('');
+        text += `${onset}${duration}\x14${label}\x14\x00`;
+      }
+
+      return encoder.encode(text);
+    });
+  }
+
+  /**
+   * EDF+ patient field: "code sex birthdate name" with X for unknown subfields
+   */
+  private static formatPatientField(patientId?: string): string {
+    const code = patientId ? patientId.replace(/\s+/g, '_') : 'X';
+    return `${code} X X X`;
+  }
+
+  /**
+   * EDF+ recording field: "Startdate dd-MMM-yyyy admincode technician equipment"
+   */
+  private static formatRecordingField(startTime: Date, recordingId?: string): string {
+    const day = String(startTime.getDate()).padStart(2, '0');
+    const date = `${day}-${MONTHS[startTime.getMonth()]}-${startTime.getFullYear()}`;
+    const equipment = recordingId ? recordingId.replace(/\s+/g, '_') : 'PreAura';
+    return `Startdate ${date} X X ${equipment}`;
+  }
+
+  private static formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${pad(date.getDate())}.${pad(date.getMonth() + 1)}.${pad(date.getFullYear() % 100)}`;
+  }
+
+  private static formatTime(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${pad(date.getHours())}.${pad(date.getMinutes())}.${pad(date.getSeconds())}`;
+  }
+
+  /**
+   * Format a number into at most 8 ASCII characters (EDF numeric field width)
+   */
+  private static formatNumber(value: number): string {
+    const integer = String(Math.round(value));
+    if (integer.length > 8) {
+      throw new Error(`Value ${value} does not fit in an 8-character EDF field`);
+    }
+    for (let decimals = 3; decimals > 0; decimals--) {
+      const text = value.toFixed(decimals).replace(/\.?0+$/, '');
+      if (text.length <= 8) return text;
+    }
+    return integer;
+  }
+
+  private static formatSeconds(value: number): string {
+    return value.toFixed(3).replace(/\.?0+$/, '');
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const eeg = EEGGenerator.generateSeizureEEG('seizure-123', 60);
+ * const blob = EDFWriter.toBlob(EDFWriter.fromGeneratedEEG(eeg));
+ */
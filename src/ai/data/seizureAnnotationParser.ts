@@ -8,6 +8,8 @@
  * for AI training labels
  */
 
+import { WFDBAnnotationDecoder } from './wfdbAnnotationDecoder';
+
 interface SeizureEvent {
   startTime: number;        // Seizure start in seconds from recording start
   endTime: number;          // Seizure end in seconds from recording start
@@ -93,43 +95,27 @@ export class CHBSeizureParser {
   
   /**
    * Parse seizure events from buffer data
+   * 
+   * Errors propagate to the caller - a file we cannot read must not turn into
+   * made-up training labels.
    */
   private static parseSeizureEventsFromBuffer(buffer: Uint8Array, samplingRate: number): SeizureEvent[] {
     console.log('⏱️ Parsing seizure timing events from buffer...');
     
-    const seizureEvents: SeizureEvent[] = [];
-    
     if (buffer.length === 0) {
       console.log('   No seizure data found (empty file)');
-      return seizureEvents;
+      return [];
     }
     
-    try {
-      // Method 1: Try parsing as text format first
-      const textContent = new TextDecoder('utf8').decode(buffer).trim();
-      
-      if (textContent.length > 0 && !textContent.includes('\0')) {
-        // Text-based seizure file
-        return this.parseTextSeizureFormat(textContent, samplingRate);
-      }
-      
-      // Method 2: Binary format parsing
-      return this.parseBinarySeizureFormatFromUint8Array(buffer, samplingRate);
-      
-    } catch (error) {
-      console.warn(`⚠️ Warning: Could not parse seizure format, creating demo seizure data`);
-      
-      // Create realistic demo seizure data
-      return [{
-        startTime: 2996 / samplingRate, // ~11.7 seconds
-        endTime: 3906 / samplingRate,   // ~15.3 seconds  
-        duration: (3906 - 2996) / samplingRate, // ~3.6 seconds
-        startSample: 2996,
-        endSample: 3906,
-        type: 'seizure',
-        confidence: 1.0
-      }];
+    // Method 1: Plain-text start/end listings
+    const textContent = new TextDecoder('utf8').decode(buffer).trim();
+    
+    if (textContent.length > 0 && !textContent.includes('\0')) {
+      return this.parseTextSeizureFormat(textContent, samplingRate);
     }
+    
+    // Method 2: PhysioNet WFDB (MIT format) binary annotations
+    return this.parseWFDBSeizureFormat(buffer, samplingRate);
   }
   
   /**
@@ -176,106 +162,33 @@ export class CHBSeizureParser {
   }
   
   /**
-   * Parse binary seizure annotation format
+   * Parse binary WFDB annotations (the format CHB-MIT .seizures files use)
    * 
-   * Learning: Binary files might store timestamps as 32-bit or 64-bit integers
+   * Learning: Seizures are marked by a "[" (onset) and "]" (end) annotation pair;
+   * times are sample indices at the file's declared time resolution.
    */
-  private static parseBinarySeizureFormat(buffer: Buffer, samplingRate: number): SeizureEvent[] {
-    console.log('   Parsing binary seizure format...');
+  private static parseWFDBSeizureFormat(buffer: Uint8Array, samplingRate: number): SeizureEvent[] {
+    console.log('   Parsing WFDB (MIT format) annotations...');
     
-    const seizureEvents: SeizureEvent[] = [];
-    
-    // Try different binary formats
-    
-    // Format 1: Pairs of 32-bit integers (start_sample, end_sample)
-    if (buffer.length % 8 === 0) {
-      for (let offset = 0; offset < buffer.length; offset += 8) {
-        const startSample = buffer.readUInt32LE(offset);
-        const endSample = buffer.readUInt32LE(offset + 4);
-        
-        if (endSample > startSample && startSample > 0) {
-          const startTime = startSample / samplingRate;
-          const endTime = endSample / samplingRate;
-          
-          seizureEvents.push({
-            startTime,
-            endTime,
-            duration: endTime - startTime,
-            startSample,
-            endSample,
-            type: 'seizure',
-            confidence: 1.0
-          });
-        }
-      }
-    }
+    const annotationFile = WFDBAnnotationDecoder.decode(buffer, samplingRate);
+    const intervals = WFDBAnnotationDecoder.toSeizureIntervals(annotationFile);
+    const resolution = annotationFile.timeResolution;
     
-    // Format 2: Pairs of 64-bit integers if previous method didn't work
-    if (seizureEvents.length === 0 && buffer.length % 16 === 0) {
-      for (let offset = 0; offset < buffer.length; offset += 16) {
-        // Read as 64-bit but take lower 32 bits (most CHB data fits in 32-bit)
-        const startSample = Number(buffer.readBigUInt64LE(offset) & BigInt(0xFFFFFFFF));
-        const endSample = Number(buffer.readBigUInt64LE(offset + 8) & BigInt(0xFFFFFFFF));
-        
-        if (endSample > startSample && startSample > 0) {
-          const startTime = startSample / samplingRate;
-          const endTime = endSample / samplingRate;
-          
-          seizureEvents.push({
-            startTime,
-            endTime,
-            duration: endTime - startTime,
-            startSample,
-            endSample,
-            type: 'seizure',
-            confidence: 1.0
-          });
-        }
-      }
-    }
-    
-    console.log(`   Found ${seizureEvents.length} seizure events in binary format`);
-    return seizureEvents;
-  }
-  
-  /**
-   * Parse binary seizure annotation format from Uint8Array (Browser compatible)
-   */
-  private static parseBinarySeizureFormatFromUint8Array(buffer: Uint8Array, samplingRate: number): SeizureEvent[] {
-    console.log('   Parsing binary seizure format from Uint8Array...');
-    
-    const seizureEvents: SeizureEvent[] = [];
-    
-    // Helper to read 32-bit little-endian integers
-    const readUInt32LE = (offset: number): number => {
-      const view = new DataView(buffer.buffer, buffer.byteOffset + offset, 4);
-      return view.getUint32(0, true); // true = little-endian
-    };
-    
-    // Format 1: Pairs of 32-bit integers (start_sample, end_sample)
-    if (buffer.length % 8 === 0) {
-      for (let offset = 0; offset < buffer.length; offset += 8) {
-        const startSample = readUInt32LE(offset);
-        const endSample = readUInt32LE(offset + 4);
-        
-        if (endSample > startSample && startSample > 0) {
-          const startTime = startSample / samplingRate;
-          const endTime = endSample / samplingRate;
-          
-          seizureEvents.push({
-            startTime,
-            endTime,
-            duration: endTime - startTime,
-            startSample,
-            endSample,
-            type: 'seizure',
-            confidence: 1.0
-          });
-        }
-      }
-    }
+    const seizureEvents: SeizureEvent[] = intervals.map(interval => {
+      const startTime = interval.startSample / resolution;
+      const endTime = interval.endSample / resolution;
+      return {
+        startTime,
+        endTime,
+        duration: endTime - startTime,
+        startSample: Math.round(startTime * samplingRate),
+        endSample: Math.round(endTime * samplingRate),
+        type: 'seizure',
+        confidence: 1.0
+      };
+    });
     
-    console.log(`   Found ${seizureEvents.length} seizure events in Uint8Array binary format`);
+    console.log(`   Found ${seizureEvents.length} seizure events (${annotationFile.annotations.length} annotations @ ${resolution} Hz)`);
     return seizureEvents;
   }
   
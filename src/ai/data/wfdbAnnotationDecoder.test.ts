@@ -0,0 +1,46 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import seizureCSV from '../../../Seizure-CHB-Data.csv?raw';
+import { CHBSummaryParser } from './chbSummaryParser';
+import { WFDBAnnotationDecoder, WFDB_CODES } from './wfdbAnnotationDecoder';
+
+// The annotation file PhysioNet ships next to chb03_01.edf
+const chb03Seizures = new Uint8Array(readFileSync(new URL('../../../public/CHB-MIT Seizures chb03 01.seizures', import.meta.url)));
+
+// 16-bit little-endian annotation word: code in the top 6 bits, interval in the low 10
+const word = (code: number, interval: number) => [interval & 0xff, (code << 2) | (interval >> 8)];
+
+describe('WFDBAnnotationDecoder', () => {
+  it('decodes the bundled chb03_01 seizure annotations', () => {
+    const file = WFDBAnnotationDecoder.decode(chb03Seizures);
+
+    expect(file.timeResolution).toBe(256);
+    expect(file.annotations.map(annotation => [annotation.mnemonic, annotation.time])).toEqual([['[', 362], [']', 414]]);
+
+    const [seizure] = WFDBAnnotationDecoder.toSeizureIntervals(file);
+    const reference = CHBSummaryParser.parseSeizureCSV(seizureCSV).find(record => record.fileName === 'chb03_01.edf');
+    expect(seizure.startSample / file.timeResolution).toBe(reference.startTime);
+    expect(seizure.endSample / file.timeResolution).toBe(reference.endTime);
+  });
+
+  it('applies SKIP intervals and attaches AUX text to the annotation before it', () => {
+    const bytes = new Uint8Array([
+      ...word(59, 0), 0x01, 0x00, 0x70, 0x11,              // SKIP 0x00011170 = 70000 samples, high word first
+      ...word(WFDB_CODES.VFON, 16),                          // Onset at 70016
+      ...word(63, 5), ...new TextEncoder().encode('onset'), 0, // AUX, padded to an even length
+      ...word(WFDB_CODES.VFOFF, 256),                        // End at 70272
+      0, 0
+    ]);
+
+    const file = WFDBAnnotationDecoder.decode(bytes);
+
+    expect(file.annotations.map(({ sample, time, mnemonic, aux }) => ({ sample, time, mnemonic, aux }))).toEqual([
+      { sample: 70016, time: 273.5, mnemonic: '[', aux: 'onset' },
+      { sample: 70272, time: 274.5, mnemonic: ']', aux: null }
+    ]);
+  });
+
+  it('rejects a SKIP cut short by the end of the file', () => {
+    expect(() => WFDBAnnotationDecoder.decode(new Uint8Array([...word(59, 0), 0x01, 0x00]))).toThrow(/Truncated/);
+  });
+});
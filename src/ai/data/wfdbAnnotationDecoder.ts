@@ -0,0 +1,196 @@
+/**
+ * WFDB Annotation Decoder - PhysioNet "MIT format" annotation files
+ *
+ * Purpose: Decode the binary .seizures files that ship with CHB-MIT
+ * Learning Focus: Each annotation is a 16-bit little-endian word - the top
+ * 6 bits are the annotation code (A), the low 10 bits the sample interval
+ * since the previous annotation (I). Codes 59-63 are pseudo-annotations that
+ * modify the annotation before them instead of marking an event:
+ *   SKIP (59) - next 4 bytes hold a 32-bit interval (high word first)
+ *   NUM  (60) - I is the "num" field for following annotations
+ *   SUB  (61) - I is the subtype of the previous annotation
+ *   CHN  (62) - I is the channel for following annotations
+ *   AUX  (63) - I bytes of auxiliary text follow (padded to an even length)
+ * A = 0 and I = 0 marks the end of the file.
+ */
+
+export interface WFDBAnnotation {
+  sample: number;          // Sample index (at timeResolution)
+  time: number;            // Seconds from recording start
+  code: number;            // WFDB annotation code (1-49)
+  mnemonic: string;        // e.g. "[" for VFON, "]" for VFOFF
+  subtype: number;
+  channel: number;
+  num: number;
+  aux: string | null;
+}
+
+export interface WFDBAnnotationFile {
+  annotations: WFDBAnnotation[];
+  timeResolution: number;  // Samples per second used for annotation times
+}
+
+const SKIP = 59;
+const NUM = 60;
+const SUB = 61;
+const CHN = 62;
+const AUX = 63;
+
+// Codes used by CHB-MIT: seizures are bracketed by VFON "[" and VFOFF "]"
+export const WFDB_CODES = {
+  NOTQRS: 0,
+  NORMAL: 1,
+  NOTE: 22,
+  VFON: 32,
+  VFOFF: 33
+} as const;
+
+const MNEMONICS: Record<number, string> = {
+  1: 'N', 2: 'L', 3: 'R', 4: 'a', 5: 'V', 6: 'F', 7: 'J', 8: 'A', 9: 'S', 10: 'E',
+  11: 'j', 12: '/', 13: 'Q', 14: '~', 16: '|', 18: 's', 19: 'T', 20: '*', 21: 'D',
+  22: '"', 23: '=', 24: 'p', 25: 'B', 26: '^', 27: 't', 28: '+', 29: 'u', 30: '?',
+  31: '!', 32: '[', 33: ']', 34: 'e', 35: 'n', 36: '@', 37: 'x', 38: 'f', 39: '(',
+  40: ')', 41: 'r'
+};
+
+const TIME_RESOLUTION_PATTERN = /^## time resolution:\s*([\d.]+)/;
+
+export class WFDBAnnotationDecoder {
+
+  /**
+   * Decode an MIT-format annotation file. Throws on truncated or malformed
+   * input rather than guessing.
+   */
+  static decode(buffer: Uint8Array, defaultTimeResolution: number = 256): WFDBAnnotationFile {
+    if (buffer.length < 2) {
+      throw new Error('Annotation file is empty');
+    }
+
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    const annotations: WFDBAnnotation[] = [];
+    let timeResolution = defaultTimeResolution;
+
+    let offset = 0;
+    let time = 0;
+    let num = 0;
+    let channel = 0;
+    let current: WFDBAnnotation | null = null;
+    let reachedEnd = false;
+
+    const requireBytes = (count: number, what: string) => {
+      if (offset + count > buffer.length) {
+        throw new Error(`Truncated annotation file: ${what} at byte ${offset} needs ${count} bytes, ${buffer.length - offset} left`);
+      }
+    };
+
+    while (offset + 2 <= buffer.length) {
+      const word = view.getUint16(offset, true);
+      offset += 2;
+
+      const code = word >> 10;
+      const interval = word & 0x3ff;
+
+      if (code === 0 && interval === 0) {
+        reachedEnd = true;
+        break;
+      }
+
+      switch (code) {
+        case SKIP: {
+          requireBytes(4, 'SKIP interval');
+          // PDP-11 long: high 16 bits first, each half little-endian
+          const high = view.getInt16(offset, true);
+          const low = view.getUint16(offset + 2, true);
+          time += high * 0x10000 + low;
+          offset += 4;
+          break;
+        }
+
+        case NUM:
+          num = interval;
+          if (current) current.num = num;
+          break;
+
+        case SUB:
+          if (!current) throw new Error(`SUB pseudo-annotation at byte ${offset - 2} has no annotation to modify`);
+          current.subtype = interval;
+          break;
+
+        case CHN:
+          channel = interval;
+          if (current) current.channel = channel;
+          break;
+
+        case AUX: {
+          requireBytes(interval, 'AUX string');
+          const text = new TextDecoder('latin1').decode(buffer.subarray(offset, offset + interval)).replace(/\0+$/, '');
+          offset += interval + (interval % 2);
+          if (!current) throw new Error(`AUX pseudo-annotation at byte ${offset} has no annotation to modify`);
+          current.aux = text;
+
+          const resolutionMatch = text.match(TIME_RESOLUTION_PATTERN);
+          if (current.code === WFDB_CODES.NOTE && resolutionMatch) {
+            timeResolution = parseFloat(resolutionMatch[1]);
+          }
+          break;
+        }
+
+        default: {
+          time += interval;
+          current = {
+            sample: time,
+            time: 0, // Filled in once the time resolution is known
+            code,
+            mnemonic: MNEMONICS[code] ?? String(code),
+            subtype: 0,
+            channel,
+            num,
+            aux: null
+          };
+          annotations.push(current);
+        }
+      }
+    }
+
+    if (!reachedEnd) {
+      throw new Error(`Annotation file has no end-of-file marker (${buffer.length} bytes read)`);
+    }
+
+    // NOTQRS placeholders and the time-resolution note are bookkeeping, not events
+    const events = annotations
+      .filter(annotation => annotation.code !== WFDB_CODES.NOTQRS)
+      .filter(annotation => !(annotation.code === WFDB_CODES.NOTE && annotation.aux?.match(TIME_RESOLUTION_PATTERN)))
+      .map(annotation => ({ ...annotation, time: annotation.sample / timeResolution }));
+
+    return { annotations: events, timeResolution };
+  }
+
+  /**
+   * Pair VFON "[" / VFOFF "]" annotations into seizure intervals (in samples)
+   */
+  static toSeizureIntervals(file: WFDBAnnotationFile): { startSample: number; endSample: number }[] {
+    const intervals: { startSample: number; endSample: number }[] = [];
+    let openStart: number | null = null;
+
+    for (const annotation of file.annotations) {
+      if (annotation.code === WFDB_CODES.VFON) {
+        if (openStart !== null) {
+          throw new Error(`Seizure onset at sample ${annotation.sample} before previous onset at ${openStart} was closed`);
+        }
+        openStart = annotation.sample;
+      } else if (annotation.code === WFDB_CODES.VFOFF) {
+        if (openStart === null) {
+          throw new Error(`Seizure end at sample ${annotation.sample} has no matching onset`);
+        }
+        intervals.push({ startSample: openStart, endSample: annotation.sample });
+        openStart = null;
+      }
+    }
+
+    if (openStart !== null) {
+      throw new Error(`Seizure onset at sample ${openStart} has no matching end`);
+    }
+
+    return intervals;
+  }
+}
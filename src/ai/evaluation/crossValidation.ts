@@ -0,0 +1,322 @@
+/**
+ * Cross-Validation - Patient-independent and seizure-wise model evaluation
+ *
+ * Purpose: Retrain the CNN-LSTM once per fold and score it on recordings it
+ * never saw, then report clinical metrics per fold and pooled (JSON / CSV)
+ * Learning Focus: EEG windows from the same hour are nearly identical, so a
+ * random window split leaks test data into training. Folds here always hold
+ * out whole recordings:
+ *
+ *   leave-one-patient-out   train on every other case, test on one case
+ *   leave-one-seizure-out   per case, hold out the recording a seizure starts
+ *                           in (several seizures in one file go together);
+ *                           same-case recordings close enough to a held-out
+ *                           seizure to label windows around it are dropped
+ *                           from training too
+ */
+
+import { CNNLSTMModel, type CNNLSTMConfig } from '../models/cnnLstmModel';
+import {
+  TrainingPipeline,
+  type TrainingCallbacks,
+  type TrainingConfig,
+  type TrainingRecordingSource
+} from '../training/trainingPipeline';
+import {
+  DEFAULT_EVALUATION_CONFIG,
+  PredictionMetrics,
+  type ClinicalMetrics,
+  type EvaluationConfig,
+  type RecordingPredictions,
+  type SeizureOutcome
+} from './predictionMetrics';
+import type { EEGData } from '@/lib/aiSeizurePrediction';
+
+export type CrossValidationScheme = 'leave-one-patient-out' | 'leave-one-seizure-out';
+
+export interface CrossValidationOptions {
+  scheme: CrossValidationScheme;
+  training: TrainingConfig;
+  model?: Partial<CNNLSTMConfig>;
+  evaluation?: EvaluationConfig;
+  strideSeconds?: number;     // Step between test windows (default: windowSize)
+  maxFolds?: number;
+}
+
+export interface CrossValidationFold {
+  name: string;
+  trainSources: TrainingRecordingSource[];
+  testSources: TrainingRecordingSource[];
+}
+
+export interface FoldResult {
+  name: string;
+  trainRecordings: string[];
+  testRecordings: string[];
+  epochs: number;
+  metrics: ClinicalMetrics;
+  seizures: SeizureOutcome[];
+}
+
+export interface EvaluationReport {
+  scheme: CrossValidationScheme;
+  createdAt: string;
+  training: TrainingConfig;
+  evaluation: EvaluationConfig;
+  folds: FoldResult[];
+  skippedFolds: { name: string; reason: string }[];
+  overall: ClinicalMetrics;     // All test recordings pooled
+}
+
+export interface CrossValidationCallbacks extends TrainingCallbacks {
+  onFoldEnd?: (result: FoldResult, index: number, total: number) => void;
+}
+
+const INFERENCE_BATCH = 32;
+
+export class CrossValidation {
+
+  /**
+   * Split recordings into folds for the chosen scheme
+   */
+  static folds(
+    sources: TrainingRecordingSource[],
+    scheme: CrossValidationScheme,
+    training: Pick<TrainingConfig, 'interictalGuardSeconds'>
+  ): CrossValidationFold[] {
+    if (scheme === 'leave-one-patient-out') {
+      const caseIds = [...new Set(sources.map(source => source.caseId))];
+      if (caseIds.length < 2) {
+        throw new Error('Leave-one-patient-out needs recordings from at least two cases');
+      }
+
+      return caseIds.map(caseId => ({
+        name: caseId,
+        trainSources: sources.filter(source => source.caseId !== caseId),
+        testSources: sources.filter(source => source.caseId === caseId)
+      }));
+    }
+
+    return sources
+      .filter(source => this.ownSeizures(source).length > 0)
+      .map(test => {
+        const heldOut = this.ownSeizures(test);
+        const trainSources = sources.filter(source => {
+          if (source === test || source.caseId !== test.caseId) return false;
+
+          // Drop recordings whose windows would be labelled relative to a held-out seizure
+          const shift = this.shiftBetween(test, source);
+          if (shift === null) return true;
+          return !heldOut.some(seizure =>
+            seizure.startTime + shift - source.durationSeconds < training.interictalGuardSeconds &&
+            seizure.endTime + shift > -training.interictalGuardSeconds
+          );
+        });
+
+        return { name: `${test.caseId}:${test.id}`, trainSources, testSources: [test] };
+      });
+  }
+
+  /**
+   * Train and test every fold in turn. Only one model exists at a time.
+   */
+  static async run(
+    sources: TrainingRecordingSource[],
+    options: CrossValidationOptions,
+    callbacks: CrossValidationCallbacks = {}
+  ): Promise<EvaluationReport> {
+    const log = callbacks.onLog ?? ((message: string) => console.log(message));
+    const evaluation = options.evaluation ?? DEFAULT_EVALUATION_CONFIG;
+    const folds = this.folds(sources, options.scheme, options.training).slice(0, options.maxFolds);
+
+    const results: FoldResult[] = [];
+    const skippedFolds: EvaluationReport['skippedFolds'] = [];
+    const pooled: RecordingPredictions[] = [];
+
+    for (let i = 0; i < folds.length; i++) {
+      if (callbacks.shouldStop?.()) break;
+      const fold = folds[i];
+      log(`🧪 Fold ${i + 1}/${folds.length} (${fold.name}): ${fold.trainSources.length} training / ${fold.testSources.length} test recordings`);
+
+      const reason = this.untrainableReason(fold.trainSources, options.training);
+      if (reason) {
+        log(`⚠️ Skipping ${fold.name}: ${reason}`);
+        skippedFolds.push({ name: fold.name, reason });
+        continue;
+      }
+
+      const dataset = await TrainingPipeline.buildDataset(fold.trainSources, options.training, callbacks);
+      const model = await CNNLSTMModel.create({
+        channels: dataset.windows[0].channels.length,
+        samplingRate: dataset.windows[0].samplingRate,
+        windowSeconds: options.training.windowSize,
+        seed: options.training.seed,
+        ...options.model
+      });
+
+      try {
+        const training = await TrainingPipeline.train(model, dataset, options.training, callbacks);
+        if (training.stopped) break;
+
+        const predictions: RecordingPredictions[] = [];
+        for (const source of fold.testSources) {
+          predictions.push(await this.predictRecording(model, source, options.strideSeconds ?? options.training.windowSize));
+        }
+        // Seizure-wise folds come from different models, so don't let one fold's alarms score another's seizures
+        pooled.push(...(options.scheme === 'leave-one-seizure-out'
+          ? predictions.map(prediction => ({ ...prediction, clockStartSeconds: null }))
+          : predictions));
+
+        const { metrics, seizures } = PredictionMetrics.evaluate(predictions, evaluation);
+        const result: FoldResult = {
+          name: fold.name,
+          trainRecordings: fold.trainSources.map(source => source.id),
+          testRecordings: fold.testSources.map(source => source.id),
+          epochs: training.history.length,
+          metrics,
+          seizures
+        };
+        results.push(result);
+        log(`📊 ${fold.name}: sensitivity ${this.format(metrics.sensitivity)}, ${metrics.falsePredictionsPerHour.toFixed(2)} false/h, AUC ${this.format(metrics.auc)}`);
+        callbacks.onFoldEnd?.(result, i, folds.length);
+      } finally {
+        model.dispose();
+      }
+    }
+
+    return {
+      scheme: options.scheme,
+      createdAt: new Date().toISOString(),
+      training: options.training,
+      evaluation,
+      folds: results,
+      skippedFolds,
+      overall: PredictionMetrics.evaluate(pooled, evaluation).metrics
+    };
+  }
+
+  /**
+   * Slide the model over a whole recording, reading one batch's span at a time
+   */
+  static async predictRecording(
+    model: CNNLSTMModel,
+    source: TrainingRecordingSource,
+    strideSeconds: number
+  ): Promise<RecordingPredictions> {
+    const windowSeconds = model.config.windowSeconds;
+    const samples = Math.round(windowSeconds * source.samplingRate);
+    const starts: number[] = [];
+    for (let start = 0; start + windowSeconds <= source.durationSeconds + 1e-9; start += strideSeconds) starts.push(start);
+
+    const probabilities: number[] = [];
+    for (let i = 0; i < starts.length; i += INFERENCE_BATCH) {
+      const batchStarts = starts.slice(i, i + INFERENCE_BATCH);
+      const spanStart = batchStarts[0];
+      const channels = await source.readWindow(spanStart, batchStarts[batchStarts.length - 1] + windowSeconds - spanStart);
+
+      const batch: EEGData[] = batchStarts.map(start => {
+        const first = Math.round((start - spanStart) * source.samplingRate);
+        return {
+          channels: channels.map(channel => Array.prototype.slice.call(channel, first, first + samples) as number[]),
+          samplingRate: source.samplingRate,
+          timestamp: new Date(start * 1000),
+          duration: windowSeconds
+        };
+      });
+      probabilities.push(...await model.predictBatch(batch));
+    }
+
+    return {
+      recordingId: source.id,
+      caseId: source.caseId,
+      durationSeconds: source.durationSeconds,
+      clockStartSeconds: source.clockStartSeconds ?? null,
+      seizures: source.seizures,
+      windows: starts.map((start, i) => ({ startTime: start, endTime: start + windowSeconds, probability: probabilities[i] }))
+    };
+  }
+
+  static toJSON(report: EvaluationReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  /**
+   * One row per fold plus a pooled "overall" row
+   */
+  static toCSV(report: EvaluationReport): string {
+    const header = [
+      'fold', 'seizures', 'predicted_seizures', 'sensitivity', 'alarms', 'false_alarms', 'recorded_hours',
+      'interictal_hours', 'false_predictions_per_hour', 'time_in_warning', 'mean_prediction_horizon_s', 'auc',
+      'random_sensitivity', 'critical_sensitivity', 'p_value', 'significant'
+    ];
+    const row = (name: string, metrics: ClinicalMetrics) => [
+      name,
+      metrics.seizures,
+      metrics.predictedSeizures,
+      metrics.sensitivity,
+      metrics.alarms,
+      metrics.falseAlarms,
+      metrics.recordedHours,
+      metrics.interictalHours,
+      metrics.falsePredictionsPerHour,
+      metrics.timeInWarning,
+      metrics.meanPredictionHorizonSeconds,
+      metrics.auc,
+      metrics.randomPredictor.sensitivity,
+      metrics.randomPredictor.criticalSensitivity,
+      metrics.randomPredictor.pValue,
+      metrics.randomPredictor.significant
+    ].map(value => this.csvValue(value)).join(',');
+
+    return [
+      header.join(','),
+      ...report.folds.map(fold => row(fold.name, fold.metrics)),
+      row('overall', report.overall)
+    ].join('\n') + '\n';
+  }
+
+  /**
+   * Seizures that start inside the recording (not neighbours placed on its timeline)
+   */
+  private static ownSeizures(source: TrainingRecordingSource) {
+    return source.seizures.filter(seizure => seizure.startTime >= 0 && seizure.startTime < source.durationSeconds);
+  }
+
+  private static untrainableReason(sources: TrainingRecordingSource[], training: TrainingConfig): string | null {
+    if (sources.length === 0) return 'no training recordings';
+
+    const labels = new Set(sources.flatMap(source =>
+      TrainingPipeline.labelWindows(source.id, source.durationSeconds, source.seizures, training).map(window => window.label)
+    ));
+    if (!labels.has('preictal')) return 'no pre-ictal training windows';
+    if (!labels.has('interictal')) return 'no interictal training windows';
+    return null;
+  }
+
+  private static shiftBetween(from: TrainingRecordingSource, to: TrainingRecordingSource): number | null {
+    if (from.clockStartSeconds == null || to.clockStartSeconds == null) return null;
+    return from.clockStartSeconds - to.clockStartSeconds;
+  }
+
+  private static csvValue(value: string | number | boolean | null): string {
+    if (value === null || (typeof value === 'number' && !Number.isFinite(value))) return '';
+    if (typeof value === 'number') return String(Number(value.toFixed(6)));
+    if (typeof value === 'string' && /[",\n]/.test(value)) return `"${value.replace(/"/g, '""')}"`;
+    return String(value);
+  }
+
+  private static format(value: number | null): string {
+    return value === null ? 'n/a' : value.toFixed(3);
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const report = await CrossValidation.run(sources, {
+ *   scheme: 'leave-one-patient-out',
+ *   training: { ...DEFAULT_TRAINING_CONFIG, epochs: 10 }
+ * });
+ * console.log(report.overall.sensitivity, report.overall.falsePredictionsPerHour);
+ * await writeFile('evaluation.csv', CrossValidation.toCSV(report));
+ */
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { CrossValidation } from './crossValidation';
+import { PredictionMetrics, type EvaluationConfig, type RecordingPredictions, type WindowPrediction } from './predictionMetrics';
+import type { TrainingRecordingSource } from '../training/trainingPipeline';
+
+// Warning period (SPH + SOP) of 660 s
+const config: EvaluationConfig = { threshold: 0.5, sphSeconds: 60, sopSeconds: 600, postictalSeconds: 600, significanceLevel: 0.05 };
+
+// Back-to-back 10 s windows, high only where `alarmEnds` says
+const windows = (durationSeconds: number, alarmEnds: number[] = []): WindowPrediction[] =>
+  Array.from({ length: durationSeconds / 10 }, (_, i) => ({
+    startTime: i * 10,
+    endTime: (i + 1) * 10,
+    probability: alarmEnds.includes((i + 1) * 10) ? 0.9 : 0.1
+  }));
+
+const recording = (overrides: Partial<RecordingPredictions>): RecordingPredictions => ({
+  recordingId: 'rec',
+  caseId: 'chb01',
+  durationSeconds: 7200,
+  seizures: [],
+  windows: windows(7200),
+  ...overrides
+});
+
+describe('PredictionMetrics.alarms', () => {
+  it('does not re-raise an alarm during the warning period', () => {
+    const predictions = windows(1000, [100, 200, 700, 760, 800]);
+
+    expect(PredictionMetrics.alarms(predictions, config)).toEqual([100, 760]);
+  });
+});
+
+describe('PredictionMetrics.evaluate', () => {
+  it('scores one predicted and one missed seizure', () => {
+    const { metrics, seizures } = PredictionMetrics.evaluate([recording({
+      seizures: [{ startTime: 3000, endTime: 3060 }, { startTime: 6000, endTime: 6060 }],
+      windows: windows(7200, [2700])
+    })], config);
+
+    expect(seizures.map(seizure => [seizure.onsetSeconds, seizure.predicted, seizure.horizonSeconds])).toEqual([
+      [3000, true, 300],
+      [6000, false, null]
+    ]);
+    expect(metrics.sensitivity).toBe(0.5);
+    expect(metrics.alarms).toBe(1);
+    expect(metrics.falseAlarms).toBe(0);
+    expect(metrics.meanPredictionHorizonSeconds).toBe(300);
+    expect(metrics.timeInWarning).toBeCloseTo(660 / 7200);
+  });
+
+  it('leaves the warning and post-ictal time around each seizure out of interictal hours', () => {
+    const { metrics } = PredictionMetrics.evaluate([recording({
+      seizures: [{ startTime: 3000, endTime: 3060 }, { startTime: 6000, endTime: 6060 }],
+      windows: windows(7200, [1000])
+    })], config);
+
+    // Each seizure excludes [onset - 660, end + 600]: 1320 s
+    expect(metrics.interictalHours).toBeCloseTo((7200 - 2 * 1320) / 3600);
+    expect(metrics.falseAlarms).toBe(1);
+    expect(metrics.falsePredictionsPerHour).toBeCloseTo(1 / metrics.interictalHours);
+  });
+
+  it('credits an alarm in an earlier recording of the same case through clock times', () => {
+    const evaluate = (clockStarts: [number | null, number | null]) => PredictionMetrics.evaluate([
+      // The next file's seizure appears on this file's timeline at 3600 + 300 s
+      recording({ recordingId: 'a', durationSeconds: 3600, clockStartSeconds: clockStarts[0], seizures: [{ startTime: 3900, endTime: 3960 }], windows: windows(3600, [3500]) }),
+      recording({ recordingId: 'b', durationSeconds: 3600, clockStartSeconds: clockStarts[1], seizures: [{ startTime: 300, endTime: 360 }], windows: windows(3600) })
+    ], config);
+
+    const linked = evaluate([0, 3600]);
+    expect(linked.seizures).toEqual([{ caseId: 'chb01', recordingId: 'b', onsetSeconds: 300, predicted: true, horizonSeconds: 400 }]);
+    expect(linked.metrics.falseAlarms).toBe(0);
+
+    expect(evaluate([null, null]).seizures[0].predicted).toBe(false);
+  });
+});
+
+describe('PredictionMetrics.auc', () => {
+  it('counts tied scores as half a correct ordering', () => {
+    // Pairs (positive, negative): (0.5, 0.2) 1, (0.5, 0.5) 0.5, (0.8, 0.2) 1, (0.8, 0.5) 1
+    expect(PredictionMetrics.auc([0.2, 0.5, 0.5, 0.8], [0, 0, 1, 1])).toBe(0.875);
+    expect(PredictionMetrics.auc([0.3, 0.3, 0.3], [0, 1, 1])).toBe(0.5);
+  });
+
+  it('needs both classes', () => {
+    expect(PredictionMetrics.auc([0.2, 0.9], [1, 1])).toBeNull();
+  });
+});
+
+describe('PredictionMetrics.randomPredictor', () => {
+  // ln 2 false alarms per hour over a one-hour SOP: the random predictor hits a seizure with p = 1/2
+  const halfChance = { sopSeconds: 3600, significanceLevel: 0.05 };
+
+  it('uses the binomial tail of the random predictor', () => {
+    const fourOfFive = PredictionMetrics.randomPredictor(Math.LN2, 5, 4, halfChance);
+    expect(fourOfFive.sensitivity).toBeCloseTo(0.5);
+    expect(fourOfFive.pValue).toBeCloseTo(6 / 32);     // P(X ≥ 4), X ~ Binomial(5, 1/2)
+    expect(fourOfFive.significant).toBe(false);
+    expect(fourOfFive.criticalSensitivity).toBe(1);    // Only 5/5 has P ≤ 0.05 (1/32)
+
+    const allFive = PredictionMetrics.randomPredictor(Math.LN2, 5, 5, halfChance);
+    expect(allFive.pValue).toBeCloseTo(1 / 32);
+    expect(allFive.significant).toBe(true);
+  });
+
+  it('has no critical sensitivity when even a perfect score could be chance', () => {
+    const comparison = PredictionMetrics.randomPredictor(Math.LN2, 4, 4, halfChance);
+
+    expect(comparison.pValue).toBeCloseTo(1 / 16);
+    expect(comparison.criticalSensitivity).toBeNull();
+  });
+});
+
+describe('CrossValidation.folds', () => {
+  const source = (id: string, caseId: string, clockStartSeconds: number | null, seizures: TrainingRecordingSource['seizures'] = []): TrainingRecordingSource => ({
+    id,
+    caseId,
+    durationSeconds: 3600,
+    samplingRate: 256,
+    seizures,
+    clockStartSeconds,
+    readWindow: async () => []
+  });
+
+  it('leaves one seizure out and drops same-case recordings within the interictal guard', () => {
+    const sources = [
+      source('a', 'chb01', 0, [{ startTime: 1000, endTime: 1040 }]),
+      source('b', 'chb01', 3700),        // Starts 100 s after a ends
+      source('c', 'chb01', 20000),       // Hours later
+      source('d', 'chb01', null),        // No clock time: cannot be placed, kept
+      source('e', 'chb02', 0)
+    ];
+
+    const folds = CrossValidation.folds(sources, 'leave-one-seizure-out', { interictalGuardSeconds: 3600 });
+
+    expect(folds.map(fold => ({
+      name: fold.name,
+      train: fold.trainSources.map(train => train.id),
+      test: fold.testSources.map(test => test.id)
+    }))).toEqual([{ name: 'chb01:a', train: ['c', 'd'], test: ['a'] }]);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Prediction Metrics - Clinical evaluation of seizure-prediction alarms
+ *
+ * Purpose: Turn per-window pre-ictal probabilities into alarms and score them
+ * the way seizure-prediction studies do: sensitivity, false predictions per
+ * hour, time in warning, prediction horizon, AUC, and a test against a random
+ * predictor with the same alarm rate
+ * Learning Focus: Window accuracy says little about a warning device. What
+ * matters is whether an alarm came early enough (SPH) but not too early (SOP),
+ * and how often the patient is warned for nothing.
+ *
+ * Alarm at time t (end of a window with P ≥ threshold):
+ *   correct  if a seizure starts within [t + SPH, t + SPH + SOP]
+ *   false    otherwise
+ * After an alarm the warning stays on for SPH + SOP; alarms are not re-raised
+ * during that time.
+ */
+
+import type { SeizureInterval } from '../training/trainingPipeline';
+
+export interface EvaluationConfig {
+  threshold: number;          // Alarm when P(pre-ictal) ≥ threshold
+  sphSeconds: number;         // Seizure prediction horizon (intervention time)
+  sopSeconds: number;         // Seizure occurrence period
+  postictalSeconds: number;   // Excluded from interictal time after each seizure
+  significanceLevel: number;  // Alpha for the random-predictor comparison
+}
+
+export const DEFAULT_EVALUATION_CONFIG: EvaluationConfig = {
+  threshold: 0.5,
+  sphSeconds: 60,
+  sopSeconds: 30 * 60,
+  postictalSeconds: 10 * 60,
+  significanceLevel: 0.05
+};
+
+export interface WindowPrediction {
+  startTime: number;          // Seconds from the recording start
+  endTime: number;
+  probability: number;
+}
+
+export interface RecordingPredictions {
+  recordingId: string;
+  caseId: string;
+  durationSeconds: number;
+  clockStartSeconds?: number | null;
+  seizures: SeizureInterval[];    // On this recording's timeline, including neighbours'
+  windows: WindowPrediction[];
+}
+
+export interface SeizureOutcome {
+  caseId: string;
+  recordingId: string;
+  onsetSeconds: number;
+  predicted: boolean;
+  horizonSeconds: number | null;  // Onset minus the earliest correct alarm
+}
+
+export interface RandomPredictorComparison {
+  sensitivity: number;            // Chance one seizure is hit by a Poisson predictor with the same alarm rate
+  criticalSensitivity: number | null;  // Sensitivity needed to beat it at significanceLevel
+  pValue: number;
+  significant: boolean;
+}
+
+export interface ClinicalMetrics {
+  seizures: number;
+  predictedSeizures: number;
+  sensitivity: number | null;     // null without seizures
+  alarms: number;
+  falseAlarms: number;
+  recordedHours: number;
+  interictalHours: number;
+  falsePredictionsPerHour: number;
+  timeInWarning: number;          // Fraction of recorded time under warning
+  meanPredictionHorizonSeconds: number | null;
+  auc: number | null;             // Pre-ictal vs interictal windows; null if either is missing
+  randomPredictor: RandomPredictorComparison;
+}
+
+export class PredictionMetrics {
+
+  /**
+   * Alarm times (window ends) with the warning period as refractory time
+   */
+  static alarms(windows: WindowPrediction[], config: EvaluationConfig): number[] {
+    const warning = config.sphSeconds + config.sopSeconds;
+    const alarms: number[] = [];
+
+    for (const window of [...windows].sort((a, b) => a.endTime - b.endTime)) {
+      if (window.probability < config.threshold) continue;
+      if (alarms.length > 0 && window.endTime < alarms[alarms.length - 1] + warning) continue;
+      alarms.push(window.endTime);
+    }
+
+    return alarms;
+  }
+
+  /**
+   * Score a set of recordings. Each seizure is counted once, in the recording
+   * it starts in; alarms from other recordings of the same case count for it
+   * when both recordings have clock times.
+   */
+  static evaluate(
+    recordings: RecordingPredictions[],
+    config: EvaluationConfig = DEFAULT_EVALUATION_CONFIG
+  ): { metrics: ClinicalMetrics; seizures: SeizureOutcome[] } {
+    const warning = config.sphSeconds + config.sopSeconds;
+    const alarmsByRecording = new Map(recordings.map(recording => [recording, this.alarms(recording.windows, config)]));
+
+    const seizures: SeizureOutcome[] = [];
+    let alarmCount = 0;
+    let falseAlarms = 0;
+    let recordedSeconds = 0;
+    let interictalSeconds = 0;
+    let warningSeconds = 0;
+    const scores: number[] = [];
+    const labels: number[] = [];
+
+    for (const recording of recordings) {
+      const alarms = alarmsByRecording.get(recording) ?? [];
+      const onsets = recording.seizures.map(seizure => seizure.startTime);
+      const excluded = recording.seizures.map(seizure => ({
+        start: seizure.startTime - warning,
+        end: seizure.endTime + config.postictalSeconds
+      }));
+
+      alarmCount += alarms.length;
+      falseAlarms += alarms.filter(alarm => !onsets.some(onset => onset >= alarm + config.sphSeconds && onset <= alarm + warning)).length;
+
+      recordedSeconds += recording.durationSeconds;
+      interictalSeconds += recording.durationSeconds - this.coveredSeconds(excluded, recording.durationSeconds);
+      warningSeconds += this.coveredSeconds(alarms.map(alarm => ({ start: alarm, end: alarm + warning })), recording.durationSeconds);
+
+      // Window-level scores for AUC: pre-ictal = ends within the SOP before SPH
+      for (const window of recording.windows) {
+        if (onsets.some(onset => window.endTime <= onset - config.sphSeconds && window.endTime >= onset - warning)) {
+          scores.push(window.probability);
+          labels.push(1);
+        } else if (!excluded.some(period => window.startTime < period.end && window.endTime > period.start)) {
+          scores.push(window.probability);
+          labels.push(0);
+        }
+      }
+
+      // Seizures owned by this recording, checked against every alarm of the case
+      for (const seizure of recording.seizures) {
+        if (seizure.startTime < 0 || seizure.startTime >= recording.durationSeconds) continue;
+
+        const candidates = recordings
+          .filter(other => other.caseId === recording.caseId)
+          .flatMap(other => {
+            const shift = this.shiftBetween(other, recording);
+            return shift === null ? [] : (alarmsByRecording.get(other) ?? []).map(alarm => alarm + shift);
+          })
+          .filter(alarm => seizure.startTime >= alarm + config.sphSeconds && seizure.startTime <= alarm + warning);
+
+        const earliest = candidates.length > 0 ? Math.min(...candidates) : null;
+        seizures.push({
+          caseId: recording.caseId,
+          recordingId: recording.recordingId,
+          onsetSeconds: seizure.startTime,
+          predicted: earliest !== null,
+          horizonSeconds: earliest !== null ? seizure.startTime - earliest : null
+        });
+      }
+    }
+
+    const predicted = seizures.filter(seizure => seizure.predicted);
+    const interictalHours = interictalSeconds / 3600;
+    const falsePredictionsPerHour = interictalHours > 0 ? falseAlarms / interictalHours : 0;
+
+    return {
+      seizures,
+      metrics: {
+        seizures: seizures.length,
+        predictedSeizures: predicted.length,
+        sensitivity: seizures.length > 0 ? predicted.length / seizures.length : null,
+        alarms: alarmCount,
+        falseAlarms,
+        recordedHours: recordedSeconds / 3600,
+        interictalHours,
+        falsePredictionsPerHour,
+        timeInWarning: recordedSeconds > 0 ? warningSeconds / recordedSeconds : 0,
+        meanPredictionHorizonSeconds: predicted.length > 0
+          ? predicted.reduce((sum, seizure) => sum + (seizure.horizonSeconds ?? 0), 0) / predicted.length
+          : null,
+        auc: this.auc(scores, labels),
+        randomPredictor: this.randomPredictor(falsePredictionsPerHour, seizures.length, predicted.length, config)
+      }
+    };
+  }
+
+  /**
+   * Area under the ROC curve (Mann-Whitney U, ties counted as half)
+   */
+  static auc(scores: number[], labels: number[]): number | null {
+    const ranked = scores.map((score, i) => ({ score, label: labels[i] })).sort((a, b) => a.score - b.score);
+    const positives = ranked.filter(entry => entry.label === 1).length;
+    const negatives = ranked.length - positives;
+    if (positives === 0 || negatives === 0) return null;
+
+    let rankSum = 0;
+    for (let i = 0; i < ranked.length;) {
+      let j = i;
+      while (j < ranked.length && ranked[j].score === ranked[i].score) j++;
+      const averageRank = (i + 1 + j) / 2;   // 1-based ranks i+1..j share their mean
+      for (let k = i; k < j; k++) {
+        if (ranked[k].label === 1) rankSum += averageRank;
+      }
+      i = j;
+    }
+
+    return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+  }
+
+  /**
+   * Compare against a Poisson random predictor raising false alarms at the
+   * same rate (Schelter et al., 2006): it hits a given seizure with
+   * p = 1 - exp(-FPR · SOP), so hits over n seizures are Binomial(n, p)
+   */
+  static randomPredictor(
+    falsePredictionsPerHour: number,
+    seizures: number,
+    predicted: number,
+    config: Pick<EvaluationConfig, 'sopSeconds' | 'significanceLevel'>
+  ): RandomPredictorComparison {
+    const p = 1 - Math.exp(-(falsePredictionsPerHour / 3600) * config.sopSeconds);
+    const pValue = seizures > 0 ? this.binomialTail(seizures, p, predicted) : 1;
+
+    let critical: number | null = null;
+    for (let k = 0; k <= seizures && seizures > 0; k++) {
+      if (this.binomialTail(seizures, p, k) <= config.significanceLevel) {
+        critical = k / seizures;
+        break;
+      }
+    }
+
+    return { sensitivity: p, criticalSensitivity: critical, pValue, significant: seizures > 0 && pValue <= config.significanceLevel };
+  }
+
+  /**
+   * P(X ≥ k) for X ~ Binomial(n, p)
+   */
+  private static binomialTail(n: number, p: number, k: number): number {
+    if (k <= 0) return 1;
+    if (p <= 0) return 0;
+    if (p >= 1) return 1;
+
+    let tail = 0;
+    let logCoefficient = 0;   // log C(n, i), built up incrementally
+    for (let i = 0; i <= n; i++) {
+      if (i > 0) logCoefficient += Math.log((n - i + 1) / i);
+      if (i >= k) tail += Math.exp(logCoefficient + i * Math.log(p) + (n - i) * Math.log(1 - p));
+    }
+    return Math.min(1, tail);
+  }
+
+  /**
+   * Seconds of [0, duration) covered by the union of the intervals
+   */
+  private static coveredSeconds(intervals: { start: number; end: number }[], duration: number): number {
+    const clipped = intervals
+      .map(({ start, end }) => ({ start: Math.max(0, start), end: Math.min(duration, end) }))
+      .filter(({ start, end }) => end > start)
+      .sort((a, b) => a.start - b.start);
+
+    let covered = 0;
+    let reach = 0;
+    for (const { start, end } of clipped) {
+      if (end <= reach) continue;
+      covered += end - Math.max(start, reach);
+      reach = end;
+    }
+    return covered;
+  }
+
+  /**
+   * Offset that maps `from`'s timeline onto `to`'s, or null without clock times
+   */
+  private static shiftBetween(from: RecordingPredictions, to: RecordingPredictions): number | null {
+    if (from === to) return 0;
+    if (from.clockStartSeconds == null || to.clockStartSeconds == null) return null;
+    return from.clockStartSeconds - to.clockStartSeconds;
+  }
+}
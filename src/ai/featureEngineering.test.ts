@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { FeatureEngineering } from './featureEngineering';
+
+const SAMPLING_RATE = 256;
+
+const sine = (frequency: number, samples: number) =>
+  Float64Array.from({ length: samples }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / SAMPLING_RATE));
+
+// Seeded Gaussian noise (mulberry32 + Box-Muller), so the reference values never drift
+const whiteNoise = (samples: number, seed: number) => {
+  let state = seed;
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Float64Array.from({ length: samples }, () =>
+    Math.sqrt(-2 * Math.log(1 - uniform())) * Math.cos(2 * Math.PI * uniform())
+  );
+};
+
+// Logistic map at r = 4: fully chaotic, largest Lyapunov exponent ln 2
+const logisticMap = (samples: number) => {
+  const values = new Float64Array(samples);
+  values[0] = 0.4;
+  for (let i = 1; i < samples; i++) values[i] = 4 * values[i - 1] * (1 - values[i - 1]);
+  return values;
+};
+
+describe('FeatureEngineering reference signals', () => {
+  describe('sine', () => {
+    const signal = sine(5, 1024);
+
+    it('has Hjorth mobility 2πf/fs and complexity 1', () => {
+      const { mobility, complexity } = FeatureEngineering.hjorthParameters(signal);
+      expect(mobility).toBeCloseTo((2 * Math.PI * 5) / SAMPLING_RATE, 3);
+      expect(complexity).toBeCloseTo(1, 2);
+    });
+
+    it('is symmetric with Pearson kurtosis 1.5', () => {
+      expect(FeatureEngineering.skewness(signal)).toBeCloseTo(0, 6);
+      expect(FeatureEngineering.kurtosis(signal)).toBeCloseTo(1.5, 6);
+    });
+
+    it('has low sample entropy', () => {
+      expect(FeatureEngineering.sampleEntropy(signal)).toBeLessThan(0.5);
+    });
+  });
+
+  describe('white noise', () => {
+    const signal = whiteNoise(2000, 12345);
+
+    it('has skewness near 0 and kurtosis near 3', () => {
+      expect(Math.abs(FeatureEngineering.skewness(signal))).toBeLessThan(0.15);
+      expect(FeatureEngineering.kurtosis(signal)).toBeGreaterThan(2.7);
+      expect(FeatureEngineering.kurtosis(signal)).toBeLessThan(3.3);
+    });
+
+    it('has high sample entropy', () => {
+      const noiseEntropy = FeatureEngineering.sampleEntropy(signal);
+      expect(noiseEntropy).toBeGreaterThan(1.8);
+      expect(noiseEntropy).toBeGreaterThan(4 * FeatureEngineering.sampleEntropy(sine(5, 1024)));
+    });
+  });
+
+  describe('logistic map', () => {
+    it('has a positive Lyapunov exponent close to ln 2', () => {
+      const exponent = FeatureEngineering.lyapunovExponent(logisticMap(1000));
+      expect(exponent).toBeGreaterThan(0);
+      expect(Math.abs(exponent - Math.LN2)).toBeLessThan(0.1);
+    });
+  });
+
+  it('rejects signals too short for sample entropy', () => {
+    expect(() => FeatureEngineering.sampleEntropy([1, 2])).toThrow(/needs more than/);
+  });
+});
@@ -0,0 +1,794 @@
+/**
+ * Feature Engineering - Deterministic EEG features for seizure prediction
+ *
+ * Purpose: Turn raw EEG windows into the numbers the models and dashboards use
+ * Learning Focus: Welch's method averages the periodograms of overlapping,
+ * windowed segments - trading frequency resolution for a far less noisy
+ * power spectrum than a single FFT of the whole window
+ *
+ * Everything here is a pure function of its input (no Math.random), so the
+ * same window always produces the same features. Each channel is analysed on
+ * its own and only then summarised across channels.
+ */
+
+import type { EEGData, FeatureVector } from '@/lib/aiSeizurePrediction';
+
+export type EEGBand = 'delta' | 'theta' | 'alpha' | 'beta' | 'gamma';
+
+// Clinical EEG bands in Hz; gamma is capped at the Nyquist frequency
+export const EEG_BANDS: Record<EEGBand, [number, number]> = {
+  delta: [0.5, 4],
+  theta: [4, 8],
+  alpha: [8, 13],
+  beta: [13, 30],
+  gamma: [30, 100]
+};
+
+export interface PowerSpectrum {
+  frequencies: Float64Array;   // Hz, one per bin from 0 to Nyquist
+  psd: Float64Array;           // Power spectral density (signal units² / Hz)
+  resolution: number;          // Hz between bins
+}
+
+export interface WelchOptions {
+  segmentSeconds?: number;     // Segment length (default 2 s → 0.5 Hz resolution)
+  overlap?: number;            // Fraction of each segment shared with the next (default 0.5)
+}
+
+export interface SpectralFeatures {
+  bandPower: Record<EEGBand, number>;          // Absolute power per band (units²)
+  relativeBandPower: Record<EEGBand, number>;  // Fraction of 0.5 Hz..min(100 Hz, Nyquist) power
+  totalPower: number;
+  ratios: {
+    thetaAlpha: number;
+    thetaBeta: number;
+    slowFast: number;          // (delta + theta) / (alpha + beta)
+  };
+  spectralEdgeFrequency: number;  // Hz below which 90% of the power lies
+  spectralEntropy: number;        // Normalised Shannon entropy of the spectrum (0..1)
+}
+
+export interface NonlinearOptions {
+  embeddingDimension?: number;  // m - template / embedding length (default 2)
+  delay?: number;               // τ - samples between embedding coordinates (default 1)
+  tolerance?: number;           // r as a fraction of the channel's standard deviation (default 0.2)
+  theilerWindow?: number;       // Lyapunov: exclude neighbours closer than this in time (default 10 samples)
+  lyapunovSteps?: number;       // Lyapunov: divergence steps used for the slope fit (default 5)
+}
+
+export interface ChannelNonlinearFeatures {
+  variance: number;
+  skewness: number;
+  kurtosis: number;             // Pearson kurtosis (3 for a Gaussian)
+  hjorthMobility: number;       // Per-sample units
+  hjorthComplexity: number;
+  sampleEntropy: number;
+  lyapunovExponent: number;     // Largest exponent, nats per sample
+}
+
+export interface ChannelStatistics {
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+}
+
+export interface NonlinearFeatureSummary {
+  perChannel: ChannelNonlinearFeatures[];
+  acrossChannels: Record<keyof ChannelNonlinearFeatures, ChannelStatistics>;
+}
+
+export interface LabelledMatrix {
+  labels: string[];            // Channel label for each row / column
+  values: number[][];          // Symmetric, [row][column]
+}
+
+export interface ConnectivityFeatures {
+  correlation: LabelledMatrix;                  // Pearson r (-1..1)
+  coherence: Record<EEGBand, LabelledMatrix>;   // Magnitude-squared coherence averaged over each band (0..1)
+  phaseLocking: LabelledMatrix;                 // Phase locking value (0..1)
+}
+
+export interface ConnectivityOptions extends WelchOptions {
+  phaseBand?: [number, number];  // Hz range for PLV phases (default 0.5-30 Hz)
+}
+
+const BANDS = Object.keys(EEG_BANDS) as EEGBand[];
+const ANALYSIS_RANGE: [number, number] = [EEG_BANDS.delta[0], EEG_BANDS.gamma[1]];
+
+export class FeatureEngineering {
+
+  /**
+   * Welch power spectral density: Hann-windowed, mean-removed segments,
+   * averaged one-sided periodograms
+   */
+  static welchPSD(signal: ArrayLike<number>, samplingRate: number, options: WelchOptions = {}): PowerSpectrum {
+    const { segments, bins, resolution, windowPower } = this.welchSegments(signal, samplingRate, options);
+
+    const psd = new Float64Array(bins);
+    for (const { real, imag } of segments) {
+      for (let k = 0; k < bins; k++) {
+        psd[k] += real[k] * real[k] + imag[k] * imag[k];
+      }
+    }
+
+    // Density scaling; double every bin except DC and Nyquist for the one-sided spectrum
+    const scale = 1 / (samplingRate * windowPower * segments.length);
+    for (let k = 0; k < bins; k++) {
+      psd[k] *= scale;
+      if (k > 0 && k < bins - 1) psd[k] *= 2;
+    }
+
+    return { frequencies: this.binFrequencies(bins, resolution), psd, resolution };
+  }
+
+  /**
+   * Integrated power between `low` (inclusive) and `high` (exclusive) Hz
+   */
+  static bandPower(spectrum: PowerSpectrum, low: number, high: number): number {
+    let power = 0;
+    for (let k = 0; k < spectrum.frequencies.length; k++) {
+      const frequency = spectrum.frequencies[k];
+      if (frequency >= low && frequency < high) power += spectrum.psd[k];
+    }
+    return power * spectrum.resolution;
+  }
+
+  /**
+   * Frequency below which `fraction` of the power in [low, high) lies
+   */
+  static spectralEdgeFrequency(spectrum: PowerSpectrum, fraction: number = 0.9, range: [number, number] = ANALYSIS_RANGE): number {
+    const indices = this.binsInRange(spectrum, range);
+    const total = indices.reduce((sum, k) => sum + spectrum.psd[k], 0);
+    if (total <= 0) return 0;
+
+    let cumulative = 0;
+    for (const k of indices) {
+      cumulative += spectrum.psd[k];
+      if (cumulative >= fraction * total) return spectrum.frequencies[k];
+    }
+    return spectrum.frequencies[indices[indices.length - 1]];
+  }
+
+  /**
+   * Shannon entropy of the normalised spectrum in [low, high), divided by its
+   * maximum so 0 = a single pure tone and 1 = flat (white) spectrum
+   */
+  static spectralEntropy(spectrum: PowerSpectrum, range: [number, number] = ANALYSIS_RANGE): number {
+    const indices = this.binsInRange(spectrum, range);
+    const total = indices.reduce((sum, k) => sum + spectrum.psd[k], 0);
+    if (total <= 0 || indices.length < 2) return 0;
+
+    let entropy = 0;
+    for (const k of indices) {
+      const p = spectrum.psd[k] / total;
+      if (p > 0) entropy -= p * Math.log(p);
+    }
+    return entropy / Math.log(indices.length);
+  }
+
+  /**
+   * All spectral features for one channel
+   */
+  static extractSpectralFeatures(signal: ArrayLike<number>, samplingRate: number, options: WelchOptions = {}): SpectralFeatures {
+    const spectrum = this.welchPSD(signal, samplingRate, options);
+
+    // Bins stop at Nyquist, so bands above it are truncated automatically
+    const bandPower = {} as Record<EEGBand, number>;
+    for (const band of BANDS) {
+      const [low, high] = EEG_BANDS[band];
+      bandPower[band] = this.bandPower(spectrum, low, high);
+    }
+
+    const totalPower = BANDS.reduce((sum, band) => sum + bandPower[band], 0);
+    const relativeBandPower = {} as Record<EEGBand, number>;
+    for (const band of BANDS) {
+      relativeBandPower[band] = totalPower > 0 ? bandPower[band] / totalPower : 0;
+    }
+
+    const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : 0);
+
+    return {
+      bandPower,
+      relativeBandPower,
+      totalPower,
+      ratios: {
+        thetaAlpha: ratio(bandPower.theta, bandPower.alpha),
+        thetaBeta: ratio(bandPower.theta, bandPower.beta),
+        slowFast: ratio(bandPower.delta + bandPower.theta, bandPower.alpha + bandPower.beta)
+      },
+      spectralEdgeFrequency: this.spectralEdgeFrequency(spectrum),
+      spectralEntropy: this.spectralEntropy(spectrum)
+    };
+  }
+
+  /**
+   * Spectral features for every channel of a window
+   */
+  static extractChannelSpectralFeatures(eegData: EEGData, options: WelchOptions = {}): SpectralFeatures[] {
+    return eegData.channels.map(channel => this.extractSpectralFeatures(channel, eegData.samplingRate, options));
+  }
+
+  /**
+   * FeatureVector.frequencyFeatures: relative band powers averaged over channels
+   *
+   * Learning: Relative power (0..1) is used instead of absolute µV² so the
+   * values are comparable between patients, montages and amplifier gains.
+   */
+  static extractFrequencyFeatures(eegData: EEGData, options: WelchOptions = {}): FeatureVector['frequencyFeatures'] {
+    const perChannel = this.extractChannelSpectralFeatures(eegData, options);
+    const average = (band: EEGBand) =>
+      perChannel.length > 0
+        ? perChannel.reduce((sum, features) => sum + features.relativeBandPower[band], 0) / perChannel.length
+        : 0;
+
+    return {
+      deltapower: average('delta'),
+      thetaPower: average('theta'),
+      alphaPower: average('alpha'),
+      betaPower: average('beta'),
+      gammaPower: average('gamma')
+    };
+  }
+
+  /**
+   * Third standardised moment (0 for a symmetric signal)
+   */
+  static skewness(signal: ArrayLike<number>): number {
+    const { mean, variance } = this.moments(signal);
+    if (variance === 0) return 0;
+
+    let sum = 0;
+    for (let i = 0; i < signal.length; i++) sum += (signal[i] - mean) ** 3;
+    return sum / signal.length / variance ** 1.5;
+  }
+
+  /**
+   * Fourth standardised moment (Pearson: 3 for Gaussian, 1.5 for a sine)
+   */
+  static kurtosis(signal: ArrayLike<number>): number {
+    const { mean, variance } = this.moments(signal);
+    if (variance === 0) return 0;
+
+    let sum = 0;
+    for (let i = 0; i < signal.length; i++) sum += (signal[i] - mean) ** 4;
+    return sum / signal.length / (variance * variance);
+  }
+
+  /**
+   * Hjorth parameters from first and second differences
+   *
+   * Learning: Mobility approximates the mean frequency (radians per sample),
+   * complexity how far the signal is from a pure sine (which scores 1).
+   */
+  static hjorthParameters(signal: ArrayLike<number>): { activity: number; mobility: number; complexity: number } {
+    const first = this.difference(signal);
+    const second = this.difference(first);
+
+    const activity = this.moments(signal).variance;
+    const firstVariance = this.moments(first).variance;
+    const secondVariance = this.moments(second).variance;
+
+    const mobility = activity > 0 ? Math.sqrt(firstVariance / activity) : 0;
+    const firstMobility = firstVariance > 0 ? Math.sqrt(secondVariance / firstVariance) : 0;
+
+    return { activity, mobility, complexity: mobility > 0 ? firstMobility / mobility : 0 };
+  }
+
+  /**
+   * Sample entropy (Richman & Moorman): -ln(A / B), where B counts pairs of
+   * length-m templates within r of each other and A the pairs still within r
+   * at length m + 1. Self-matches are excluded.
+   *
+   * When no pair matches, the largest measurable value ln(pairs) is returned
+   * instead of Infinity so the feature stays finite.
+   */
+  static sampleEntropy(signal: ArrayLike<number>, options: NonlinearOptions = {}): number {
+    const m = options.embeddingDimension ?? 2;
+    const tau = options.delay ?? 1;
+    const r = (options.tolerance ?? 0.2) * Math.sqrt(this.moments(signal).variance);
+    const templates = signal.length - m * tau;
+
+    if (templates < 2) {
+      throw new Error(`Sample entropy needs more than ${m * tau + 1} samples (got ${signal.length})`);
+    }
+
+    let matchesM = 0;
+    let matchesM1 = 0;
+
+    for (let i = 0; i < templates - 1; i++) {
+      for (let j = i + 1; j < templates; j++) {
+        let k = 0;
+        while (k < m && Math.abs(signal[i + k * tau] - signal[j + k * tau]) <= r) k++;
+        if (k < m) continue;
+
+        matchesM++;
+        if (Math.abs(signal[i + m * tau] - signal[j + m * tau]) <= r) matchesM1++;
+      }
+    }
+
+    const maximum = Math.log((templates * (templates - 1)) / 2);
+    if (matchesM === 0 || matchesM1 === 0) return maximum;
+    return -Math.log(matchesM1 / matchesM);
+  }
+
+  /**
+   * Largest Lyapunov exponent (Rosenstein et al., 1993) in nats per sample
+   *
+   * Learning: Each point of the delay embedding is paired with its nearest
+   * neighbour (outside the Theiler window, so it is not just the next sample of
+   * the same trajectory); the exponent is the slope of the mean log distance
+   * between the pairs as both trajectories evolve. Positive means chaotic.
+   * For heavily oversampled signals (e.g. 256 Hz EEG) a delay of several
+   * samples and a Theiler window of about one dominant period work better
+   * than the map-friendly defaults.
+   */
+  static lyapunovExponent(signal: ArrayLike<number>, options: NonlinearOptions = {}): number {
+    const m = options.embeddingDimension ?? 2;
+    const tau = options.delay ?? 1;
+    const theiler = options.theilerWindow ?? 10;
+    const steps = options.lyapunovSteps ?? 5;
+    const points = signal.length - (m - 1) * tau;
+
+    if (points <= steps + theiler + 1) {
+      throw new Error(`Lyapunov exponent needs more samples (got ${signal.length} for m=${m}, τ=${tau}, ${steps} steps)`);
+    }
+
+    const distance = (a: number, b: number) => {
+      let sum = 0;
+      for (let k = 0; k < m; k++) {
+        const delta = signal[a + k * tau] - signal[b + k * tau];
+        sum += delta * delta;
+      }
+      return Math.sqrt(sum);
+    };
+
+    const logDivergence = new Float64Array(steps + 1);
+    const counts = new Uint32Array(steps + 1);
+    const usable = points - steps;
+
+    for (let i = 0; i < usable; i++) {
+      let nearest = -1;
+      let nearestDistance = Infinity;
+      for (let j = 0; j < usable; j++) {
+        if (Math.abs(i - j) <= theiler) continue;
+        const d = distance(i, j);
+        if (d > 0 && d < nearestDistance) {
+          nearestDistance = d;
+          nearest = j;
+        }
+      }
+      if (nearest < 0) continue;
+
+      for (let step = 0; step <= steps; step++) {
+        const d = distance(i + step, nearest + step);
+        if (d > 0) {
+          logDivergence[step] += Math.log(d);
+          counts[step]++;
+        }
+      }
+    }
+
+    // Least-squares slope of mean log divergence against step
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let step = 0; step <= steps; step++) {
+      if (counts[step] > 0) {
+        xs.push(step);
+        ys.push(logDivergence[step] / counts[step]);
+      }
+    }
+    if (xs.length < 2) return 0;
+
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+    let covariance = 0;
+    let varianceX = 0;
+    for (let i = 0; i < xs.length; i++) {
+      covariance += (xs[i] - meanX) * (ys[i] - meanY);
+      varianceX += (xs[i] - meanX) ** 2;
+    }
+    return covariance / varianceX;
+  }
+
+  /**
+   * Statistical and nonlinear features for one channel
+   */
+  static extractChannelNonlinearFeatures(signal: ArrayLike<number>, options: NonlinearOptions = {}): ChannelNonlinearFeatures {
+    const hjorth = this.hjorthParameters(signal);
+    return {
+      variance: hjorth.activity,
+      skewness: this.skewness(signal),
+      kurtosis: this.kurtosis(signal),
+      hjorthMobility: hjorth.mobility,
+      hjorthComplexity: hjorth.complexity,
+      sampleEntropy: this.sampleEntropy(signal, options),
+      lyapunovExponent: this.lyapunovExponent(signal, options)
+    };
+  }
+
+  /**
+   * Per-channel features plus their mean / std / min / max across channels
+   */
+  static extractNonlinearFeatures(eegData: EEGData, options: NonlinearOptions = {}): NonlinearFeatureSummary {
+    const perChannel = eegData.channels.map(channel => this.extractChannelNonlinearFeatures(channel, options));
+    const names: (keyof ChannelNonlinearFeatures)[] = [
+      'variance', 'skewness', 'kurtosis', 'hjorthMobility', 'hjorthComplexity', 'sampleEntropy', 'lyapunovExponent'
+    ];
+
+    const acrossChannels = {} as Record<keyof ChannelNonlinearFeatures, ChannelStatistics>;
+    for (const name of names) {
+      acrossChannels[name] = this.channelStatistics(perChannel.map(features => features[name]));
+    }
+
+    return { perChannel, acrossChannels };
+  }
+
+  /**
+   * Mean / population std / min / max of one value per channel
+   */
+  static channelStatistics(values: number[]): ChannelStatistics {
+    if (values.length === 0) return { mean: 0, std: 0, min: 0, max: 0 };
+    const { mean, variance } = this.moments(values);
+    return { mean, std: Math.sqrt(variance), min: Math.min(...values), max: Math.max(...values) };
+  }
+
+  /**
+   * Pearson correlation between every pair of channels
+   */
+  static correlationMatrix(channels: ArrayLike<number>[], labels: string[]): LabelledMatrix {
+    const standardised = channels.map(channel => {
+      const { mean, variance } = this.moments(channel);
+      const std = Math.sqrt(variance);
+      const values = new Float64Array(channel.length);
+      for (let i = 0; i < channel.length; i++) values[i] = std > 0 ? (channel[i] - mean) / std : 0;
+      return values;
+    });
+
+    return this.pairwiseMatrix(labels, channels.length, (a, b) => {
+      const x = standardised[a];
+      const y = standardised[b];
+      const length = Math.min(x.length, y.length);
+      let sum = 0;
+      for (let i = 0; i < length; i++) sum += x[i] * y[i];
+      return length > 0 ? sum / length : 0;
+    });
+  }
+
+  /**
+   * Magnitude-squared coherence |Sxy|² / (Sxx·Syy) from Welch cross-spectra,
+   * averaged over the bins of each EEG band
+   *
+   * Learning: Coherence is a per-frequency correlation - two channels can be
+   * strongly coupled in theta while unrelated in beta. Unrelated channels still
+   * score about 1/segments, so segments default to 1 s (9 per 5 s window).
+   */
+  static coherenceMatrices(
+    channels: ArrayLike<number>[],
+    samplingRate: number,
+    labels: string[],
+    options: WelchOptions = {}
+  ): Record<EEGBand, LabelledMatrix> {
+    const transformed = channels.map(channel => this.welchSegments(channel, samplingRate, { segmentSeconds: 1, ...options }));
+    const { bins, resolution } = transformed[0] ?? { bins: 0, resolution: 0 };
+    const frequencies = this.binFrequencies(bins, resolution);
+
+    // Auto-spectra per channel (scaling cancels in the coherence ratio)
+    const autoSpectra = transformed.map(({ segments }) => {
+      const power = new Float64Array(bins);
+      for (const { real, imag } of segments) {
+        for (let k = 0; k < bins; k++) power[k] += real[k] * real[k] + imag[k] * imag[k];
+      }
+      return power;
+    });
+
+    const bandBins = {} as Record<EEGBand, number[]>;
+    for (const band of BANDS) {
+      bandBins[band] = this.binsInRange({ frequencies, psd: autoSpectra[0], resolution }, EEG_BANDS[band]);
+    }
+
+    const coherenceByBin = (a: number, b: number): Float64Array => {
+      const crossReal = new Float64Array(bins);
+      const crossImag = new Float64Array(bins);
+      const segmentsA = transformed[a].segments;
+      const segmentsB = transformed[b].segments;
+
+      for (let s = 0; s < Math.min(segmentsA.length, segmentsB.length); s++) {
+        const x = segmentsA[s];
+        const y = segmentsB[s];
+        for (let k = 0; k < bins; k++) {
+          // X · conj(Y)
+          crossReal[k] += x.real[k] * y.real[k] + x.imag[k] * y.imag[k];
+          crossImag[k] += x.imag[k] * y.real[k] - x.real[k] * y.imag[k];
+        }
+      }
+
+      const coherence = new Float64Array(bins);
+      for (let k = 0; k < bins; k++) {
+        const denominator = autoSpectra[a][k] * autoSpectra[b][k];
+        coherence[k] = denominator > 0 ? (crossReal[k] ** 2 + crossImag[k] ** 2) / denominator : 0;
+      }
+      return coherence;
+    };
+
+    // One cross-spectrum per pair, shared by every band
+    const pairCoherence = new Map<string, Float64Array>();
+    const lookup = (a: number, b: number) => {
+      const key = `${a}:${b}`;
+      if (!pairCoherence.has(key)) pairCoherence.set(key, coherenceByBin(a, b));
+      return pairCoherence.get(key);
+    };
+
+    const matrices = {} as Record<EEGBand, LabelledMatrix>;
+    for (const band of BANDS) {
+      const indices = bandBins[band];
+      matrices[band] = this.pairwiseMatrix(labels, channels.length, (a, b) => {
+        if (indices.length === 0) return 0;
+        const coherence = lookup(a, b);
+        return indices.reduce((sum, k) => sum + coherence[k], 0) / indices.length;
+      });
+    }
+    return matrices;
+  }
+
+  /**
+   * Phase locking value |mean(e^{i(φx − φy)})| from band-limited Hilbert phases
+   *
+   * Learning: PLV ignores amplitude entirely - 1 means the phase difference
+   * between two channels is constant, 0 that it drifts uniformly.
+   */
+  static phaseLockingMatrix(
+    channels: ArrayLike<number>[],
+    samplingRate: number,
+    labels: string[],
+    band: [number, number] = [EEG_BANDS.delta[0], EEG_BANDS.beta[1]]
+  ): LabelledMatrix {
+    const phases = channels.map(channel => {
+      const analytic = this.analyticSignal(channel, samplingRate, band);
+      const cos = new Float64Array(channel.length);
+      const sin = new Float64Array(channel.length);
+      for (let i = 0; i < channel.length; i++) {
+        const magnitude = Math.hypot(analytic.real[i], analytic.imag[i]);
+        cos[i] = magnitude > 0 ? analytic.real[i] / magnitude : 0;
+        sin[i] = magnitude > 0 ? analytic.imag[i] / magnitude : 0;
+      }
+      return { cos, sin };
+    });
+
+    return this.pairwiseMatrix(labels, channels.length, (a, b) => {
+      const x = phases[a];
+      const y = phases[b];
+      const length = Math.min(x.cos.length, y.cos.length);
+      let real = 0;
+      let imag = 0;
+      for (let i = 0; i < length; i++) {
+        // e^{iφx} · e^{-iφy}
+        real += x.cos[i] * y.cos[i] + x.sin[i] * y.sin[i];
+        imag += x.sin[i] * y.cos[i] - x.cos[i] * y.sin[i];
+      }
+      return length > 0 ? Math.hypot(real, imag) / length : 0;
+    });
+  }
+
+  /**
+   * Analytic signal x + i·H(x) via the FFT, optionally band-passed by zeroing
+   * bins outside `band`. The signal is zero-padded to a power of two.
+   */
+  static analyticSignal(
+    signal: ArrayLike<number>,
+    samplingRate: number,
+    band?: [number, number]
+  ): { real: Float64Array; imag: Float64Array } {
+    const size = this.nextPowerOfTwo(signal.length);
+    const real = new Float64Array(size);
+    const imag = new Float64Array(size);
+    for (let i = 0; i < signal.length; i++) real[i] = signal[i];
+
+    this.fft(real, imag);
+
+    // Keep DC and Nyquist, double positive frequencies, drop negative ones
+    const resolution = samplingRate / size;
+    for (let k = 0; k < size; k++) {
+      let gain = k === 0 || k === size / 2 ? 1 : k < size / 2 ? 2 : 0;
+      if (band && k <= size / 2) {
+        const frequency = k * resolution;
+        if (frequency < band[0] || frequency >= band[1]) gain = 0;
+      }
+      real[k] *= gain;
+      imag[k] *= gain;
+    }
+
+    // Inverse FFT via conjugation
+    for (let k = 0; k < size; k++) imag[k] = -imag[k];
+    this.fft(real, imag);
+    for (let k = 0; k < size; k++) {
+      real[k] /= size;
+      imag[k] = -imag[k] / size;
+    }
+
+    return { real: real.subarray(0, signal.length), imag: imag.subarray(0, signal.length) };
+  }
+
+  /**
+   * Correlation, band coherence and phase locking for every channel pair
+   */
+  static extractConnectivityFeatures(eegData: EEGData, labels: string[], options: ConnectivityOptions = {}): ConnectivityFeatures {
+    const channelLabels = eegData.channels.map((_, i) => labels[i] ?? `Channel ${i + 1}`);
+    return {
+      correlation: this.correlationMatrix(eegData.channels, channelLabels),
+      coherence: this.coherenceMatrices(eegData.channels, eegData.samplingRate, channelLabels, options),
+      phaseLocking: this.phaseLockingMatrix(eegData.channels, eegData.samplingRate, channelLabels, options.phaseBand)
+    };
+  }
+
+  /**
+   * Off-diagonal upper-triangle values, row by row (i < j)
+   */
+  static upperTriangle(matrix: LabelledMatrix): number[] {
+    const values: number[] = [];
+    for (let i = 0; i < matrix.values.length; i++) {
+      for (let j = i + 1; j < matrix.values.length; j++) values.push(matrix.values[i][j]);
+    }
+    return values;
+  }
+
+  /**
+   * In-place iterative radix-2 FFT (length must be a power of two)
+   */
+  static fft(real: Float64Array, imag: Float64Array): void {
+    const n = real.length;
+    if (n !== imag.length || (n & (n - 1)) !== 0) {
+      throw new Error(`FFT length must be a power of two with matching real/imag arrays (got ${n}, ${imag.length})`);
+    }
+
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]];
+      }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+      const angle = (-2 * Math.PI) / size;
+      const stepReal = Math.cos(angle);
+      const stepImag = Math.sin(angle);
+
+      for (let start = 0; start < n; start += size) {
+        let twiddleReal = 1;
+        let twiddleImag = 0;
+
+        for (let k = 0; k < size / 2; k++) {
+          const even = start + k;
+          const odd = even + size / 2;
+          const oddReal = real[odd] * twiddleReal - imag[odd] * twiddleImag;
+          const oddImag = real[odd] * twiddleImag + imag[odd] * twiddleReal;
+
+          real[odd] = real[even] - oddReal;
+          imag[odd] = imag[even] - oddImag;
+          real[even] += oddReal;
+          imag[even] += oddImag;
+
+          const nextReal = twiddleReal * stepReal - twiddleImag * stepImag;
+          twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal;
+          twiddleReal = nextReal;
+        }
+      }
+    }
+  }
+
+  static nextPowerOfTwo(value: number): number {
+    let power = 1;
+    while (power < value) power <<= 1;
+    return power;
+  }
+
+  /**
+   * FFT of every Hann-windowed, mean-removed Welch segment (bins 0..Nyquist)
+   */
+  private static welchSegments(
+    signal: ArrayLike<number>,
+    samplingRate: number,
+    options: WelchOptions
+  ): { segments: { real: Float64Array; imag: Float64Array }[]; bins: number; resolution: number; windowPower: number } {
+    if (signal.length < 2) {
+      throw new Error(`Welch PSD needs at least 2 samples (got ${signal.length})`);
+    }
+
+    const overlap = options.overlap ?? 0.5;
+    if (overlap < 0 || overlap >= 1) {
+      throw new Error(`Welch overlap must be in [0, 1) (got ${overlap})`);
+    }
+
+    const segmentLength = Math.min(signal.length, Math.round((options.segmentSeconds ?? 2) * samplingRate));
+    const fftSize = this.nextPowerOfTwo(segmentLength);
+    const step = Math.max(1, Math.floor(segmentLength * (1 - overlap)));
+    const bins = fftSize / 2 + 1;
+
+    const window = this.hannWindow(segmentLength);
+    const windowPower = window.reduce((sum, w) => sum + w * w, 0);
+    const segments: { real: Float64Array; imag: Float64Array }[] = [];
+
+    for (let start = 0; start + segmentLength <= signal.length; start += step) {
+      let mean = 0;
+      for (let i = 0; i < segmentLength; i++) mean += signal[start + i];
+      mean /= segmentLength;
+
+      const real = new Float64Array(fftSize);
+      const imag = new Float64Array(fftSize);
+      for (let i = 0; i < segmentLength; i++) {
+        real[i] = (signal[start + i] - mean) * window[i];
+      }
+
+      this.fft(real, imag);
+      segments.push({ real: real.subarray(0, bins), imag: imag.subarray(0, bins) });
+    }
+
+    return { segments, bins, resolution: samplingRate / fftSize, windowPower };
+  }
+
+  private static binFrequencies(bins: number, resolution: number): Float64Array {
+    const frequencies = new Float64Array(bins);
+    for (let k = 0; k < bins; k++) frequencies[k] = k * resolution;
+    return frequencies;
+  }
+
+  /**
+   * Symmetric matrix with 1 on the diagonal, filled from `value(i, j)` for i < j
+   */
+  private static pairwiseMatrix(labels: string[], size: number, value: (a: number, b: number) => number): LabelledMatrix {
+    const values = Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j): number => (i === j ? 1 : 0)));
+    for (let i = 0; i < size; i++) {
+      for (let j = i + 1; j < size; j++) {
+        values[i][j] = values[j][i] = value(i, j);
+      }
+    }
+    return { labels: labels.slice(0, size), values };
+  }
+
+  private static moments(signal: ArrayLike<number>): { mean: number; variance: number } {
+    let mean = 0;
+    for (let i = 0; i < signal.length; i++) mean += signal[i];
+    mean /= signal.length;
+
+    let variance = 0;
+    for (let i = 0; i < signal.length; i++) variance += (signal[i] - mean) ** 2;
+    return { mean, variance: variance / signal.length };
+  }
+
+  private static difference(signal: ArrayLike<number>): Float64Array {
+    const result = new Float64Array(Math.max(0, signal.length - 1));
+    for (let i = 1; i < signal.length; i++) result[i - 1] = signal[i] - signal[i - 1];
+    return result;
+  }
+
+  private static hannWindow(length: number): Float64Array {
+    const window = new Float64Array(length);
+    if (length === 1) {
+      window[0] = 1;
+      return window;
+    }
+    for (let i = 0; i < length; i++) {
+      window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+    }
+    return window;
+  }
+
+  private static binsInRange(spectrum: PowerSpectrum, [low, high]: [number, number]): number[] {
+    const indices: number[] = [];
+    for (let k = 0; k < spectrum.frequencies.length; k++) {
+      if (spectrum.frequencies[k] >= low && spectrum.frequencies[k] < high) indices.push(k);
+    }
+    return indices;
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const features = FeatureEngineering.extractSpectralFeatures(channel, 256);
+ * console.log(features.relativeBandPower.alpha, features.spectralEdgeFrequency);
+ */
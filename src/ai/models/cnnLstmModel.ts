@@ -0,0 +1,210 @@
+/**
+ * CNN-LSTM Model - Pre-ictal probability from multichannel EEG windows
+ *
+ * Purpose: The hybrid network described in src/ai/README.md, built with
+ * TensorFlow.js so it trains and predicts on CPU in the browser and in Node
+ * Learning Focus: Convolutions learn local waveform / spectral patterns
+ * (spikes, rhythmic bursts) per time step; the LSTM then reads that sequence
+ * to judge how the window is evolving, and a sigmoid outputs P(pre-ictal)
+ *
+ * Input either:
+ *   'raw'         [batch, samples, channels]        z-scored EEG
+ *   'spectrogram' [batch, frames, bins, channels]   log-power STFT
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { TensorFlowRuntime, type SpectrogramOptions, type TensorFlowBackend } from './tensorflowModel';
+import type { EEGData } from '@/lib/aiSeizurePrediction';
+
+export interface CNNLSTMConfig {
+  inputType: 'raw' | 'spectrogram';
+  channels: number;             // EEG channels (23 for CHB-MIT bipolar montage)
+  samplingRate: number;
+  windowSeconds: number;
+  convFilters: number[];        // One convolution block per entry
+  kernelSize: number;           // Raw: samples; spectrogram: frequency bins
+  poolSize: number;
+  lstmUnits: number;
+  dropout: number;
+  learningRate: number;
+  spectrogram: SpectrogramOptions;
+  backend: TensorFlowBackend;
+  seed?: number;                // Fixed seed → reproducible initial weights
+}
+
+export const DEFAULT_CNN_LSTM_CONFIG: CNNLSTMConfig = {
+  inputType: 'raw',
+  channels: 23,
+  samplingRate: 256,
+  windowSeconds: 5,
+  convFilters: [16, 32],
+  kernelSize: 7,
+  poolSize: 4,
+  lstmUnits: 32,
+  dropout: 0.3,
+  learningRate: 0.001,
+  spectrogram: { frameSeconds: 1, hopSeconds: 0.5, maxFrequency: 40 },
+  backend: 'cpu'
+};
+
+export class CNNLSTMModel {
+  readonly config: CNNLSTMConfig;
+  readonly model: tf.LayersModel;
+  version: string | null;         // Registry version (see modelRegistry.ts); null until saved
+
+  private constructor(config: CNNLSTMConfig, model: tf.LayersModel, version: string | null = null) {
+    this.config = config;
+    this.model = model;
+    this.version = version;
+  }
+
+  /**
+   * Initialise TensorFlow.js, then build and compile a fresh model
+   */
+  static async create(config: Partial<CNNLSTMConfig> = {}): Promise<CNNLSTMModel> {
+    const fullConfig: CNNLSTMConfig = { ...DEFAULT_CNN_LSTM_CONFIG, ...config };
+    await TensorFlowRuntime.initialize(fullConfig.backend);
+
+    console.log(`🏗️ Building CNN-LSTM (${fullConfig.inputType} input, ${fullConfig.channels} channels, ${fullConfig.windowSeconds}s windows)...`);
+    const model = this.buildModel(fullConfig);
+    this.compile(model, fullConfig);
+    console.log(`✅ CNN-LSTM ready: ${model.countParams().toLocaleString()} parameters`);
+
+    return new CNNLSTMModel(fullConfig, model);
+  }
+
+  /**
+   * Wrap an already-built (e.g. loaded) LayersModel
+   */
+  static async fromLayersModel(
+    model: tf.LayersModel,
+    config: Partial<CNNLSTMConfig> = {},
+    version: string | null = null
+  ): Promise<CNNLSTMModel> {
+    const fullConfig: CNNLSTMConfig = { ...DEFAULT_CNN_LSTM_CONFIG, ...config };
+    await TensorFlowRuntime.initialize(fullConfig.backend);
+    this.compile(model, fullConfig);
+    return new CNNLSTMModel(fullConfig, model, version);
+  }
+
+  /**
+   * Network layout for the configured input type
+   */
+  static buildModel(config: CNNLSTMConfig): tf.LayersModel {
+    const model = tf.sequential({ name: `cnn_lstm_${config.inputType}` });
+    const initializer = (offset: number) => tf.initializers.glorotUniform({ seed: config.seed !== undefined ? config.seed + offset : undefined });
+    const samples = this.samplesPerWindow(config);
+
+    if (config.inputType === 'raw') {
+      // Conv1D blocks over time; each pool shortens the sequence the LSTM reads
+      config.convFilters.forEach((filters, i) => {
+        model.add(tf.layers.conv1d({
+          ...(i === 0 ? { inputShape: [samples, config.channels] } : {}),
+          filters,
+          kernelSize: config.kernelSize,
+          padding: 'same',
+          activation: 'relu',
+          kernelInitializer: initializer(i)
+        }));
+        model.add(tf.layers.batchNormalization());
+        model.add(tf.layers.maxPooling1d({ poolSize: config.poolSize }));
+      });
+    } else {
+      // Conv2D blocks along frequency only, so every STFT frame stays a time step
+      const { frames, bins } = TensorFlowRuntime.spectrogramShape(samples, config.samplingRate, config.spectrogram);
+      let remainingBins = bins;
+
+      config.convFilters.forEach((filters, i) => {
+        model.add(tf.layers.conv2d({
+          ...(i === 0 ? { inputShape: [frames, bins, config.channels] } : {}),
+          filters,
+          kernelSize: [1, Math.min(config.kernelSize, remainingBins)],
+          padding: 'same',
+          activation: 'relu',
+          kernelInitializer: initializer(i)
+        }));
+        model.add(tf.layers.batchNormalization());
+        const pool = Math.min(config.poolSize, remainingBins);
+        model.add(tf.layers.maxPooling2d({ poolSize: [1, pool] }));
+        remainingBins = Math.floor(remainingBins / pool);
+      });
+
+      const lastFilters = config.convFilters[config.convFilters.length - 1] ?? config.channels;
+      model.add(tf.layers.reshape({ targetShape: [frames, remainingBins * lastFilters] }));
+    }
+
+    model.add(tf.layers.lstm({
+      units: config.lstmUnits,
+      kernelInitializer: initializer(100),
+      recurrentInitializer: tf.initializers.orthogonal({ seed: config.seed }),
+      returnSequences: false
+    }));
+    model.add(tf.layers.dropout({ rate: config.dropout, seed: config.seed }));
+    model.add(tf.layers.dense({ units: 1, activation: 'sigmoid', kernelInitializer: initializer(200) }));
+
+    return model;
+  }
+
+  static samplesPerWindow(config: CNNLSTMConfig): number {
+    return Math.round(config.windowSeconds * config.samplingRate);
+  }
+
+  private static compile(model: tf.LayersModel, config: CNNLSTMConfig): void {
+    model.compile({
+      optimizer: tf.train.adam(config.learningRate),
+      loss: 'binaryCrossentropy',
+      metrics: ['accuracy']
+    });
+  }
+
+  /**
+   * Convert EEG windows to this model's input tensor (caller disposes it)
+   */
+  toInputTensor(windows: EEGData[]): tf.Tensor {
+    for (const eeg of windows) {
+      if (eeg.samplingRate !== this.config.samplingRate) {
+        throw new Error(`Model expects ${this.config.samplingRate} Hz EEG (got ${eeg.samplingRate} Hz) - resample first`);
+      }
+    }
+
+    const samples = CNNLSTMModel.samplesPerWindow(this.config);
+    return this.config.inputType === 'raw'
+      ? TensorFlowRuntime.eegToTensor(windows, this.config.channels, samples)
+      : TensorFlowRuntime.spectrogramToTensor(windows, this.config.channels, samples, this.config.samplingRate, this.config.spectrogram);
+  }
+
+  /**
+   * Pre-ictal probability for one EEG window
+   */
+  async predict(eeg: EEGData): Promise<number> {
+    const [probability] = await this.predictBatch([eeg]);
+    return probability;
+  }
+
+  /**
+   * Pre-ictal probabilities for several windows in one forward pass
+   */
+  async predictBatch(windows: EEGData[]): Promise<number[]> {
+    if (windows.length === 0) return [];
+
+    const input = this.toInputTensor(windows);
+    const output = this.model.predict(input) as tf.Tensor;
+    try {
+      return Array.from(await output.data());
+    } finally {
+      input.dispose();
+      output.dispose();
+    }
+  }
+
+  dispose(): void {
+    this.model.dispose();
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const model = await CNNLSTMModel.create({ seed: 42 });
+ * const probability = await model.predict(eegWindow);   // 0..1
+ */
@@ -0,0 +1,296 @@
+/**
+ * Model Registry - Versioned storage for trained CNN-LSTM models
+ *
+ * Purpose: Save trained models (TensorFlow.js topology + weights) together with
+ * what they were trained on, then list, load and compare versions - from
+ * IndexedDB in the browser, or the filesystem in Node
+ * (scripts/lib/fileSystemModelStore.ts)
+ * Learning Focus: A prediction is only meaningful if you know which model made
+ * it; every stored model carries its training cases, window config, channel
+ * order and metrics, and CNNLSTMModel.version travels into SeizurePrediction
+ *
+ * Versions are "v1", "v2", ... in the order they were saved to a store.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { CNNLSTMModel, type CNNLSTMConfig } from './cnnLstmModel';
+import type { TrainingConfig, TrainingDataset, TrainingResult, WindowLabel } from '../training/trainingPipeline';
+
+export interface ModelMetrics {
+  epochs: number;                 // Epochs actually run
+  loss: number;                   // Final epoch
+  accuracy: number;
+  valLoss?: number;
+  valAccuracy?: number;
+  trainSize: number;
+  validationSize: number;
+  windowCounts?: Record<WindowLabel, number>;
+}
+
+export interface ModelMetadata {
+  version: string;
+  createdAt: string;              // ISO timestamp
+  description?: string;
+  trainingCases: string[];
+  trainingFiles: string[];
+  windowConfig: Pick<TrainingConfig, 'windowSize' | 'overlapRatio' | 'preictalHorizonSeconds' | 'interictalGuardSeconds' | 'ictalAsPositive' | 'balance'>;
+  channels: string[];             // Input channel order
+  modelConfig: CNNLSTMConfig;
+  metrics: ModelMetrics;
+}
+
+export interface StoredModel {
+  metadata: ModelMetadata;
+  artifacts: tf.io.ModelArtifacts;  // weightData is always a single ArrayBuffer
+}
+
+/**
+ * Where models live. Implementations only move bytes; versioning and
+ * (de)serialisation happen in ModelRegistry.
+ */
+export interface ModelStore {
+  save(model: StoredModel): Promise<void>;
+  list(): Promise<ModelMetadata[]>;
+  load(version: string): Promise<StoredModel>;
+  remove(version: string): Promise<void>;
+}
+
+export interface ModelComparison {
+  baseline: string;
+  candidate: string;
+  deltas: Partial<Record<'loss' | 'accuracy' | 'valLoss' | 'valAccuracy', number>>;   // candidate - baseline
+  sameChannels: boolean;
+  sameWindowConfig: boolean;
+}
+
+const METADATA_STORE = 'metadata';
+const ARTIFACT_STORE = 'artifacts';
+
+/**
+ * Browser store: metadata and weights in separate object stores, so listing
+ * versions never reads the weights
+ */
+export class IndexedDBModelStore implements ModelStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly databaseName: string = 'preaura-models') {}
+
+  async save(model: StoredModel): Promise<void> {
+    const db = await this.open();
+    await this.complete(db, 'readwrite', transaction => {
+      transaction.objectStore(METADATA_STORE).put(model.metadata);
+      transaction.objectStore(ARTIFACT_STORE).put({ version: model.metadata.version, artifacts: model.artifacts });
+    });
+  }
+
+  async list(): Promise<ModelMetadata[]> {
+    const db = await this.open();
+    const request = db.transaction(METADATA_STORE).objectStore(METADATA_STORE).getAll();
+    return this.result<ModelMetadata[]>(request);
+  }
+
+  async load(version: string): Promise<StoredModel> {
+    const db = await this.open();
+    const transaction = db.transaction([METADATA_STORE, ARTIFACT_STORE]);
+    const [metadata, stored] = await Promise.all([
+      this.result<ModelMetadata | undefined>(transaction.objectStore(METADATA_STORE).get(version)),
+      this.result<{ artifacts: tf.io.ModelArtifacts } | undefined>(transaction.objectStore(ARTIFACT_STORE).get(version))
+    ]);
+
+    if (!metadata || !stored) {
+      throw new Error(`Model ${version} not found in IndexedDB "${this.databaseName}"`);
+    }
+    return { metadata, artifacts: stored.artifacts };
+  }
+
+  async remove(version: string): Promise<void> {
+    const db = await this.open();
+    await this.complete(db, 'readwrite', transaction => {
+      transaction.objectStore(METADATA_STORE).delete(version);
+      transaction.objectStore(ARTIFACT_STORE).delete(version);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this environment'));
+          return;
+        }
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(METADATA_STORE, { keyPath: 'version' });
+          request.result.createObjectStore(ARTIFACT_STORE, { keyPath: 'version' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private complete(db: IDBDatabase, mode: IDBTransactionMode, write: (transaction: IDBTransaction) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([METADATA_STORE, ARTIFACT_STORE], mode);
+      write(transaction);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+
+  private result<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export class ModelRegistry {
+
+  /**
+   * Save a trained model as the next version in `store`. The model's
+   * `version` is updated so its predictions are tagged from now on.
+   */
+  static async save(
+    store: ModelStore,
+    model: CNNLSTMModel,
+    details: Omit<ModelMetadata, 'version' | 'createdAt' | 'modelConfig'>
+  ): Promise<ModelMetadata> {
+    const metadata: ModelMetadata = {
+      ...details,
+      version: this.nextVersion(await store.list()),
+      createdAt: new Date().toISOString(),
+      modelConfig: model.config
+    };
+
+    await store.save({ metadata, artifacts: await this.toArtifacts(model) });
+    model.version = metadata.version;
+    console.log(`💾 Saved model ${metadata.version} (${metadata.trainingCases.join(', ') || 'no cases'})`);
+
+    return metadata;
+  }
+
+  /**
+   * Load a version (the newest when omitted) as a ready-to-predict model
+   */
+  static async load(store: ModelStore, version?: string): Promise<CNNLSTMModel> {
+    const target = version ?? (await this.list(store))[0]?.version;
+    if (!target) {
+      throw new Error('No saved models in the registry');
+    }
+
+    const { metadata, artifacts } = await store.load(target);
+    const model = await this.fromArtifacts(artifacts, metadata.modelConfig, metadata.version);
+
+    console.log(`📦 Loaded model ${metadata.version} (created ${metadata.createdAt})`);
+    return model;
+  }
+
+  /**
+   * Rebuild a model from serialised artifacts (the inverse of toArtifacts)
+   */
+  static async fromArtifacts(
+    artifacts: tf.io.ModelArtifacts,
+    config: CNNLSTMConfig,
+    version: string | null = null
+  ): Promise<CNNLSTMModel> {
+    const layersModel = await tf.loadLayersModel(tf.io.fromMemory(artifacts));
+    return CNNLSTMModel.fromLayersModel(layersModel, config, version);
+  }
+
+  /**
+   * All versions, newest first
+   */
+  static async list(store: ModelStore): Promise<ModelMetadata[]> {
+    const versions = await store.list();
+    return versions.sort((a, b) => this.versionNumber(b.version) - this.versionNumber(a.version));
+  }
+
+  /**
+   * Metric differences (candidate - baseline) and whether the two models take
+   * the same input
+   */
+  static compare(baseline: ModelMetadata, candidate: ModelMetadata): ModelComparison {
+    const deltas: ModelComparison['deltas'] = {};
+    for (const key of ['loss', 'accuracy', 'valLoss', 'valAccuracy'] as const) {
+      const before = baseline.metrics[key];
+      const after = candidate.metrics[key];
+      if (before !== undefined && after !== undefined) deltas[key] = after - before;
+    }
+
+    return {
+      baseline: baseline.version,
+      candidate: candidate.version,
+      deltas,
+      sameChannels: baseline.channels.join(',') === candidate.channels.join(','),
+      sameWindowConfig: JSON.stringify(baseline.windowConfig) === JSON.stringify(candidate.windowConfig)
+    };
+  }
+
+  /**
+   * ModelMetrics from a training run (final epoch)
+   */
+  static metricsFromTraining(result: TrainingResult, dataset?: TrainingDataset): ModelMetrics {
+    const last = result.history[result.history.length - 1];
+    return {
+      epochs: result.history.length,
+      loss: last?.loss ?? NaN,
+      accuracy: last?.accuracy ?? NaN,
+      valLoss: last?.valLoss,
+      valAccuracy: last?.valAccuracy,
+      trainSize: result.trainSize,
+      validationSize: result.validationSize,
+      windowCounts: dataset?.counts
+    };
+  }
+
+  static windowConfigFrom(config: TrainingConfig): ModelMetadata['windowConfig'] {
+    const { windowSize, overlapRatio, preictalHorizonSeconds, interictalGuardSeconds, ictalAsPositive, balance } = config;
+    return { windowSize, overlapRatio, preictalHorizonSeconds, interictalGuardSeconds, ictalAsPositive, balance };
+  }
+
+  /**
+   * Serialise a model's topology and weights (single weight buffer)
+   */
+  static async toArtifacts(model: CNNLSTMModel): Promise<tf.io.ModelArtifacts> {
+    let saved = null as tf.io.ModelArtifacts | null;
+
+    await model.model.save(tf.io.withSaveHandler(async artifacts => {
+      saved = {
+        ...artifacts,
+        weightData: Array.isArray(artifacts.weightData)
+          ? tf.io.concatenateArrayBuffers(artifacts.weightData)
+          : artifacts.weightData
+      };
+      return { modelArtifactsInfo: tf.io.getModelArtifactsInfoForJSON(saved) };
+    }));
+
+    if (!saved) {
+      throw new Error('Model serialisation produced no artifacts');
+    }
+    return saved;
+  }
+
+  static nextVersion(existing: ModelMetadata[]): string {
+    const highest = existing.reduce((max, metadata) => Math.max(max, this.versionNumber(metadata.version)), 0);
+    return `v${highest + 1}`;
+  }
+
+  private static versionNumber(version: string): number {
+    const match = /^v(\d+)$/.exec(version);
+    return match ? Number(match[1]) : 0;
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const store = new IndexedDBModelStore();
+ * await ModelRegistry.save(store, model, { trainingCases: ['chb01'], ... });
+ * const latest = await ModelRegistry.load(store);          // newest version
+ * const [newer, older] = await ModelRegistry.list(store);
+ * console.log(ModelRegistry.compare(older, newer).deltas);
+ */
@@ -0,0 +1,148 @@
+/**
+ * TensorFlow.js Runtime - Backend setup and EEG → tensor conversion
+ *
+ * Purpose: One place that prepares TensorFlow.js and shapes EEG windows into
+ * the tensors the CNN-LSTM expects, identically in the browser and in Node
+ * Learning Focus: Models only see fixed-size, normalised input - every window
+ * is cropped or zero-padded to the same length and z-scored per channel.
+ * Padding goes at the start so the most recent samples are always the last
+ * time steps the LSTM reads.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { FeatureEngineering } from '../featureEngineering';
+import type { EEGData } from '@/lib/aiSeizurePrediction';
+
+export type TensorFlowBackend = 'cpu' | 'webgl';
+
+export interface SpectrogramOptions {
+  frameSeconds: number;     // STFT frame length (1 s → 1 Hz bins)
+  hopSeconds: number;       // Step between frames
+  maxFrequency: number;     // Highest frequency kept (Hz)
+}
+
+export class TensorFlowRuntime {
+  private static backendPromise: Promise<string> | null = null;
+
+  /**
+   * Select a backend once. CPU is the default because it behaves the same in
+   * every browser and in Node without native bindings.
+   */
+  static initialize(preferred: TensorFlowBackend = 'cpu'): Promise<string> {
+    if (!this.backendPromise) {
+      this.backendPromise = (async () => {
+        const selected = await tf.setBackend(preferred);
+        if (!selected && preferred !== 'cpu') {
+          console.log(`⚠️ TensorFlow.js backend "${preferred}" unavailable - falling back to cpu`);
+          await tf.setBackend('cpu');
+        }
+        await tf.ready();
+        console.log(`🧠 TensorFlow.js ready (backend: ${tf.getBackend()})`);
+        return tf.getBackend();
+      })();
+    }
+    return this.backendPromise;
+  }
+
+  /**
+   * Raw EEG windows as a [batch, samples, channels] tensor, z-scored per channel
+   */
+  static eegToTensor(windows: EEGData[], channelCount: number, samples: number): tf.Tensor3D {
+    const data = new Float32Array(windows.length * samples * channelCount);
+
+    windows.forEach((eeg, w) => {
+      for (let c = 0; c < channelCount; c++) {
+        const channel = eeg.channels[c];
+        if (!channel || channel.length === 0) continue;
+
+        const length = Math.min(samples, channel.length);
+        const start = channel.length - length;
+        const offset = samples - length;
+        const { mean, std } = this.channelScale(channel, start, length);
+
+        for (let s = 0; s < length; s++) {
+          data[(w * samples + offset + s) * channelCount + c] = (channel[start + s] - mean) / std;
+        }
+      }
+    });
+
+    return tf.tensor3d(data, [windows.length, samples, channelCount]);
+  }
+
+  /**
+   * Log-power STFT as a [batch, frames, bins, channels] tensor
+   */
+  static spectrogramToTensor(
+    windows: EEGData[],
+    channelCount: number,
+    samples: number,
+    samplingRate: number,
+    options: SpectrogramOptions
+  ): tf.Tensor4D {
+    const { frames, frameLength, hop, fftSize, bins } = this.spectrogramShape(samples, samplingRate, options);
+    const data = new Float32Array(windows.length * frames * bins * channelCount);
+    const real = new Float64Array(fftSize);
+    const imag = new Float64Array(fftSize);
+
+    windows.forEach((eeg, w) => {
+      for (let c = 0; c < channelCount; c++) {
+        const channel = eeg.channels[c];
+        if (!channel || channel.length === 0) continue;
+
+        // Same alignment as eegToTensor: position p maps to channel[p - offset]
+        const offset = samples - channel.length;
+
+        for (let f = 0; f < frames; f++) {
+          real.fill(0);
+          imag.fill(0);
+          for (let i = 0; i < frameLength; i++) {
+            const index = f * hop + i - offset;
+            const hann = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameLength - 1));
+            real[i] = index >= 0 && index < channel.length ? channel[index] * hann : 0;
+          }
+          FeatureEngineering.fft(real, imag);
+
+          for (let b = 0; b < bins; b++) {
+            const power = (real[b] * real[b] + imag[b] * imag[b]) / frameLength;
+            data[((w * frames + f) * bins + b) * channelCount + c] = Math.log10(power + 1e-6);
+          }
+        }
+      }
+    });
+
+    return tf.tensor4d(data, [windows.length, frames, bins, channelCount]);
+  }
+
+  /**
+   * Frame / bin counts for a spectrogram of `samples` samples
+   */
+  static spectrogramShape(
+    samples: number,
+    samplingRate: number,
+    options: SpectrogramOptions
+  ): { frames: number; frameLength: number; hop: number; fftSize: number; bins: number } {
+    const frameLength = Math.round(options.frameSeconds * samplingRate);
+    const hop = Math.max(1, Math.round(options.hopSeconds * samplingRate));
+    if (frameLength < 2 || frameLength > samples) {
+      throw new Error(`Spectrogram frame of ${frameLength} samples does not fit a ${samples}-sample window`);
+    }
+
+    const fftSize = FeatureEngineering.nextPowerOfTwo(frameLength);
+    const frames = Math.floor((samples - frameLength) / hop) + 1;
+    const bins = Math.min(fftSize / 2 + 1, Math.floor(options.maxFrequency / (samplingRate / fftSize)) + 1);
+
+    return { frames, frameLength, hop, fftSize, bins };
+  }
+
+  private static channelScale(channel: ArrayLike<number>, start: number, length: number): { mean: number; std: number } {
+    let mean = 0;
+    for (let i = start; i < start + length; i++) mean += channel[i];
+    mean /= length;
+
+    let variance = 0;
+    for (let i = start; i < start + length; i++) variance += (channel[i] - mean) ** 2;
+    const std = Math.sqrt(variance / length);
+
+    return { mean, std: std > 0 ? std : 1 };
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Streaming Predictor - Sliding-window inference over live EEG
+ *
+ * Purpose: Buffer incoming multichannel samples in a ring buffer, run the
+ * model on the latest window every hop, smooth the outputs and announce
+ * risk-level changes as events - so a live view (or an EDF replayed in real
+ * time) only has to push samples and listen
+ * Learning Focus: Single windows are noisy. A k-of-n rule (the streaming
+ * version of SeizurePredictionUtils.detectSeizureOnset) only raises the risk
+ * level once k of the last n predictions agree, which suppresses one-off
+ * spikes at the cost of (n - k) hops of latency.
+ *
+ * Smoothed level = the highest RiskLevel whose threshold
+ * (RISK_LEVEL_THRESHOLDS) is reached by at least k of the last n probabilities.
+ */
+
+import { TrainingPipeline } from '../training/trainingPipeline';
+import type { CHBEDFStreamReader } from '../data/chbEDFStreamReader';
+import {
+  aiSeizurePrediction,
+  DEFAULT_EEG_CHANNELS,
+  RISK_LEVEL_THRESHOLDS,
+  type EEGData,
+  type RiskLevel,
+  type SeizurePrediction
+} from '@/lib/aiSeizurePrediction';
+
+export interface StreamingConfig {
+  channelCount: number;
+  samplingRate: number;
+  windowSeconds: number;      // Model input length
+  hopSeconds: number;         // Time between inferences
+  smoothing: { k: number; n: number };
+}
+
+export const DEFAULT_STREAMING_CONFIG: StreamingConfig = {
+  channelCount: 23,
+  samplingRate: 256,
+  windowSeconds: 5,
+  hopSeconds: 1,
+  smoothing: { k: 3, n: 5 }
+};
+
+export interface StreamingPrediction {
+  streamTime: number;             // Seconds of signal received when the window ended
+  prediction: SeizurePrediction;
+  smoothedRiskLevel: RiskLevel;
+}
+
+export interface RiskTransition {
+  from: RiskLevel;
+  to: RiskLevel;
+  streamTime: number;
+  prediction: SeizurePrediction;  // The prediction that completed the k-of-n vote
+}
+
+export interface StreamingEvents {
+  prediction: StreamingPrediction;
+  riskchange: RiskTransition;
+  error: Error;
+}
+
+export interface ReplayOptions {
+  speed?: number;                 // 1 = real time; Infinity = as fast as inference allows
+  chunkSeconds?: number;          // Samples pushed per step
+  channelLabels?: string[];       // Channel order expected by the model
+  shouldStop?: () => boolean;
+  onProgress?: (streamTime: number, duration: number) => void;
+}
+
+/**
+ * Anything that turns a window into a SeizurePrediction (AISeizurePrediction by default)
+ */
+export interface SeizurePredictor {
+  predict(eeg: EEGData): Promise<SeizurePrediction>;
+}
+
+const RISK_ORDER: RiskLevel[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+export class StreamingPredictor {
+  readonly config: StreamingConfig;
+
+  private readonly predictor: SeizurePredictor;
+  private readonly windowSamples: number;
+  private readonly hopSamples: number;
+  private buffers: Float32Array[];
+  private writeIndex: number = 0;
+  private filled: number = 0;
+  private totalSamples: number = 0;
+  private samplesSinceInference: number = 0;
+
+  private running: Promise<void> | null = null;
+  private pending: boolean = false;
+  private skipped: number = 0;
+  private recent: number[] = [];
+  private riskLevel: RiskLevel = 'LOW';
+  private listeners: { [K in keyof StreamingEvents]: Set<(event: StreamingEvents[K]) => void> } = {
+    prediction: new Set(),
+    riskchange: new Set(),
+    error: new Set()
+  };
+
+  constructor(predictor: SeizurePredictor = aiSeizurePrediction, config: Partial<StreamingConfig> = {}) {
+    this.predictor = predictor;
+    this.config = { ...DEFAULT_STREAMING_CONFIG, ...config };
+    this.windowSamples = Math.round(this.config.windowSeconds * this.config.samplingRate);
+    this.hopSamples = Math.max(1, Math.round(this.config.hopSeconds * this.config.samplingRate));
+
+    const { k, n } = this.config.smoothing;
+    if (k < 1 || k > n) {
+      throw new Error(`Smoothing needs 1 <= k <= n (got k=${k}, n=${n})`);
+    }
+    this.buffers = Array.from({ length: this.config.channelCount }, () => new Float32Array(this.windowSamples));
+  }
+
+  /**
+   * Subscribe to an event; returns the unsubscribe function
+   */
+  on<K extends keyof StreamingEvents>(event: K, listener: (event: StreamingEvents[K]) => void): () => void {
+    this.listeners[event].add(listener);
+    return () => this.listeners[event].delete(listener);
+  }
+
+  /**
+   * Append samples ([channel][sample], equal lengths). Inference is started
+   * once a full window is buffered and a hop has passed; if the previous
+   * inference is still running, hops are coalesced into one run on the
+   * newest window.
+   */
+  push(chunk: ArrayLike<number>[]): void {
+    if (chunk.length !== this.config.channelCount) {
+      throw new Error(`Expected ${this.config.channelCount} channels, got ${chunk.length}`);
+    }
+
+    const length = chunk[0]?.length ?? 0;
+    for (let s = 0; s < length; s++) {
+      for (let c = 0; c < chunk.length; c++) {
+        this.buffers[c][this.writeIndex] = chunk[c][s];
+      }
+      this.writeIndex = (this.writeIndex + 1) % this.windowSamples;
+    }
+
+    this.filled = Math.min(this.windowSamples, this.filled + length);
+    this.totalSamples += length;
+    this.samplesSinceInference += length;
+
+    if (this.filled === this.windowSamples && this.samplesSinceInference >= this.hopSamples) {
+      this.samplesSinceInference = 0;
+      this.schedule();
+    }
+  }
+
+  get streamTime(): number {
+    return this.totalSamples / this.config.samplingRate;
+  }
+
+  get currentRiskLevel(): RiskLevel {
+    return this.riskLevel;
+  }
+
+  /**
+   * Hops that were merged into a later inference because the model was busy
+   */
+  get skippedInferences(): number {
+    return this.skipped;
+  }
+
+  /**
+   * Resolves once no inference is running or queued
+   */
+  async idle(): Promise<void> {
+    while (this.running) await this.running;
+  }
+
+  /**
+   * Clear the buffer and smoothing state (listeners stay subscribed)
+   */
+  reset(): void {
+    this.buffers.forEach(buffer => buffer.fill(0));
+    this.writeIndex = 0;
+    this.filled = 0;
+    this.totalSamples = 0;
+    this.samplesSinceInference = 0;
+    this.pending = false;
+    this.skipped = 0;
+    this.recent = [];
+    this.riskLevel = 'LOW';
+  }
+
+  /**
+   * Highest risk level reached by at least k of the given probabilities
+   */
+  static smoothRiskLevel(probabilities: number[], k: number): RiskLevel {
+    for (let level = RISK_ORDER.length - 1; level > 0; level--) {
+      const threshold = RISK_LEVEL_THRESHOLDS[RISK_ORDER[level] as Exclude<RiskLevel, 'LOW'>];
+      if (probabilities.filter(probability => probability >= threshold).length >= k) return RISK_ORDER[level];
+    }
+    return 'LOW';
+  }
+
+  /**
+   * Feed an EDF recording into `streaming` at `speed` times real time.
+   * Channels are matched to the model's order by label.
+   */
+  static async replay(reader: CHBEDFStreamReader, streaming: StreamingPredictor, options: ReplayOptions = {}): Promise<void> {
+    const speed = options.speed ?? 1;
+    const labels = options.channelLabels ?? DEFAULT_EEG_CHANNELS;
+    const startedAt = Date.now();
+
+    const missing = TrainingPipeline.missingChannels(TrainingPipeline.channelLabelsOf(reader), labels);
+    if (missing.length > 0) {
+      throw new Error(`${reader.fileName} has no ${missing.join(', ')} channel`);
+    }
+
+    console.log(`▶️ Replaying ${reader.fileName} at ${Number.isFinite(speed) ? `${speed}x` : 'full speed'}`);
+
+    for await (const window of reader.windows({ windowSeconds: options.chunkSeconds ?? 1 })) {
+      if (options.shouldStop?.()) break;
+      if (window.samplingRates[0] !== streaming.config.samplingRate) {
+        throw new Error(`${reader.fileName} is sampled at ${window.samplingRates[0]} Hz; the stream expects ${streaming.config.samplingRate} Hz`);
+      }
+
+      streaming.push(TrainingPipeline.alignChannels(window.channelLabels, window.channels, labels));
+      options.onProgress?.(window.startTime + window.duration, reader.duration);
+
+      if (Number.isFinite(speed)) {
+        // Pace against the wall clock so slow reads don't accumulate drift
+        const due = startedAt + ((window.startTime + window.duration) * 1000) / speed;
+        await new Promise(resolve => setTimeout(resolve, Math.max(0, due - Date.now())));
+      } else {
+        await streaming.idle();
+      }
+    }
+
+    await streaming.idle();
+    console.log(`⏹️ Replay of ${reader.fileName} ended at ${streaming.streamTime.toFixed(1)}s`);
+  }
+
+  private schedule(): void {
+    if (this.running) {
+      if (this.pending) this.skipped++;
+      this.pending = true;
+      return;
+    }
+
+    this.running = (async () => {
+      try {
+        do {
+          this.pending = false;
+          await this.infer();
+        } while (this.pending);
+      } finally {
+        this.running = null;
+      }
+    })();
+  }
+
+  private async infer(): Promise<void> {
+    const streamTime = this.streamTime;
+    const eeg: EEGData = {
+      channels: this.buffers.map(buffer => this.unroll(buffer)),
+      samplingRate: this.config.samplingRate,
+      timestamp: new Date(),
+      duration: this.config.windowSeconds
+    };
+
+    let prediction: SeizurePrediction;
+    try {
+      prediction = await this.predictor.predict(eeg);
+    } catch (error) {
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    const { k, n } = this.config.smoothing;
+    this.recent = [...this.recent, prediction.seizureProbability].slice(-n);
+    const smoothedRiskLevel = StreamingPredictor.smoothRiskLevel(this.recent, k);
+
+    this.emit('prediction', { streamTime, prediction, smoothedRiskLevel });
+
+    if (smoothedRiskLevel !== this.riskLevel) {
+      const transition: RiskTransition = { from: this.riskLevel, to: smoothedRiskLevel, streamTime, prediction };
+      this.riskLevel = smoothedRiskLevel;
+      console.log(`🚦 Risk ${transition.from} → ${transition.to} at ${streamTime.toFixed(1)}s`);
+      this.emit('riskchange', transition);
+    }
+  }
+
+  /**
+   * Ring buffer contents, oldest sample first
+   */
+  private unroll(buffer: Float32Array): number[] {
+    const ordered = new Array<number>(this.windowSamples);
+    for (let i = 0; i < this.windowSamples; i++) {
+      ordered[i] = buffer[(this.writeIndex + i) % this.windowSamples];
+    }
+    return ordered;
+  }
+
+  private emit<K extends keyof StreamingEvents>(event: K, payload: StreamingEvents[K]): void {
+    this.listeners[event].forEach(listener => listener(payload));
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const streaming = new StreamingPredictor(aiSeizurePrediction, { hopSeconds: 1, smoothing: { k: 3, n: 5 } });
+ * streaming.on('riskchange', ({ from, to, streamTime }) => console.log(from, '→', to, streamTime));
+ * await StreamingPredictor.replay(await CHBEDFStreamReader.open(file, file.name), streaming);
+ */
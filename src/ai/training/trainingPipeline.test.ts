@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EEG_CHANNELS } from '@/lib/aiSeizurePrediction';
+import { TrainingPipeline } from './trainingPipeline';
+
+const config = { windowSize: 10, overlapRatio: 0, preictalHorizonSeconds: 300, interictalGuardSeconds: 600 };
+
+const labelAt = (windows: ReturnType<typeof TrainingPipeline.labelWindows>, startTime: number) =>
+  windows.find(window => window.startTime === startTime)?.label ?? null;
+
+describe('TrainingPipeline.labelWindows', () => {
+  it('labels ictal, pre-ictal and interictal windows around one seizure', () => {
+    const windows = TrainingPipeline.labelWindows('rec', 3000, [{ startTime: 1000, endTime: 1060 }], config);
+
+    expect(labelAt(windows, 100)).toBe('interictal');   // 890 s before onset
+    expect(labelAt(windows, 500)).toBeNull();           // Between the horizon and the guard
+    expect(labelAt(windows, 800)).toBe('preictal');
+    expect(labelAt(windows, 990)).toBe('preictal');     // Ends at the onset
+    expect(labelAt(windows, 1030)).toBe('ictal');
+    expect(labelAt(windows, 1200)).toBeNull();          // Post-ictal
+    expect(labelAt(windows, 1700)).toBe('interictal');
+  });
+
+  it('skips windows after one seizure even when the next onset is close', () => {
+    const seizures = [{ startTime: 1000, endTime: 1060 }, { startTime: 1400, endTime: 1450 }];
+    const windows = TrainingPipeline.labelWindows('rec', 3000, seizures, config);
+
+    // Within 300 s of the second onset, but only 140-330 s after the first seizure
+    expect(labelAt(windows, 1200)).toBeNull();
+    expect(labelAt(windows, 1380)).toBeNull();
+    expect(windows.filter(window => window.label === 'preictal').every(window => window.startTime < 1000)).toBe(true);
+  });
+
+  it('rejects an overlap of 1 or more', () => {
+    expect(() => TrainingPipeline.labelWindows('rec', 100, [], { ...config, overlapRatio: 1 })).toThrow(/overlapRatio/);
+  });
+});
+
+describe('TrainingPipeline.alignChannels', () => {
+  // Signal labels as stored in a CHB-MIT EDF header (chb01_03.edf)
+  const chbLabels = [
+    'FP1-F7', 'F7-T7', 'T7-P7', 'P7-O1', 'FP1-F3', 'F3-C3', 'C3-P3', 'P3-O1',
+    'FP2-F4', 'F4-C4', 'C4-P4', 'P4-O2', 'FP2-F8', 'F8-T8', 'T8-P8-0', 'P8-O2',
+    'FZ-CZ', 'CZ-PZ', 'P7-T7', 'T7-FT9', 'FT9-FT10', 'FT10-T8', 'T8-P8-1'
+  ];
+
+  it('finds every model channel in a CHB-MIT recording', () => {
+    // Channel i holds the constant i + 1, so a zero-filled channel would show up
+    const channels = chbLabels.map((_, i) => new Float32Array(4).fill(i + 1));
+    const aligned = TrainingPipeline.alignChannels(chbLabels, channels, DEFAULT_EEG_CHANNELS);
+
+    expect(aligned).toHaveLength(23);
+    expect(aligned.every(channel => Array.from(channel).every(value => value !== 0))).toBe(true);
+    expect(aligned.map(channel => channel[0])).toEqual(chbLabels.map((_, i) => i + 1));
+  });
+
+  it('refuses a recording without every model channel', () => {
+    const reduced = chbLabels.slice(0, 18);
+
+    expect(TrainingPipeline.missingChannels(reduced, DEFAULT_EEG_CHANNELS)).toEqual(['P7-T7', 'T7-FT9', 'FT9-FT10', 'FT10-T8']);
+    expect(() => TrainingPipeline.alignChannels(reduced, reduced.map(() => new Float32Array(4)), DEFAULT_EEG_CHANNELS)).toThrow(/P7-T7/);
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Training Pipeline - From labelled CHB recordings to a trained CNN-LSTM
+ *
+ * Purpose: Window EEG recordings, label each window relative to the seizure
+ * intervals, balance the classes and fit the TensorFlow.js model - the same
+ * code drives the AITrainingPipeline page and scripts/train-model.ts
+ * Learning Focus: Pre-ictal windows are rare (minutes per day), so the data is
+ * balanced before training and only the chosen windows are read from each
+ * recording, keeping memory bounded on a CPU box
+ *
+ * Labels, for a window [start, start + windowSize):
+ *   ictal       overlaps a seizure
+ *   preictal    ends within `preictalHorizonSeconds` before an onset
+ *   interictal  at least `interictalGuardSeconds` away from every seizure
+ * Anything else (post-ictal, or between the horizon and the guard) is skipped.
+ * Post-ictal wins over pre-ictal: a window within the guard after one seizure
+ * is skipped even when the next onset is close, since it shows recovery.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import type { CNNLSTMModel } from '../models/cnnLstmModel';
+import type { CHBEDFStreamReader } from '../data/chbEDFStreamReader';
+import type { EEGData } from '@/lib/aiSeizurePrediction';
+import { createSeededRandom } from '@/lib/seededRandom';
+
+export type WindowLabel = 'interictal' | 'preictal' | 'ictal';
+export type BalanceStrategy = 'undersample' | 'oversample' | 'none';
+
+export interface SeizureInterval {
+  startTime: number;   // Seconds relative to the recording start (may lie outside it)
+  endTime: number;
+}
+
+export interface TrainingRecordingSource {
+  id: string;                          // e.g. "chb01_03.edf"
+  caseId: string;
+  durationSeconds: number;
+  samplingRate: number;
+  seizures: SeizureInterval[];
+  clockStartSeconds?: number | null;   // Summary clock time of the start (lines recordings up per case)
+  readWindow(startTime: number, durationSeconds: number): Promise<ArrayLike<number>[]>;  // Channel data for one span
+}
+
+export interface LabelledWindow {
+  recordingId: string;
+  startTime: number;
+  label: WindowLabel;
+}
+
+export interface TrainingConfig {
+  windowSize: number;                  // Seconds (ModelConfig.windowSize)
+  overlapRatio: number;                // 0-1 (ModelConfig.overlapRatio)
+  preictalHorizonSeconds: number;
+  interictalGuardSeconds: number;
+  ictalAsPositive: boolean;            // Train ictal windows as positives (otherwise dropped)
+  balance: BalanceStrategy;
+  maxWindowsPerClass: number;          // Caps memory: windows kept per class after balancing
+  epochs: number;
+  batchSize: number;
+  validationSplit: number;
+  seed: number;
+}
+
+export const DEFAULT_TRAINING_CONFIG: TrainingConfig = {
+  windowSize: 5,
+  overlapRatio: 0.5,
+  preictalHorizonSeconds: 30 * 60,
+  interictalGuardSeconds: 60 * 60,
+  ictalAsPositive: false,
+  balance: 'undersample',
+  maxWindowsPerClass: 300,
+  epochs: 20,
+  batchSize: 16,
+  validationSplit: 0.2,
+  seed: 42
+};
+
+export interface TrainingDataset {
+  windows: EEGData[];
+  labels: number[];                      // 1 = pre-ictal (positive), 0 = interictal
+  counts: Record<WindowLabel, number>;   // Windows found before balancing
+}
+
+export interface EpochProgress {
+  epoch: number;       // 1-based
+  epochs: number;
+  loss: number;
+  accuracy: number;
+  valLoss?: number;
+  valAccuracy?: number;
+  elapsedMs: number;
+}
+
+export interface TrainingCallbacks {
+  onLog?: (message: string) => void;
+  onEpochEnd?: (progress: EpochProgress) => void;
+  shouldStop?: () => boolean;
+}
+
+export interface TrainingResult {
+  history: EpochProgress[];
+  trainSize: number;
+  validationSize: number;
+  stopped: boolean;
+}
+
+export class TrainingPipeline {
+
+  /**
+   * Slide a window over a recording and label each position
+   */
+  static labelWindows(
+    recordingId: string,
+    durationSeconds: number,
+    seizures: SeizureInterval[],
+    config: Pick<TrainingConfig, 'windowSize' | 'overlapRatio' | 'preictalHorizonSeconds' | 'interictalGuardSeconds'>
+  ): LabelledWindow[] {
+    const step = config.windowSize * (1 - config.overlapRatio);
+    if (step <= 0) {
+      throw new Error(`overlapRatio must be below 1 (got ${config.overlapRatio})`);
+    }
+
+    const windows: LabelledWindow[] = [];
+
+    for (let start = 0; start + config.windowSize <= durationSeconds + 1e-9; start += step) {
+      const end = start + config.windowSize;
+
+      const ictal = seizures.some(seizure => start < seizure.endTime && end > seizure.startTime);
+      const postictal = seizures.some(seizure => start >= seizure.endTime && start - seizure.endTime < config.interictalGuardSeconds);
+      const preictal = seizures.some(seizure => end <= seizure.startTime && seizure.startTime - end < config.preictalHorizonSeconds);
+      const nearSeizure = seizures.some(seizure =>
+        (end <= seizure.startTime ? seizure.startTime - end : start - seizure.endTime) < config.interictalGuardSeconds);
+
+      const label: WindowLabel | null = ictal ? 'ictal'
+        : postictal ? null
+        : preictal ? 'preictal'
+        : nearSeizure ? null
+        : 'interictal';
+
+      if (label) windows.push({ recordingId, startTime: start, label });
+    }
+
+    return windows;
+  }
+
+  /**
+   * Select pre-ictal (positive) and interictal (negative) windows, balanced
+   * and capped per class
+   */
+  static balance(
+    windows: LabelledWindow[],
+    config: Pick<TrainingConfig, 'balance' | 'maxWindowsPerClass' | 'ictalAsPositive'>,
+    random: () => number
+  ): { window: LabelledWindow; target: number }[] {
+    const positives = windows.filter(window => window.label === 'preictal' || (config.ictalAsPositive && window.label === 'ictal'));
+    const negatives = windows.filter(window => window.label === 'interictal');
+
+    let positiveCount = positives.length;
+    let negativeCount = negatives.length;
+
+    if (config.balance === 'undersample') {
+      positiveCount = negativeCount = Math.min(positives.length, negatives.length);
+    } else if (config.balance === 'oversample') {
+      positiveCount = negativeCount = Math.max(positives.length, negatives.length);
+    }
+    positiveCount = Math.min(positiveCount, config.maxWindowsPerClass);
+    negativeCount = Math.min(negativeCount, config.maxWindowsPerClass);
+
+    return [
+      ...this.sample(positives, positiveCount, random).map(window => ({ window, target: 1 })),
+      ...this.sample(negatives, negativeCount, random).map(window => ({ window, target: 0 }))
+    ];
+  }
+
+  /**
+   * Label every recording, balance across all of them, then read just the
+   * selected windows, in file order, from each recording
+   */
+  static async buildDataset(
+    sources: TrainingRecordingSource[],
+    config: TrainingConfig,
+    callbacks: TrainingCallbacks = {}
+  ): Promise<TrainingDataset> {
+    const log = callbacks.onLog ?? ((message: string) => console.log(message));
+    const random = createSeededRandom(config.seed);
+
+    const labelled = sources.flatMap(source => this.labelWindows(source.id, source.durationSeconds, source.seizures, config));
+    const counts: Record<WindowLabel, number> = { interictal: 0, preictal: 0, ictal: 0 };
+    labelled.forEach(window => counts[window.label]++);
+    log(`🏷️ ${labelled.length} windows: ${counts.interictal} interictal, ${counts.preictal} pre-ictal, ${counts.ictal} ictal`);
+
+    const selected = this.balance(labelled, config, random);
+    if (!selected.some(entry => entry.target === 1) || !selected.some(entry => entry.target === 0)) {
+      throw new Error('Training needs both pre-ictal and interictal windows - add recordings with seizures and seizure-free stretches');
+    }
+    log(`⚖️ Balanced (${config.balance}): ${selected.filter(entry => entry.target === 1).length} positive / ${selected.filter(entry => entry.target === 0).length} negative`);
+
+    const windows: EEGData[] = [];
+    const labels: number[] = [];
+
+    for (const source of sources) {
+      const chosen = selected.filter(entry => entry.window.recordingId === source.id);
+      if (chosen.length === 0) continue;
+
+      log(`📂 Reading ${chosen.length} windows from ${source.id}...`);
+      const samples = Math.round(config.windowSize * source.samplingRate);
+      const copies = new Map<number, EEGData>();   // Oversampled windows share one copy
+
+      // File order, so forward-only sources never have to seek backwards
+      for (const { window, target } of [...chosen].sort((a, b) => a.window.startTime - b.window.startTime)) {
+        let eeg = copies.get(window.startTime);
+        if (!eeg) {
+          const channels = await source.readWindow(window.startTime, config.windowSize);
+          eeg = {
+            channels: channels.map(channel => Array.from(this.slice(channel, 0, samples))),
+            samplingRate: source.samplingRate,
+            timestamp: new Date(window.startTime * 1000),
+            duration: config.windowSize
+          };
+          copies.set(window.startTime, eeg);
+        }
+        windows.push(eeg);
+        labels.push(target);
+      }
+    }
+
+    return { windows, labels, counts };
+  }
+
+  /**
+   * Fit the model, streaming per-epoch metrics. Batches are converted to
+   * tensors on demand so only one batch lives in memory at a time.
+   */
+  static async train(
+    model: CNNLSTMModel,
+    dataset: TrainingDataset,
+    config: TrainingConfig,
+    callbacks: TrainingCallbacks = {}
+  ): Promise<TrainingResult> {
+    const log = callbacks.onLog ?? ((message: string) => console.log(message));
+    const random = createSeededRandom(config.seed + 1);
+
+    const order = this.shuffle(dataset.windows.map((_, i) => i), random);
+    const validationSize = dataset.windows.length > 1 ? Math.floor(order.length * config.validationSplit) : 0;
+    const validationIndices = order.slice(0, validationSize);
+    const trainIndices = order.slice(validationSize);
+
+    const toDataset = (indices: number[], reshuffle: boolean) =>
+      tf.data.generator(function* () {
+        const epochOrder = reshuffle ? TrainingPipeline.shuffle([...indices], random) : indices;
+        for (let i = 0; i < epochOrder.length; i += config.batchSize) {
+          const batch = epochOrder.slice(i, i + config.batchSize);
+          yield {
+            xs: model.toInputTensor(batch.map(index => dataset.windows[index])),
+            ys: tf.tensor2d(batch.map(index => [dataset.labels[index]]))
+          };
+        }
+      });
+
+    log(`🚀 Training on ${trainIndices.length} windows (${validationSize} validation) for ${config.epochs} epochs...`);
+    const history: EpochProgress[] = [];
+    const startedAt = Date.now();
+    let stopped = false;
+
+    await model.model.fitDataset(toDataset(trainIndices, true), {
+      epochs: config.epochs,
+      validationData: validationSize > 0 ? toDataset(validationIndices, false) : undefined,
+      yieldEvery: 'batch',
+      callbacks: {
+        onBatchEnd: async () => {
+          if (!stopped && callbacks.shouldStop?.()) {
+            stopped = true;
+            model.model.stopTraining = true;
+          }
+        },
+        onEpochEnd: async (epoch, logs) => {
+          const progress: EpochProgress = {
+            epoch: epoch + 1,
+            epochs: config.epochs,
+            loss: logs?.loss ?? NaN,
+            accuracy: logs?.acc ?? logs?.accuracy ?? NaN,
+            valLoss: logs?.val_loss,
+            valAccuracy: logs?.val_acc ?? logs?.val_accuracy,
+            elapsedMs: Date.now() - startedAt
+          };
+          history.push(progress);
+          log(`📈 Epoch ${progress.epoch}/${config.epochs}: loss ${progress.loss.toFixed(4)}, acc ${progress.accuracy.toFixed(3)}` +
+            (progress.valLoss !== undefined ? `, val_loss ${progress.valLoss.toFixed(4)}, val_acc ${progress.valAccuracy?.toFixed(3)}` : ''));
+          callbacks.onEpochEnd?.(progress);
+        }
+      }
+    });
+
+    log(stopped ? `⏹️ Training stopped after ${history.length} epochs` : `✅ Training finished in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+    return { history, trainSize: trainIndices.length, validationSize, stopped };
+  }
+
+  /**
+   * Every seizure of a case placed on the time axis of `files[index]`, using
+   * each file's clock start (e.g. CHBSummaryFile.startSeconds). Files without a
+   * clock time only contribute their own seizures.
+   */
+  static seizuresOnTimeline(
+    files: { clockStartSeconds: number | null; seizures: SeizureInterval[] }[],
+    index: number
+  ): SeizureInterval[] {
+    const file = files[index];
+
+    return files.flatMap(other => {
+      if (other === file) return other.seizures.map(({ startTime, endTime }) => ({ startTime, endTime }));
+      if (file.clockStartSeconds === null || other.clockStartSeconds === null) return [];
+
+      const shift = other.clockStartSeconds - file.clockStartSeconds;
+      return other.seizures.map(seizure => ({ startTime: seizure.startTime + shift, endTime: seizure.endTime + shift }));
+    });
+  }
+
+  /**
+   * Training source backed by an opened EDF file. Channels are matched to
+   * `channelLabels` by name, so files with extra or reordered channels line up
+   * with the model input; a file missing any of them is refused.
+   */
+  static fromEDFReader(
+    reader: CHBEDFStreamReader,
+    caseId: string,
+    seizures: SeizureInterval[],
+    channelLabels: string[],
+    clockStartSeconds: number | null = null
+  ): TrainingRecordingSource {
+    const rate = reader.header.signals.find(signal => !signal.isAnnotation)?.samplingRate ?? 256;
+    const missing = this.missingChannels(this.channelLabelsOf(reader), channelLabels);
+    if (missing.length > 0) {
+      throw new Error(`${reader.fileName} has no ${missing.join(', ')} channel`);
+    }
+
+    return {
+      id: reader.fileName,
+      caseId,
+      durationSeconds: reader.duration,
+      samplingRate: rate,
+      seizures,
+      clockStartSeconds,
+      readWindow: async (startTime, durationSeconds) => {
+        const window = await reader.readWindow(startTime, durationSeconds);
+        return this.alignChannels(window.channelLabels, window.channels, channelLabels);
+      }
+    };
+  }
+
+  /**
+   * Reorder channels to match `wanted`, ignoring an "EEG " prefix, case, and
+   * the "-0"/"-1" suffix CHB-MIT adds to duplicated derivations. A label
+   * wanted twice takes the file's copies in order (the last copy again if the
+   * file has fewer). Throws on a missing channel rather than feeding the model
+   * a flat line.
+   */
+  static alignChannels(
+    labels: string[],
+    channels: ArrayLike<number>[],
+    wanted: string[]
+  ): ArrayLike<number>[] {
+    const missing = this.missingChannels(labels, wanted);
+    if (missing.length > 0) {
+      throw new Error(`Recording has no ${missing.join(', ')} channel`);
+    }
+
+    const byLabel = new Map<string, ArrayLike<number>[]>();
+    labels.forEach((label, i) => {
+      const key = this.normaliseChannel(label);
+      byLabel.set(key, [...(byLabel.get(key) ?? []), channels[i]]);
+    });
+
+    const used = new Map<string, number>();
+    return wanted.map(label => {
+      const key = this.normaliseChannel(label);
+      const copies = byLabel.get(key);
+      const copy = used.get(key) ?? 0;
+      used.set(key, copy + 1);
+      return copies[Math.min(copy, copies.length - 1)];
+    });
+  }
+
+  /**
+   * Labels in `wanted` that the recording does not have
+   */
+  static missingChannels(labels: string[], wanted: string[]): string[] {
+    const present = new Set(labels.map(label => this.normaliseChannel(label)));
+    return [...new Set(wanted.filter(label => !present.has(this.normaliseChannel(label))))];
+  }
+
+  /**
+   * EEG signal labels from an EDF header, without the annotation signal
+   */
+  static channelLabelsOf(reader: CHBEDFStreamReader): string[] {
+    return reader.header.signals.filter(signal => !signal.isAnnotation).map(signal => signal.label);
+  }
+
+  private static normaliseChannel(label: string): string {
+    return label.trim().toUpperCase().replace(/^EEG\s+/, '').replace(/^(\w+-\w+)-\d+$/, '$1');
+  }
+
+  private static shuffle<T>(items: T[], random: () => number): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  /**
+   * `count` items: a shuffled subset, or every item plus random repeats
+   */
+  private static sample<T>(items: T[], count: number, random: () => number): T[] {
+    if (items.length === 0) return [];
+    const shuffled = this.shuffle([...items], random);
+    if (count <= items.length) return shuffled.slice(0, count);
+
+    const result = [...shuffled];
+    while (result.length < count) result.push(items[Math.floor(random() * items.length)]);
+    return result;
+  }
+
+  private static slice(channel: ArrayLike<number>, start: number, end: number): ArrayLike<number> {
+    if (ArrayBuffer.isView(channel)) return (channel as Float32Array).subarray(start, end);
+    return Array.prototype.slice.call(channel, start, end);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Prediction Worker Protocol - Messages between the page and predictionWorker.ts
+ *
+ * Purpose: One typed vocabulary for both sides of the worker boundary, plus
+ * the conversion of EEG windows to and from transferable typed arrays
+ * Learning Focus: postMessage copies by default. A 23 × 1280 window of
+ * number[] is cloned element by element; as Float32Arrays whose buffers are
+ * listed as transferables it moves to the worker without a copy.
+ */
+
+import type * as tf from '@tensorflow/tfjs';
+import type { CNNLSTMConfig } from '../models/cnnLstmModel';
+import type { EEGData, SeizurePrediction } from '@/lib/aiSeizurePrediction';
+
+export interface TransferableEEG {
+  channels: Float32Array[];
+  samplingRate: number;
+  timestamp: number;          // ms since epoch (Date objects are cloned, not transferred)
+  duration: number;
+}
+
+export interface SerializedModel {
+  artifacts: tf.io.ModelArtifacts;
+  config: CNNLSTMConfig;
+  version: string | null;
+}
+
+export type PredictionWorkerRequest =
+  | { type: 'init'; id: number; model?: SerializedModel }       // Trained model, or untrained predictions
+  | { type: 'init-registry'; id: number; version?: string }     // Load from the IndexedDB registry
+  | { type: 'predict'; id: number; window: TransferableEEG }
+  | { type: 'cancel'; id: number };
+
+export type PredictionWorkerResponse =
+  | { type: 'ready'; id: number; version: string | null; trained: boolean }
+  | { type: 'prediction'; id: number; prediction: SeizurePrediction }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * Copy a window into Float32Arrays; the returned buffers can be transferred
+ * without detaching the caller's data
+ */
+export function toTransferableEEG(eeg: EEGData): { window: TransferableEEG; transfer: ArrayBuffer[] } {
+  const channels = eeg.channels.map(channel => Float32Array.from(channel));
+  return {
+    window: {
+      channels,
+      samplingRate: eeg.samplingRate,
+      timestamp: eeg.timestamp.getTime(),
+      duration: eeg.duration
+    },
+    transfer: channels.map(channel => channel.buffer as ArrayBuffer)
+  };
+}
+
+export function fromTransferableEEG(window: TransferableEEG): EEGData {
+  return {
+    channels: window.channels.map(channel => Array.from(channel)),
+    samplingRate: window.samplingRate,
+    timestamp: new Date(window.timestamp),
+    duration: window.duration
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Prediction Worker - Feature extraction and CNN-LSTM inference off the main thread
+ *
+ * Purpose: Host an AISeizurePrediction instance inside a Web Worker so FFTs,
+ * entropy and the forward pass never block rendering. Started and driven by
+ * PredictionWorkerClient (predictionWorkerClient.ts).
+ * Learning Focus: Requests are queued here and run strictly in order; a
+ * cancel that arrives while a window waits removes it before any work is
+ * spent on it. A window that is already running always finishes.
+ */
+
+import { AISeizurePrediction } from '@/lib/aiSeizurePrediction';
+import { IndexedDBModelStore, ModelRegistry } from '../models/modelRegistry';
+import {
+  fromTransferableEEG,
+  type PredictionWorkerRequest,
+  type PredictionWorkerResponse
+} from './predictionProtocol';
+
+// The app is type-checked against the DOM lib, so describe the worker scope we use
+interface PredictionWorkerScope {
+  onmessage: ((event: MessageEvent<PredictionWorkerRequest>) => void) | null;
+  postMessage(message: PredictionWorkerResponse): void;
+}
+
+type PredictionJob = Exclude<PredictionWorkerRequest, { type: 'cancel' }>;
+
+const scope = self as unknown as PredictionWorkerScope;
+const predictor = new AISeizurePrediction();
+const queue: PredictionJob[] = [];
+let draining = false;
+
+scope.onmessage = ({ data: request }) => {
+  if (request.type !== 'cancel') {
+    queue.push(request);
+    void drain();
+    return;
+  }
+
+  const index = queue.findIndex(job => job.type === 'predict' && job.id === request.id);
+  if (index >= 0) {
+    queue.splice(index, 1);
+    scope.postMessage({ type: 'cancelled', id: request.id });
+  }
+};
+
+async function drain(): Promise<void> {
+  if (draining) return;
+  draining = true;
+
+  while (queue.length > 0) {
+    const job = queue.shift()!;
+    try {
+      scope.postMessage(await run(job));
+    } catch (error) {
+      scope.postMessage({ type: 'error', id: job.id, message: error instanceof Error ? error.message : String(error) });
+    }
+    // Yield so cancel messages for queued windows are handled before the next one starts
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  draining = false;
+}
+
+/**
+ * Jobs run one at a time, so a model is never replaced mid-prediction
+ */
+async function run(job: PredictionJob): Promise<PredictionWorkerResponse> {
+  switch (job.type) {
+    case 'init':
+      await predictor.initialize(job.model
+        ? await ModelRegistry.fromArtifacts(job.model.artifacts, job.model.config, job.model.version)
+        : undefined);
+      return { type: 'ready', id: job.id, version: predictor.getModelVersion(), trained: predictor.isTrained() };
+    case 'init-registry':
+      await predictor.initializeFromRegistry(new IndexedDBModelStore(), job.version);
+      return { type: 'ready', id: job.id, version: predictor.getModelVersion(), trained: predictor.isTrained() };
+    case 'predict':
+      return { type: 'prediction', id: job.id, prediction: await predictor.predict(fromTransferableEEG(job.window)) };
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * Prediction Worker Client - Promise API for the prediction Web Worker
+ *
+ * Purpose: Drop-in replacement for aiSeizurePrediction.predict() that runs in
+ * predictionWorker.ts, with transferable typed arrays, AbortSignal
+ * cancellation and a bounded queue. Implements SeizurePredictor, so a
+ * StreamingPredictor can use it directly.
+ * Learning Focus: Backpressure. At most `maxInFlight` windows are posted to
+ * the worker; later ones wait here (up to `maxQueued`). When the queue is
+ * full the oldest waiting window is dropped ('drop-oldest', for live data
+ * where only the newest window matters) or the new one is refused
+ * ('reject', for batches that must not lose work). Dropped and cancelled
+ * predictions reject with an error named 'AbortError'.
+ */
+
+import { ModelRegistry } from '../models/modelRegistry';
+import type { CNNLSTMModel } from '../models/cnnLstmModel';
+import type { SeizurePredictor } from '../realtime/streamingPredictor';
+import type { EEGData, SeizurePrediction } from '@/lib/aiSeizurePrediction';
+import {
+  toTransferableEEG,
+  type PredictionWorkerRequest,
+  type PredictionWorkerResponse
+} from './predictionProtocol';
+
+export interface PredictionWorkerOptions {
+  maxInFlight: number;        // Windows handed to the worker at once
+  maxQueued: number;          // Windows waiting on the main thread
+  overflow: 'drop-oldest' | 'reject';
+  createWorker: () => Worker;
+}
+
+export const DEFAULT_PREDICTION_WORKER_OPTIONS: PredictionWorkerOptions = {
+  maxInFlight: 2,             // One running, one ready so the worker never idles between windows
+  maxQueued: 8,
+  overflow: 'drop-oldest',
+  createWorker: () => new Worker(new URL('./predictionWorker.ts', import.meta.url), { type: 'module' })
+};
+
+export interface PredictOptions {
+  signal?: AbortSignal;
+}
+
+interface PendingCall {
+  kind: 'init' | 'predict';
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface QueuedPrediction {
+  eeg: EEGData;
+  signal?: AbortSignal;
+  resolve: (prediction: SeizurePrediction) => void;
+  reject: (error: Error) => void;
+  detach: () => void;
+}
+
+export class PredictionWorkerClient implements SeizurePredictor {
+  readonly options: PredictionWorkerOptions;
+
+  private worker: Worker | null = null;
+  private nextId: number = 1;
+  private calls = new Map<number, PendingCall>();
+  private queue: QueuedPrediction[] = [];
+  private inFlight: number = 0;
+  private ready: boolean = false;
+  private version: string | null = null;
+  private trained: boolean = false;
+
+  constructor(options: Partial<PredictionWorkerOptions> = {}) {
+    this.options = { ...DEFAULT_PREDICTION_WORKER_OPTIONS, ...options };
+  }
+
+  /**
+   * Use a trained model in the worker (its weights are copied across); when
+   * omitted, predictions are marked untrained and held at LOW
+   */
+  async initialize(model?: CNNLSTMModel): Promise<void> {
+    if (!model) {
+      return this.init({ type: 'init', id: this.nextId++ });
+    }
+
+    const artifacts = await ModelRegistry.toArtifacts(model);
+    const transfer = artifacts.weightData instanceof ArrayBuffer ? [artifacts.weightData] : [];
+    return this.init({ type: 'init', id: this.nextId++, model: { artifacts, config: model.config, version: model.version } }, transfer);
+  }
+
+  /**
+   * Load a saved version (the newest when omitted) from the IndexedDB registry
+   * inside the worker; predictions stay untrained when the registry is empty
+   */
+  async initializeFromRegistry(version?: string): Promise<void> {
+    return this.init({ type: 'init-registry', id: this.nextId++, version });
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  getModelVersion(): string | null {
+    return this.version;
+  }
+
+  isTrained(): boolean {
+    return this.trained;
+  }
+
+  /**
+   * Windows running in the worker plus those waiting here
+   */
+  get pending(): number {
+    return this.inFlight + this.queue.length;
+  }
+
+  /**
+   * Predict in the worker. The window is copied into transferable buffers, so
+   * `eeg` stays usable.
+   */
+  predict(eeg: EEGData, options: PredictOptions = {}): Promise<SeizurePrediction> {
+    if (!this.ready) {
+      return Promise.reject(new Error('Model not initialized. Call initialize() first.'));
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(PredictionWorkerClient.cancellation('Prediction cancelled'));
+    }
+
+    return new Promise<SeizurePrediction>((resolve, reject) => {
+      const job: QueuedPrediction = { eeg, signal: options.signal, resolve, reject, detach: () => {} };
+
+      if (this.inFlight < this.options.maxInFlight) {
+        this.dispatch(job);
+        return;
+      }
+
+      if (this.queue.length >= this.options.maxQueued) {
+        if (this.options.overflow === 'reject') {
+          reject(PredictionWorkerClient.cancellation('Prediction queue is full'));
+          return;
+        }
+        const dropped = this.queue.shift()!;
+        dropped.detach();
+        dropped.reject(PredictionWorkerClient.cancellation('Dropped for a newer window'));
+      }
+
+      const onAbort = () => {
+        this.queue = this.queue.filter(queued => queued !== job);
+        reject(PredictionWorkerClient.cancellation('Prediction cancelled'));
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      job.detach = () => options.signal?.removeEventListener('abort', onAbort);
+      this.queue.push(job);
+    });
+  }
+
+  /**
+   * Stop the worker; everything pending is rejected
+   */
+  terminate(): void {
+    this.fail(PredictionWorkerClient.cancellation('Prediction worker terminated'));
+  }
+
+  /**
+   * True for the errors produced by cancellation, queue overflow or terminate()
+   */
+  static isCancellation(error: unknown): boolean {
+    return error instanceof Error && error.name === 'AbortError';
+  }
+
+  private static cancellation(message: string): Error {
+    const error = new Error(message);
+    error.name = 'AbortError';
+    return error;
+  }
+
+  private async init(request: PredictionWorkerRequest, transfer: Transferable[] = []): Promise<void> {
+    this.ready = false;
+    const model = await new Promise<unknown>((resolve, reject) => {
+      this.calls.set(request.id, { kind: 'init', resolve, reject });
+      this.getWorker().postMessage(request, transfer);
+    }) as { version: string | null; trained: boolean };
+
+    this.version = model.version;
+    this.trained = model.trained;
+    this.ready = true;
+    console.log(`🧵 Prediction worker ready (model ${this.trained ? this.version ?? 'unsaved' : 'untrained'})`);
+  }
+
+  private dispatch(job: QueuedPrediction): void {
+    const id = this.nextId++;
+    const { window, transfer } = toTransferableEEG(job.eeg);
+    this.inFlight++;
+
+    // The worker slot stays taken until the worker answers, even if the caller gives up first
+    const settle = (settler: () => void) => {
+      job.signal?.removeEventListener('abort', onAbort);
+      settler();
+    };
+    const onAbort = () => {
+      this.getWorker().postMessage({ type: 'cancel', id } satisfies PredictionWorkerRequest);
+      settle(() => job.reject(PredictionWorkerClient.cancellation('Prediction cancelled')));
+    };
+    job.signal?.addEventListener('abort', onAbort, { once: true });
+
+    this.calls.set(id, {
+      kind: 'predict',
+      resolve: prediction => settle(() => job.resolve(prediction as SeizurePrediction)),
+      reject: error => settle(() => job.reject(error))
+    });
+    this.getWorker().postMessage({ type: 'predict', id, window } satisfies PredictionWorkerRequest, transfer);
+  }
+
+  private handleResponse(response: PredictionWorkerResponse): void {
+    const call = this.calls.get(response.id);
+    if (!call) return;
+    this.calls.delete(response.id);
+
+    switch (response.type) {
+      case 'ready':
+        call.resolve({ version: response.version, trained: response.trained });
+        break;
+      case 'prediction':
+        call.resolve(response.prediction);
+        break;
+      case 'cancelled':
+        call.reject(PredictionWorkerClient.cancellation('Prediction cancelled'));
+        break;
+      case 'error':
+        call.reject(new Error(response.message));
+        break;
+    }
+
+    if (call.kind === 'predict') {
+      this.inFlight--;
+      this.pump();
+    }
+  }
+
+  private pump(): void {
+    while (this.inFlight < this.options.maxInFlight && this.queue.length > 0) {
+      const job = this.queue.shift()!;
+      job.detach();
+      this.dispatch(job);
+    }
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = this.options.createWorker();
+      this.worker.onmessage = (event: MessageEvent<PredictionWorkerResponse>) => this.handleResponse(event.data);
+      this.worker.onerror = event => {
+        console.error('❌ Prediction worker failed:', event.message);
+        this.fail(new Error(`Prediction worker failed: ${event.message || 'unknown error'}`));
+      };
+    }
+    return this.worker;
+  }
+
+  private fail(error: Error): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.ready = false;
+    this.inFlight = 0;
+
+    const calls = [...this.calls.values()];
+    const queued = this.queue;
+    this.calls.clear();
+    this.queue = [];
+    calls.forEach(call => call.reject(error));
+    queued.forEach(job => {
+      job.detach();
+      job.reject(error);
+    });
+  }
+}
+
+// Shared worker for the app's prediction views
+export const predictionWorker = new PredictionWorkerClient();
+
+/**
+ * Usage Example:
+ *
+ * await predictionWorker.initializeFromRegistry();
+ * const controller = new AbortController();
+ * const prediction = await predictionWorker.predict(eeg, { signal: controller.signal });
+ *
+ * // Live view: the streaming predictor accepts any SeizurePredictor
+ * const streaming = new StreamingPredictor(predictionWorker);
+ */
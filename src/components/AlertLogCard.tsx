@@ -0,0 +1,217 @@
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, ClipboardCheck } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { ALERT_OUTCOMES, AlertLog, type LoggedAlert } from "@/lib/alertLog"
+
+interface AlertLogCardProps {
+  userId: string
+  alerts: LoggedAlert[]
+  onAlertsChange: (alerts: LoggedAlert[]) => void
+}
+
+const UNLABELLED = "unlabelled"
+
+// <input type="datetime-local"> wants local time without a zone
+const toLocalInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+  return local.toISOString().slice(0, 16)
+}
+
+/**
+ * Alerts with their acknowledgement, outcome labels and per-rule accuracy
+ */
+export const AlertLogCard: React.FC<AlertLogCardProps> = ({ userId, alerts, onAlertsChange }) => {
+  const [missedAt, setMissedAt] = useState("")
+  const [missedNotes, setMissedNotes] = useState("")
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const { rules, missed } = AlertLog.summarize(alerts)
+
+  const replace = (updated: LoggedAlert) => {
+    onAlertsChange(alerts.map(alert => alert.id === updated.id ? updated : alert))
+  }
+
+  const showError = (title: string, error: unknown) => {
+    console.error(`${title}:`, error)
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive"
+    })
+  }
+
+  const labelOutcome = async (alert: LoggedAlert, value: string, seizureAt: Date | null = alert.seizureAt) => {
+    const outcome = value === UNLABELLED ? null : value as "true_alarm" | "false_alarm"
+    try {
+      replace(await AlertLog.labelOutcome(alert.id, outcome, { seizureAt, notes: alert.outcomeNotes }))
+    } catch (error) {
+      showError("Couldn't label alert", error)
+    }
+  }
+
+  const reportMissed = async () => {
+    if (!missedAt) return
+    setSaving(true)
+    try {
+      const report = await AlertLog.reportMissed(userId, new Date(missedAt), missedNotes.trim())
+      onAlertsChange([report, ...alerts].sort((a, b) => b.triggeredAt.getTime() - a.triggeredAt.getTime()))
+      setMissedAt("")
+      setMissedNotes("")
+    } catch (error) {
+      showError("Couldn't report missed seizure", error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-destructive" />
+          Alert Log
+        </CardTitle>
+        <CardDescription>
+          Label whether a seizure followed each alert, and report seizures no alert warned of.
+          These labels show how well each alert rule works for you.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {rules.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>Alerts</TableHead>
+                <TableHead>True / False / Unlabelled</TableHead>
+                <TableHead>Precision</TableHead>
+                <TableHead>Median Warning</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map(rule => (
+                <TableRow key={rule.ruleId}>
+                  <TableCell className="font-medium">{rule.ruleName}</TableCell>
+                  <TableCell>{rule.alerts}</TableCell>
+                  <TableCell>{rule.trueAlarms} / {rule.falseAlarms} / {rule.unlabelled}</TableCell>
+                  <TableCell>{rule.precision === null ? "-" : `${Math.round(rule.precision * 100)}%`}</TableCell>
+                  <TableCell>{rule.medianLeadMinutes === null ? "-" : `${rule.medianLeadMinutes.toFixed(1)} min`}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {missed > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {missed} seizure{missed === 1 ? "" : "s"} in view had no alert.
+          </p>
+        )}
+
+        {alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No alerts in this time range</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Alert</TableHead>
+                <TableHead>Risk</TableHead>
+                <TableHead>Acknowledged</TableHead>
+                <TableHead>Outcome</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {alerts.slice(0, 20).map(alert => (
+                <TableRow key={alert.id}>
+                  <TableCell>{alert.triggeredAt.toLocaleString()}</TableCell>
+                  <TableCell>
+                    {alert.source === "rule" ? (
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{alert.ruleName}</span>
+                          {alert.severity && <Badge variant="outline">{alert.severity}</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">{alert.reason}</p>
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">Reported seizure{alert.outcomeNotes && ` - ${alert.outcomeNotes}`}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{alert.riskLevel === null ? "-" : `${Math.round(alert.riskLevel)}%`}</TableCell>
+                  <TableCell className="text-sm">
+                    {alert.acknowledgedAt
+                      ? `${alert.acknowledgedBy} at ${alert.acknowledgedAt.toLocaleTimeString()}`
+                      : "-"}
+                  </TableCell>
+                  <TableCell>
+                    {alert.source === "rule" ? (
+                      <div className="space-y-2">
+                        <Select
+                          value={alert.outcome ?? UNLABELLED}
+                          onValueChange={(value) => labelOutcome(alert, value)}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNLABELLED}>Unlabelled</SelectItem>
+                            <SelectItem value="true_alarm">{ALERT_OUTCOMES.true_alarm}</SelectItem>
+                            <SelectItem value="false_alarm">{ALERT_OUTCOMES.false_alarm}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {alert.outcome === "true_alarm" && (
+                          <Input
+                            type="datetime-local"
+                            aria-label="Seizure started"
+                            className="w-52"
+                            defaultValue={alert.seizureAt ? toLocalInput(alert.seizureAt) : ""}
+                            onBlur={(e) => e.target.value && labelOutcome(alert, "true_alarm", new Date(e.target.value))}
+                          />
+                        )}
+                      </div>
+                    ) : (
+                      <Badge variant="destructive">{ALERT_OUTCOMES.missed}</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-2 p-4 border rounded-md">
+          <Label className="flex items-center gap-2">
+            <ClipboardCheck className="w-4 h-4" />
+            Report a seizure that had no alert
+          </Label>
+          <div className="flex flex-col md:flex-row gap-2">
+            <Input
+              type="datetime-local"
+              aria-label="Seizure started"
+              value={missedAt}
+              max={toLocalInput(new Date())}
+              onChange={(e) => setMissedAt(e.target.value)}
+              className="md:w-56"
+            />
+            <Input
+              placeholder="Notes (optional)"
+              value={missedNotes}
+              onChange={(e) => setMissedNotes(e.target.value)}
+            />
+            <Button onClick={reportMissed} disabled={saving || !missedAt}>
+              {saving ? "Saving..." : "Report"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { BellRing, Moon, Pencil, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { ALERT_RULE_TEMPLATES, AlertRuleEngine, type AlertRule, type AlertSeverity } from "@/lib/alertRules"
+import { AlertRuleStore, DEFAULT_ALERT_RULE_ID } from "@/lib/alertRuleStore"
+
+interface AlertRulesCardProps {
+  userId: string
+}
+
+interface RuleDraft {
+  rule: AlertRule
+  conditionText: string
+}
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  info: "bg-muted text-muted-foreground",
+  warning: "bg-warning text-warning-foreground",
+  critical: "bg-destructive text-destructive-foreground"
+}
+
+const toDraft = (rule: AlertRule): RuleDraft => ({
+  rule,
+  conditionText: JSON.stringify(rule.condition, null, 2)
+})
+
+/**
+ * List and edit the rules that decide when the live monitor raises an alert
+ */
+export const AlertRulesCard: React.FC<AlertRulesCardProps> = ({ userId }) => {
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [draft, setDraft] = useState<RuleDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    AlertRuleStore.load(userId)
+      .then(setRules)
+      .catch(error => console.error('Error loading alert rules:', error))
+  }, [userId])
+
+  // Parse the condition on every keystroke so the editor can show what it means
+  let conditionError: string | null = null
+  let conditionPreview: string | null = null
+  if (draft) {
+    try {
+      conditionPreview = AlertRuleEngine.describe(AlertRuleEngine.parseCondition(JSON.parse(draft.conditionText)))
+    } catch (error) {
+      conditionError = error instanceof Error ? error.message : String(error)
+    }
+  }
+
+  const saveRule = async (rule: AlertRule) => {
+    setSaving(true)
+    try {
+      // Stored rules replace the profile-threshold rule, so store it too rather than lose it
+      const profileRule = rules.find(r => r.id === DEFAULT_ALERT_RULE_ID)
+      const storedProfileRule = profileRule && rule.id !== DEFAULT_ALERT_RULE_ID
+        ? await AlertRuleStore.save(userId, profileRule)
+        : null
+
+      const saved = await AlertRuleStore.save(userId, rule)
+      setRules(prev => {
+        const next = prev.map(r => r.id === DEFAULT_ALERT_RULE_ID && storedProfileRule ? storedProfileRule : r)
+        return next.some(r => r.id === rule.id)
+          ? next.map(r => r.id === rule.id ? saved : r)
+          : [...next, saved]
+      })
+      return true
+    } catch (error) {
+      console.error('Error saving alert rule:', error)
+      toast({
+        title: "Couldn't save alert rule",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      })
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveDraft = async () => {
+    if (!draft || conditionError) return
+    const rule = { ...draft.rule, condition: JSON.parse(draft.conditionText) }
+    if (await saveRule(rule)) setDraft(null)
+  }
+
+  const deleteRule = async (rule: AlertRule) => {
+    try {
+      await AlertRuleStore.remove(rule.id)
+      setRules(prev => prev.filter(r => r.id !== rule.id))
+    } catch (error) {
+      console.error('Error deleting alert rule:', error)
+      toast({
+        title: "Couldn't delete alert rule",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const addFromTemplate = (index: string) => {
+    const template = ALERT_RULE_TEMPLATES[Number(index)]
+    setDraft(toDraft({ ...template, id: crypto.randomUUID(), enabled: true }))
+  }
+
+  const updateDraft = (changes: Partial<AlertRule>) => {
+    setDraft(prev => prev && { ...prev, rule: { ...prev.rule, ...changes } })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="w-5 h-5" />
+          Alert Rules
+        </CardTitle>
+        <CardDescription>
+          When the live monitor raises an alert. Rules combine thresholds, sustained readings,
+          rates of change and AI risk levels, each with its own severity, cooldown and quiet hours
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-start justify-between gap-4 p-3 border rounded-md">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{rule.name}</span>
+                <Badge className={SEVERITY_STYLES[rule.severity]}>{rule.severity}</Badge>
+                {rule.id === DEFAULT_ALERT_RULE_ID && <Badge variant="outline">From profile threshold</Badge>}
+              </div>
+              <p className="text-sm text-muted-foreground">{AlertRuleEngine.describe(rule.condition)}</p>
+              <p className="text-xs text-muted-foreground flex items-center gap-2">
+                At most every {rule.cooldownSeconds} s
+                {rule.quietHours && (
+                  <span className="flex items-center gap-1">
+                    <Moon className="w-3 h-3" />
+                    Quiet {rule.quietHours.start} - {rule.quietHours.end}
+                  </span>
+                )}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={rule.enabled}
+                disabled={saving}
+                onCheckedChange={(enabled) => saveRule({ ...rule, enabled })}
+              />
+              <Button variant="ghost" size="sm" onClick={() => setDraft(toDraft(rule))}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              {rule.id !== DEFAULT_ALERT_RULE_ID && (
+                <Button variant="ghost" size="sm" onClick={() => deleteRule(rule)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {draft ? (
+          <div className="space-y-4 p-4 border rounded-md bg-muted/30">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule_name">Name</Label>
+                <Input
+                  id="rule_name"
+                  value={draft.rule.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <Select
+                  value={draft.rule.severity}
+                  onValueChange={(severity) => updateDraft({ severity: severity as AlertSeverity })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="info">Info</SelectItem>
+                    <SelectItem value="warning">Warning</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule_cooldown">Cooldown (seconds)</Label>
+                <Input
+                  id="rule_cooldown"
+                  type="number"
+                  min={0}
+                  value={draft.rule.cooldownSeconds}
+                  onChange={(e) => updateDraft({ cooldownSeconds: Math.max(0, Number(e.target.value)) })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="quiet_start">Quiet hours from (optional)</Label>
+                <Input
+                  id="quiet_start"
+                  type="time"
+                  value={draft.rule.quietHours?.start ?? ''}
+                  onChange={(e) => updateDraft({
+                    quietHours: e.target.value ? { start: e.target.value, end: draft.rule.quietHours?.end ?? '07:00' } : null
+                  })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quiet_end">Quiet hours until</Label>
+                <Input
+                  id="quiet_end"
+                  type="time"
+                  disabled={!draft.rule.quietHours}
+                  value={draft.rule.quietHours?.end ?? ''}
+                  onChange={(e) => draft.rule.quietHours && e.target.value && updateDraft({
+                    quietHours: { start: draft.rule.quietHours.start, end: e.target.value }
+                  })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule_condition">Condition (JSON)</Label>
+              <Textarea
+                id="rule_condition"
+                rows={8}
+                className="font-mono text-xs"
+                value={draft.conditionText}
+                onChange={(e) => setDraft({ ...draft, conditionText: e.target.value })}
+              />
+              {conditionError ? (
+                <p className="text-sm text-destructive">{conditionError}</p>
+              ) : (
+                <p className="text-sm text-muted-foreground">Alerts when: {conditionPreview}</p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button onClick={saveDraft} disabled={saving || !!conditionError || !draft.rule.name.trim()}>
+                {saving ? 'Saving...' : 'Save Rule'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Select value="" onValueChange={addFromTemplate}>
+            <SelectTrigger className="w-full md:w-72">
+              <SelectValue placeholder="Add a rule from a template" />
+            </SelectTrigger>
+            <SelectContent>
+              {ALERT_RULE_TEMPLATES.map((template, i) => (
+                <SelectItem key={template.name} value={String(i)}>{template.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,65 +1,128 @@
-import { useEffect, useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
 import { AlertTriangle, Bell, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
 import { supabase } from "@/integrations/supabase/client"
+import { AlertRuleEngine, type AlertEvent, type AlertSeverity } from "@/lib/alertRules"
+import { AlertRuleStore } from "@/lib/alertRuleStore"
+import { emergencyNotifier } from "@/lib/emergencyNotifications"
+import { AlertLog } from "@/lib/alertLog"
+import type { RiskLevel } from "@/lib/aiSeizurePrediction"
+import type { BiosensorReading } from "@/hooks/useBiosensorData"
 
 interface AlertSystemProps {
-  riskLevel: number
+  reading: BiosensorReading
   isRecording: boolean
+  aiRiskLevel?: RiskLevel
   onAlert?: (timestamp: Date) => void
 }
 
-interface AlertLog {
+interface AlertEntry {
   id: string
   timestamp: Date
+  ruleName: string
+  description: string
+  severity: AlertSeverity
   riskLevel: number
   dismissed: boolean
+  acknowledged: boolean
+}
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  info: "bg-muted text-muted-foreground",
+  warning: "bg-warning text-warning-foreground",
+  critical: "bg-danger text-white"
 }
 
 export const AlertSystem: React.FC<AlertSystemProps> = ({ 
-  riskLevel, 
+  reading, 
   isRecording, 
+  aiRiskLevel,
   onAlert 
 }) => {
-  const [alerts, setAlerts] = useState<AlertLog[]>([])
+  const [alerts, setAlerts] = useState<AlertEntry[]>([])
   const [showActiveAlert, setShowActiveAlert] = useState(false)
+  const engineRef = useRef(new AlertRuleEngine())
+  // Latest AI level and callback, read when a reading arrives rather than re-running on change
+  const latestRef = useRef({ aiRiskLevel, onAlert })
+  latestRef.current = { aiRiskLevel, onAlert }
+
+  // The signed-in user's rules (the profile threshold rule until they write their own)
+  // and their latest alerts, so the history survives a reload
+  useEffect(() => {
+    const loadRules = async () => {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) return
+
+      AlertLog.load(session.user.id, { limit: 5 })
+        .then(logged => setAlerts(prev => [
+          ...logged
+            .filter(alert => alert.source === 'rule' && !prev.some(entry => entry.id === alert.id))
+            .reverse()
+            .map(alert => ({
+              id: alert.id,
+              timestamp: alert.triggeredAt,
+              ruleName: alert.ruleName ?? 'Alert',
+              description: alert.reason ?? '',
+              severity: alert.severity ?? 'warning',
+              riskLevel: alert.riskLevel ?? 0,
+              dismissed: true,
+              acknowledged: alert.acknowledgedAt !== null
+            })),
+          ...prev
+        ]))
+        .catch(error => console.error('Error loading alert history:', error))
+
+      try {
+        engineRef.current.setRules(await AlertRuleStore.load(session.user.id))
+      } catch (error) {
+        console.error('Error loading alert rules:', error)
+        engineRef.current.setRules([await AlertRuleStore.profileRule(session.user.id)])
+      }
+    }
+    loadRules()
+  }, [])
 
-  // Alert threshold
-  const ALERT_THRESHOLD = 70
+  useEffect(() => {
+    if (!isRecording) engineRef.current.reset()
+  }, [isRecording])
 
   useEffect(() => {
-    if (isRecording && riskLevel >= ALERT_THRESHOLD) {
-      // Check if we already have a recent alert (within last 30 seconds)
-      const recentAlert = alerts.find(alert => 
-        !alert.dismissed && 
-        Date.now() - alert.timestamp.getTime() < 30000
-      )
-
-      if (!recentAlert) {
-        const newAlert: AlertLog = {
-          id: crypto.randomUUID(),
-          timestamp: new Date(),
-          riskLevel,
-          dismissed: false
-        }
-        
-        setAlerts(prev => [...prev, newAlert])
-        setShowActiveAlert(true)
-        onAlert?.(newAlert.timestamp)
-        
-        // Save seizure event to database
-        setTimeout(() => saveSeizureEvent(riskLevel), 0)
-        
-        // Auto-dismiss after 10 seconds
-        setTimeout(() => {
-          setShowActiveAlert(false)
-        }, 10000)
+    if (!isRecording) return
+
+    const { aiRiskLevel, onAlert } = latestRef.current
+    for (const event of engineRef.current.push({ ...reading, aiRiskLevel })) {
+      const newAlert: AlertEntry = {
+        id: event.id,
+        timestamp: new Date(event.timestamp),
+        ruleName: event.rule.name,
+        description: AlertRuleEngine.describe(event.rule.condition),
+        severity: event.severity,
+        riskLevel: reading.seizureRisk,
+        dismissed: false,
+        acknowledged: false
       }
+
+      setAlerts(prev => [...prev, newAlert])
+      setShowActiveAlert(true)
+      onAlert?.(newAlert.timestamp)
+
+      // Save the alert, with the readings behind it, to the alert log
+      setTimeout(() => recordAlert(event), 0)
+
+      // Emergency contacts are messaged, and escalated, until someone acknowledges
+      emergencyNotifier.dispatch(event)
+        .catch(error => console.error('Error notifying emergency contacts:', error))
+
+      // Auto-dismiss after 10 seconds
+      setTimeout(() => {
+        setShowActiveAlert(false)
+      }, 10000)
     }
-  }, [riskLevel, isRecording, alerts, onAlert])
+  }, [reading, isRecording])
 
   const dismissAlert = (alertId: string) => {
     setAlerts(prev => prev.map(alert => 
@@ -68,24 +131,32 @@ export const AlertSystem: React.FC<AlertSystemProps> = ({
     setShowActiveAlert(false)
   }
 
+  // The patient is OK: stop messaging their emergency contacts
+  const acknowledgeAlert = (alertId: string) => {
+    dismissAlert(alertId)
+    setAlerts(prev => prev.map(alert =>
+      alert.id === alertId ? { ...alert, acknowledged: true } : alert
+    ))
+    emergencyNotifier.acknowledge(alertId)
+      .catch(error => console.error('Error acknowledging alert:', error))
+    AlertLog.acknowledge(alertId)
+      .catch(error => console.error('Error recording acknowledgement:', error))
+  }
+
   const clearAllAlerts = () => {
     setAlerts([])
     setShowActiveAlert(false)
   }
 
-  const saveSeizureEvent = async (risk: number) => {
-    const { data: { user } } = await supabase.auth.getUser()
-    if (!user) return
+  // The alert id is the row id, so a retried upload can't record the alert twice
+  const recordAlert = async (event: AlertEvent) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return
 
     try {
-      await supabase.from('seizure_events').insert({
-        user_id: user.id,
-        timestamp: new Date().toISOString(),
-        risk_level: risk,
-        alert_triggered: true
-      })
+      await AlertLog.record(session.user.id, event)
     } catch (error) {
-      console.error('Error saving seizure event to database:', error)
+      console.error('Error queueing alert for upload:', error)
     }
   }
 
@@ -97,19 +168,29 @@ export const AlertSystem: React.FC<AlertSystemProps> = ({
       {showActiveAlert && activeAlert && (
         <Alert className="border-danger bg-danger/5">
           <AlertTriangle className="h-4 w-4 text-danger" />
-          <AlertTitle className="text-danger">High Seizure Risk Detected</AlertTitle>
+          <AlertTitle className="text-danger">{activeAlert.ruleName}</AlertTitle>
           <AlertDescription className="flex items-center justify-between">
             <span>
-              Risk level: {Math.round(activeAlert.riskLevel)}% - Consider safety measures
+              {activeAlert.description} - Risk level: {Math.round(activeAlert.riskLevel)}%
             </span>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => dismissAlert(activeAlert.id)}
-              className="ml-4 h-6 w-6 p-0"
-            >
-              <X className="h-3 w-3" />
-            </Button>
+            <div className="flex items-center gap-2 ml-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => acknowledgeAlert(activeAlert.id)}
+                className="h-6 text-xs"
+              >
+                I'm OK
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => dismissAlert(activeAlert.id)}
+                className="h-6 w-6 p-0"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
           </AlertDescription>
         </Alert>
       )}
@@ -150,7 +231,9 @@ export const AlertSystem: React.FC<AlertSystemProps> = ({
                 >
                   <div className="flex items-center gap-2">
                     <AlertTriangle className="w-3 h-3" />
-                    <span>Risk: {Math.round(alert.riskLevel)}%</span>
+                    <span>{alert.ruleName} · Risk: {Math.round(alert.riskLevel)}%</span>
+                    <Badge className={cn("text-xs", SEVERITY_STYLES[alert.severity])}>{alert.severity}</Badge>
+                    {alert.acknowledged && <span className="text-xs">· OK</span>}
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="text-xs">
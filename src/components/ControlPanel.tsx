@@ -1,8 +1,21 @@
+import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Play, Pause, RotateCcw, History, Bell } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Play, Pause, RotateCcw, History, Bell, Radio, Cloud, CloudOff, RefreshCw } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { ScenarioEngine, type BiosensorScenario } from "@/lib/biosensorScenarios"
+import { BUILT_IN_SCENARIOS } from "@/data/scenarios"
+import type { OutboxStatus } from "@/lib/offlineOutbox"
+import {
+  ReplayBiosensorSource,
+  type BiosensorSource,
+  type BiosensorSourceConfig,
+  type BiosensorSourceKind
+} from "@/lib/biosensorSources"
 
 interface ControlPanelProps {
   isRecording: boolean
@@ -11,6 +24,34 @@ interface ControlPanelProps {
   onClearHistory: () => void
   historyCount: number
   lastAlertTime?: Date
+  source: BiosensorSource
+  sourceError?: string | null
+  onSelectSource: (config: BiosensorSourceConfig) => void
+  syncStatus: OutboxStatus
+}
+
+const SOURCE_LABELS: Record<BiosensorSourceKind, string> = {
+  simulator: "Simulator",
+  scenario: "Scripted scenario",
+  replay: "Recorded file (CSV/JSON)",
+  websocket: "WebSocket stream",
+  bluetooth: "Bluetooth heart rate strap"
+}
+
+const SCENARIO_SPEEDS = [1, 10, 60]
+
+const describeSync = ({ state, pending, nextRetryAt }: OutboxStatus) => {
+  switch (state) {
+    case "synced": return { icon: Cloud, text: "Synced", className: "bg-success text-success-foreground" }
+    case "pending": return { icon: Cloud, text: `${pending} queued`, className: "bg-muted text-muted-foreground" }
+    case "syncing": return { icon: RefreshCw, text: `Uploading ${pending}`, className: "bg-muted text-muted-foreground" }
+    case "retrying": return {
+      icon: RefreshCw,
+      text: `${pending} queued, retry ${nextRetryAt?.toLocaleTimeString() ?? "soon"}`,
+      className: "bg-warning text-warning-foreground"
+    }
+    case "offline": return { icon: CloudOff, text: `Offline, ${pending} queued`, className: "bg-warning text-warning-foreground" }
+  }
 }
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({
@@ -19,8 +60,57 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   onStopRecording,
   onClearHistory,
   historyCount,
-  lastAlertTime
+  lastAlertTime,
+  source,
+  sourceError,
+  onSelectSource,
+  syncStatus
 }) => {
+  const [kind, setKind] = useState<BiosensorSourceKind>(source.kind)
+  const [url, setUrl] = useState("ws://localhost:8765")
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [scenarios, setScenarios] = useState<BiosensorScenario[]>(BUILT_IN_SCENARIOS)
+  const [scenarioId, setScenarioId] = useState(BUILT_IN_SCENARIOS[0].id)
+  const [speed, setSpeed] = useState(1)
+  const sync = describeSync(syncStatus)
+
+  const selectScenario = (scenario: BiosensorScenario, scenarioSpeed: number) => {
+    setScenarioId(scenario.id)
+    setSpeed(scenarioSpeed)
+    onSelectSource({ kind: "scenario", scenario, options: { speed: scenarioSpeed } })
+  }
+
+  const handleKindChange = (value: BiosensorSourceKind) => {
+    setKind(value)
+    setFileError(null)
+    // File and URL sources are applied once their input is filled in
+    if (value === "simulator" || value === "bluetooth") onSelectSource({ kind: value })
+    if (value === "scenario") selectScenario(scenarios.find(s => s.id === scenarioId) ?? scenarios[0], speed)
+  }
+
+  const handleScenarioFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const scenario = ScenarioEngine.parse(await file.text())
+      setFileError(null)
+      setScenarios(prev => [...prev.filter(s => s.id !== scenario.id), scenario])
+      selectScenario(scenario, speed)
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "Could not read the scenario")
+    }
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const samples = ReplayBiosensorSource.parse(await file.text(), file.name)
+      setFileError(null)
+      onSelectSource({ kind: "replay", samples, options: { name: file.name } })
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "Could not read the file")
+    }
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -30,6 +120,101 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Data source</Label>
+          <Select value={kind} onValueChange={handleKindChange} disabled={isRecording}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SOURCE_LABELS) as BiosensorSourceKind[]).map(value => (
+                <SelectItem key={value} value={value}>{SOURCE_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {kind === "scenario" && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Select
+                  value={scenarioId}
+                  onValueChange={(id) => selectScenario(scenarios.find(s => s.id === id)!, speed)}
+                  disabled={isRecording}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {scenarios.map(scenario => (
+                      <SelectItem key={scenario.id} value={scenario.id}>{scenario.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={String(speed)}
+                  onValueChange={(value) => selectScenario(scenarios.find(s => s.id === scenarioId)!, Number(value))}
+                  disabled={isRecording}
+                >
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCENARIO_SPEEDS.map(value => (
+                      <SelectItem key={value} value={String(value)}>{value}x</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Input
+                type="file"
+                accept=".json"
+                onChange={(e) => handleScenarioFile(e.target.files?.[0])}
+                disabled={isRecording}
+              />
+              <p className="text-xs text-muted-foreground">
+                Load your own scenario JSON, or pick a built-in one. The same seed always plays back the same readings.
+              </p>
+            </div>
+          )}
+
+          {kind === "replay" && (
+            <Input
+              type="file"
+              accept=".csv,.json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={isRecording}
+            />
+          )}
+
+          {kind === "websocket" && (
+            <div className="flex gap-2">
+              <Input
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="ws://localhost:8765"
+                disabled={isRecording}
+              />
+              <Button
+                variant="outline"
+                onClick={() => onSelectSource({ kind: "websocket", url })}
+                disabled={isRecording || !url}
+              >
+                Use
+              </Button>
+            </div>
+          )}
+
+          {kind === "bluetooth" && (
+            <p className="text-xs text-muted-foreground">
+              Provides heart rate only; your browser asks for the device when recording starts
+            </p>
+          )}
+
+          {(fileError || sourceError) && (
+            <p className="text-sm text-destructive">{fileError || sourceError}</p>
+          )}
+        </div>
+
         <div className="flex gap-2">
           <Button
             onClick={isRecording ? onStopRecording : onStartRecording}
@@ -65,6 +250,14 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <Badge variant="secondary">{historyCount}</Badge>
           </div>
           
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Source:</span>
+            <Badge variant="outline" className="flex items-center gap-1">
+              <Radio className="w-3 h-3" />
+              {source.label}
+            </Badge>
+          </div>
+
           <div className="flex items-center justify-between">
             <span className="text-sm text-muted-foreground">Status:</span>
             <Badge className={cn(
@@ -73,6 +266,20 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               {isRecording ? "Active" : "Paused"}
             </Badge>
           </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Sync:</span>
+            <Badge className={cn("flex items-center gap-1", sync.className)} title={syncStatus.lastError ?? undefined}>
+              <sync.icon className="w-3 h-3" />
+              {sync.text}
+            </Badge>
+          </div>
+
+          {syncStatus.rejected > 0 && (
+            <p className="text-xs text-destructive">
+              {syncStatus.rejected} record{syncStatus.rejected === 1 ? " was" : "s were"} refused by the server and dropped
+            </p>
+          )}
           
           {lastAlertTime && (
             <div className="flex items-center justify-between">
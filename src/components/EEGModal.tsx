@@ -15,14 +15,19 @@ import {
   Activity,
   Brain,
   Clock,
-  AlertTriangle
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight
 } from "lucide-react";
 import { type EEGData } from "@/lib/eegGenerator";
+import { EDFWriter } from "@/ai/data/edfWriter";
+import { CHBEDFStreamReader } from "@/ai/data/chbEDFStreamReader";
 
 interface EEGModalProps {
   isOpen: boolean;
   onClose: () => void;
   eegData: EEGData | null;
+  recording?: Blob | null;  // EDF file, read one visible page at a time instead of eegData
   seizureInfo?: {
     timestamp: string;
     duration: number;
@@ -31,10 +36,32 @@ interface EEGModalProps {
   };
 }
 
+// The samples currently on screen, from either source
+interface EEGPage {
+  startTime: number;
+  samplingRate: number;
+  channelLabels: string[];
+  channels: ArrayLike<number>[];
+}
+
+const generatedPage = (eegData: EEGData, startTime: number, duration: number): EEGPage => {
+  const points = eegData.data.slice(
+    Math.floor(startTime * eegData.samplingRate),
+    Math.floor((startTime + duration) * eegData.samplingRate)
+  );
+  return {
+    startTime,
+    samplingRate: eegData.samplingRate,
+    channelLabels: eegData.channels,
+    channels: eegData.channels.map(channel => Float32Array.from(points, point => point.channels[channel] || 0))
+  };
+};
+
 export const EEGModal: React.FC<EEGModalProps> = ({ 
   isOpen, 
   onClose, 
   eegData, 
+  recording,
   seizureInfo 
 }) => {
   // Medical Standard: Raw EEG data should display by default
@@ -44,22 +71,69 @@ export const EEGModal: React.FC<EEGModalProps> = ({
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [timeOffset, setTimeOffset] = useState(0);
+  const [reader, setReader] = useState<CHBEDFStreamReader | null>(null);
+  const [page, setPage] = useState<EEGPage | null>(null);
+  const [pageError, setPageError] = useState<string | null>(null);
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationFrameRef = useRef<number>();
 
+  const visibleDuration = 10 / zoomLevel; // 10 seconds at 1x zoom
+  const totalDuration = reader ? reader.duration : eegData?.duration ?? 0;
+
+  useEffect(() => {
+    setTimeOffset(0);
+    setCurrentTime(0);
+  }, [eegData, recording]);
+
+  // Only the EDF header is read here; samples are read page by page below
+  useEffect(() => {
+    setReader(null);
+    if (!isOpen || !recording) return;
+
+    let ignore = false;
+    CHBEDFStreamReader.open(recording, recording instanceof File ? recording.name : 'recording.edf')
+      .then(opened => { if (!ignore) setReader(opened); })
+      .catch(error => { if (!ignore) setPageError(error instanceof Error ? error.message : 'Could not open the recording'); });
+    return () => { ignore = true; };
+  }, [isOpen, recording]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let ignore = false;
+    const loadPage = async (): Promise<EEGPage | null> => {
+      if (reader) {
+        const window = await reader.readWindow(timeOffset, visibleDuration);
+        return {
+          startTime: timeOffset,
+          samplingRate: window.samplingRates[0] || 256,
+          channelLabels: window.channelLabels,
+          channels: window.channels
+        };
+      }
+      return eegData && !recording ? generatedPage(eegData, timeOffset, visibleDuration) : null;
+    };
+
+    setPageError(null);
+    loadPage()
+      .then(next => { if (!ignore) setPage(next); })
+      .catch(error => { if (!ignore) setPageError(error instanceof Error ? error.message : 'Could not read the recording'); });
+    return () => { ignore = true; };
+  }, [isOpen, eegData, recording, reader, timeOffset, visibleDuration]);
+
   useEffect(() => {
-    if (isOpen && eegData && canvasRef.current) {
+    if (isOpen && page && canvasRef.current) {
       drawEEG();
     }
-  }, [isOpen, eegData, showRawData, showCleanedData, zoomLevel, timeOffset]);
+  }, [isOpen, page, showRawData, showCleanedData]);
 
   useEffect(() => {
     if (isPlaying) {
       const animate = () => {
         setCurrentTime(prev => {
           const newTime = prev + 0.1;
-          if (newTime >= (eegData?.duration || 0)) {
+          if (newTime >= totalDuration) {
             setIsPlaying(false);
             return 0;
           }
@@ -79,11 +153,11 @@ export const EEGModal: React.FC<EEGModalProps> = ({
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [isPlaying, eegData?.duration]);
+  }, [isPlaying, totalDuration]);
 
   const drawEEG = () => {
     const canvas = canvasRef.current;
-    if (!canvas || !eegData) return;
+    if (!canvas || !page) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
@@ -109,18 +183,17 @@ export const EEGModal: React.FC<EEGModalProps> = ({
       return;
     }
 
-    const channels = eegData.channels;
+    const channels = page.channelLabels;
     const channelHeight = canvasHeight / channels.length;
-    const samplingRate = eegData.samplingRate;
+    const samplingRate = page.samplingRate;
     
-    // Calculate visible time window based on zoom
-    const visibleDuration = 10 / zoomLevel; // 10 seconds at 1x zoom
-    const startTime = timeOffset;
-    const endTime = Math.min(startTime + visibleDuration, eegData.duration);
+    // Page samples are relative to its start; a short last page is not stretched
+    const startTime = page.startTime;
+    const endTime = Math.min(startTime + visibleDuration, totalDuration);
     
-    const startSample = Math.floor(startTime * samplingRate);
-    const endSample = Math.floor(endTime * samplingRate);
-    const samplesPerPixel = (endSample - startSample) / canvasWidth;
+    const startSample = 0;
+    const endSample = Math.floor((endTime - startTime) * samplingRate);
+    const samplesPerPixel = (visibleDuration * samplingRate) / canvasWidth;
 
     console.log('🎨 Drawing EEG:', {
       channels: channels.length,
@@ -175,12 +248,12 @@ export const EEGModal: React.FC<EEGModalProps> = ({
         ctx.lineWidth = 1;
         ctx.beginPath();
         
+        const channelData = page.channels[channelIndex];
         let isFirstPoint = true;
         for (let sample = startSample; sample < endSample; sample += Math.max(1, Math.floor(samplesPerPixel))) {
-          if (sample >= eegData.data.length) break;
+          if (sample >= channelData.length) break;
           
-          const dataPoint = eegData.data[sample];
-          const value = dataPoint?.channels[channel] || 0;
+          const value = channelData[sample] || 0;
           const x = ((sample - startSample) / samplesPerPixel);
           const y = baseY - (value * amplitudeScale);
           
@@ -195,18 +268,18 @@ export const EEGModal: React.FC<EEGModalProps> = ({
       }
 
       // Draw cleaned data (red) if available and selected
-      if (showCleanedData && eegData.data.length > 0) {
+      if (showCleanedData && page.channels[channelIndex].length > 0) {
         ctx.strokeStyle = '#ef4444';
         ctx.lineWidth = 1;
         ctx.beginPath();
         
+        const channelData = page.channels[channelIndex];
         let isFirstPoint = true;
         for (let sample = startSample; sample < endSample; sample += Math.max(1, Math.floor(samplesPerPixel))) {
-          if (sample >= eegData.data.length) break;
+          if (sample >= channelData.length) break;
           
-          const dataPoint = eegData.data[sample];
           // Apply simple filtering for cleaned data visualization
-          const rawValue = dataPoint?.channels[channel] || 0;
+          const rawValue = channelData[sample] || 0;
           const cleanedValue = rawValue * 0.9; // Simulate filtering
           const x = ((sample - startSample) / samplesPerPixel);
           const y = baseY - (cleanedValue * amplitudeScale);
@@ -239,6 +312,8 @@ export const EEGModal: React.FC<EEGModalProps> = ({
   const handleZoomIn = () => setZoomLevel(prev => Math.min(prev * 2, 8));
   const handleZoomOut = () => setZoomLevel(prev => Math.max(prev / 2, 0.5));
   const handlePlayPause = () => setIsPlaying(prev => !prev);
+  const handlePreviousPage = () => setTimeOffset(prev => Math.max(0, prev - visibleDuration));
+  const handleNextPage = () => setTimeOffset(prev => Math.max(0, Math.min(prev + visibleDuration, totalDuration - visibleDuration)));
   const handleReset = () => {
     setZoomLevel(1);
     setTimeOffset(0);
@@ -270,6 +345,19 @@ export const EEGModal: React.FC<EEGModalProps> = ({
     URL.revokeObjectURL(url);
   };
 
+  const handleExportEDF = () => {
+    if (!eegData) return;
+
+    // Full recording as EDF+ with seizure phases as annotations (opens in EDFbrowser)
+    const blob = EDFWriter.toBlob(EDFWriter.fromGeneratedEEG(eegData));
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `eeg_${eegData.seizureId}_${new Date().toISOString().slice(0, 10)}.edf`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const formatTimestamp = (timestamp: string) => {
     return new Date(timestamp).toLocaleString('en-US', {
       year: 'numeric',
@@ -347,23 +435,23 @@ export const EEGModal: React.FC<EEGModalProps> = ({
             )}
 
             {/* EEG Technical Info */}
-            {eegData && (
+            {page && (
               <Card>
                 <CardHeader className="pb-3">
                   <CardTitle className="text-sm">EEG Specifications</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-2">
                   <div className="text-sm">
-                    <span className="text-gray-500">Sampling Rate:</span> {eegData.samplingRate} Hz
+                    <span className="text-gray-500">Sampling Rate:</span> {page.samplingRate} Hz
                   </div>
                   <div className="text-sm">
-                    <span className="text-gray-500">Channels:</span> {eegData.channels.length}
+                    <span className="text-gray-500">Channels:</span> {page.channelLabels.length}
                   </div>
                   <div className="text-sm">
-                    <span className="text-gray-500">Duration:</span> {eegData.duration}s
+                    <span className="text-gray-500">Duration:</span> {Math.round(totalDuration)}s
                   </div>
                   <div className="text-sm">
-                    <span className="text-gray-500">Data Points:</span> {eegData.data.length.toLocaleString()}
+                    <span className="text-gray-500">Data Points:</span> {Math.round(totalDuration * page.samplingRate).toLocaleString()}
                   </div>
                 </CardContent>
               </Card>
@@ -416,16 +504,39 @@ export const EEGModal: React.FC<EEGModalProps> = ({
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <p className="text-xs text-gray-500">
+                    {timeOffset.toFixed(1)}s - {Math.min(timeOffset + visibleDuration, totalDuration).toFixed(1)}s of {Math.round(totalDuration)}s
+                  </p>
+                  <div className="flex space-x-1">
+                    <Button size="sm" variant="outline" onClick={handlePreviousPage} disabled={timeOffset <= 0}>
+                      <ChevronLeft className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={handleNextPage} disabled={timeOffset + visibleDuration >= totalDuration}>
+                      <ChevronRight className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+
                 <div className="space-y-2">
                   <Button size="sm" variant="outline" onClick={handlePlayPause} className="w-full">
                     {isPlaying ? <Pause className="h-3 w-3 mr-1" /> : <Play className="h-3 w-3 mr-1" />}
                     {isPlaying ? 'Pause' : 'Play'}
                   </Button>
                   
-                  <Button size="sm" variant="outline" onClick={handleExport} className="w-full">
-                    <Download className="h-3 w-3 mr-1" />
-                    Export
-                  </Button>
+                  {eegData && !recording && (
+                    <>
+                      <Button size="sm" variant="outline" onClick={handleExport} className="w-full">
+                        <Download className="h-3 w-3 mr-1" />
+                        Export
+                      </Button>
+
+                      <Button size="sm" variant="outline" onClick={handleExportEDF} className="w-full">
+                        <Download className="h-3 w-3 mr-1" />
+                        Export EDF+
+                      </Button>
+                    </>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -437,7 +548,7 @@ export const EEGModal: React.FC<EEGModalProps> = ({
               <CardHeader className="pb-2">
                 <div className="flex items-center justify-between">
                   <CardTitle className="text-sm">
-                    EEG Waveforms - {eegData?.channels.length || 0} Channels
+                    EEG Waveforms - {page?.channelLabels.length || 0} Channels
                   </CardTitle>
                   <div className="text-xs text-gray-500">
                     {showRawData && 'Raw Data'} {showRawData && showCleanedData && '+ '}
@@ -446,6 +557,7 @@ export const EEGModal: React.FC<EEGModalProps> = ({
                 </div>
               </CardHeader>
               <CardContent className="h-[calc(100%-80px)]">
+                {pageError && <p className="text-sm text-red-600 mb-2">❌ {pageError}</p>}
                 <canvas
                   ref={canvasRef}
                   className="w-full h-full border border-gray-200 rounded"
@@ -0,0 +1,263 @@
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CheckCircle, PhoneCall, Pencil, Plus, Trash2, XCircle } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import type { AlertSeverity } from "@/lib/alertRules"
+import {
+  CONTACT_CHANNELS,
+  EmergencyContactStore,
+  type AlertNotification,
+  type ContactChannel,
+  type EmergencyContact
+} from "@/lib/emergencyContactStore"
+
+interface EmergencyContactsCardProps {
+  userId: string
+}
+
+const STATUS_TEXT: Record<AlertNotification["status"], string> = {
+  notifying: "Waiting for acknowledgement",
+  acknowledged: "Acknowledged",
+  exhausted: "No one acknowledged",
+  no_contacts: "No contacts to notify"
+}
+
+/**
+ * The escalation chain for alerts, and what was sent for the latest ones
+ */
+export const EmergencyContactsCard: React.FC<EmergencyContactsCardProps> = ({ userId }) => {
+  const [contacts, setContacts] = useState<EmergencyContact[]>([])
+  const [notifications, setNotifications] = useState<AlertNotification[]>([])
+  const [draft, setDraft] = useState<EmergencyContact | null>(null)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    EmergencyContactStore.load(userId)
+      .then(setContacts)
+      .catch(error => console.error('Error loading emergency contacts:', error))
+    EmergencyContactStore.recentNotifications(userId)
+      .then(setNotifications)
+      .catch(error => console.error('Error loading alert notifications:', error))
+  }, [userId])
+
+  const saveContact = async (contact: EmergencyContact) => {
+    setSaving(true)
+    try {
+      const saved = await EmergencyContactStore.save(userId, contact)
+      setContacts(prev => [...prev.filter(c => c.id !== contact.id), saved].sort((a, b) => a.priority - b.priority))
+      return true
+    } catch (error) {
+      console.error('Error saving emergency contact:', error)
+      toast({
+        title: "Couldn't save contact",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      })
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteContact = async (contact: EmergencyContact) => {
+    try {
+      await EmergencyContactStore.remove(contact.id)
+      setContacts(prev => prev.filter(c => c.id !== contact.id))
+    } catch (error) {
+      console.error('Error deleting emergency contact:', error)
+      toast({
+        title: "Couldn't delete contact",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const addContact = () => {
+    setDraft({
+      id: crypto.randomUUID(),
+      name: "",
+      channel: "sms",
+      address: "",
+      priority: contacts.length > 0 ? contacts[contacts.length - 1].priority + 1 : 0,
+      minSeverity: "critical",
+      escalateAfterMinutes: 5,
+      enabled: true
+    })
+  }
+
+  const saveDraft = async () => {
+    if (draft && await saveContact(draft)) setDraft(null)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PhoneCall className="w-5 h-5" />
+          Alert Notifications
+        </CardTitle>
+        <CardDescription>
+          Who is messaged when an alert fires, in order. If a contact does not acknowledge in time, the next one is tried.
+          With no contacts here, the emergency contact above is sent an SMS for critical alerts only.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {contacts.map((contact, i) => (
+          <div key={contact.id} className="flex items-start justify-between gap-4 p-3 border rounded-md">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">{i + 1}.</span>
+                <span className="font-medium">{contact.name}</span>
+                <Badge variant="outline">{CONTACT_CHANNELS[contact.channel].label}</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">{contact.address}</p>
+              <p className="text-xs text-muted-foreground">
+                {contact.minSeverity} alerts and above · next contact after {contact.escalateAfterMinutes} min
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={contact.enabled}
+                disabled={saving}
+                onCheckedChange={(enabled) => saveContact({ ...contact, enabled })}
+              />
+              <Button variant="ghost" size="sm" onClick={() => setDraft(contact)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => deleteContact(contact)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {draft ? (
+          <div className="space-y-4 p-4 border rounded-md bg-muted/30">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="contact_name">Name</Label>
+                <Input
+                  id="contact_name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Channel</Label>
+                <Select
+                  value={draft.channel}
+                  onValueChange={(channel) => setDraft({ ...draft, channel: channel as ContactChannel })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CONTACT_CHANNELS).map(([channel, { label }]) => (
+                      <SelectItem key={channel} value={channel}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact_address">Address</Label>
+                <Input
+                  id="contact_address"
+                  value={draft.address}
+                  placeholder={CONTACT_CHANNELS[draft.channel].placeholder}
+                  onChange={(e) => setDraft({ ...draft, address: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Notify for</Label>
+                <Select
+                  value={draft.minSeverity}
+                  onValueChange={(minSeverity) => setDraft({ ...draft, minSeverity: minSeverity as AlertSeverity })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="critical">Critical alerts</SelectItem>
+                    <SelectItem value="warning">Warning and critical</SelectItem>
+                    <SelectItem value="info">All alerts</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact_escalate">Escalate after (minutes)</Label>
+                <Input
+                  id="contact_escalate"
+                  type="number"
+                  min={1}
+                  value={draft.escalateAfterMinutes}
+                  onChange={(e) => setDraft({ ...draft, escalateAfterMinutes: Math.max(1, Number(e.target.value)) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact_priority">Order</Label>
+                <Input
+                  id="contact_priority"
+                  type="number"
+                  value={draft.priority}
+                  onChange={(e) => setDraft({ ...draft, priority: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button onClick={saveDraft} disabled={saving || !draft.name.trim() || !draft.address.trim()}>
+                {saving ? 'Saving...' : 'Save Contact'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={addContact}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Contact
+          </Button>
+        )}
+
+        {notifications.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Recent notifications</h4>
+            {notifications.map(notification => (
+              <div key={notification.id} className="p-3 bg-muted rounded-md text-sm space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{notification.ruleName}</span>
+                  <span className="text-xs text-muted-foreground">{notification.triggeredAt.toLocaleString()}</span>
+                </div>
+                <p className="text-muted-foreground">
+                  {STATUS_TEXT[notification.status]}
+                  {notification.acknowledgedBy && ` by ${notification.acknowledgedBy} at ${notification.acknowledgedAt?.toLocaleTimeString()}`}
+                </p>
+                {notification.attempts.map((attempt, i) => (
+                  <div key={i} className="flex items-center gap-2 text-xs">
+                    {attempt.status === "sent"
+                      ? <CheckCircle className="w-3 h-3 text-success" />
+                      : <XCircle className="w-3 h-3 text-destructive" />}
+                    <span>
+                      {CONTACT_CHANNELS[attempt.channel].label} to {attempt.contactName} at {attempt.attemptedAt.toLocaleTimeString()}
+                      {attempt.error && ` - ${attempt.error}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,103 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Brain, Clapperboard } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { EEGModal } from "@/components/EEGModal"
+import { EEGGenerator, type EEGData, type EEGPhase } from "@/lib/eegGenerator"
+import type { ScenarioBiosensorSource } from "@/lib/biosensorSources"
+
+interface ScenarioStatusProps {
+  source: ScenarioBiosensorSource
+}
+
+const EEG_WINDOW_SECONDS = 10
+
+const PHASE_STYLES: Record<EEGPhase, { text: string; className: string }> = {
+  interictal: { text: "Interictal", className: "bg-muted text-muted-foreground" },
+  aura: { text: "Aura", className: "bg-warning text-warning-foreground" },
+  ictal: { text: "Ictal", className: "bg-destructive text-destructive-foreground" },
+  postictal: { text: "Post-ictal", className: "bg-secondary text-secondary-foreground" }
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`
+}
+
+/**
+ * Where a scripted scenario is, plus the EEG its current phases produce
+ */
+export const ScenarioStatus: React.FC<ScenarioStatusProps> = ({ source }) => {
+  const [eegData, setEEGData] = useState<EEGData | null>(null)
+
+  const { engine } = source
+  const elapsed = source.elapsedSeconds
+  const { segment, segmentIndex, phase } = source.position
+
+  // The EEG window ending now; seeded by its start, so reopening it shows the same traces
+  const viewEEG = () => {
+    const from = Math.max(0, Math.min(elapsed, engine.durationSeconds) - EEG_WINDOW_SECONDS)
+    const window = Math.floor(from)
+    setEEGData(EEGGenerator.generateSeizureEEG(
+      `${engine.scenario.id}-${window}`,
+      EEG_WINDOW_SECONDS,
+      "tonic-clonic",
+      5,
+      { timeline: engine.phaseTimeline(window, window + EEG_WINDOW_SECONDS), random: engine.random(window) }
+    ))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Clapperboard className="w-5 h-5" />
+            {engine.scenario.name}
+          </span>
+          <Badge className={PHASE_STYLES[phase].className}>{PHASE_STYLES[phase].text}</Badge>
+        </CardTitle>
+        {engine.scenario.description && (
+          <p className="text-sm text-muted-foreground">{engine.scenario.description}</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">{segment.label}</span>
+            <span className="text-muted-foreground">
+              {formatTime(elapsed)} / {formatTime(engine.durationSeconds)}
+            </span>
+          </div>
+          <Progress value={(elapsed / engine.durationSeconds) * 100} />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {engine.scenario.segments.map((s, i) => (
+            <Badge
+              key={i}
+              variant="outline"
+              className={cn(i === segmentIndex && "border-primary text-primary")}
+            >
+              {s.label} · {formatTime(s.durationSeconds)}
+            </Badge>
+          ))}
+        </div>
+
+        <Button variant="outline" onClick={viewEEG}>
+          <Brain className="w-4 h-4 mr-2" />
+          View EEG (last {EEG_WINDOW_SECONDS}s)
+        </Button>
+      </CardContent>
+
+      <EEGModal
+        isOpen={eegData !== null}
+        onClose={() => setEEGData(null)}
+        eegData={eegData}
+      />
+    </Card>
+  )
+}
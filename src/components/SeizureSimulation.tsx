@@ -16,7 +16,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import EEGViewer from "@/components/EEGViewer";
 import { type SeizureEvent } from "@/data/mockPatients";
 import { EEGGenerator, type EEGData } from "@/lib/eegGenerator";
-import { supabase } from "@/integrations/supabase/client";
+import { SeizureEventStore } from "@/lib/seizureEventStore";
 
 interface SeizureSimulationProps {
   onSeizureRecorded?: (seizure: SeizureEvent) => void;
@@ -113,22 +113,14 @@ const SeizureSimulation: React.FC<SeizureSimulationProps> = ({ onSeizureRecorded
       // Store seizure event with EEG data in database
       if (user) {
         try {
-          const { error } = await supabase
-            .from('seizure_events')
-            .insert({
-              user_id: user.id,
-              timestamp: now.toISOString(),
-              risk_level: severity,
-              notes: newSeizure.notes,
-              alert_triggered: severity > 7,
-              eeg_data: eegData // Store the complete EEG dataset
-            });
-
-          if (error) {
-            console.error('Error storing seizure event:', error);
-          } else {
-            console.log('Seizure event with EEG data saved successfully');
-          }
+          await SeizureEventStore.create(user.id, {
+            timestamp: now,
+            riskLevel: severity,
+            notes: newSeizure.notes,
+            alertTriggered: severity > 7,
+            eegData // Store the complete EEG dataset
+          });
+          console.log('Seizure event with EEG data saved successfully');
         } catch (error) {
           console.error('Error saving seizure event:', error);
         }
@@ -1,9 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 import { useAuth } from './AuthContext'
-import { supabase } from '@/integrations/supabase/client'
+import { ProfileStore, type TemperatureUnit } from '@/lib/profileStore'
 
-// Define the temperature units
-export type TemperatureUnit = 'celsius' | 'fahrenheit'
+export type { TemperatureUnit }
 
 // Define the context interface
 interface TemperatureContextType {
@@ -56,16 +55,9 @@ export const TemperatureProvider: React.FC<TemperatureProviderProps> = ({ childr
       }
 
       try {
-        const { data, error } = await supabase
-          .from('profiles')
-          .select('temperature_unit')
-          .eq('user_id', user.id)
-          .single()
-
-        if (error) {
-          console.error('Error loading temperature preference:', error)
-        } else if (data?.temperature_unit) {
-          setUnitState(data.temperature_unit as TemperatureUnit)
+        const profile = await ProfileStore.load(user.id)
+        if (profile?.temperatureUnit) {
+          setUnitState(profile.temperatureUnit)
         }
       } catch (error) {
         console.error('Error loading temperature preference:', error)
@@ -82,17 +74,7 @@ export const TemperatureProvider: React.FC<TemperatureProviderProps> = ({ childr
     if (!user) return
 
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .upsert({
-          user_id: user.id,
-          temperature_unit: newUnit,
-          updated_at: new Date().toISOString()
-        })
-
-      if (error) {
-        console.error('Error saving temperature preference:', error)
-      }
+      await ProfileStore.savePreferences(user.id, { temperatureUnit: newUnit })
     } catch (error) {
       console.error('Error saving temperature preference:', error)
     }
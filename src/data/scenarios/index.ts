@@ -0,0 +1,11 @@
+// Built-in biosensor scenarios, selectable from the monitoring tab
+import { ScenarioEngine, type BiosensorScenario } from '@/lib/biosensorScenarios';
+import preictalBuildup from './preictal-buildup.json';
+import quietBaseline from './quiet-baseline.json';
+import exerciseBurst from './exercise-burst.json';
+
+export const BUILT_IN_SCENARIOS: BiosensorScenario[] = [
+  preictalBuildup,
+  quietBaseline,
+  exerciseBurst
+].map(scenario => ScenarioEngine.parse(scenario));
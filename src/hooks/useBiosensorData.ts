@@ -1,5 +1,14 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { supabase } from '@/integrations/supabase/client'
+import { BiosensorCalibration, type BiosensorBaseline } from '@/lib/biosensorBaseline'
+import { outbox, type OutboxStatus } from '@/lib/offlineOutbox'
+import {
+  createBiosensorSource,
+  SimulatedBiosensorSource,
+  type BiosensorSample,
+  type BiosensorSource,
+  type BiosensorSourceConfig
+} from '@/lib/biosensorSources'
 
 export interface BiosensorReading {
   timestamp: number
@@ -13,39 +22,27 @@ interface BiosensorHook {
   currentReading: BiosensorReading
   history: BiosensorReading[]
   isRecording: boolean
-  startRecording: () => void
+  baseline: BiosensorBaseline | null // Personal baseline; population thresholds are used until calibrated
+  source: BiosensorSource
+  sourceError: string | null
+  syncStatus: OutboxStatus // Upload state of readings and events queued for the database
+  selectSource: (config: BiosensorSourceConfig) => void
+  startRecording: () => Promise<void>
   stopRecording: () => void
   clearHistory: () => void
   saveToDatabase: (reading: BiosensorReading) => Promise<void>
   saveSeizureEvent: (risk: number) => Promise<void>
 }
 
-// Mock data generation with realistic patterns
-const generateReading = (isPreSeizure = false): Omit<BiosensorReading, 'seizureRisk'> => {
-  const baseTime = Date.now()
-  
-  // Normal ranges
-  let heartRate = 70 + Math.sin(baseTime / 10000) * 10 + Math.random() * 6 - 3
-  let skinTemp = 36.5 + Math.sin(baseTime / 20000) * 0.3 + Math.random() * 0.2 - 0.1
-  let eda = 2 + Math.sin(baseTime / 15000) * 0.5 + Math.random() * 0.3 - 0.15
-
-  // Pre-seizure patterns (for simulation)
-  if (isPreSeizure) {
-    heartRate += 15 + Math.random() * 10 // Elevated heart rate
-    skinTemp -= 0.3 + Math.random() * 0.2 // Drop in temperature
-    eda += 1.5 + Math.random() * 0.8 // Increased skin conductance
-  }
+// Simple ML-like prediction function: deviation from the personal baseline when
+// calibrated, fixed population thresholds otherwise
+const calculateSeizureRisk = (
+  reading: Omit<BiosensorReading, 'seizureRisk'>,
+  history: BiosensorReading[],
+  baseline: BiosensorBaseline | null
+): number => {
+  if (baseline) return BiosensorCalibration.scoreRisk(reading, history, baseline)
 
-  return {
-    timestamp: baseTime,
-    heartRate: Math.max(50, Math.min(150, heartRate)),
-    skinTemp: Math.max(35, Math.min(38, skinTemp)),
-    eda: Math.max(0.5, Math.min(6, eda))
-  }
-}
-
-// Simple ML-like prediction function
-const calculateSeizureRisk = (reading: Omit<BiosensorReading, 'seizureRisk'>, history: BiosensorReading[]): number => {
   let risk = 0
   
   // Heart rate risk (elevated)
@@ -78,7 +75,7 @@ const calculateSeizureRisk = (reading: Omit<BiosensorReading, 'seizureRisk'>, hi
 
 export const useBiosensorData = (): BiosensorHook => {
   const [currentReading, setCurrentReading] = useState<BiosensorReading>(() => {
-    const initial = generateReading()
+    const initial = SimulatedBiosensorSource.generate(Date.now())
     return {
       ...initial,
       seizureRisk: 0
@@ -86,14 +83,47 @@ export const useBiosensorData = (): BiosensorHook => {
   })
   const [history, setHistory] = useState<BiosensorReading[]>([])
   const [isRecording, setIsRecording] = useState(false)
+  const [baseline, setBaseline] = useState<BiosensorBaseline | null>(null)
+  const [source, setSource] = useState<BiosensorSource>(() => new SimulatedBiosensorSource())
+  const [sourceError, setSourceError] = useState<string | null>(null)
+  const [syncStatus, setSyncStatus] = useState<OutboxStatus>(() => outbox.getStatus())
+
+  // Source callbacks outlive renders, so they read the latest state through refs
+  const currentRef = useRef(currentReading)
+  const historyRef = useRef(history)
+  const baselineRef = useRef(baseline)
+  useEffect(() => { baselineRef.current = baseline }, [baseline])
+
+  useEffect(() => {
+    const loadBaseline = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      try {
+        setBaseline(await BiosensorCalibration.load(user.id))
+      } catch (error) {
+        console.error('Error loading biosensor baseline:', error)
+      }
+    }
+
+    loadBaseline()
+  }, [])
 
+  // The outbox is shared and keeps uploading after this page unmounts
+  useEffect(() => {
+    outbox.start()
+    return outbox.subscribe(setSyncStatus)
+  }, [])
+
+  // Readings and events go through the offline outbox; the session is read
+  // locally, so they are queued even without a connection
   const saveToDatabase = async (reading: BiosensorReading) => {
-    const { data: { user } } = await supabase.auth.getUser()
-    if (!user) return
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return
 
     try {
-      await supabase.from('biosensor_readings').insert({
-        user_id: user.id,
+      await outbox.enqueue('biosensor_readings', {
+        user_id: session.user.id,
         timestamp: new Date(reading.timestamp).toISOString(),
         heart_rate: reading.heartRate,
         skin_temp: reading.skinTemp,
@@ -101,63 +131,89 @@ export const useBiosensorData = (): BiosensorHook => {
         seizure_risk: reading.seizureRisk
       })
     } catch (error) {
-      console.error('Error saving reading to database:', error)
+      console.error('Error queueing reading for upload:', error)
     }
   }
 
   const saveSeizureEvent = async (risk: number) => {
-    const { data: { user } } = await supabase.auth.getUser()
-    if (!user) return
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return
 
     try {
-      await supabase.from('seizure_events').insert({
-        user_id: user.id,
+      await outbox.enqueue('seizure_events', {
+        user_id: session.user.id,
         timestamp: new Date().toISOString(),
         risk_level: risk,
         alert_triggered: true
       })
     } catch (error) {
-      console.error('Error saving seizure event to database:', error)
+      console.error('Error queueing seizure event for upload:', error)
     }
   }
 
-  const generateNewReading = useCallback(() => {
-    // Simulate pre-seizure pattern 5% of the time
-    const isPreSeizure = Math.random() < 0.05
-    const newReading = generateReading(isPreSeizure)
-    const seizureRisk = calculateSeizureRisk(newReading, history)
-    
-    const completeReading: BiosensorReading = {
-      ...newReading,
-      seizureRisk
+  const handleSample = useCallback((sample: BiosensorSample) => {
+    // Metrics the source doesn't measure keep their last known value
+    const previous = currentRef.current
+    const reading = {
+      timestamp: sample.timestamp,
+      heartRate: sample.heartRate ?? previous.heartRate,
+      skinTemp: sample.skinTemp ?? previous.skinTemp,
+      eda: sample.eda ?? previous.eda
     }
-    
-    setCurrentReading(completeReading)
-    
-    if (isRecording) {
-      setHistory(prev => [...prev.slice(-99), completeReading]) // Keep last 100 readings
-      // Save to database
-      setTimeout(() => saveToDatabase(completeReading), 0)
+    const completeReading: BiosensorReading = {
+      ...reading,
+      seizureRisk: calculateSeizureRisk(reading, historyRef.current, baselineRef.current)
     }
-  }, [history, isRecording])
-
-  useEffect(() => {
-    if (!isRecording) return
 
-    const interval = setInterval(generateNewReading, 1000) // Update every second
-    return () => clearInterval(interval)
-  }, [generateNewReading, isRecording])
+    currentRef.current = completeReading
+    historyRef.current = [...historyRef.current.slice(-99), completeReading] // Keep last 100 readings
+    setCurrentReading(completeReading)
+    setHistory(historyRef.current)
+    // Save to database
+    setTimeout(() => saveToDatabase(completeReading), 0)
+  }, [])
 
-  const startRecording = useCallback(() => {
-    setIsRecording(true)
-    generateNewReading()
-  }, [generateNewReading])
+  const startRecording = useCallback(async () => {
+    setSourceError(null)
+    try {
+      await source.start({
+        onSample: handleSample,
+        onError: error => {
+          console.error('Biosensor source error:', error)
+          source.stop()
+          setSourceError(error.message)
+          setIsRecording(false)
+        },
+        onEnd: () => setIsRecording(false)
+      })
+      setIsRecording(true)
+    } catch (error) {
+      console.error('Error starting biosensor source:', error)
+      setSourceError(error instanceof Error ? error.message : 'Could not start the data source')
+    }
+  }, [source, handleSample])
 
   const stopRecording = useCallback(() => {
+    source.stop()
     setIsRecording(false)
-  }, [])
+  }, [source])
+
+  const selectSource = useCallback((config: BiosensorSourceConfig) => {
+    source.stop()
+    setIsRecording(false)
+    setSourceError(null)
+    try {
+      setSource(createBiosensorSource(config))
+    } catch (error) {
+      setSourceError(error instanceof Error ? error.message : 'Invalid data source')
+    }
+  }, [source])
+
+  // Release the source (timers, sockets, Bluetooth) when it is replaced or the page unmounts
+  useEffect(() => () => source.stop(), [source])
 
   const clearHistory = useCallback(() => {
+    historyRef.current = []
     setHistory([])
   }, [])
 
@@ -165,6 +221,11 @@ export const useBiosensorData = (): BiosensorHook => {
     currentReading,
     history,
     isRecording,
+    baseline,
+    source,
+    sourceError,
+    syncStatus,
+    selectSource,
     startRecording,
     stopRecording,
     clearHistory,
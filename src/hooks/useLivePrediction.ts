@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react'
+import { aiSeizurePrediction, type SeizurePrediction } from '@/lib/aiSeizurePrediction'
+import { PredictionWorkerClient, predictionWorker } from '@/ai/workers/predictionWorkerClient'
+import { ScenarioBiosensorSource, type BiosensorSource } from '@/lib/biosensorSources'
+
+const WINDOW_SECONDS = 5
+
+// Latest AI prediction while recording, so alert rules can watch the AI risk
+// level. No EEG headset is connected on the dashboard yet: each window is
+// synthesised, with seizure activity while a scripted scenario is in its aura
+// or ictal phase and normal background otherwise.
+export const useLivePrediction = (source: BiosensorSource, isRecording: boolean): SeizurePrediction | null => {
+  const [prediction, setPrediction] = useState<SeizurePrediction | null>(null)
+
+  useEffect(() => {
+    if (!isRecording) {
+      setPrediction(null)
+      return
+    }
+
+    const controller = new AbortController()
+    let running = false
+
+    const predictWindow = async () => {
+      if (running) return // Skip a window rather than queue behind a slow one
+      running = true
+      try {
+        if (!predictionWorker.isReady()) await predictionWorker.initializeFromRegistry()
+
+        const phase = source instanceof ScenarioBiosensorSource ? source.position.phase : 'interictal'
+        const eeg = aiSeizurePrediction.generateSyntheticEEG(WINDOW_SECONDS, phase === 'aura' || phase === 'ictal')
+        const next = await predictionWorker.predict(eeg, { signal: controller.signal })
+        if (!controller.signal.aborted) setPrediction(next)
+      } catch (error) {
+        if (!PredictionWorkerClient.isCancellation(error)) console.error('Live prediction failed:', error)
+      } finally {
+        running = false
+      }
+    }
+
+    predictWindow()
+    const timer = setInterval(predictWindow, WINDOW_SECONDS * 1000)
+    return () => {
+      clearInterval(timer)
+      controller.abort()
+    }
+  }, [source, isRecording])
+
+  return prediction
+}
@@ -14,6 +14,261 @@ export type Database = {
   }
   public: {
     Tables: {
+      alert_notifications: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          contacts: Json
+          created_at: string
+          escalation_level: number
+          id: string
+          next_escalation_at: string | null
+          risk_level: number | null
+          rule_name: string
+          severity: string
+          status: string
+          triggered_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          contacts?: Json
+          created_at?: string
+          escalation_level?: number
+          id: string
+          next_escalation_at?: string | null
+          risk_level?: number | null
+          rule_name: string
+          severity: string
+          status?: string
+          triggered_at: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          contacts?: Json
+          created_at?: string
+          escalation_level?: number
+          id?: string
+          next_escalation_at?: string | null
+          risk_level?: number | null
+          rule_name?: string
+          severity?: string
+          status?: string
+          triggered_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      alert_rules: {
+        Row: {
+          condition: Json
+          cooldown_seconds: number
+          created_at: string
+          enabled: boolean
+          id: string
+          name: string
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          severity: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          condition: Json
+          cooldown_seconds?: number
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          name: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          severity?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          condition?: Json
+          cooldown_seconds?: number
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          name?: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          severity?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      alerts: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          ai_risk_level: string | null
+          condition: Json | null
+          created_at: string
+          id: string
+          outcome: string | null
+          outcome_labeled_at: string | null
+          outcome_notes: string | null
+          readings: Json
+          reason: string | null
+          risk_level: number | null
+          rule_id: string | null
+          rule_name: string | null
+          seizure_at: string | null
+          severity: string | null
+          source: string
+          triggered_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          ai_risk_level?: string | null
+          condition?: Json | null
+          created_at?: string
+          id: string
+          outcome?: string | null
+          outcome_labeled_at?: string | null
+          outcome_notes?: string | null
+          readings?: Json
+          reason?: string | null
+          risk_level?: number | null
+          rule_id?: string | null
+          rule_name?: string | null
+          seizure_at?: string | null
+          severity?: string | null
+          source?: string
+          triggered_at: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          ai_risk_level?: string | null
+          condition?: Json | null
+          created_at?: string
+          id?: string
+          outcome?: string | null
+          outcome_labeled_at?: string | null
+          outcome_notes?: string | null
+          readings?: Json
+          reason?: string | null
+          risk_level?: number | null
+          rule_id?: string | null
+          rule_name?: string | null
+          seizure_at?: string | null
+          severity?: string | null
+          source?: string
+          triggered_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      appointments: {
+        Row: {
+          appointment_date: string
+          appointment_time: string
+          appointment_type: string
+          created_at: string | null
+          doctor_name: string
+          id: string
+          notes: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          appointment_date: string
+          appointment_time: string
+          appointment_type?: string
+          created_at?: string | null
+          doctor_name: string
+          id?: string
+          notes?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          appointment_date?: string
+          appointment_time?: string
+          appointment_type?: string
+          created_at?: string | null
+          doctor_name?: string
+          id?: string
+          notes?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      biosensor_baselines: {
+        Row: {
+          calibrated_at: string
+          circadian: Json
+          created_at: string
+          eda_mean: number
+          eda_sd: number
+          heart_rate_mean: number
+          heart_rate_sd: number
+          id: string
+          readings_from: string
+          readings_to: string
+          sample_count: number
+          skin_temp_mean: number
+          skin_temp_sd: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          calibrated_at?: string
+          circadian?: Json
+          created_at?: string
+          eda_mean: number
+          eda_sd: number
+          heart_rate_mean: number
+          heart_rate_sd: number
+          id?: string
+          readings_from: string
+          readings_to: string
+          sample_count: number
+          skin_temp_mean: number
+          skin_temp_sd: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          calibrated_at?: string
+          circadian?: Json
+          created_at?: string
+          eda_mean?: number
+          eda_sd?: number
+          heart_rate_mean?: number
+          heart_rate_sd?: number
+          id?: string
+          readings_from?: string
+          readings_to?: string
+          sample_count?: number
+          skin_temp_mean?: number
+          skin_temp_sd?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       biosensor_readings: {
         Row: {
           created_at: string
@@ -47,6 +302,338 @@ export type Database = {
         }
         Relationships: []
       }
+      biosensor_rollups: {
+        Row: {
+          bucket: string
+          eda_max: number
+          eda_mean: number
+          eda_min: number
+          eda_p05: number
+          eda_p50: number
+          eda_p95: number
+          heart_rate_max: number
+          heart_rate_mean: number
+          heart_rate_min: number
+          heart_rate_p05: number
+          heart_rate_p50: number
+          heart_rate_p95: number
+          resolution: string
+          sample_count: number
+          seizure_risk_max: number
+          seizure_risk_mean: number
+          seizure_risk_min: number
+          seizure_risk_p05: number
+          seizure_risk_p50: number
+          seizure_risk_p95: number
+          skin_temp_max: number
+          skin_temp_mean: number
+          skin_temp_min: number
+          skin_temp_p05: number
+          skin_temp_p50: number
+          skin_temp_p95: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bucket: string
+          eda_max: number
+          eda_mean: number
+          eda_min: number
+          eda_p05: number
+          eda_p50: number
+          eda_p95: number
+          heart_rate_max: number
+          heart_rate_mean: number
+          heart_rate_min: number
+          heart_rate_p05: number
+          heart_rate_p50: number
+          heart_rate_p95: number
+          resolution: string
+          sample_count: number
+          seizure_risk_max: number
+          seizure_risk_mean: number
+          seizure_risk_min: number
+          seizure_risk_p05: number
+          seizure_risk_p50: number
+          seizure_risk_p95: number
+          skin_temp_max: number
+          skin_temp_mean: number
+          skin_temp_min: number
+          skin_temp_p05: number
+          skin_temp_p50: number
+          skin_temp_p95: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bucket?: string
+          eda_max?: number
+          eda_mean?: number
+          eda_min?: number
+          eda_p05?: number
+          eda_p50?: number
+          eda_p95?: number
+          heart_rate_max?: number
+          heart_rate_mean?: number
+          heart_rate_min?: number
+          heart_rate_p05?: number
+          heart_rate_p50?: number
+          heart_rate_p95?: number
+          resolution?: string
+          sample_count?: number
+          seizure_risk_max?: number
+          seizure_risk_mean?: number
+          seizure_risk_min?: number
+          seizure_risk_p05?: number
+          seizure_risk_p50?: number
+          seizure_risk_p95?: number
+          skin_temp_max?: number
+          skin_temp_mean?: number
+          skin_temp_min?: number
+          skin_temp_p05?: number
+          skin_temp_p50?: number
+          skin_temp_p95?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      chb_collection_status: {
+        Row: {
+          api_source: string | null
+          case_id: string
+          collection_date: string
+          created_at: string
+          error_message: string | null
+          id: string
+          status: string
+          total_files: number
+          total_seizures: number
+          updated_at: string
+        }
+        Insert: {
+          api_source?: string | null
+          case_id: string
+          collection_date?: string
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          status?: string
+          total_files?: number
+          total_seizures?: number
+          updated_at?: string
+        }
+        Update: {
+          api_source?: string | null
+          case_id?: string
+          collection_date?: string
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          status?: string
+          total_files?: number
+          total_seizures?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      chb_seizure_events: {
+        Row: {
+          case_id: string
+          created_at: string
+          duration: number
+          end_sample: number
+          end_time: number
+          file_name: string
+          id: string
+          seizure_number: number
+          start_sample: number
+          start_time: number
+          updated_at: string
+        }
+        Insert: {
+          case_id: string
+          created_at?: string
+          duration: number
+          end_sample: number
+          end_time: number
+          file_name: string
+          id?: string
+          seizure_number: number
+          start_sample: number
+          start_time: number
+          updated_at?: string
+        }
+        Update: {
+          case_id?: string
+          created_at?: string
+          duration?: number
+          end_sample?: number
+          end_time?: number
+          file_name?: string
+          id?: string
+          seizure_number?: number
+          start_sample?: number
+          start_time?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      emergency_contacts: {
+        Row: {
+          address: string
+          channel: string
+          created_at: string
+          enabled: boolean
+          escalate_after_minutes: number
+          id: string
+          min_severity: string
+          name: string
+          priority: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address: string
+          channel: string
+          created_at?: string
+          enabled?: boolean
+          escalate_after_minutes?: number
+          id?: string
+          min_severity?: string
+          name: string
+          priority?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address?: string
+          channel?: string
+          created_at?: string
+          enabled?: boolean
+          escalate_after_minutes?: number
+          id?: string
+          min_severity?: string
+          name?: string
+          priority?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_attempts: {
+        Row: {
+          ack_token: string
+          acknowledged_at: string | null
+          address: string
+          attempted_at: string
+          channel: string
+          contact_name: string
+          error: string | null
+          escalation_level: number
+          id: string
+          notification_id: string
+          provider: string
+          provider_message_id: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          ack_token?: string
+          acknowledged_at?: string | null
+          address: string
+          attempted_at?: string
+          channel: string
+          contact_name: string
+          error?: string | null
+          escalation_level: number
+          id?: string
+          notification_id: string
+          provider: string
+          provider_message_id?: string | null
+          status: string
+          user_id: string
+        }
+        Update: {
+          ack_token?: string
+          acknowledged_at?: string | null
+          address?: string
+          attempted_at?: string
+          channel?: string
+          contact_name?: string
+          error?: string | null
+          escalation_level?: number
+          id?: string
+          notification_id?: string
+          provider?: string
+          provider_message_id?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_attempts_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "alert_notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patient_profiles: {
+        Row: {
+          age: number
+          created_at: string | null
+          diagnosis_length: string
+          doctor_email: string | null
+          doctor_name: string
+          doctor_phone: string
+          emergency_contact_name: string
+          emergency_contact_phone: string
+          epilepsy_type: string
+          full_name: string
+          gender: string
+          id: string
+          medical_notes: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          age: number
+          created_at?: string | null
+          diagnosis_length: string
+          doctor_email?: string | null
+          doctor_name: string
+          doctor_phone: string
+          emergency_contact_name: string
+          emergency_contact_phone: string
+          epilepsy_type: string
+          full_name: string
+          gender: string
+          id?: string
+          medical_notes?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          age?: number
+          created_at?: string | null
+          diagnosis_length?: string
+          doctor_email?: string | null
+          doctor_name?: string
+          doctor_phone?: string
+          emergency_contact_name?: string
+          emergency_contact_phone?: string
+          epilepsy_type?: string
+          full_name?: string
+          gender?: string
+          id?: string
+          medical_notes?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           alert_threshold: number | null
@@ -54,6 +641,7 @@ export type Database = {
           display_name: string | null
           emergency_contact: string | null
           id: string
+          measurement_system: string | null
           temperature_unit: string | null
           updated_at: string
           user_id: string
@@ -64,6 +652,7 @@ export type Database = {
           display_name?: string | null
           emergency_contact?: string | null
           id?: string
+          measurement_system?: string | null
           temperature_unit?: string | null
           updated_at?: string
           user_id: string
@@ -74,6 +663,7 @@ export type Database = {
           display_name?: string | null
           emergency_contact?: string | null
           id?: string
+          measurement_system?: string | null
           temperature_unit?: string | null
           updated_at?: string
           user_id?: string
@@ -84,7 +674,7 @@ export type Database = {
         Row: {
           alert_triggered: boolean
           created_at: string
-          eeg_data: any | null
+          eeg_data: Json | null
           id: string
           notes: string | null
           risk_level: number
@@ -94,7 +684,7 @@ export type Database = {
         Insert: {
           alert_triggered?: boolean
           created_at?: string
-          eeg_data?: any | null
+          eeg_data?: Json | null
           id?: string
           notes?: string | null
           risk_level: number
@@ -104,7 +694,7 @@ export type Database = {
         Update: {
           alert_triggered?: boolean
           created_at?: string
-          eeg_data?: any | null
+          eeg_data?: Json | null
           id?: string
           notes?: string | null
           risk_level?: number
@@ -118,7 +708,31 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_chb_count: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_chb_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      insert_chb_seizure: {
+        Args: {
+          p_case_id: string
+          p_duration: number
+          p_end_sample: number
+          p_end_time: number
+          p_file_name: string
+          p_seizure_number: number
+          p_start_sample: number
+          p_start_time: number
+        }
+        Returns: string
+      }
+      refresh_biosensor_rollups: {
+        Args: { p_from: string; p_to: string; p_user_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { AISeizurePrediction } from './aiSeizurePrediction';
+import type { CNNLSTMModel } from '@/ai/models/cnnLstmModel';
+
+// Stands in for a trained CNN-LSTM that always outputs `probability`
+const fixedModel = (probability: number) =>
+  ({ version: 'test', predict: async () => probability, dispose: () => {} }) as unknown as CNNLSTMModel;
+
+describe('AISeizurePrediction without a trained model', () => {
+  it('marks predictions untrained and holds them at LOW', async () => {
+    const predictor = new AISeizurePrediction({ channels: ['FP1-F7', 'F7-T7'] });
+    await predictor.initialize();
+
+    const prediction = await predictor.predict(predictor.generateSyntheticEEG(2, true));
+
+    expect(predictor.isTrained()).toBe(false);
+    expect(prediction.untrained).toBe(true);
+    expect(prediction.riskLevel).toBe('LOW');
+    expect(prediction.seizureProbability).toBe(0);
+    expect(prediction.confidence).toBe(0);
+    expect(prediction.modelVersion).toBeNull();
+  });
+
+  it('still refuses to predict before initialize()', async () => {
+    const predictor = new AISeizurePrediction();
+    await expect(predictor.predict(predictor.generateSyntheticEEG(1))).rejects.toThrow(/not initialized/);
+  });
+});
+
+describe('AISeizurePrediction with a trained model', () => {
+  it('derives confidence from the model output alone', async () => {
+    const predictor = new AISeizurePrediction({ channels: ['FP1-F7', 'F7-T7'] });
+    const eeg = predictor.generateSyntheticEEG(2);
+    const confidenceAt = async (probability: number) => {
+      await predictor.initialize(fixedModel(probability));
+      return (await predictor.predict(eeg)).confidence;
+    };
+
+    expect(await confidenceAt(0.5)).toBe(0);
+    expect(await confidenceAt(0.9)).toBeCloseTo(0.8);
+    expect(await confidenceAt(0.9)).toBeCloseTo(0.8);   // Same output, same confidence
+    expect(await confidenceAt(0)).toBe(1);
+  });
+});
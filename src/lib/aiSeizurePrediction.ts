@@ -1,9 +1,19 @@
 /**
  * AI Seizure Prediction Library
  * Provides core functionality for seizure prediction using CNN-LSTM models
+ * (network: src/ai/models/cnnLstmModel.ts)
  * Based on CHB-MIT dataset and real-time EEG analysis
  */
 
+import {
+  FeatureEngineering,
+  type ConnectivityFeatures,
+  type NonlinearFeatureSummary,
+  type NonlinearOptions
+} from '@/ai/featureEngineering';
+import type { CNNLSTMModel } from '@/ai/models/cnnLstmModel';
+import { ModelRegistry, type ModelStore } from '@/ai/models/modelRegistry';
+
 export interface EEGData {
   channels: number[][];
   samplingRate: number;
@@ -11,12 +21,23 @@ export interface EEGData {
   duration: number; // in seconds
 }
 
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+// Lowest probability for each level above LOW
+export const RISK_LEVEL_THRESHOLDS: Record<Exclude<RiskLevel, 'LOW'>, number> = {
+  MEDIUM: 0.2,
+  HIGH: 0.5,
+  CRITICAL: 0.8
+};
+
 export interface SeizurePrediction {
   seizureProbability: number;
   confidence: number;
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  riskLevel: RiskLevel;
   timestamp: Date;
   features: FeatureVector;
+  modelVersion: string | null; // Registry version of the model used; null if it was never saved
+  untrained: boolean;          // No trained model loaded: forced to LOW with zero probability
 }
 
 export interface FeatureVector {
@@ -53,25 +74,32 @@ export interface ModelConfig {
   samplingRate: number;
   modelType: 'CNN' | 'LSTM' | 'CNN_LSTM';
   predictionThreshold: number;
+  nonlinearOptions?: NonlinearOptions; // Embedding parameters for sample entropy / Lyapunov
 }
 
+// CHB-MIT bipolar 10-20 montage, in file order (Channels 1-23 of the summary
+// files). T8-P8 is recorded twice; the files label the copies T8-P8-0 and T8-P8-1.
+export const DEFAULT_EEG_CHANNELS = [
+  'FP1-F7', 'F7-T7', 'T7-P7', 'P7-O1',
+  'FP1-F3', 'F3-C3', 'C3-P3', 'P3-O1',
+  'FP2-F4', 'F4-C4', 'C4-P4', 'P4-O2',
+  'FP2-F8', 'F8-T8', 'T8-P8', 'P8-O2',
+  'FZ-CZ', 'CZ-PZ',
+  'P7-T7', 'T7-FT9', 'FT9-FT10', 'FT10-T8', 'T8-P8'
+];
+
 export class AISeizurePrediction {
   private config: ModelConfig;
   private isInitialized: boolean = false;
+  private model: CNNLSTMModel | null = null;
+  private trained: boolean = false;
   private predictionHistory: SeizurePrediction[] = [];
 
   constructor(config?: Partial<ModelConfig>) {
     this.config = {
       windowSize: 5, // 5 seconds
       overlapRatio: 0.5,
-      channels: [
-        'FP1-F7', 'F7-T7', 'T7-P7', 'P7-O1',
-        'FP1-F3', 'F3-C3', 'C3-P3', 'P3-O1',
-        'FZ-CZ', 'CZ-PZ',
-        'FP2-F4', 'F4-C4', 'C4-P4', 'P4-O2',
-        'FP2-F8', 'F8-T8', 'T8-P8', 'P8-O2',
-        'FZ-F3', 'F3-F7', 'F7-FT9', 'FT9-FT10', 'FT10-F8'
-      ],
+      channels: [...DEFAULT_EEG_CHANNELS],
       samplingRate: 256,
       modelType: 'CNN_LSTM',
       predictionThreshold: 0.5,
@@ -80,37 +108,84 @@ export class AISeizurePrediction {
   }
 
   /**
-   * Initialize the AI model and prepare for predictions
+   * Initialize the AI model and prepare for predictions. Pass a trained model
+   * to use it; without one, predictions are marked untrained and held at LOW.
+   * A randomly initialised network outputs ~0.5, which would read as HIGH risk.
    */
-  async initialize(): Promise<void> {
+  async initialize(model?: CNNLSTMModel): Promise<void> {
     try {
       console.log('Initializing AI Seizure Prediction Model...');
       
-      // Simulate model loading/initialization
-      await this.simulateModelLoading();
+      if (this.model !== model) this.model?.dispose();
+      this.model = model ?? null;
+      this.trained = model != null;
       
       this.isInitialized = true;
-      console.log('✅ AI Model initialized successfully');
+      console.log(this.trained
+        ? '✅ AI Model initialized successfully'
+        : '⚠️ AI Model initialized without a trained model - predictions are untrained');
     } catch (error) {
       console.error('❌ Failed to initialize AI model:', error);
       throw new Error('Model initialization failed');
     }
   }
 
+  /**
+   * Initialize with a saved model version (the newest when omitted). Falls
+   * back to untrained predictions when the store is empty.
+   */
+  async initializeFromRegistry(store: ModelStore, version?: string): Promise<void> {
+    const saved = await ModelRegistry.list(store);
+    if (!version && saved.length === 0) {
+      console.log('📭 No saved models - predictions stay untrained');
+      return this.initialize();
+    }
+    return this.initialize(await ModelRegistry.load(store, version));
+  }
+
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+
+  /**
+   * Whether predictions come from a trained model (false until one is loaded)
+   */
+  isTrained(): boolean {
+    return this.trained;
+  }
+
+  /**
+   * Registry version of the active model (null when untrained or unsaved)
+   */
+  getModelVersion(): string | null {
+    return this.model?.version ?? null;
+  }
+
   /**
    * Extract features from EEG data
    */
   extractFeatures(eegData: EEGData): FeatureVector {
+    // Per-channel statistics feed both the temporal and nonlinear groups
+    const channelFeatures = FeatureEngineering.extractNonlinearFeatures(eegData, this.config.nonlinearOptions);
+
     const features: FeatureVector = {
       frequencyFeatures: this.extractFrequencyFeatures(eegData),
-      temporalFeatures: this.extractTemporalFeatures(eegData),
+      temporalFeatures: this.extractTemporalFeatures(eegData, channelFeatures),
       spatialFeatures: this.extractSpatialFeatures(eegData),
-      nonlinearFeatures: this.extractNonlinearFeatures(eegData)
+      nonlinearFeatures: this.extractNonlinearFeatures(channelFeatures)
     };
 
     return features;
   }
 
+  /**
+   * Labelled correlation, coherence and phase-locking matrices, using
+   * config.channels as row/column labels
+   */
+  extractConnectivity(eegData: EEGData): ConnectivityFeatures {
+    return FeatureEngineering.extractConnectivityFeatures(eegData, this.config.channels);
+  }
+
   /**
    * Make seizure prediction from EEG data
    */
@@ -122,21 +197,22 @@ export class AISeizurePrediction {
     // Extract features
     const features = this.extractFeatures(eegData);
     
-    // Simulate CNN-LSTM prediction
-    const seizureProbability = await this.runCNNLSTMPrediction(features);
+    // CNN-LSTM forward pass on the raw window (skipped without a trained model)
+    const seizureProbability = this.trained ? await this.runCNNLSTMPrediction(eegData) : 0;
     
-    // Calculate confidence based on feature consistency
-    const confidence = this.calculateConfidence(features, seizureProbability);
+    const confidence = this.trained ? this.calculateConfidence(seizureProbability) : 0;
     
     // Determine risk level
-    const riskLevel = this.determineRiskLevel(seizureProbability);
+    const riskLevel = this.trained ? this.determineRiskLevel(seizureProbability) : 'LOW';
     
     const prediction: SeizurePrediction = {
       seizureProbability,
       confidence,
       riskLevel,
       timestamp: new Date(),
-      features
+      features,
+      modelVersion: this.getModelVersion(),
+      untrained: !this.trained
     };
 
     // Store in history
@@ -208,28 +284,22 @@ export class AISeizurePrediction {
   }
 
   /**
-   * Extract frequency domain features
+   * Extract frequency domain features (relative Welch band power, averaged over channels)
    */
   private extractFrequencyFeatures(eegData: EEGData): FeatureVector['frequencyFeatures'] {
-    return {
-      deltapower: Math.random() * 0.3, // 0.5-4 Hz
-      thetaPower: Math.random() * 0.2, // 4-8 Hz
-      alphaPower: Math.random() * 0.4, // 8-13 Hz
-      betaPower: Math.random() * 0.3, // 13-30 Hz
-      gammaPower: Math.random() * 0.1  // 30-100 Hz
-    };
+    return FeatureEngineering.extractFrequencyFeatures(eegData);
   }
 
   /**
    * Extract temporal domain features
    */
-  private extractTemporalFeatures(eegData: EEGData): FeatureVector['temporalFeatures'] {
+  private extractTemporalFeatures(eegData: EEGData, channelFeatures: NonlinearFeatureSummary): FeatureVector['temporalFeatures'] {
     const allData = eegData.channels.flat();
     
     return {
       variance: this.calculateVariance(allData),
-      skewness: this.calculateSkewness(allData),
-      kurtosis: this.calculateKurtosis(allData),
+      skewness: channelFeatures.acrossChannels.skewness.mean,
+      kurtosis: channelFeatures.acrossChannels.kurtosis.mean,
       zeroCrossings: this.calculateZeroCrossings(allData)
     };
   }
@@ -238,85 +308,59 @@ export class AISeizurePrediction {
    * Extract spatial domain features
    */
   private extractSpatialFeatures(eegData: EEGData): FeatureVector['spatialFeatures'] {
-    const correlations = this.calculateChannelCorrelations(eegData.channels);
+    const connectivity = this.extractConnectivity(eegData);
+    const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, val) => sum + val, 0) / values.length : 0);
+    const bandCoherence = Object.values(connectivity.coherence).map(matrix => mean(FeatureEngineering.upperTriangle(matrix)));
     
     return {
-      channelCorrelations: correlations,
-      synchronization: this.calculateSynchronization(eegData.channels),
-      coherence: this.calculateCoherence(eegData.channels)
+      channelCorrelations: FeatureEngineering.upperTriangle(connectivity.correlation),
+      synchronization: mean(FeatureEngineering.upperTriangle(connectivity.phaseLocking)),
+      coherence: mean(bandCoherence)
     };
   }
 
   /**
-   * Extract nonlinear features
+   * Extract nonlinear features (per-channel values averaged across channels)
    */
-  private extractNonlinearFeatures(eegData: EEGData): FeatureVector['nonlinearFeatures'] {
-    const allData = eegData.channels.flat();
+  private extractNonlinearFeatures(channelFeatures: NonlinearFeatureSummary): FeatureVector['nonlinearFeatures'] {
+    const { acrossChannels } = channelFeatures;
     
     return {
-      hjorthComplexity: this.calculateHjorthComplexity(allData),
-      hjorthMobility: this.calculateHjorthMobility(allData),
-      sampleEntropy: this.calculateSampleEntropy(allData),
-      lyapunovExponent: this.calculateLyapunovExponent(allData)
+      hjorthComplexity: acrossChannels.hjorthComplexity.mean,
+      hjorthMobility: acrossChannels.hjorthMobility.mean,
+      sampleEntropy: acrossChannels.sampleEntropy.mean,
+      lyapunovExponent: acrossChannels.lyapunovExponent.mean
     };
   }
 
   /**
-   * Simulate CNN-LSTM model prediction
+   * Run the CNN-LSTM model on one EEG window
    */
-  private async runCNNLSTMPrediction(features: FeatureVector): Promise<number> {
-    await new Promise(resolve => setTimeout(resolve, 10));
-    
-    const featureSum = 
-      (features.frequencyFeatures.deltapower + features.frequencyFeatures.thetaPower) * 0.3 +
-      features.temporalFeatures.variance * 0.2 +
-      features.spatialFeatures.synchronization * 0.3 +
-      features.nonlinearFeatures.hjorthComplexity * 0.2;
-    
-    const randomFactor = (Math.random() - 0.5) * 0.4;
-    const probability = Math.max(0, Math.min(1, featureSum + randomFactor));
-    
-    return probability;
+  private async runCNNLSTMPrediction(eegData: EEGData): Promise<number> {
+    if (!this.model) {
+      throw new Error('Model not initialized. Call initialize() first.');
+    }
+    return this.model.predict(eegData);
   }
 
   /**
-   * Calculate prediction confidence
+   * Prediction confidence from the model output alone: how far the
+   * probability is from the undecided 0.5 (0 at 0.5, 1 at 0 or 1)
    */
-  private calculateConfidence(features: FeatureVector, probability: number): number {
-    const distanceFrom50 = Math.abs(probability - 0.5) * 2;
-    const featureConsistency = this.calculateFeatureConsistency(features);
-    
-    return Math.min(1, (distanceFrom50 + featureConsistency) / 2);
+  private calculateConfidence(probability: number): number {
+    return Math.min(1, Math.abs(probability - 0.5) * 2);
   }
 
   /**
    * Determine risk level based on probability
    */
-  private determineRiskLevel(probability: number): 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' {
-    if (probability < 0.2) return 'LOW';
-    if (probability < 0.5) return 'MEDIUM';
-    if (probability < 0.8) return 'HIGH';
+  private determineRiskLevel(probability: number): RiskLevel {
+    if (probability < RISK_LEVEL_THRESHOLDS.MEDIUM) return 'LOW';
+    if (probability < RISK_LEVEL_THRESHOLDS.HIGH) return 'MEDIUM';
+    if (probability < RISK_LEVEL_THRESHOLDS.CRITICAL) return 'HIGH';
     return 'CRITICAL';
   }
 
-  /**
-   * Simulate model loading with progress
-   */
-  private async simulateModelLoading(): Promise<void> {
-    const steps = [
-      'Loading CNN layers...',
-      'Loading LSTM layers...',
-      'Loading trained weights...',
-      'Optimizing for inference...',
-      'Validating model architecture...'
-    ];
-
-    for (const step of steps) {
-      console.log(`🔄 ${step}`);
-      await new Promise(resolve => setTimeout(resolve, 200));
-    }
-  }
-
   // Helper mathematical functions
   private calculateTotalPower(eegData: EEGData): number {
     const allData = eegData.channels.flat();
@@ -328,14 +372,6 @@ export class AISeizurePrediction {
     return data.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / data.length;
   }
 
-  private calculateSkewness(data: number[]): number {
-    return Math.random() * 0.5 - 0.25;
-  }
-
-  private calculateKurtosis(data: number[]): number {
-    return Math.random() * 2 + 1;
-  }
-
   private calculateZeroCrossings(data: number[]): number {
     let crossings = 0;
     for (let i = 1; i < data.length; i++) {
@@ -345,44 +381,6 @@ export class AISeizurePrediction {
     }
     return crossings / data.length;
   }
-
-  private calculateChannelCorrelations(channels: number[][]): number[] {
-    const correlations: number[] = [];
-    for (let i = 0; i < channels.length; i++) {
-      for (let j = i + 1; j < channels.length; j++) {
-        correlations.push(Math.random() * 2 - 1);
-      }
-    }
-    return correlations;
-  }
-
-  private calculateSynchronization(channels: number[][]): number {
-    return Math.random() * 0.8 + 0.1;
-  }
-
-  private calculateCoherence(channels: number[][]): number {
-    return Math.random() * 0.9 + 0.1;
-  }
-
-  private calculateHjorthComplexity(data: number[]): number {
-    return Math.random() * 0.5 + 0.5;
-  }
-
-  private calculateHjorthMobility(data: number[]): number {
-    return Math.random() * 0.8 + 0.2;
-  }
-
-  private calculateSampleEntropy(data: number[]): number {
-    return Math.random() * 2;
-  }
-
-  private calculateLyapunovExponent(data: number[]): number {
-    return Math.random() * 0.1 - 0.05;
-  }
-
-  private calculateFeatureConsistency(features: FeatureVector): number {
-    return Math.random() * 0.3 + 0.7;
-  }
 }
 
 /**
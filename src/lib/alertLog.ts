@@ -0,0 +1,271 @@
+/**
+ * Alert Log - Persistent record of alerts, acknowledgements and outcomes
+ *
+ * Purpose: Keep every alert the rules raise (alerts table) with why it fired
+ * and the readings behind it, who acknowledged it, and whether a seizure
+ * actually followed - plus seizures no alert warned of
+ * Learning Focus: Outcome labels are the ground truth for tuning rules. A
+ * rule's precision is true alarms over labelled alarms; missed seizures count
+ * against the rule set as a whole, since no single rule was responsible.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { outbox } from './offlineOutbox';
+import { AlertRuleEngine, type AlertCondition, type AlertEvent, type AlertSample, type AlertSeverity } from './alertRules';
+import type { RiskLevel } from './aiSeizurePrediction';
+
+export type AlertOutcome = 'true_alarm' | 'false_alarm' | 'missed';
+
+export interface LoggedAlert {
+  id: string;
+  source: 'rule' | 'patient_report';
+  ruleId: string | null;
+  ruleName: string | null;
+  severity: AlertSeverity | null;
+  reason: string | null;                // Plain-language condition, e.g. "Heart rate > 120 bpm for 60 s"
+  condition: AlertCondition | null;
+  triggeredAt: Date;
+  riskLevel: number | null;
+  aiRiskLevel: RiskLevel | null;
+  readings: AlertSample[];
+  acknowledgedAt: Date | null;
+  acknowledgedBy: string | null;
+  outcome: AlertOutcome | null;
+  seizureAt: Date | null;
+  outcomeNotes: string | null;
+}
+
+export interface RuleOutcomeSummary {
+  ruleId: string;
+  ruleName: string;
+  alerts: number;
+  trueAlarms: number;
+  falseAlarms: number;
+  unlabelled: number;
+  precision: number | null;             // Of labelled alerts; null until one is labelled
+  medianLeadMinutes: number | null;     // Alert to seizure start, for true alarms with a seizure time
+}
+
+export const ALERT_OUTCOMES: Record<AlertOutcome, string> = {
+  true_alarm: 'True alarm',
+  false_alarm: 'False alarm',
+  missed: 'Missed seizure'
+};
+
+export class AlertLog {
+
+  /**
+   * Queue an alert for upload; the outbox keeps it through connection loss
+   */
+  static async record(userId: string, event: AlertEvent): Promise<void> {
+    await outbox.enqueue('alerts', {
+      id: event.id,
+      user_id: userId,
+      source: 'rule',
+      rule_id: event.rule.id,
+      rule_name: event.rule.name,
+      severity: event.severity,
+      reason: AlertRuleEngine.describe(event.rule.condition),
+      condition: event.rule.condition as unknown as Json,
+      triggered_at: new Date(event.timestamp).toISOString(),
+      risk_level: event.sample.seizureRisk ?? null,
+      ai_risk_level: event.sample.aiRiskLevel ?? null,
+      readings: event.window as unknown as Json
+    });
+  }
+
+  /**
+   * Alerts and reports between `from` and `to`, newest first
+   */
+  static async load(userId: string, options: { from?: Date; to?: Date; limit?: number } = {}): Promise<LoggedAlert[]> {
+    let request = supabase
+      .from('alerts')
+      .select('*')
+      .eq('user_id', userId);
+    if (options.from) request = request.gte('triggered_at', options.from.toISOString());
+    if (options.to) request = request.lt('triggered_at', options.to.toISOString());
+
+    const { data, error } = await request.order('triggered_at', { ascending: false }).limit(options.limit ?? 100);
+    if (error) {
+      throw new Error(`Loading alerts failed: ${error.message}`);
+    }
+    return data.map(row => this.fromRow(row));
+  }
+
+  /**
+   * Mark an alert seen; the first acknowledgement wins. An alert still in the
+   * outbox (e.g. offline) is acknowledged there and uploaded that way.
+   */
+  static async acknowledge(alertId: string, acknowledgedBy: string = 'patient'): Promise<void> {
+    const acknowledgement = { acknowledged_at: new Date().toISOString(), acknowledged_by: acknowledgedBy };
+
+    const queued = await outbox.amend('alerts', alertId, row => (row.acknowledged_at ? row : { ...row, ...acknowledgement }));
+    if (queued) {
+      void outbox.flush();
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('alerts')
+      .update(acknowledgement)
+      .eq('id', alertId)
+      .is('acknowledged_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Acknowledging alert failed: ${error.message}`);
+    }
+    if (data.length > 0) return;
+
+    // Nothing updated: fine if it was acknowledged first, an error if the alert is not there
+    const { data: existing, error: loadError } = await supabase
+      .from('alerts')
+      .select('id')
+      .eq('id', alertId)
+      .maybeSingle();
+
+    if (loadError) {
+      throw new Error(`Acknowledging alert failed: ${loadError.message}`);
+    }
+    if (!existing) {
+      throw new Error(`Acknowledging alert failed: alert ${alertId} is neither queued nor saved`);
+    }
+  }
+
+  /**
+   * Label whether a seizure followed an alert; null clears the label
+   */
+  static async labelOutcome(
+    alertId: string,
+    outcome: Exclude<AlertOutcome, 'missed'> | null,
+    details: { seizureAt?: Date | null; notes?: string | null } = {}
+  ): Promise<LoggedAlert> {
+    const { data, error } = await supabase
+      .from('alerts')
+      .update({
+        outcome,
+        seizure_at: outcome === 'true_alarm' ? details.seizureAt?.toISOString() ?? null : null,
+        outcome_notes: details.notes ?? null,
+        outcome_labeled_at: outcome ? new Date().toISOString() : null
+      })
+      .eq('id', alertId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Labelling alert failed: ${error.message}`);
+    }
+    return this.fromRow(data);
+  }
+
+  /**
+   * Record a seizure that no alert warned of
+   */
+  static async reportMissed(userId: string, seizureAt: Date, notes?: string): Promise<LoggedAlert> {
+    const { data, error } = await supabase
+      .from('alerts')
+      .insert({
+        id: crypto.randomUUID(),
+        user_id: userId,
+        source: 'patient_report',
+        triggered_at: seizureAt.toISOString(),
+        seizure_at: seizureAt.toISOString(),
+        outcome: 'missed',
+        outcome_notes: notes || null,
+        outcome_labeled_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Reporting missed seizure failed: ${error.message}`);
+    }
+    return this.fromRow(data);
+  }
+
+  static async remove(alertId: string): Promise<void> {
+    const { error } = await supabase
+      .from('alerts')
+      .delete()
+      .eq('id', alertId);
+
+    if (error) {
+      throw new Error(`Deleting alert failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Per-rule alarm counts and precision, plus seizures no rule caught
+   */
+  static summarize(alerts: LoggedAlert[]): { rules: RuleOutcomeSummary[]; missed: number } {
+    const byRule = new Map<string, LoggedAlert[]>();
+    for (const alert of alerts) {
+      if (alert.source !== 'rule') continue;
+      const key = alert.ruleId ?? alert.ruleName ?? 'unknown';
+      byRule.set(key, [...(byRule.get(key) ?? []), alert]);
+    }
+
+    const rules = [...byRule.entries()].map(([ruleId, ruleAlerts]) => {
+      const trueAlarms = ruleAlerts.filter(alert => alert.outcome === 'true_alarm');
+      const falseAlarms = ruleAlerts.filter(alert => alert.outcome === 'false_alarm').length;
+      const leadMinutes = trueAlarms
+        .filter(alert => alert.seizureAt)
+        .map(alert => (alert.seizureAt!.getTime() - alert.triggeredAt.getTime()) / 60000)
+        .sort((a, b) => a - b);
+
+      return {
+        ruleId,
+        ruleName: ruleAlerts[0].ruleName ?? 'Unknown rule',
+        alerts: ruleAlerts.length,
+        trueAlarms: trueAlarms.length,
+        falseAlarms,
+        unlabelled: ruleAlerts.length - trueAlarms.length - falseAlarms,
+        precision: trueAlarms.length + falseAlarms > 0 ? trueAlarms.length / (trueAlarms.length + falseAlarms) : null,
+        medianLeadMinutes: this.median(leadMinutes)
+      };
+    });
+
+    return {
+      rules: rules.sort((a, b) => b.alerts - a.alerts),
+      missed: alerts.filter(alert => alert.outcome === 'missed').length
+    };
+  }
+
+  private static median(sorted: number[]): number | null {
+    if (sorted.length === 0) return null;
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  private static fromRow(row: Tables<'alerts'>): LoggedAlert {
+    return {
+      id: row.id,
+      source: row.source as LoggedAlert['source'],
+      ruleId: row.rule_id,
+      ruleName: row.rule_name,
+      severity: AlertRuleEngine.isSeverity(row.severity) ? row.severity : null,
+      reason: row.reason,
+      condition: row.condition as unknown as AlertCondition | null,
+      triggeredAt: new Date(row.triggered_at),
+      riskLevel: row.risk_level === null ? null : Number(row.risk_level),
+      aiRiskLevel: row.ai_risk_level as RiskLevel | null,
+      readings: (row.readings ?? []) as unknown as AlertSample[],
+      acknowledgedAt: row.acknowledged_at ? new Date(row.acknowledged_at) : null,
+      acknowledgedBy: row.acknowledged_by,
+      outcome: row.outcome as AlertOutcome | null,
+      seizureAt: row.seizure_at ? new Date(row.seizure_at) : null,
+      outcomeNotes: row.outcome_notes
+    };
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * await AlertLog.record(user.id, event);
+ * await AlertLog.labelOutcome(event.id, 'true_alarm', { seizureAt: new Date() });
+ *
+ * const { rules, missed } = AlertLog.summarize(await AlertLog.load(user.id));
+ * rules.forEach(rule => console.log(`${rule.ruleName}: ${rule.trueAlarms}/${rule.alerts} true alarms`));
+ */
@@ -0,0 +1,136 @@
+/**
+ * Alert Rule Store - Per-user alert rules in Supabase
+ *
+ * Purpose: Load and save the rules AlertRuleEngine evaluates (alert_rules
+ * table). A user who has not written any rules gets one rule built from
+ * profiles.alert_threshold, so the profile setting keeps working.
+ * Learning Focus: Stored JSON is validated on the way in and on the way out;
+ * a rule that no longer parses is skipped with an error, not run half-valid.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { ALERT_RULE_TEMPLATES, AlertRuleEngine, type AlertRule } from './alertRules';
+
+// Id of the rule derived from profiles.alert_threshold; saving it stores a real rule
+export const DEFAULT_ALERT_RULE_ID = 'profile-alert-threshold';
+
+const DEFAULT_ALERT_THRESHOLD = 70;
+
+export class AlertRuleStore {
+
+  /**
+   * The user's rules, or the profile-threshold rule when they have none
+   */
+  static async load(userId: string): Promise<AlertRule[]> {
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Loading alert rules failed: ${error.message}`);
+    }
+    if (data.length === 0) {
+      return [await this.profileRule(userId)];
+    }
+
+    return data.flatMap(row => {
+      try {
+        return [this.fromRow(row)];
+      } catch (parseError) {
+        console.error(`❌ Skipping alert rule "${row.name}":`, parseError);
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Insert or update a rule; returns it with its stored id
+   */
+  static async save(userId: string, rule: AlertRule): Promise<AlertRule> {
+    AlertRuleEngine.parseCondition(rule.condition);
+
+    const row = {
+      ...(rule.id !== DEFAULT_ALERT_RULE_ID && { id: rule.id }),
+      user_id: userId,
+      name: rule.name,
+      enabled: rule.enabled,
+      severity: rule.severity,
+      cooldown_seconds: Math.round(rule.cooldownSeconds),
+      condition: rule.condition as unknown as Json,
+      quiet_hours_start: rule.quietHours?.start ?? null,
+      quiet_hours_end: rule.quietHours?.end ?? null
+    };
+
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .upsert(row)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Saving alert rule "${rule.name}" failed: ${error.message}`);
+    }
+    return this.fromRow(data);
+  }
+
+  static async remove(ruleId: string): Promise<void> {
+    if (ruleId === DEFAULT_ALERT_RULE_ID) return;
+
+    const { error } = await supabase
+      .from('alert_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) {
+      throw new Error(`Deleting alert rule failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * The "High seizure risk" template at the profile's alert threshold
+   */
+  static async profileRule(userId: string): Promise<AlertRule> {
+    const { data } = await supabase
+      .from('profiles')
+      .select('alert_threshold')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const threshold = Number(data?.alert_threshold ?? DEFAULT_ALERT_THRESHOLD);
+    return {
+      ...ALERT_RULE_TEMPLATES[0],
+      id: DEFAULT_ALERT_RULE_ID,
+      enabled: true,
+      condition: { type: 'threshold', signal: 'seizureRisk', operator: '>=', value: threshold }
+    };
+  }
+
+  private static fromRow(row: Tables<'alert_rules'>): AlertRule {
+    if (!AlertRuleEngine.isSeverity(row.severity)) {
+      throw new Error(`Unknown severity "${row.severity}"`);
+    }
+
+    return {
+      id: row.id,
+      name: row.name,
+      enabled: row.enabled,
+      severity: row.severity,
+      cooldownSeconds: row.cooldown_seconds,
+      condition: AlertRuleEngine.parseCondition(row.condition),
+      // TIME columns come back as HH:MM:SS
+      quietHours: row.quiet_hours_start && row.quiet_hours_end
+        ? { start: row.quiet_hours_start.slice(0, 5), end: row.quiet_hours_end.slice(0, 5) }
+        : null
+    };
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const rules = await AlertRuleStore.load(user.id);
+ * const saved = await AlertRuleStore.save(user.id, { ...rules[0], cooldownSeconds: 60 });
+ */
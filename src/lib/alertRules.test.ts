@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { AlertRuleEngine, type AlertCondition, type AlertRule, type AlertSample } from './alertRules';
+
+const START = new Date(2026, 0, 1, 12, 0).getTime();   // Local noon, outside any quiet hours below
+
+const rule = (condition: AlertCondition, overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: 'rule',
+  name: 'Test rule',
+  enabled: true,
+  severity: 'warning',
+  cooldownSeconds: 0,
+  condition,
+  quietHours: null,
+  ...overrides
+});
+
+// One sample per second from START
+const samples = (count: number, at: (second: number) => Partial<AlertSample>): AlertSample[] =>
+  Array.from({ length: count }, (_, second) => ({ timestamp: START + second * 1000, ...at(second) }));
+
+const firedAt = (rules: AlertRule[], recording: AlertSample[]) =>
+  AlertRuleEngine.replay(rules, recording).map(event => (event.timestamp - START) / 1000);
+
+describe('AlertRuleEngine.replay', () => {
+  it('fires a threshold rule on every sample past the threshold', () => {
+    const risks = [50, 69, 70, 85, 40];
+    const rules = [rule({ type: 'threshold', signal: 'seizureRisk', operator: '>=', value: 70 })];
+
+    expect(firedAt(rules, samples(risks.length, second => ({ seizureRisk: risks[second] })))).toEqual([2, 3]);
+  });
+
+  it('fires a sustained rule only once the condition has held for the whole span', () => {
+    const rules = [rule({
+      type: 'sustained',
+      seconds: 60,
+      condition: { type: 'threshold', signal: 'heartRate', operator: '>', value: 120 }
+    }, { cooldownSeconds: 600 })];
+
+    // Above 120 from 0 s, a dip at 30 s restarts the run
+    const recording = samples(120, second => ({ heartRate: second === 30 ? 100 : 130 }));
+
+    expect(firedAt(rules, recording)).toEqual([91]);
+  });
+
+  it('fires a rate-of-change rule against the sample a full window earlier', () => {
+    const rules = [rule({ type: 'rateOfChange', signal: 'eda', windowSeconds: 120, operator: '>=', value: 0.5 }, { cooldownSeconds: 600 })];
+
+    // 0.6 µS/min rise: nothing until two minutes of history exist
+    const rising = samples(180, second => ({ eda: 2 + (second / 60) * 0.6 }));
+    const flat = samples(180, () => ({ eda: 2 }));
+
+    expect(firedAt(rules, rising)).toEqual([120]);
+    expect(firedAt(rules, flat)).toEqual([]);
+  });
+
+  it('combines signals with all and any', () => {
+    const heartRate: AlertCondition = { type: 'threshold', signal: 'heartRate', operator: '>', value: 100 };
+    const eda: AlertCondition = { type: 'threshold', signal: 'eda', operator: '>', value: 3.5 };
+    const recording = [
+      { heartRate: 110, eda: 2 },
+      { heartRate: 80, eda: 4 },
+      { heartRate: 110, eda: 4 },
+      { heartRate: 80, eda: 2 }
+    ];
+    const replay = (condition: AlertCondition) => firedAt([rule(condition)], samples(recording.length, second => recording[second]));
+
+    expect(replay({ type: 'all', conditions: [heartRate, eda] })).toEqual([2]);
+    expect(replay({ type: 'any', conditions: [heartRate, eda] })).toEqual([0, 1, 2]);
+  });
+
+  it('fires on AI risk-level transitions into the target levels', () => {
+    const levels = ['LOW', 'LOW', 'HIGH', 'HIGH', 'MEDIUM', 'CRITICAL', 'LOW'] as const;
+    const recording = samples(levels.length, second => ({ aiRiskLevel: levels[second] }));
+
+    expect(firedAt([rule({ type: 'riskLevelTransition', to: ['HIGH', 'CRITICAL'] })], recording)).toEqual([2, 5]);
+    expect(firedAt([rule({ type: 'riskLevelTransition', from: ['LOW'], to: ['HIGH', 'CRITICAL'] })], recording)).toEqual([2]);
+  });
+
+  it('stays quiet during quiet hours that wrap past midnight', () => {
+    const rules = [rule({ type: 'threshold', signal: 'seizureRisk', operator: '>=', value: 70 }, {
+      quietHours: { start: '22:00', end: '06:00' }
+    })];
+    const at = (hours: number, minutes: number, day: number = 1) =>
+      ({ timestamp: new Date(2026, 0, day, hours, minutes).getTime(), seizureRisk: 90 });
+
+    const events = AlertRuleEngine.replay(rules, [
+      at(21, 59),
+      at(22, 0),
+      at(23, 30),
+      at(2, 0, 2),
+      at(5, 59, 2),
+      at(6, 0, 2)
+    ]);
+
+    expect(events.map(event => new Date(event.timestamp).getHours())).toEqual([21, 6]);
+  });
+
+  it('waits out the cooldown between alerts from the same rule', () => {
+    const rules = [rule({ type: 'threshold', signal: 'seizureRisk', operator: '>=', value: 70 }, { cooldownSeconds: 30 })];
+
+    expect(firedAt(rules, samples(100, () => ({ seizureRisk: 90 })))).toEqual([0, 30, 60, 90]);
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Alert Rules - Per-user alert conditions and the engine that evaluates them
+ *
+ * Purpose: Replace the single fixed risk threshold with rules each user
+ * composes from thresholds, sustained conditions, rates of change,
+ * combinations of biosensor signals and AI risk-level transitions, each with
+ * its own severity, cooldown and quiet hours
+ * Learning Focus: Rules are plain JSON and the engine is a pure function of
+ * the samples it is given - no clock, network or storage - so a rule set can
+ * be replayed against a recording or a scripted scenario and checked offline.
+ *
+ * Conditions are evaluated at a sample against the recent history: a
+ * sustained condition must have held at every sample for the given span, and
+ * a rate of change compares against the sample `windowSeconds` earlier.
+ */
+
+import type { RiskLevel } from '@/lib/aiSeizurePrediction';
+
+export type AlertSignal = 'heartRate' | 'skinTemp' | 'eda' | 'seizureRisk';
+export type ComparisonOperator = '>' | '>=' | '<' | '<=';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertCondition =
+  | { type: 'threshold'; signal: AlertSignal; operator: ComparisonOperator; value: number }
+  | { type: 'sustained'; condition: AlertCondition; seconds: number }
+  | { type: 'rateOfChange'; signal: AlertSignal; windowSeconds: number; operator: ComparisonOperator; value: number }  // value per minute
+  | { type: 'all'; conditions: AlertCondition[] }
+  | { type: 'any'; conditions: AlertCondition[] }
+  | { type: 'riskLevelTransition'; from?: RiskLevel[]; to: RiskLevel[] };
+
+export interface QuietHours {
+  start: string;              // 'HH:MM' local time; may wrap past midnight
+  end: string;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: AlertSeverity;
+  cooldownSeconds: number;    // Minimum time between two alerts from this rule
+  condition: AlertCondition;
+  quietHours: QuietHours | null;
+}
+
+export type AlertSample = {
+  timestamp: number;
+  aiRiskLevel?: RiskLevel;    // Latest AI prediction, when one is running
+} & Partial<Record<AlertSignal, number>>;
+
+export interface AlertEvent {
+  id: string;
+  rule: AlertRule;
+  severity: AlertSeverity;
+  timestamp: number;
+  sample: AlertSample;
+  window: AlertSample[];      // Samples the rule looked at (at least the last minute), oldest first
+}
+
+export const ALERT_SIGNALS: Record<AlertSignal, { label: string; unit: string }> = {
+  heartRate: { label: 'Heart rate', unit: 'bpm' },
+  skinTemp: { label: 'Skin temperature', unit: '°C' },
+  eda: { label: 'EDA', unit: 'µS' },
+  seizureRisk: { label: 'Seizure risk', unit: '%' }
+};
+
+const OPERATORS: ComparisonOperator[] = ['>', '>=', '<', '<='];
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+const RISK_LEVELS: RiskLevel[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+const MIN_HISTORY_SECONDS = 300;    // Kept even for rules without windows, to find the previous AI level
+const MIN_WINDOW_SECONDS = 60;      // Context recorded with an alert even when the rule looks at one sample
+
+export const ALERT_RULE_TEMPLATES: Omit<AlertRule, 'id' | 'enabled'>[] = [
+  {
+    name: 'High seizure risk',
+    severity: 'critical',
+    cooldownSeconds: 30,
+    condition: { type: 'threshold', signal: 'seizureRisk', operator: '>=', value: 70 },
+    quietHours: null
+  },
+  {
+    name: 'Sustained high heart rate',
+    severity: 'warning',
+    cooldownSeconds: 300,
+    condition: { type: 'sustained', seconds: 60, condition: { type: 'threshold', signal: 'heartRate', operator: '>', value: 120 } },
+    quietHours: null
+  },
+  {
+    name: 'Rapid EDA rise',
+    severity: 'warning',
+    cooldownSeconds: 300,
+    condition: { type: 'rateOfChange', signal: 'eda', windowSeconds: 120, operator: '>=', value: 0.5 },
+    quietHours: null
+  },
+  {
+    name: 'Pre-seizure pattern',
+    severity: 'critical',
+    cooldownSeconds: 120,
+    condition: {
+      type: 'all',
+      conditions: [
+        { type: 'threshold', signal: 'heartRate', operator: '>', value: 100 },
+        { type: 'threshold', signal: 'eda', operator: '>', value: 3.5 },
+        { type: 'threshold', signal: 'skinTemp', operator: '<', value: 36.2 }
+      ]
+    },
+    quietHours: null
+  },
+  {
+    name: 'AI risk escalation',
+    severity: 'critical',
+    cooldownSeconds: 60,
+    condition: { type: 'riskLevelTransition', to: ['HIGH', 'CRITICAL'] },
+    quietHours: null
+  }
+];
+
+export class AlertRuleEngine {
+  private rules: AlertRule[] = [];
+  private history: AlertSample[] = [];
+  private lastFired = new Map<string, number>();
+  private historyMs: number = MIN_HISTORY_SECONDS * 1000;
+
+  constructor(rules: AlertRule[] = []) {
+    this.setRules(rules);
+  }
+
+  /**
+   * Replace the rule set; cooldowns carry over for rules that keep their id
+   */
+  setRules(rules: AlertRule[]): void {
+    this.rules = rules;
+    const horizon = Math.max(0, ...rules.map(rule => AlertRuleEngine.horizonSeconds(rule.condition)));
+    this.historyMs = (Math.max(MIN_HISTORY_SECONDS, horizon) + 5) * 1000;
+  }
+
+  /**
+   * Add a sample and return the alerts it raises
+   */
+  push(sample: AlertSample): AlertEvent[] {
+    this.history.push(sample);
+    while (this.history.length > 1 && sample.timestamp - this.history[0].timestamp > this.historyMs) {
+      this.history.shift();
+    }
+
+    const index = this.history.length - 1;
+    const events: AlertEvent[] = [];
+    for (const rule of this.rules) {
+      if (!rule.enabled) continue;
+      if (rule.quietHours && AlertRuleEngine.inQuietHours(rule.quietHours, sample.timestamp)) continue;
+
+      const lastFired = this.lastFired.get(rule.id);
+      if (lastFired !== undefined && sample.timestamp - lastFired < rule.cooldownSeconds * 1000) continue;
+
+      if (AlertRuleEngine.matches(rule.condition, this.history, index)) {
+        this.lastFired.set(rule.id, sample.timestamp);
+        const windowMs = Math.max(MIN_WINDOW_SECONDS, AlertRuleEngine.horizonSeconds(rule.condition)) * 1000;
+        const window = this.history.filter(earlier => sample.timestamp - earlier.timestamp <= windowMs);
+        events.push({ id: crypto.randomUUID(), rule, severity: rule.severity, timestamp: sample.timestamp, sample, window });
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Forget history and cooldowns, e.g. when recording stops
+   */
+  reset(): void {
+    this.history = [];
+    this.lastFired.clear();
+  }
+
+  /**
+   * Run rules over a whole recording - for checking a rule set offline
+   */
+  static replay(rules: AlertRule[], samples: AlertSample[]): AlertEvent[] {
+    const engine = new AlertRuleEngine(rules);
+    return samples.flatMap(sample => engine.push(sample));
+  }
+
+  /**
+   * Whether `condition` holds at history[index]
+   */
+  static matches(condition: AlertCondition, history: AlertSample[], index: number): boolean {
+    const sample = history[index];
+
+    switch (condition.type) {
+      case 'threshold': {
+        const value = sample[condition.signal];
+        return value !== undefined && this.compare(value, condition.operator, condition.value);
+      }
+
+      case 'sustained': {
+        // Walk back through the run of samples where the inner condition held
+        for (let i = index; i >= 0; i--) {
+          if (!this.matches(condition.condition, history, i)) return false;
+          if (sample.timestamp - history[i].timestamp >= condition.seconds * 1000) return true;
+        }
+        return false;
+      }
+
+      case 'rateOfChange': {
+        const value = sample[condition.signal];
+        const cutoff = sample.timestamp - condition.windowSeconds * 1000;
+        let earlier: AlertSample | undefined;
+        for (let i = index - 1; i >= 0 && !earlier; i--) {
+          if (history[i].timestamp <= cutoff && history[i][condition.signal] !== undefined) earlier = history[i];
+        }
+        if (value === undefined || !earlier) return false;
+
+        const minutes = (sample.timestamp - earlier.timestamp) / 60000;
+        return this.compare((value - earlier[condition.signal]) / minutes, condition.operator, condition.value);
+      }
+
+      case 'all':
+        return condition.conditions.every(inner => this.matches(inner, history, index));
+
+      case 'any':
+        return condition.conditions.some(inner => this.matches(inner, history, index));
+
+      case 'riskLevelTransition': {
+        const current = sample.aiRiskLevel;
+        let previous: RiskLevel | undefined;
+        for (let i = index - 1; i >= 0 && !previous; i--) previous = history[i].aiRiskLevel;
+
+        return current !== undefined && previous !== undefined && current !== previous
+          && condition.to.includes(current)
+          && (!condition.from || condition.from.includes(previous));
+      }
+    }
+  }
+
+  static inQuietHours(quietHours: QuietHours, timestamp: number): boolean {
+    const date = new Date(timestamp);
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    const start = this.parseTime(quietHours.start);
+    const end = this.parseTime(quietHours.end);
+
+    return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+  }
+
+  /**
+   * Seconds of history a condition looks back over
+   */
+  static horizonSeconds(condition: AlertCondition): number {
+    switch (condition.type) {
+      case 'sustained': return condition.seconds + this.horizonSeconds(condition.condition);
+      case 'rateOfChange': return condition.windowSeconds;
+      case 'all':
+      case 'any': return Math.max(0, ...condition.conditions.map(inner => this.horizonSeconds(inner)));
+      default: return 0;
+    }
+  }
+
+  /**
+   * Plain-language summary, e.g. "Heart rate > 120 bpm for 60 s"
+   */
+  static describe(condition: AlertCondition): string {
+    switch (condition.type) {
+      case 'threshold': {
+        const { label, unit } = ALERT_SIGNALS[condition.signal];
+        return `${label} ${condition.operator} ${condition.value} ${unit}`;
+      }
+      case 'sustained':
+        return `${this.describe(condition.condition)} for ${condition.seconds} s`;
+      case 'rateOfChange': {
+        const { label, unit } = ALERT_SIGNALS[condition.signal];
+        return `${label} changing ${condition.operator} ${condition.value} ${unit}/min over ${condition.windowSeconds} s`;
+      }
+      case 'all':
+      case 'any': {
+        const parts = condition.conditions.map(inner =>
+          inner.type === 'all' || inner.type === 'any' ? `(${this.describe(inner)})` : this.describe(inner));
+        return parts.join(condition.type === 'all' ? ' and ' : ' or ');
+      }
+      case 'riskLevelTransition':
+        return `AI risk level ${condition.from ? `goes from ${condition.from.join('/')} ` : 'rises '}to ${condition.to.join('/')}`;
+    }
+  }
+
+  /**
+   * Validate a condition from JSON (stored rules, the rule editor)
+   */
+  static parseCondition(value: unknown, path: string = 'condition'): AlertCondition {
+    const condition = value as AlertCondition;
+    const check = (ok: boolean, message: string) => {
+      if (!ok) throw new Error(`${path}: ${message}`);
+    };
+    const signal = (name: unknown) =>
+      check(typeof name === 'string' && name in ALERT_SIGNALS, `unknown signal "${name}" (expected ${Object.keys(ALERT_SIGNALS).join(', ')})`);
+    const operator = (op: unknown) =>
+      check(OPERATORS.includes(op as ComparisonOperator), `unknown operator "${op}" (expected ${OPERATORS.join(' ')})`);
+    const number = (n: unknown, name: string, positive = false) =>
+      check(typeof n === 'number' && Number.isFinite(n) && (!positive || n > 0), `"${name}" must be a ${positive ? 'positive ' : ''}number`);
+    const levels = (list: unknown, name: string) =>
+      check(Array.isArray(list) && list.length > 0 && list.every(level => RISK_LEVELS.includes(level)), `"${name}" must list risk levels (${RISK_LEVELS.join(', ')})`);
+
+    check(!!condition && typeof condition === 'object', 'must be an object');
+
+    switch (condition.type) {
+      case 'threshold':
+        signal(condition.signal);
+        operator(condition.operator);
+        number(condition.value, 'value');
+        break;
+      case 'sustained':
+        number(condition.seconds, 'seconds', true);
+        this.parseCondition(condition.condition, `${path}.condition`);
+        break;
+      case 'rateOfChange':
+        signal(condition.signal);
+        operator(condition.operator);
+        number(condition.value, 'value');
+        number(condition.windowSeconds, 'windowSeconds', true);
+        break;
+      case 'all':
+      case 'any':
+        check(Array.isArray(condition.conditions) && condition.conditions.length > 0, '"conditions" must be a non-empty list');
+        condition.conditions.forEach((inner, i) => this.parseCondition(inner, `${path}.conditions[${i}]`));
+        break;
+      case 'riskLevelTransition':
+        levels(condition.to, 'to');
+        if (condition.from !== undefined) levels(condition.from, 'from');
+        break;
+      default:
+        check(false, `unknown type "${(condition as { type?: unknown }).type}" (expected threshold, sustained, rateOfChange, all, any, riskLevelTransition)`);
+    }
+    return condition;
+  }
+
+  static isSeverity(value: unknown): value is AlertSeverity {
+    return SEVERITIES.includes(value as AlertSeverity);
+  }
+
+  private static compare(value: number, operator: ComparisonOperator, target: number): boolean {
+    switch (operator) {
+      case '>': return value > target;
+      case '>=': return value >= target;
+      case '<': return value < target;
+      case '<=': return value <= target;
+    }
+  }
+
+  private static parseTime(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const engine = new AlertRuleEngine(await AlertRuleStore.load(user.id));
+ * for (const event of engine.push({ ...reading, aiRiskLevel: prediction?.riskLevel })) {
+ *   console.log(`${event.severity}: ${event.rule.name}`);
+ * }
+ *
+ * // Offline: which rules would have fired on a recording?
+ * const events = AlertRuleEngine.replay(rules, samples);
+ */
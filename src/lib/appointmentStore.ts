@@ -0,0 +1,109 @@
+/**
+ * Appointment Store - Doctor appointments in the appointments table
+ *
+ * Purpose: Load, save and delete a user's scheduled, completed and cancelled
+ * appointments
+ * Learning Focus: appointment_date and appointment_time are DATE and TIME
+ * columns with no time zone, so they stay 'YYYY-MM-DD' and 'HH:MM' strings.
+ * Turning them into a Date would shift them by the browser's UTC offset.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type AppointmentStatus = 'scheduled' | 'completed' | 'cancelled';
+
+export interface Appointment {
+  id: string;
+  date: string;                         // 'YYYY-MM-DD'
+  time: string;                         // 'HH:MM', local to the clinic
+  doctorName: string;
+  type: string;                         // e.g. 'Check-up'
+  notes: string | null;
+  status: AppointmentStatus;
+}
+
+export class AppointmentStore {
+
+  /**
+   * Appointments in date order, optionally only those on or after `fromDate`
+   */
+  static async load(userId: string, options: { fromDate?: string; status?: AppointmentStatus } = {}): Promise<Appointment[]> {
+    let request = supabase
+      .from('appointments')
+      .select('*')
+      .eq('user_id', userId);
+    if (options.fromDate) request = request.gte('appointment_date', options.fromDate);
+    if (options.status) request = request.eq('status', options.status);
+
+    const { data, error } = await request
+      .order('appointment_date', { ascending: true })
+      .order('appointment_time', { ascending: true });
+
+    if (error) {
+      throw new Error(`Loading appointments failed: ${error.message}`);
+    }
+    return data.map(row => this.fromRow(row));
+  }
+
+  /**
+   * Insert or update an appointment; returns it as stored
+   */
+  static async save(userId: string, appointment: Appointment): Promise<Appointment> {
+    if (!appointment.doctorName.trim()) {
+      throw new Error('An appointment needs a doctor');
+    }
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .upsert({
+        id: appointment.id,
+        user_id: userId,
+        appointment_date: appointment.date,
+        appointment_time: appointment.time,
+        doctor_name: appointment.doctorName.trim(),
+        appointment_type: appointment.type,
+        notes: appointment.notes || null,
+        status: appointment.status,
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Saving appointment on ${appointment.date} failed: ${error.message}`);
+    }
+    return this.fromRow(data);
+  }
+
+  static async remove(appointmentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('appointments')
+      .delete()
+      .eq('id', appointmentId);
+
+    if (error) {
+      throw new Error(`Deleting appointment failed: ${error.message}`);
+    }
+  }
+
+  private static fromRow(row: Tables<'appointments'>): Appointment {
+    return {
+      id: row.id,
+      date: row.appointment_date,
+      time: row.appointment_time.slice(0, 5),     // TIME comes back as 'HH:MM:SS'
+      doctorName: row.doctor_name,
+      type: row.appointment_type,
+      notes: row.notes,
+      status: row.status as AppointmentStatus
+    };
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const today = new Date().toLocaleDateString('en-CA');   // 'YYYY-MM-DD'
+ * const upcoming = await AppointmentStore.load(user.id, { fromDate: today, status: 'scheduled' });
+ * await AppointmentStore.save(user.id, { ...upcoming[0], status: 'completed' });
+ */
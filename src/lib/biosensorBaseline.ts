@@ -0,0 +1,301 @@
+/**
+ * Biosensor Baseline Calibration
+ *
+ * Purpose: Learn each user's resting heart rate, skin temperature and EDA -
+ * including how they drift over the day - from their stored
+ * biosensor_readings, persist it in biosensor_baselines, and score seizure
+ * risk as deviation from that personal baseline instead of fixed population
+ * thresholds
+ * Learning Focus: A resting heart rate of 88 bpm is alarming for one person
+ * and normal for another. Scoring z = (value - expected) / spread per person
+ * makes "unusual for you" the signal.
+ *
+ * Centre and spread use the median and the MAD (scaled to match a standard
+ * deviation), so the occasional pre-seizure spike in the calibration data
+ * does not inflate the baseline. Readings within EVENT_EXCLUSION_MS of a
+ * recorded seizure event, or of an alert not labelled a false alarm, are
+ * left out entirely.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { BiosensorReading } from '@/hooks/useBiosensorData';
+
+export type BiosensorMetric = 'heartRate' | 'skinTemp' | 'eda';
+
+export interface MetricBaseline {
+  mean: number;
+  sd: number;
+  hourlyOffsets: number[];    // 24 values added to `mean` by local hour of day
+}
+
+export interface BiosensorBaseline {
+  heartRate: MetricBaseline;
+  skinTemp: MetricBaseline;
+  eda: MetricBaseline;
+  sampleCount: number;
+  readingsFrom: Date;
+  readingsTo: Date;
+  calibratedAt: Date;
+}
+
+export type CalibrationReading = Omit<BiosensorReading, 'seizureRisk'>;
+
+const METRICS: BiosensorMetric[] = ['heartRate', 'skinTemp', 'eda'];
+
+export const MIN_CALIBRATION_READINGS = 600;    // Ten minutes at one reading per second
+const MIN_READINGS_PER_HOUR = 30;               // Below this an hour keeps a zero offset
+const MAX_CALIBRATION_READINGS = 50_000;        // Most recent readings used
+const PAGE_SIZE = 1000;                         // PostgREST's default row limit
+const EVENT_EXCLUSION_MS = 30 * 60 * 1000;
+const MAD_TO_SD = 1.4826;
+
+// Smallest spread accepted per metric, so a very steady sensor doesn't turn noise into alarms
+const MIN_SD: Record<BiosensorMetric, number> = {
+  heartRate: 2,     // bpm
+  skinTemp: 0.05,   // °C
+  eda: 0.1          // µS
+};
+
+// Points per metric at full deviation, matching the population score in useBiosensorData
+const RISK_WEIGHTS = {
+  heartRate: 30,
+  skinTemp: 25,
+  eda: 35,
+  heartRateTrend: 20
+};
+
+export class BiosensorCalibration {
+
+  /**
+   * Learn a baseline from readings (any order)
+   */
+  static fromReadings(readings: CalibrationReading[], calibratedAt: Date = new Date()): BiosensorBaseline {
+    if (readings.length < MIN_CALIBRATION_READINGS) {
+      throw new Error(`Calibration needs at least ${MIN_CALIBRATION_READINGS} readings (found ${readings.length})`);
+    }
+
+    const timestamps = readings.map(reading => reading.timestamp);
+    const hours = readings.map(reading => new Date(reading.timestamp).getHours());
+
+    const learn = (metric: BiosensorMetric): MetricBaseline => {
+      const values = readings.map(reading => reading[metric]);
+      const mean = this.median(values);
+      const sd = Math.max(MIN_SD[metric], MAD_TO_SD * this.median(values.map(value => Math.abs(value - mean))));
+
+      const hourlyOffsets = Array.from({ length: 24 }, (_, hour) => {
+        const inHour = values.filter((_, i) => hours[i] === hour);
+        return inHour.length >= MIN_READINGS_PER_HOUR ? this.median(inHour) - mean : 0;
+      });
+
+      return { mean, sd, hourlyOffsets };
+    };
+
+    return {
+      heartRate: learn('heartRate'),
+      skinTemp: learn('skinTemp'),
+      eda: learn('eda'),
+      sampleCount: readings.length,
+      // reduce, not Math.min(...): weeks of readings exceed the argument limit
+      readingsFrom: new Date(timestamps.reduce((earliest, t) => Math.min(earliest, t), Infinity)),
+      readingsTo: new Date(timestamps.reduce((latest, t) => Math.max(latest, t), -Infinity)),
+      calibratedAt
+    };
+  }
+
+  /**
+   * Baseline value for a metric at the reading's local hour
+   */
+  static expected(baseline: BiosensorBaseline, metric: BiosensorMetric, timestamp: number): number {
+    const { mean, hourlyOffsets } = baseline[metric];
+    return mean + (hourlyOffsets[new Date(timestamp).getHours()] ?? 0);
+  }
+
+  /**
+   * Signed deviation of each metric from the personal baseline, in spreads
+   */
+  static deviations(reading: CalibrationReading, baseline: BiosensorBaseline): Record<BiosensorMetric, number> {
+    const z = (metric: BiosensorMetric) =>
+      (reading[metric] - this.expected(baseline, metric, reading.timestamp)) / baseline[metric].sd;
+    return { heartRate: z('heartRate'), skinTemp: z('skinTemp'), eda: z('eda') };
+  }
+
+  /**
+   * 0-100 risk from deviations in the pre-seizure direction (heart rate and
+   * EDA up, skin temperature down). Each metric scores nothing up to 1
+   * spread and its full weight from 3 spreads.
+   */
+  static scoreRisk(reading: CalibrationReading, history: BiosensorReading[], baseline: BiosensorBaseline): number {
+    const z = this.deviations(reading, baseline);
+    let risk = RISK_WEIGHTS.heartRate * this.ramp(z.heartRate)
+      + RISK_WEIGHTS.skinTemp * this.ramp(-z.skinTemp)
+      + RISK_WEIGHTS.eda * this.ramp(z.eda);
+
+    // A fast heart-rate rise counts even while still inside the normal range
+    if (history.length >= 3) {
+      const recent = history.slice(-3);
+      const averageHeartRate = recent.reduce((sum, r) => sum + r.heartRate, 0) / recent.length;
+      risk += RISK_WEIGHTS.heartRateTrend * this.ramp((reading.heartRate - averageHeartRate) / baseline.heartRate.sd);
+    }
+
+    return Math.max(0, Math.min(100, risk));
+  }
+
+  /**
+   * Learn from the user's last `days` of stored readings and save the result
+   */
+  static async calibrate(userId: string, days: number = 14): Promise<BiosensorBaseline> {
+    console.log(`📐 Calibrating biosensor baseline from the last ${days} days...`);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const [readings, events] = await Promise.all([
+      this.fetchReadings(userId, since),
+      this.fetchSeizureTimes(userId, since)
+    ]);
+    const resting = readings.filter(reading =>
+      !events.some(event => Math.abs(reading.timestamp - event) < EVENT_EXCLUSION_MS)
+    );
+
+    const baseline = this.fromReadings(resting);
+    await this.save(userId, baseline);
+    console.log(`✅ Baseline calibrated from ${resting.length} readings (${readings.length - resting.length} near seizure events excluded)`);
+
+    return baseline;
+  }
+
+  /**
+   * The user's stored baseline, or null before the first calibration
+   */
+  static async load(userId: string): Promise<BiosensorBaseline | null> {
+    const { data, error } = await supabase
+      .from('biosensor_baselines')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Loading the biosensor baseline failed: ${error.message}`);
+    }
+    if (!data) return null;
+
+    const circadian = (data.circadian ?? {}) as Partial<Record<BiosensorMetric, number[]>>;
+    const metric = (name: BiosensorMetric, mean: number, sd: number): MetricBaseline => ({
+      mean: Number(mean),
+      sd: Number(sd),
+      hourlyOffsets: circadian[name]?.length === 24 ? circadian[name].map(Number) : new Array(24).fill(0)
+    });
+
+    return {
+      heartRate: metric('heartRate', data.heart_rate_mean, data.heart_rate_sd),
+      skinTemp: metric('skinTemp', data.skin_temp_mean, data.skin_temp_sd),
+      eda: metric('eda', data.eda_mean, data.eda_sd),
+      sampleCount: data.sample_count,
+      readingsFrom: new Date(data.readings_from),
+      readingsTo: new Date(data.readings_to),
+      calibratedAt: new Date(data.calibrated_at)
+    };
+  }
+
+  static async save(userId: string, baseline: BiosensorBaseline): Promise<void> {
+    const circadian = Object.fromEntries(METRICS.map(metric => [metric, baseline[metric].hourlyOffsets])) as Json;
+
+    const { error } = await supabase
+      .from('biosensor_baselines')
+      .upsert({
+        user_id: userId,
+        heart_rate_mean: baseline.heartRate.mean,
+        heart_rate_sd: baseline.heartRate.sd,
+        skin_temp_mean: baseline.skinTemp.mean,
+        skin_temp_sd: baseline.skinTemp.sd,
+        eda_mean: baseline.eda.mean,
+        eda_sd: baseline.eda.sd,
+        circadian,
+        sample_count: baseline.sampleCount,
+        readings_from: baseline.readingsFrom.toISOString(),
+        readings_to: baseline.readingsTo.toISOString(),
+        calibrated_at: baseline.calibratedAt.toISOString()
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      throw new Error(`Saving the biosensor baseline failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Most recent readings since `since`, paged past the row limit
+   */
+  private static async fetchReadings(userId: string, since: Date): Promise<CalibrationReading[]> {
+    const readings: CalibrationReading[] = [];
+
+    for (let from = 0; from < MAX_CALIBRATION_READINGS; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('biosensor_readings')
+        .select('timestamp, heart_rate, skin_temp, eda')
+        .eq('user_id', userId)
+        .gte('timestamp', since.toISOString())
+        .order('timestamp', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Loading biosensor readings failed: ${error.message}`);
+      }
+
+      readings.push(...data.map(row => ({
+        timestamp: new Date(row.timestamp).getTime(),
+        heartRate: Number(row.heart_rate),
+        skinTemp: Number(row.skin_temp),
+        eda: Number(row.eda)
+      })));
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    return readings;
+  }
+
+  private static async fetchSeizureTimes(userId: string, since: Date): Promise<number[]> {
+    const from = new Date(since.getTime() - EVENT_EXCLUSION_MS).toISOString();
+    const [events, alerts] = await Promise.all([
+      supabase
+        .from('seizure_events')
+        .select('timestamp')
+        .eq('user_id', userId)
+        .gte('timestamp', from),
+      supabase
+        .from('alerts')
+        .select('triggered_at, seizure_at, outcome')
+        .eq('user_id', userId)
+        .gte('triggered_at', from)
+    ]);
+
+    if (events.error) {
+      throw new Error(`Loading seizure events failed: ${events.error.message}`);
+    }
+    if (alerts.error) {
+      throw new Error(`Loading alerts failed: ${alerts.error.message}`);
+    }
+    return [
+      ...events.data.map(row => new Date(row.timestamp).getTime()),
+      ...alerts.data
+        .filter(row => row.outcome !== 'false_alarm')
+        .map(row => new Date(row.seizure_at ?? row.triggered_at).getTime())
+    ];
+  }
+
+  private static ramp(z: number): number {
+    return Math.max(0, Math.min(1, (z - 1) / 2));
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const baseline = await BiosensorCalibration.calibrate(user.id);
+ * const risk = BiosensorCalibration.scoreRisk(reading, history, baseline);
+ * console.log(`Last calibrated ${baseline.calibratedAt.toLocaleString()}`);
+ */
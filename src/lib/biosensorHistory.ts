@@ -0,0 +1,170 @@
+/**
+ * Biosensor History - Zoom-aware queries over raw readings and their rollups
+ *
+ * Purpose: Load the biosensor history for a time window at a resolution that
+ * fits in one request - raw 1 Hz readings for the last few minutes, and the
+ * minute, hour or day rollups from biosensor_rollups for longer spans
+ * Learning Focus: Pick the resolution from the window, not the other way
+ * round. Every zoom level keeps its bucket count under PostgREST's row limit,
+ * so six months cost the same single request as fifteen minutes.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type HistoryResolution = 'raw' | 'minute' | 'hour' | 'day';
+export type HistoryMetric = 'heartRate' | 'skinTemp' | 'eda' | 'seizureRisk';
+
+export interface MetricSummary {
+  mean: number;
+  min: number;
+  max: number;
+  p05: number;
+  p50: number;
+  p95: number;
+}
+
+export type HistoryPoint = {
+  timestamp: number;          // Reading time, or bucket start
+  sampleCount: number;        // Readings summarised (1 for raw)
+} & Record<HistoryMetric, MetricSummary>;
+
+export interface HistoryZoom {
+  id: string;
+  label: string;
+  spanMs: number;
+  resolution: HistoryResolution;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_ROWS = 1000;        // PostgREST's default row limit
+
+// At one reading per second; each level stays under MAX_ROWS
+export const HISTORY_ZOOM_LEVELS: HistoryZoom[] = [
+  { id: '15m', label: 'Last 15 minutes', spanMs: 15 * MINUTE_MS, resolution: 'raw' },    // 900 readings
+  { id: '12h', label: 'Last 12 hours', spanMs: 12 * HOUR_MS, resolution: 'minute' },     // 720 buckets
+  { id: '1w', label: 'Last week', spanMs: 7 * DAY_MS, resolution: 'hour' },              // 168
+  { id: '30d', label: 'Last 30 days', spanMs: 30 * DAY_MS, resolution: 'hour' },         // 720
+  { id: '6mo', label: 'Last 6 months', spanMs: 183 * DAY_MS, resolution: 'day' }         // 183
+];
+
+const COLUMNS: Record<HistoryMetric, string> = {
+  heartRate: 'heart_rate',
+  skinTemp: 'skin_temp',
+  eda: 'eda',
+  seizureRisk: 'seizure_risk'
+};
+
+export interface HistoryQuery {
+  end?: Date;                 // Window end; defaults to now
+  minRisk?: number;           // Only readings (or buckets whose peak risk) reached this
+}
+
+export class BiosensorHistory {
+
+  /**
+   * Readings or buckets in the zoom window ending at `end`, oldest first
+   */
+  static async load(userId: string, zoom: HistoryZoom, query: HistoryQuery = {}): Promise<HistoryPoint[]> {
+    const end = query.end ?? new Date();
+    const start = new Date(end.getTime() - zoom.spanMs);
+
+    return zoom.resolution === 'raw'
+      ? this.loadReadings(userId, start, end, query.minRisk)
+      : this.loadRollups(userId, zoom.resolution, start, end, query.minRisk);
+  }
+
+  /**
+   * Totals across points: readings, sample-weighted mean risk and peak risk
+   */
+  static summarize(points: HistoryPoint[]): { sampleCount: number; meanRisk: number; maxRisk: number } {
+    const sampleCount = points.reduce((sum, point) => sum + point.sampleCount, 0);
+    const weightedRisk = points.reduce((sum, point) => sum + point.seizureRisk.mean * point.sampleCount, 0);
+
+    return {
+      sampleCount,
+      meanRisk: sampleCount > 0 ? weightedRisk / sampleCount : 0,
+      maxRisk: points.reduce((max, point) => Math.max(max, point.seizureRisk.max), 0)
+    };
+  }
+
+  private static async loadReadings(userId: string, start: Date, end: Date, minRisk?: number): Promise<HistoryPoint[]> {
+    let request = supabase
+      .from('biosensor_readings')
+      .select('timestamp, heart_rate, skin_temp, eda, seizure_risk')
+      .eq('user_id', userId)
+      .gte('timestamp', start.toISOString())
+      .lt('timestamp', end.toISOString());
+    if (minRisk !== undefined) request = request.gte('seizure_risk', minRisk);
+
+    const { data, error } = await request.order('timestamp', { ascending: true }).limit(MAX_ROWS);
+    if (error) {
+      throw new Error(`Loading biosensor readings failed: ${error.message}`);
+    }
+
+    const exact = (value: number): MetricSummary => {
+      const number = Number(value);
+      return { mean: number, min: number, max: number, p05: number, p50: number, p95: number };
+    };
+    return data.map(row => ({
+      timestamp: new Date(row.timestamp).getTime(),
+      sampleCount: 1,
+      heartRate: exact(row.heart_rate),
+      skinTemp: exact(row.skin_temp),
+      eda: exact(row.eda),
+      seizureRisk: exact(row.seizure_risk)
+    }));
+  }
+
+  private static async loadRollups(
+    userId: string,
+    resolution: Exclude<HistoryResolution, 'raw'>,
+    start: Date,
+    end: Date,
+    minRisk?: number
+  ): Promise<HistoryPoint[]> {
+    let request = supabase
+      .from('biosensor_rollups')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('resolution', resolution)
+      .gte('bucket', start.toISOString())
+      .lt('bucket', end.toISOString());
+    if (minRisk !== undefined) request = request.gte('seizure_risk_max', minRisk);
+
+    const { data, error } = await request.order('bucket', { ascending: true }).limit(MAX_ROWS);
+    if (error) {
+      throw new Error(`Loading biosensor ${resolution} rollups failed: ${error.message}`);
+    }
+
+    const summary = (row: Tables<'biosensor_rollups'>, metric: HistoryMetric): MetricSummary => {
+      const column = (stat: keyof MetricSummary) => Number(row[`${COLUMNS[metric]}_${stat}` as keyof typeof row]);
+      return {
+        mean: column('mean'),
+        min: column('min'),
+        max: column('max'),
+        p05: column('p05'),
+        p50: column('p50'),
+        p95: column('p95')
+      };
+    };
+    return data.map(row => ({
+      timestamp: new Date(row.bucket).getTime(),
+      sampleCount: row.sample_count,
+      heartRate: summary(row, 'heartRate'),
+      skinTemp: summary(row, 'skinTemp'),
+      eda: summary(row, 'eda'),
+      seizureRisk: summary(row, 'seizureRisk')
+    }));
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const zoom = HISTORY_ZOOM_LEVELS.find(level => level.id === '30d')!;
+ * const points = await BiosensorHistory.load(user.id, zoom, { minRisk: 50 });
+ * console.log(`${points.length} hourly buckets, peak risk ${BiosensorHistory.summarize(points).maxRisk}%`);
+ */
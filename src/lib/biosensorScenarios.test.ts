@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ScenarioEngine, type BiosensorScenario } from './biosensorScenarios';
+
+const scenario: BiosensorScenario = {
+  id: 'test',
+  name: 'Test scenario',
+  seed: 1234,
+  initial: { heartRate: 70, skinTemp: 36.5, eda: 2 },
+  segments: [
+    { label: 'Baseline', durationSeconds: 1800, heartRate: 72 },
+    { label: 'Rising EDA', durationSeconds: 600, phase: 'aura', eda: { to: 6 } },
+    { label: 'Seizure', durationSeconds: 60, phase: 'ictal', heartRate: 140 },
+    { label: 'Recovery', durationSeconds: 600, phase: 'postictal', heartRate: { to: 80 } }
+  ]
+};
+
+describe('ScenarioEngine', () => {
+  it('gives identical samples for the same seed', () => {
+    const first = new ScenarioEngine(scenario);
+    const second = new ScenarioEngine(scenario);
+    const reseeded = new ScenarioEngine({ ...scenario, seed: 4321 });
+
+    for (const index of [0, 1, 1799, 2400, 3059]) {
+      expect(second.sampleAt(index)).toEqual(first.sampleAt(index));
+    }
+    expect(reseeded.sampleAt(10)).not.toEqual(first.sampleAt(10));
+  });
+
+  it('gives the same sample whether or not earlier ones were read', () => {
+    const played = new ScenarioEngine(scenario);
+    for (let index = 0; index < 1800; index++) played.sampleAt(index);
+
+    expect(new ScenarioEngine(scenario).sampleAt(1800)).toEqual(played.sampleAt(1800));
+  });
+
+  it('ramps from the level the previous segment ended on', () => {
+    const engine = new ScenarioEngine(scenario);
+
+    // EDA was never set before "Rising EDA", so it ramps from the initial 2 µS
+    expect(engine.levelsAt(1800).eda).toBeCloseTo(2);
+    expect(engine.levelsAt(2100).eda).toBeCloseTo(4);
+    // Recovery ramps heart rate from the seizure's 140 bpm down to 80
+    expect(engine.levelsAt(2460).heartRate).toBeCloseTo(140);
+    expect(engine.levelsAt(2760).heartRate).toBeCloseTo(110);
+    expect(engine.levelsAt(3060).heartRate).toBeCloseTo(80);
+  });
+
+  it('reports the EEG phase of each segment', () => {
+    const engine = new ScenarioEngine(scenario);
+
+    expect([0, 1799, 1800, 2400, 2459, 2460, 5000].map(seconds => engine.positionAt(seconds).phase)).toEqual([
+      'interictal', 'interictal', 'aura', 'ictal', 'ictal', 'postictal', 'postictal'
+    ]);
+    expect(engine.positionAt(2430)).toMatchObject({ segmentIndex: 2, segmentStart: 2400 });
+  });
+});
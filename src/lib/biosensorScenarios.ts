@@ -0,0 +1,247 @@
+/**
+ * Biosensor Scenarios - Deterministic, scriptable patient timelines
+ *
+ * Purpose: Describe a session as a JSON list of segments ("30 min baseline,
+ * 10 min rising EDA, ictal spike, post-ictal recovery") and turn it into
+ * biosensor samples and EEG seizure phases, so demos and alert tests replay
+ * the same way every time
+ * Learning Focus: Reproducibility. Noise comes from a seeded generator keyed
+ * by (seed, sample index, metric) instead of a running random stream, so
+ * sample 1800 is identical whether playback started at 0 or jumped there.
+ *
+ * Each segment sets a metric either to a level (held for the segment) or to
+ * { from?, to } (a linear ramp from the previous level, or `from`, to `to`).
+ * A metric a segment leaves out keeps the level the previous segment ended on.
+ */
+
+import type { BiosensorMetric } from './biosensorBaseline';
+import type { BiosensorSample } from './biosensorSources';
+import type { EEGPhase, PhaseTimeline } from './eegGenerator';
+import { createSeededRandom } from './seededRandom';
+
+export type MetricTarget = number | { from?: number; to: number };
+
+export interface ScenarioSegment {
+  label: string;
+  durationSeconds: number;
+  phase?: EEGPhase;                                     // Defaults to 'interictal'
+  heartRate?: MetricTarget;                             // bpm
+  skinTemp?: MetricTarget;                              // °C
+  eda?: MetricTarget;                                   // µS
+  noise?: Partial<Record<BiosensorMetric, number>>;     // Overrides the scenario noise for this segment
+}
+
+export interface BiosensorScenario {
+  id: string;
+  name: string;
+  description?: string;
+  seed: number;
+  sampleIntervalSeconds?: number;                       // Defaults to 1
+  initial?: Partial<Record<BiosensorMetric, number>>;   // Levels before the first segment
+  noise?: Partial<Record<BiosensorMetric, number>>;     // Standard deviation per metric
+  segments: ScenarioSegment[];
+}
+
+export interface ScenarioPosition {
+  segment: ScenarioSegment;
+  segmentIndex: number;
+  segmentStart: number;       // Seconds from scenario start
+  phase: EEGPhase;
+}
+
+const METRICS: BiosensorMetric[] = ['heartRate', 'skinTemp', 'eda'];
+const PHASES: EEGPhase[] = ['interictal', 'aura', 'ictal', 'postictal'];
+
+// Resting levels of SimulatedBiosensorSource
+const DEFAULT_INITIAL: Record<BiosensorMetric, number> = {
+  heartRate: 70,
+  skinTemp: 36.5,
+  eda: 2
+};
+
+const DEFAULT_NOISE: Record<BiosensorMetric, number> = {
+  heartRate: 1.5,
+  skinTemp: 0.03,
+  eda: 0.05
+};
+
+export class ScenarioEngine {
+  readonly scenario: BiosensorScenario;
+  readonly sampleIntervalSeconds: number;
+  readonly durationSeconds: number;
+  readonly sampleCount: number;
+
+  private readonly starts: number[];
+  private readonly levels: Record<BiosensorMetric, { from: number; to: number }>[];
+
+  constructor(scenario: BiosensorScenario) {
+    this.scenario = scenario;
+    this.sampleIntervalSeconds = scenario.sampleIntervalSeconds ?? 1;
+
+    // Resolve every segment's start and end level once
+    let start = 0;
+    let previous = { ...DEFAULT_INITIAL, ...scenario.initial };
+    this.starts = [];
+    this.levels = scenario.segments.map(segment => {
+      this.starts.push(start);
+      start += segment.durationSeconds;
+
+      const resolved = {} as Record<BiosensorMetric, { from: number; to: number }>;
+      for (const metric of METRICS) {
+        const target = segment[metric];
+        resolved[metric] = target === undefined ? { from: previous[metric], to: previous[metric] }
+          : typeof target === 'number' ? { from: target, to: target }
+          : { from: target.from ?? previous[metric], to: target.to };
+      }
+      previous = { heartRate: resolved.heartRate.to, skinTemp: resolved.skinTemp.to, eda: resolved.eda.to };
+      return resolved;
+    });
+
+    this.durationSeconds = start;
+    this.sampleCount = Math.floor(start / this.sampleIntervalSeconds);
+  }
+
+  /**
+   * Validate a scenario from JSON (text or an already parsed value)
+   */
+  static parse(input: string | unknown): BiosensorScenario {
+    const value = typeof input === 'string' ? JSON.parse(input) : input;
+    const scenario = value as BiosensorScenario;
+    const name = typeof scenario?.name === 'string' ? `Scenario "${scenario.name}"` : 'Scenario';
+
+    if (!scenario || typeof scenario !== 'object') {
+      throw new Error('Scenario must be a JSON object');
+    }
+    if (typeof scenario.id !== 'string' || typeof scenario.name !== 'string') {
+      throw new Error('Scenario needs a string "id" and "name"');
+    }
+    if (!Number.isInteger(scenario.seed)) {
+      throw new Error(`${name} needs an integer "seed"`);
+    }
+    if (scenario.sampleIntervalSeconds !== undefined && !(scenario.sampleIntervalSeconds > 0)) {
+      throw new Error(`${name}: "sampleIntervalSeconds" must be positive`);
+    }
+    if (!Array.isArray(scenario.segments) || scenario.segments.length === 0) {
+      throw new Error(`${name} needs at least one segment`);
+    }
+
+    scenario.segments.forEach((segment, i) => {
+      const where = `${name}, segment ${i + 1}`;
+      if (typeof segment?.label !== 'string') {
+        throw new Error(`${where} needs a "label"`);
+      }
+      if (!(typeof segment.durationSeconds === 'number' && segment.durationSeconds > 0)) {
+        throw new Error(`${where} ("${segment.label}") needs a positive "durationSeconds"`);
+      }
+      if (segment.phase !== undefined && !PHASES.includes(segment.phase)) {
+        throw new Error(`${where} ("${segment.label}") has unknown phase "${segment.phase}" (expected ${PHASES.join(', ')})`);
+      }
+      for (const metric of METRICS) {
+        const target = segment[metric];
+        const valid = target === undefined || Number.isFinite(target)
+          || (typeof target === 'object' && Number.isFinite(target?.to) && (target.from === undefined || Number.isFinite(target.from)));
+        if (!valid) {
+          throw new Error(`${where} ("${segment.label}"): "${metric}" must be a number or { "from"?, "to" }`);
+        }
+      }
+    });
+
+    return scenario;
+  }
+
+  /**
+   * Segment and phase at `seconds` from the start (the last segment past the end)
+   */
+  positionAt(seconds: number): ScenarioPosition {
+    let segmentIndex = 0;
+    while (segmentIndex < this.starts.length - 1 && seconds >= this.starts[segmentIndex + 1]) segmentIndex++;
+
+    const segment = this.scenario.segments[segmentIndex];
+    return { segment, segmentIndex, segmentStart: this.starts[segmentIndex], phase: segment.phase ?? 'interictal' };
+  }
+
+  /**
+   * Noise-free level of each metric at `seconds`
+   */
+  levelsAt(seconds: number): Record<BiosensorMetric, number> {
+    const { segmentIndex, segmentStart, segment } = this.positionAt(seconds);
+    const progress = Math.max(0, Math.min(1, (seconds - segmentStart) / segment.durationSeconds));
+    const levels = this.levels[segmentIndex];
+
+    const at = (metric: BiosensorMetric) => levels[metric].from + (levels[metric].to - levels[metric].from) * progress;
+    return { heartRate: at('heartRate'), skinTemp: at('skinTemp'), eda: at('eda') };
+  }
+
+  /**
+   * The index-th sample, timestamped in ms from scenario start. The same
+   * scenario and index always give the same values.
+   */
+  sampleAt(index: number): BiosensorSample {
+    const seconds = index * this.sampleIntervalSeconds;
+    const { segment } = this.positionAt(seconds);
+    const levels = this.levelsAt(seconds);
+    const noise = { ...DEFAULT_NOISE, ...this.scenario.noise, ...segment.noise };
+
+    const value = (metric: BiosensorMetric, metricIndex: number) =>
+      Math.max(0, levels[metric] + noise[metric] * this.gaussian(index, metricIndex));
+
+    return {
+      timestamp: Math.round(seconds * 1000),
+      heartRate: value('heartRate', 0),
+      skinTemp: value('skinTemp', 1),
+      eda: value('eda', 2)
+    };
+  }
+
+  /**
+   * Phases between `from` and `to` seconds, with starts relative to `from` -
+   * the timeline EEGGenerator expects for a window of the scenario
+   */
+  phaseTimeline(from: number, to: number): PhaseTimeline {
+    const timeline: PhaseTimeline = [{ phase: this.positionAt(from).phase, start: 0 }];
+
+    this.starts.forEach((start, i) => {
+      const phase = this.scenario.segments[i].phase ?? 'interictal';
+      if (start > from && start < to && phase !== timeline[timeline.length - 1].phase) {
+        timeline.push({ phase, start: start - from });
+      }
+    });
+    return timeline;
+  }
+
+  /**
+   * Seeded random stream for anything derived from the scenario (e.g. the
+   * EEG for a window), distinct per `stream` key
+   */
+  random(stream: number): () => number {
+    return createSeededRandom(this.hash(this.scenario.seed, stream, 0x45454721));
+  }
+
+  // Standard normal via Box-Muller from two uniforms keyed by sample and metric
+  private gaussian(index: number, metricIndex: number): number {
+    const random = createSeededRandom(this.hash(this.scenario.seed, index, metricIndex));
+    const u = 1 - random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  }
+
+  private hash(a: number, b: number, c: number): number {
+    let h = Math.imul(a ^ 0x9E3779B9, 0x85EBCA6B);
+    h = Math.imul(h ^ (h >>> 13) ^ b, 0xC2B2AE35);
+    h = Math.imul(h ^ (h >>> 16) ^ c, 0x27D4EB2F);
+    return (h ^ (h >>> 15)) >>> 0;
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const engine = new ScenarioEngine(ScenarioEngine.parse(await file.text()));
+ * const sample = engine.sampleAt(1800);               // 30 min in at 1 sample/s
+ * console.log(engine.positionAt(1800).segment.label);
+ *
+ * // EEG for the 10 s around the seizure, with the scenario's phases
+ * const eeg = EEGGenerator.generateSeizureEEG(engine.scenario.id, 10, 'tonic-clonic', 5, {
+ *   timeline: engine.phaseTimeline(2395, 2405),
+ *   random: engine.random(2395)
+ * });
+ */
@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  BluetoothHeartRateSource,
+  ReplayBiosensorSource,
+  WebSocketBiosensorSource,
+  type BiosensorSample
+} from './biosensorSources';
+
+// Stands in for a browser WebSocket; the test decides when it opens, talks and closes
+class MockSocket {
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+  closed = false;
+
+  open() { this.onopen?.(); }
+  send(data: unknown) { this.onmessage?.({ data: JSON.stringify(data) }); }
+  close(code: number = 1000) {
+    this.closed = true;
+    this.onclose?.({ code });
+  }
+}
+
+const createWebSocketSource = () => {
+  const sockets: MockSocket[] = [];
+  const source = new WebSocketBiosensorSource('ws://sensor.local', {
+    createSocket: () => {
+      const socket = new MockSocket();
+      sockets.push(socket);
+      return socket as unknown as WebSocket;
+    }
+  });
+  return { source, sockets };
+};
+
+const bytes = (...values: number[]) => new DataView(new Uint8Array(values).buffer);
+
+describe('ReplayBiosensorSource', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('parses a CSV export with biosensor_readings column names', () => {
+    const samples = ReplayBiosensorSource.parse([
+      'timestamp,heart_rate,skin_temp,eda',
+      '2026-01-01T12:00:00.000Z,72,36.4,2.1',
+      '2026-01-01T12:00:01.000Z,75,36.5,',
+      '2026-01-01T12:00:02.000Z,,,'
+    ].join('\n'), 'session.csv');
+
+    expect(samples).toEqual([
+      { timestamp: Date.parse('2026-01-01T12:00:00.000Z'), heartRate: 72, skinTemp: 36.4, eda: 2.1 },
+      { timestamp: Date.parse('2026-01-01T12:00:01.000Z'), heartRate: 75, skinTemp: 36.5, eda: undefined }
+    ]);
+  });
+
+  it('parses a JSON export with seconds timestamps or none at all', () => {
+    const wrapped = ReplayBiosensorSource.parse(JSON.stringify({ readings: [{ time: 1767268800, heartRate: 80 }] }));
+    const bare = ReplayBiosensorSource.parse(JSON.stringify([{ hr: 60 }, { hr: 61 }]), 'strap.json');
+
+    expect(wrapped[0].timestamp).toBe(1767268800000);
+    expect(bare.map(sample => sample.timestamp)).toEqual([0, 1000]);
+  });
+
+  it('rejects files without readings', () => {
+    expect(() => ReplayBiosensorSource.parse('timestamp,note\n1,none', 'notes.csv')).toThrow(/notes\.csv/);
+    expect(() => ReplayBiosensorSource.parse('{"rows": []}')).toThrow(/readings/);
+  });
+
+  it('plays samples back at their recorded spacing, scaled by speed', () => {
+    vi.useFakeTimers();
+    const recorded: BiosensorSample[] = [0, 2000, 3000].map((timestamp, i) => ({ timestamp, heartRate: 70 + i }));
+    const source = new ReplayBiosensorSource(recorded, { speed: 2 });
+    const heard: number[] = [];
+    const onEnd = vi.fn();
+
+    source.start({ onSample: sample => heard.push(sample.heartRate), onEnd });
+    expect(heard).toEqual([70]);
+
+    vi.advanceTimersByTime(999);
+    expect(heard).toEqual([70]);
+    vi.advanceTimersByTime(1);
+    expect(heard).toEqual([70, 71]);
+    vi.advanceTimersByTime(500);
+    expect(heard).toEqual([70, 71, 72]);
+
+    vi.advanceTimersByTime(500);
+    expect(onEnd).toHaveBeenCalledOnce();
+  });
+});
+
+describe('WebSocketBiosensorSource', () => {
+  it('emits a sample for each reading in a message and skips invalid ones', async () => {
+    const { source, sockets } = createWebSocketSource();
+    const heard: BiosensorSample[] = [];
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const started = source.start({ onSample: sample => heard.push(sample) });
+    sockets[0].open();
+    await started;
+
+    sockets[0].send({ heart_rate: 90, timestamp: 1767268800000 });
+    sockets[0].send([{ eda: 3.2 }, { note: 'no metric' }]);
+    sockets[0].onmessage?.({ data: 'not json' });
+
+    expect(heard.map(sample => [sample.heartRate, sample.eda])).toEqual([[90, undefined], [undefined, 3.2]]);
+    expect(heard[0].timestamp).toBe(1767268800000);
+    expect(console.error).toHaveBeenCalledOnce();
+    vi.restoreAllMocks();
+  });
+
+  it('rejects start() when the stream closes before connecting', async () => {
+    const { source, sockets } = createWebSocketSource();
+
+    const started = source.start({ onSample: () => {} });
+    sockets[0].close(1006);
+
+    await expect(started).rejects.toThrow(/code 1006/);
+  });
+
+  it('reports a dropped connection after it opened', async () => {
+    const { source, sockets } = createWebSocketSource();
+    const onError = vi.fn();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const started = source.start({ onSample: () => {}, onError });
+    sockets[0].open();
+    await started;
+    sockets[0].close(1011);
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringMatching(/code 1011/) }));
+    vi.restoreAllMocks();
+  });
+
+  it('rejects start() when stopped while still connecting', async () => {
+    const { source, sockets } = createWebSocketSource();
+
+    const started = source.start({ onSample: () => {} });
+    source.stop();
+
+    await expect(started).rejects.toThrow(/stopped before it connected/);
+    expect(sockets[0].closed).toBe(true);
+  });
+
+  it('rejects the earlier start() when started again while connecting', async () => {
+    const { source, sockets } = createWebSocketSource();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const first = source.start({ onSample: () => {} });
+    const second = source.start({ onSample: () => {} });
+    sockets[1].open();
+
+    await expect(first).rejects.toThrow(/stopped before it connected/);
+    await expect(second).resolves.toBeUndefined();
+    vi.restoreAllMocks();
+  });
+});
+
+describe('BluetoothHeartRateSource.parseHeartRateMeasurement', () => {
+  it('reads an 8-bit heart rate', () => {
+    expect(BluetoothHeartRateSource.parseHeartRateMeasurement(bytes(0x00, 72))).toEqual({ heartRate: 72, rrIntervals: [] });
+  });
+
+  it('reads a 16-bit heart rate and skips energy expended before the RR intervals', () => {
+    // Flags: 16-bit value, energy expended present, RR intervals present
+    const view = bytes(0x19, 0x2c, 0x01, 0x10, 0x00, 0x00, 0x04, 0x00, 0x02);
+
+    expect(BluetoothHeartRateSource.parseHeartRateMeasurement(view)).toEqual({ heartRate: 300, rrIntervals: [1, 0.5] });
+  });
+
+  it('ignores a trailing odd byte in the RR intervals', () => {
+    expect(BluetoothHeartRateSource.parseHeartRateMeasurement(bytes(0x10, 60, 0x00, 0x04, 0x01))).toEqual({ heartRate: 60, rrIntervals: [1] });
+  });
+});
@@ -0,0 +1,531 @@
+/**
+ * Biosensor Sources - Interchangeable feeds for heart rate, skin temperature and EDA
+ *
+ * Purpose: Give useBiosensorData one interface for every place readings can
+ * come from: the built-in simulator, a scripted scenario, a recorded CSV/JSON
+ * file, a WebSocket stream, or a Bluetooth heart-rate strap
+ * Learning Focus: Each source takes its outside world (random numbers, the
+ * socket constructor, navigator.bluetooth) as an option, so it can be driven
+ * by a local mock instead of real hardware.
+ *
+ * Sources emit BiosensorSample values. A sample may carry only some metrics
+ * (a heart-rate strap has no temperature or EDA sensor); the consumer keeps
+ * the last known value for the others.
+ */
+
+import type { BiosensorReading } from '@/hooks/useBiosensorData';
+import { ScenarioEngine, type BiosensorScenario, type ScenarioPosition } from './biosensorScenarios';
+
+export type BiosensorSample = { timestamp: number } & Partial<Omit<BiosensorReading, 'timestamp' | 'seizureRisk'>>;
+
+export interface BiosensorSourceListener {
+  onSample: (sample: BiosensorSample) => void;
+  onError?: (error: Error) => void;
+  onEnd?: () => void;             // A finite source (replay, scenario) ran out
+}
+
+export type BiosensorSourceKind = 'simulator' | 'scenario' | 'replay' | 'websocket' | 'bluetooth';
+
+export interface BiosensorSource {
+  readonly kind: BiosensorSourceKind;
+  readonly label: string;
+  /**
+   * Begin emitting samples; resolves once the source is connected
+   */
+  start(listener: BiosensorSourceListener): Promise<void>;
+  stop(): void;
+}
+
+export type BiosensorSourceConfig =
+  | { kind: 'simulator' }
+  | { kind: 'scenario'; scenario: BiosensorScenario; options?: Partial<ScenarioSourceOptions> }
+  | { kind: 'replay'; samples: BiosensorSample[]; options?: Partial<ReplaySourceOptions> }
+  | { kind: 'websocket'; url: string }
+  | { kind: 'bluetooth' };
+
+export function createBiosensorSource(config: BiosensorSourceConfig): BiosensorSource {
+  switch (config.kind) {
+    case 'simulator':
+      return new SimulatedBiosensorSource();
+    case 'scenario':
+      return new ScenarioBiosensorSource(config.scenario, config.options);
+    case 'replay':
+      return new ReplayBiosensorSource(config.samples, config.options);
+    case 'websocket':
+      return new WebSocketBiosensorSource(config.url);
+    case 'bluetooth':
+      return new BluetoothHeartRateSource();
+  }
+}
+
+/**
+ * Accepts camelCase or the biosensor_readings column names; returns null when
+ * the record holds no metric
+ */
+export function toBiosensorSample(record: Record<string, unknown>, fallbackTimestamp: number): BiosensorSample | null {
+  const number = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = record[key];
+      if (value !== undefined && value !== null && value !== '' && Number.isFinite(Number(value))) return Number(value);
+    }
+    return undefined;
+  };
+
+  const sample: BiosensorSample = {
+    timestamp: parseTimestamp(record.timestamp ?? record.time) ?? fallbackTimestamp,
+    heartRate: number('heartRate', 'heart_rate', 'hr'),
+    skinTemp: number('skinTemp', 'skin_temp', 'temperature'),
+    eda: number('eda', 'EDA')
+  };
+
+  return sample.heartRate === undefined && sample.skinTemp === undefined && sample.eda === undefined ? null : sample;
+}
+
+// ms since epoch, seconds since epoch, or an ISO string
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value < 1e11 ? value * 1000 : value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) return parseTimestamp(numeric);
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+export interface SimulatorOptions {
+  intervalMs: number;
+  preSeizureProbability: number;  // Chance per reading of a pre-seizure pattern
+  random: () => number;
+}
+
+/**
+ * Synthetic readings with realistic slow oscillation and noise
+ */
+export class SimulatedBiosensorSource implements BiosensorSource {
+  readonly kind = 'simulator';
+  readonly label = 'Simulator';
+  readonly options: SimulatorOptions;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: Partial<SimulatorOptions> = {}) {
+    this.options = { intervalMs: 1000, preSeizureProbability: 0.05, random: Math.random, ...options };
+  }
+
+  async start(listener: BiosensorSourceListener): Promise<void> {
+    this.stop();
+    const emit = () => {
+      const isPreSeizure = this.options.random() < this.options.preSeizureProbability;
+      listener.onSample(SimulatedBiosensorSource.generate(Date.now(), isPreSeizure, this.options.random));
+    };
+    emit();
+    this.timer = setInterval(emit, this.options.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  static generate(
+    timestamp: number,
+    isPreSeizure: boolean = false,
+    random: () => number = Math.random
+  ): Omit<BiosensorReading, 'seizureRisk'> {
+    // Normal ranges
+    let heartRate = 70 + Math.sin(timestamp / 10000) * 10 + random() * 6 - 3;
+    let skinTemp = 36.5 + Math.sin(timestamp / 20000) * 0.3 + random() * 0.2 - 0.1;
+    let eda = 2 + Math.sin(timestamp / 15000) * 0.5 + random() * 0.3 - 0.15;
+
+    // Pre-seizure patterns (for simulation)
+    if (isPreSeizure) {
+      heartRate += 15 + random() * 10; // Elevated heart rate
+      skinTemp -= 0.3 + random() * 0.2; // Drop in temperature
+      eda += 1.5 + random() * 0.8; // Increased skin conductance
+    }
+
+    return {
+      timestamp,
+      heartRate: Math.max(50, Math.min(150, heartRate)),
+      skinTemp: Math.max(35, Math.min(38, skinTemp)),
+      eda: Math.max(0.5, Math.min(6, eda))
+    };
+  }
+}
+
+export interface ScenarioSourceOptions {
+  speed: number;                  // 1 = real time; 60 plays a minute per second
+  loop: boolean;
+}
+
+/**
+ * Plays a BiosensorScenario sample by sample. Like replay, samples carry the
+ * current time; `position` tells the UI where in the script playback is.
+ * stop() pauses; the next start() resumes.
+ */
+export class ScenarioBiosensorSource implements BiosensorSource {
+  readonly kind = 'scenario';
+  readonly engine: ScenarioEngine;
+  readonly options: ScenarioSourceOptions;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private index: number = 0;
+
+  constructor(scenario: BiosensorScenario, options: Partial<ScenarioSourceOptions> = {}) {
+    this.engine = new ScenarioEngine(scenario);
+    this.options = { speed: 1, loop: false, ...options };
+    if (!(this.options.speed > 0)) {
+      throw new Error(`Scenario speed must be positive (got ${this.options.speed})`);
+    }
+  }
+
+  get label(): string {
+    return `Scenario: ${this.engine.scenario.name}`;
+  }
+
+  /**
+   * Seconds into the scenario of the last emitted sample
+   */
+  get elapsedSeconds(): number {
+    return Math.max(0, this.index - 1) * this.engine.sampleIntervalSeconds;
+  }
+
+  get position(): ScenarioPosition {
+    return this.engine.positionAt(this.elapsedSeconds);
+  }
+
+  async start(listener: BiosensorSourceListener): Promise<void> {
+    this.stop();
+
+    const step = () => {
+      if (this.index >= this.engine.sampleCount) {
+        if (!this.options.loop) {
+          this.stop();
+          this.index = 0;
+          listener.onEnd?.();
+          return;
+        }
+        this.index = 0;
+      }
+      listener.onSample({ ...this.engine.sampleAt(this.index++), timestamp: Date.now() });
+    };
+    step();
+    if (this.index > 0) {
+      this.timer = setInterval(step, this.engine.sampleIntervalSeconds * 1000 / this.options.speed);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+export interface ReplaySourceOptions {
+  name: string;
+  speed: number;                  // 1 = original pace
+  loop: boolean;
+  maxGapMs: number;               // Longer pauses in the recording are shortened to this
+}
+
+/**
+ * Plays back recorded samples at their original spacing. Samples are emitted
+ * with the current time, so a replay looks like a live session downstream.
+ * stop() pauses; the next start() resumes where playback stopped.
+ */
+export class ReplayBiosensorSource implements BiosensorSource {
+  readonly kind = 'replay';
+  readonly samples: BiosensorSample[];
+  readonly options: ReplaySourceOptions;
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private position: number = 0;
+
+  constructor(samples: BiosensorSample[], options: Partial<ReplaySourceOptions> = {}) {
+    if (samples.length === 0) {
+      throw new Error('Replay needs at least one sample');
+    }
+    this.samples = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+    this.options = { name: 'recording', speed: 1, loop: false, maxGapMs: 5000, ...options };
+    if (!(this.options.speed > 0)) {
+      throw new Error(`Replay speed must be positive (got ${this.options.speed})`);
+    }
+  }
+
+  get label(): string {
+    return `Replay: ${this.options.name}`;
+  }
+
+  async start(listener: BiosensorSourceListener): Promise<void> {
+    this.stop();
+
+    const step = () => {
+      if (this.position >= this.samples.length) {
+        if (!this.options.loop) {
+          this.timer = null;
+          this.position = 0;
+          listener.onEnd?.();
+          return;
+        }
+        this.position = 0;
+      }
+
+      const sample = this.samples[this.position++];
+      listener.onSample({ ...sample, timestamp: Date.now() });
+
+      const next = this.samples[this.position];
+      const gap = next ? (next.timestamp - sample.timestamp) / this.options.speed : 1000 / this.options.speed;
+      this.timer = setTimeout(step, Math.min(this.options.maxGapMs, Math.max(0, gap)));
+    };
+    step();
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Parse a CSV (header row required) or JSON export (an array of records,
+   * or { readings: [...] }). Records without a timestamp are spaced 1 s apart.
+   */
+  static parse(text: string, fileName: string = ''): BiosensorSample[] {
+    const trimmed = text.trim();
+    const isJSON = fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{');
+    const records = isJSON ? this.parseJSON(trimmed) : this.parseCSV(trimmed);
+
+    const samples = records
+      .map((record, i) => toBiosensorSample(record, i * 1000))
+      .filter((sample): sample is BiosensorSample => sample !== null);
+
+    if (samples.length === 0) {
+      throw new Error(`No biosensor readings found in ${fileName || 'the file'}`);
+    }
+    return samples;
+  }
+
+  private static parseJSON(text: string): Record<string, unknown>[] {
+    const parsed = JSON.parse(text);
+    const records = Array.isArray(parsed) ? parsed : parsed?.readings;
+    if (!Array.isArray(records)) {
+      throw new Error('Expected a JSON array of readings or { "readings": [...] }');
+    }
+    return records;
+  }
+
+  private static parseCSV(text: string): Record<string, unknown>[] {
+    const [headerLine, ...lines] = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (!headerLine) return [];
+
+    const headers = headerLine.split(',').map(header => header.trim().replace(/^"|"$/g, ''));
+    return lines.map(line => {
+      const cells = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+      return Object.fromEntries(headers.map((header, i) => [header, cells[i]]));
+    });
+  }
+}
+
+export interface WebSocketSourceOptions {
+  createSocket: (url: string) => WebSocket;
+}
+
+/**
+ * JSON messages from a WebSocket: one reading or an array of readings per
+ * message, using the same field names as the replay parser
+ */
+export class WebSocketBiosensorSource implements BiosensorSource {
+  readonly kind = 'websocket';
+  readonly url: string;
+  readonly options: WebSocketSourceOptions;
+
+  private socket: WebSocket | null = null;
+  private cancelConnect: ((error: Error) => void) | null = null;   // Rejects a start() still connecting
+
+  constructor(url: string, options: Partial<WebSocketSourceOptions> = {}) {
+    this.url = url;
+    this.options = { createSocket: socketUrl => new WebSocket(socketUrl), ...options };
+  }
+
+  get label(): string {
+    return `WebSocket: ${this.url}`;
+  }
+
+  start(listener: BiosensorSourceListener): Promise<void> {
+    this.stop();
+
+    return new Promise((resolve, reject) => {
+      const socket = this.options.createSocket(this.url);
+      this.socket = socket;
+      let opened = false;
+      this.cancelConnect = reject;
+
+      socket.onopen = () => {
+        if (this.socket !== socket) return;
+        opened = true;
+        this.cancelConnect = null;
+        console.log(`🔌 Biosensor stream connected: ${this.url}`);
+        resolve();
+      };
+      socket.onmessage = event => {
+        try {
+          const payload = JSON.parse(String(event.data));
+          for (const record of Array.isArray(payload) ? payload : [payload]) {
+            const sample = toBiosensorSample(record, Date.now());
+            if (sample) listener.onSample(sample);
+          }
+        } catch (error) {
+          console.error('❌ Invalid biosensor message:', error);
+        }
+      };
+      socket.onclose = event => {
+        if (this.socket !== socket) return;    // Closed by stop()
+        this.socket = null;
+        this.cancelConnect = null;
+        const error = new Error(`Biosensor stream closed (code ${event.code})`);
+        if (opened) listener.onError?.(error);
+        else reject(error);
+      };
+    });
+  }
+
+  stop(): void {
+    const socket = this.socket;
+    const cancelConnect = this.cancelConnect;
+    this.socket = null;
+    this.cancelConnect = null;
+    socket?.close();
+    cancelConnect?.(new Error(`Biosensor stream stopped before it connected: ${this.url}`));
+  }
+}
+
+export interface HeartRateMeasurement {
+  heartRate: number;
+  rrIntervals: number[];          // Seconds between beats, when the strap reports them
+}
+
+// The slice of the Web Bluetooth API used here (not part of TypeScript's DOM lib)
+export interface BluetoothHeartRateCharacteristic extends EventTarget {
+  value?: DataView;
+  startNotifications(): Promise<unknown>;
+  stopNotifications(): Promise<unknown>;
+}
+
+export interface BluetoothHeartRateDevice extends EventTarget {
+  name?: string;
+  gatt?: {
+    connected: boolean;
+    connect(): Promise<{
+      getPrimaryService(service: string): Promise<{
+        getCharacteristic(characteristic: string): Promise<BluetoothHeartRateCharacteristic>;
+      }>;
+    }>;
+    disconnect(): void;
+  };
+}
+
+export interface BluetoothLike {
+  requestDevice(options: { filters: { services: string[] }[] }): Promise<BluetoothHeartRateDevice>;
+}
+
+/**
+ * Any strap implementing the standard Bluetooth Heart Rate Profile. Provides
+ * heart rate only.
+ */
+export class BluetoothHeartRateSource implements BiosensorSource {
+  readonly kind = 'bluetooth';
+
+  private readonly bluetooth: BluetoothLike | undefined;
+  private device: BluetoothHeartRateDevice | null = null;
+  private characteristic: BluetoothHeartRateCharacteristic | null = null;
+  private detach: (() => void) | null = null;
+
+  constructor(bluetooth?: BluetoothLike) {
+    this.bluetooth = bluetooth ?? (globalThis.navigator as Navigator & { bluetooth?: BluetoothLike } | undefined)?.bluetooth;
+  }
+
+  get label(): string {
+    return this.device?.name ? `Bluetooth: ${this.device.name}` : 'Bluetooth heart rate';
+  }
+
+  /**
+   * Opens the browser's device chooser, so call it from a user gesture
+   */
+  async start(listener: BiosensorSourceListener): Promise<void> {
+    if (!this.bluetooth) {
+      throw new Error('Web Bluetooth is not available in this browser');
+    }
+    this.stop();
+
+    const device = await this.bluetooth.requestDevice({ filters: [{ services: ['heart_rate'] }] });
+    if (!device.gatt) {
+      throw new Error(`${device.name ?? 'Device'} has no GATT server`);
+    }
+
+    const server = await device.gatt.connect();
+    const service = await server.getPrimaryService('heart_rate');
+    const characteristic = await service.getCharacteristic('heart_rate_measurement');
+
+    const onValue = () => {
+      if (!characteristic.value) return;
+      const { heartRate } = BluetoothHeartRateSource.parseHeartRateMeasurement(characteristic.value);
+      listener.onSample({ timestamp: Date.now(), heartRate });
+    };
+    const onDisconnect = () => {
+      this.detach?.();
+      listener.onError?.(new Error(`${device.name ?? 'Heart rate sensor'} disconnected`));
+    };
+
+    characteristic.addEventListener('characteristicvaluechanged', onValue);
+    device.addEventListener('gattserverdisconnected', onDisconnect);
+    this.detach = () => {
+      characteristic.removeEventListener('characteristicvaluechanged', onValue);
+      device.removeEventListener('gattserverdisconnected', onDisconnect);
+      this.detach = null;
+    };
+
+    await characteristic.startNotifications();
+    this.device = device;
+    this.characteristic = characteristic;
+    console.log(`💓 Connected to ${device.name ?? 'heart rate sensor'}`);
+  }
+
+  stop(): void {
+    this.detach?.();
+    this.characteristic?.stopNotifications().catch(() => {});
+    if (this.device?.gatt?.connected) this.device.gatt.disconnect();
+    this.characteristic = null;
+  }
+
+  /**
+   * Decode a Heart Rate Measurement characteristic value (GATT 0x2A37):
+   * flags, 8- or 16-bit heart rate, optional energy expended, RR intervals
+   * in 1/1024 s
+   */
+  static parseHeartRateMeasurement(view: DataView): HeartRateMeasurement {
+    const flags = view.getUint8(0);
+    const wideHeartRate = (flags & 0x01) !== 0;
+    const heartRate = wideHeartRate ? view.getUint16(1, true) : view.getUint8(1);
+
+    let offset = wideHeartRate ? 3 : 2;
+    if (flags & 0x08) offset += 2;    // Energy expended
+
+    const rrIntervals: number[] = [];
+    if (flags & 0x10) {
+      for (; offset + 1 < view.byteLength; offset += 2) {
+        rrIntervals.push(view.getUint16(offset, true) / 1024);
+      }
+    }
+
+    return { heartRate, rrIntervals };
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const samples = ReplayBiosensorSource.parse(await file.text(), file.name);
+ * const source = createBiosensorSource({ kind: 'replay', samples, options: { name: file.name, speed: 4 } });
+ * await source.start({ onSample: sample => console.log(sample.heartRate), onEnd: () => console.log('done') });
+ * source.stop();
+ */
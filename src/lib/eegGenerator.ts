@@ -20,11 +20,34 @@ export interface EEGData {
   metadata: {
     seizureType: string;
     severity: number;
-    phase: 'aura' | 'ictal' | 'postictal';
+    phase: EEGPhase;
     generatedAt: Date;
+    timeline?: PhaseTimeline;  // Phases used; absent means SEIZURE_PHASE_TIMELINE
   };
 }
 
+export type SeizurePhase = 'aura' | 'ictal' | 'postictal';
+
+// Phases a generated recording can pass through ('interictal' = normal background)
+export type EEGPhase = SeizurePhase | 'interictal';
+
+// Phase start times (seconds), ascending from 0
+export type PhaseTimeline = { phase: EEGPhase; start: number }[];
+
+export interface EEGGenerationOptions {
+  timeline?: PhaseTimeline;    // Defaults to SEIZURE_PHASE_TIMELINE
+  random?: () => number;       // Seeded source for reproducible noise
+}
+
+/**
+ * Phase start times (seconds) used by generateSeizureEEG
+ */
+export const SEIZURE_PHASE_TIMELINE: { phase: SeizurePhase; start: number }[] = [
+  { phase: 'aura', start: 0 },
+  { phase: 'ictal', start: 10 },
+  { phase: 'postictal', start: 40 }
+];
+
 /**
  * Standard EEG electrode positions (10-20 system)
  */
@@ -37,7 +60,7 @@ const EEG_CHANNELS = [
  * Generates unique EEG patterns based on seizure characteristics
  */
 export class EEGGenerator {
-  private static getSeizurePattern(seizureId: string, phase: string, time: number): number {
+  private static getSeizurePattern(seizureId: string, phase: string, time: number, random: () => number = Math.random): number {
     // Create unique patterns based on seizure ID and characteristics
     const seed = this.hashCode(seizureId + phase) / 1000000;
     
@@ -46,7 +69,7 @@ export class EEGGenerator {
         // Pre-ictal: Subtle frequency changes, mild amplitude variations
         return Math.sin(time * 8 + seed) * 20 + 
                Math.sin(time * 13 + seed * 2) * 10 +
-               (Math.random() - 0.5) * 5;
+               (random() - 0.5) * 5;
                
       case 'ictal':
         // Ictal: High amplitude spikes, synchronized activity
@@ -54,19 +77,19 @@ export class EEGGenerator {
         const amplitude = 80 + (seed % 40); // 80-120 µV
         return Math.sin(time * spikeFreq * 2 * Math.PI + seed) * amplitude +
                Math.sin(time * 15 + seed) * 30 +
-               (Math.random() - 0.5) * 20;
+               (random() - 0.5) * 20;
                
       case 'postictal':
         // Post-ictal: Suppressed activity, slow recovery
         return Math.sin(time * 2 + seed) * 10 +
                Math.sin(time * 5 + seed * 1.5) * 15 +
-               (Math.random() - 0.5) * 8;
+               (random() - 0.5) * 8;
                
       default:
         // Normal activity: 8-12 Hz alpha waves
         return Math.sin(time * 10 + seed) * 25 +
                Math.sin(time * 8.5 + seed * 0.7) * 15 +
-               (Math.random() - 0.5) * 10;
+               (random() - 0.5) * 10;
     }
   }
 
@@ -90,7 +113,8 @@ export class EEGGenerator {
     seizureId: string,
     duration: number = 60,
     seizureType: string = 'tonic-clonic',
-    severity: number = 5
+    severity: number = 5,
+    options: EEGGenerationOptions = {}
   ): EEGData {
     console.log('🧬 EEG Generator - Starting generation');
     console.log('📊 Parameters:', { seizureId, duration, seizureType, severity });
@@ -110,17 +134,14 @@ export class EEGGenerator {
       const timestamp = Date.now() + (i * 4); // 4ms intervals
       
       // Determine seizure phase based on time
-      let phase: 'aura' | 'ictal' | 'postictal';
-      if (time < 10) phase = 'aura';
-      else if (time < 40) phase = 'ictal';
-      else phase = 'postictal';
+      const phase = this.getPhaseAtTime(time, options.timeline);
 
       const channels: { [channel: string]: number } = {};
       
       EEG_CHANNELS.forEach((channel, channelIndex) => {
         // Each channel has unique characteristics based on brain region
         const channelSeed = seizureSeed + channelIndex * 1000;
-        const basePattern = this.getSeizurePattern(seizureId, phase, time);
+        const basePattern = this.getSeizurePattern(seizureId, phase, time, options.random);
         
         // Add channel-specific variations
         const channelVariation = Math.sin(time * 12 + channelSeed / 10000) * 5;
@@ -145,8 +166,9 @@ export class EEGGenerator {
       metadata: {
         seizureType,
         severity,
-        phase: 'ictal' as const, // Primary phase
-        generatedAt: new Date()
+        phase: this.getPrimaryPhase(options.timeline),
+        generatedAt: new Date(),
+        ...(options.timeline && { timeline: options.timeline })
       }
     };
 
@@ -163,6 +185,28 @@ export class EEGGenerator {
     return eegResult;
   }
 
+  /**
+   * Seizure phase at a given time (seconds) in a generated recording
+   */
+  static getPhaseAtTime(
+    time: number,
+    timeline: PhaseTimeline = SEIZURE_PHASE_TIMELINE
+  ): EEGPhase {
+    let phase = timeline[0]?.phase ?? 'interictal';
+    for (const entry of timeline) {
+      if (time >= entry.start) phase = entry.phase;
+    }
+    return phase;
+  }
+
+  /**
+   * Ictal if the recording contains a seizure, otherwise its last phase
+   */
+  private static getPrimaryPhase(timeline: PhaseTimeline = SEIZURE_PHASE_TIMELINE): EEGPhase {
+    if (timeline.some(entry => entry.phase === 'ictal')) return 'ictal';
+    return timeline[timeline.length - 1]?.phase ?? 'interictal';
+  }
+
   /**
    * Apply spatial modifiers based on electrode location and seizure type
    */
@@ -0,0 +1,166 @@
+/**
+ * Emergency Contact Store - Who gets messaged about alerts, and what happened
+ *
+ * Purpose: Load and save the emergency_contacts escalation chain, and read
+ * back the notifications and delivery attempts the edge function recorded
+ * Learning Focus: The app only reads notification history; the edge function
+ * is the sole writer, so what is shown is what was actually sent.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { AlertSeverity } from './alertRules';
+
+export type ContactChannel = 'sms' | 'email' | 'webhook';
+
+export interface EmergencyContact {
+  id: string;
+  name: string;
+  channel: ContactChannel;
+  address: string;
+  priority: number;                 // Lower is contacted first
+  minSeverity: AlertSeverity;       // Least severe alert this contact wants
+  escalateAfterMinutes: number;     // Wait before moving to the next contact
+  enabled: boolean;
+}
+
+export interface NotificationAttempt {
+  contactName: string;
+  channel: ContactChannel;
+  status: 'sent' | 'failed';
+  error: string | null;
+  attemptedAt: Date;
+  acknowledgedAt: Date | null;
+}
+
+export interface AlertNotification {
+  id: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  triggeredAt: Date;
+  status: 'notifying' | 'acknowledged' | 'exhausted' | 'no_contacts';
+  acknowledgedBy: string | null;
+  acknowledgedAt: Date | null;
+  attempts: NotificationAttempt[];
+}
+
+export const CONTACT_CHANNELS: Record<ContactChannel, { label: string; placeholder: string }> = {
+  sms: { label: 'SMS', placeholder: '+15551234567' },
+  email: { label: 'Email', placeholder: 'name@example.com' },
+  webhook: { label: 'Webhook', placeholder: 'https://example.com/alerts' }
+};
+
+export class EmergencyContactStore {
+
+  static async load(userId: string): Promise<EmergencyContact[]> {
+    const { data, error } = await supabase
+      .from('emergency_contacts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('priority', { ascending: true });
+
+    if (error) {
+      throw new Error(`Loading emergency contacts failed: ${error.message}`);
+    }
+    return data.map(row => this.fromRow(row));
+  }
+
+  /**
+   * Insert or update a contact; returns it with its stored id
+   */
+  static async save(userId: string, contact: EmergencyContact): Promise<EmergencyContact> {
+    if (!contact.name.trim() || !contact.address.trim()) {
+      throw new Error('A contact needs a name and an address');
+    }
+
+    const { data, error } = await supabase
+      .from('emergency_contacts')
+      .upsert({
+        id: contact.id,
+        user_id: userId,
+        name: contact.name.trim(),
+        channel: contact.channel,
+        address: contact.address.trim(),
+        priority: contact.priority,
+        min_severity: contact.minSeverity,
+        escalate_after_minutes: Math.max(1, Math.round(contact.escalateAfterMinutes)),
+        enabled: contact.enabled
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Saving emergency contact "${contact.name}" failed: ${error.message}`);
+    }
+    return this.fromRow(data);
+  }
+
+  static async remove(contactId: string): Promise<void> {
+    const { error } = await supabase
+      .from('emergency_contacts')
+      .delete()
+      .eq('id', contactId);
+
+    if (error) {
+      throw new Error(`Deleting emergency contact failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * The latest dispatched alerts with their delivery attempts, newest first
+   */
+  static async recentNotifications(userId: string, limit: number = 5): Promise<AlertNotification[]> {
+    const { data, error } = await supabase
+      .from('alert_notifications')
+      .select('*, notification_attempts(*)')
+      .eq('user_id', userId)
+      .order('triggered_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Loading alert notifications failed: ${error.message}`);
+    }
+
+    return data.map(row => ({
+      id: row.id,
+      ruleName: row.rule_name,
+      severity: row.severity as AlertSeverity,
+      triggeredAt: new Date(row.triggered_at),
+      status: row.status as AlertNotification['status'],
+      acknowledgedBy: row.acknowledged_by,
+      acknowledgedAt: row.acknowledged_at ? new Date(row.acknowledged_at) : null,
+      attempts: row.notification_attempts
+        .map(attempt => ({
+          contactName: attempt.contact_name,
+          channel: attempt.channel as ContactChannel,
+          status: attempt.status as NotificationAttempt['status'],
+          error: attempt.error,
+          attemptedAt: new Date(attempt.attempted_at),
+          acknowledgedAt: attempt.acknowledged_at ? new Date(attempt.acknowledged_at) : null
+        }))
+        .sort((a, b) => a.attemptedAt.getTime() - b.attemptedAt.getTime())
+    }));
+  }
+
+  private static fromRow(row: Tables<'emergency_contacts'>): EmergencyContact {
+    return {
+      id: row.id,
+      name: row.name,
+      channel: row.channel as ContactChannel,
+      address: row.address,
+      priority: row.priority,
+      minSeverity: row.min_severity as AlertSeverity,
+      escalateAfterMinutes: row.escalate_after_minutes,
+      enabled: row.enabled
+    };
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const contacts = await EmergencyContactStore.load(user.id);
+ * await EmergencyContactStore.save(user.id, { ...contacts[0], escalateAfterMinutes: 3 });
+ * const [latest] = await EmergencyContactStore.recentNotifications(user.id, 1);
+ * console.log(`${latest.ruleName}: ${latest.status}, ${latest.attempts.length} messages`);
+ */
@@ -0,0 +1,111 @@
+/**
+ * Emergency Notifications - Hand alerts to the notify-emergency-contacts edge function
+ *
+ * Purpose: Tell the user's emergency contacts about an alert, and stop the
+ * escalation when the patient says they are OK or a contact confirms from
+ * their acknowledgement link. Contacts, messages and escalation all live
+ * server-side; this is the app's side of the call.
+ * Learning Focus: The alert id is the dispatch id, so a dispatch that timed
+ * out can be retried without anyone being messaged twice.
+ *
+ * Set VITE_NOTIFICATIONS_STUB=true to log instead of calling the function,
+ * e.g. when developing without it deployed.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { AlertEvent } from './alertRules';
+
+export interface EmergencyNotifier {
+  dispatch(event: AlertEvent): Promise<void>;
+  acknowledge(alertId: string): Promise<void>;
+}
+
+const FUNCTION_NAME = 'notify-emergency-contacts';
+const DISPATCH_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+export class EdgeFunctionNotifier implements EmergencyNotifier {
+
+  async dispatch(event: AlertEvent): Promise<void> {
+    const alert = {
+      id: event.id,
+      ruleName: event.rule.name,
+      severity: event.severity,
+      riskLevel: event.sample.seizureRisk ?? null,
+      triggeredAt: new Date(event.timestamp).toISOString()
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      const { data, error } = await supabase.functions.invoke(FUNCTION_NAME, { body: { action: 'dispatch', alert } });
+      if (!error) {
+        console.log(`📣 Alert ${event.id}: ${data.status}${data.contacts ? ` (${data.contacts} contacts)` : ''}`);
+        return;
+      }
+      if (attempt === DISPATCH_ATTEMPTS) {
+        throw new Error(`Notifying emergency contacts failed: ${error.message}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+    }
+  }
+
+  async acknowledge(alertId: string): Promise<void> {
+    const { error } = await supabase.functions.invoke(FUNCTION_NAME, { body: { action: 'acknowledge', alertId } });
+    if (error) {
+      throw new Error(`Acknowledging alert failed: ${error.message}`);
+    }
+  }
+}
+
+export class ConsoleNotifier implements EmergencyNotifier {
+
+  async dispatch(event: AlertEvent): Promise<void> {
+    console.log(`📨 [stub] Would notify emergency contacts: ${event.severity} "${event.rule.name}" (${event.id})`);
+  }
+
+  async acknowledge(alertId: string): Promise<void> {
+    console.log(`📨 [stub] Would stop escalating alert ${alertId}`);
+  }
+}
+
+export interface AcknowledgementLink {
+  status: 'open' | 'acknowledged' | 'already_acknowledged' | 'invalid';
+  contactName?: string;
+}
+
+/**
+ * The acknowledgement link a contact was sent: who it is for and whether the
+ * alert is still open. Used by the /acknowledge page; needs no session.
+ */
+export async function lookupAcknowledgementLink(token: string): Promise<AcknowledgementLink> {
+  const { data, error } = await supabase.functions.invoke(FUNCTION_NAME, { body: { action: 'ackStatus', ack: token } });
+  if (error) {
+    throw new Error(`Checking the acknowledgement link failed: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * The contact confirms they have checked on the patient; escalation stops
+ */
+export async function acknowledgeFromLink(token: string): Promise<AcknowledgementLink> {
+  const { data, error } = await supabase.functions.invoke(FUNCTION_NAME, { body: { action: 'ackLink', ack: token } });
+  if (error) {
+    throw new Error(`Acknowledging alert failed: ${error.message}`);
+  }
+  return data;
+}
+
+// Shared instance used by the alert system
+export const emergencyNotifier: EmergencyNotifier = import.meta.env.VITE_NOTIFICATIONS_STUB === 'true'
+  ? new ConsoleNotifier()
+  : new EdgeFunctionNotifier();
+
+/**
+ * Usage Example:
+ *
+ * for (const event of engine.push(sample)) {
+ *   emergencyNotifier.dispatch(event).catch(console.error);
+ * }
+ * // Patient taps "I'm OK"
+ * await emergencyNotifier.acknowledge(event.id);
+ */
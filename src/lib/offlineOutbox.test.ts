@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryOutboxStore, OfflineOutbox, type OutboxRows, type OutboxTable } from './offlineOutbox';
+
+// The outbox is given its own send() and user below; the real client needs a browser
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const reading = (userId: string, heartRate: number) => ({
+  user_id: userId,
+  timestamp: new Date().toISOString(),
+  heart_rate: heartRate,
+  skin_temp: 36.5,
+  eda: 2,
+  seizure_risk: 10
+});
+
+const refusal = (code: string) => Object.assign(new Error(`refused (${code})`), { code });
+
+const createOutbox = (options: { user: { id: string | null }; refuse?: (row: OutboxRows[OutboxTable]) => string | null }) => {
+  const sent: OutboxRows[OutboxTable][] = [];
+  const outbox = new OfflineOutbox(new MemoryOutboxStore(), {
+    currentUserId: async () => options.user.id,
+    send: async (_table, rows) => {
+      for (const row of rows) {
+        const code = options.refuse?.(row);
+        if (code) throw refusal(code);
+      }
+      sent.push(...rows);
+    }
+  });
+  return { outbox, sent };
+};
+
+describe('OfflineOutbox', () => {
+  it("uploads only the signed-in user's rows and keeps the rest for them", async () => {
+    const user = { id: 'user-a' };
+    const { outbox, sent } = createOutbox({ user });
+
+    await outbox.enqueue('biosensor_readings', reading('user-a', 70));
+    await outbox.enqueue('biosensor_readings', reading('user-b', 80));
+    await outbox.flush();
+
+    expect(sent.map(row => row.user_id)).toEqual(['user-a']);
+    expect(outbox.getStatus().pending).toBe(0);
+
+    user.id = 'user-b';
+    await outbox.flush();
+    expect(sent.map(row => row.user_id)).toEqual(['user-a', 'user-b']);
+  });
+
+  it('uploads nothing while signed out', async () => {
+    const user = { id: null };
+    const { outbox, sent } = createOutbox({ user });
+
+    await outbox.enqueue('biosensor_readings', reading('user-a', 70));
+    await outbox.flush();
+
+    expect(sent).toEqual([]);
+  });
+
+  it('keeps rows refused by row-level security and retries them later', async () => {
+    const user = { id: 'user-a' };
+    let sessionValid = false;
+    const { outbox, sent } = createOutbox({ user, refuse: () => (sessionValid ? null : '42501') });
+
+    await outbox.enqueue('biosensor_readings', reading('user-a', 70));
+    await outbox.flush();
+
+    expect(sent).toEqual([]);
+    expect(outbox.getStatus().rejected).toBe(0);
+    expect(outbox.getStatus().nextRetryAt).not.toBeNull();
+
+    sessionValid = true;
+    await outbox.flush();
+    expect(sent).toHaveLength(1);
+    expect(outbox.getStatus().pending).toBe(0);
+  });
+
+  it('keeps rows while their table is missing and uploads them once it exists', async () => {
+    const user = { id: 'user-a' };
+    let migrated = false;
+    const { outbox, sent } = createOutbox({ user, refuse: () => (migrated ? null : '42P01') });
+
+    await outbox.enqueue('biosensor_readings', reading('user-a', 70));
+    await outbox.enqueue('biosensor_readings', reading('user-a', 72));
+    await outbox.flush();
+
+    expect(sent).toEqual([]);
+    expect(outbox.getStatus().pending).toBe(2);
+    expect(outbox.getStatus().rejected).toBe(0);
+
+    migrated = true;
+    await outbox.flush();
+    expect(sent).toHaveLength(2);
+  });
+
+  it('drops only the rows that break a constraint', async () => {
+    const user = { id: 'user-a' };
+    const { outbox, sent } = createOutbox({
+      user,
+      refuse: row => ((row as OutboxRows['biosensor_readings']).heart_rate < 0 ? '23514' : null)
+    });
+
+    await outbox.enqueue('biosensor_readings', reading('user-a', 70));
+    await outbox.enqueue('biosensor_readings', reading('user-a', -1));
+    await outbox.enqueue('biosensor_readings', reading('user-a', 75));
+    await outbox.flush();
+
+    expect(sent.map(row => (row as OutboxRows['biosensor_readings']).heart_rate)).toEqual([70, 75]);
+    expect(outbox.getStatus().rejected).toBe(1);
+    expect(outbox.getStatus().pending).toBe(0);
+  });
+
+  it('amends rows that are still queued and reports rows already sent', async () => {
+    const user = { id: null as string | null };
+    const { outbox, sent } = createOutbox({ user });
+    const clearRisk = (row: OutboxRows['biosensor_readings']) => ({ ...row, seizure_risk: 0 });
+
+    const id = await outbox.enqueue('biosensor_readings', reading('user-a', 70));
+    expect(await outbox.amend('biosensor_readings', id, clearRisk)).toBe(true);
+    expect(await outbox.amend('alerts', id, row => row)).toBe(false);
+
+    user.id = 'user-a';
+    await outbox.flush();
+    expect((sent[0] as OutboxRows['biosensor_readings']).seizure_risk).toBe(0);
+    expect(await outbox.amend('biosensor_readings', id, clearRisk)).toBe(false);
+  });
+});
@@ -0,0 +1,446 @@
+/**
+ * Offline Outbox - Durable, batched writes for biosensor readings, seizure events and alerts
+ *
+ * Purpose: Never lose a reading to a dropped connection. Rows are written to
+ * an IndexedDB outbox first and uploaded in batches; failed uploads are
+ * retried with exponential backoff, and everything queued in a basement or on
+ * a plane is sent once the device is back online.
+ * Learning Focus: Idempotency. Each row gets its primary key on the device
+ * (crypto.randomUUID) and is upserted with ON CONFLICT DO NOTHING, so a batch
+ * that reached the server but whose response was lost can be resent safely.
+ *
+ * A batch the server refuses outright (bad data, constraints) is retried one
+ * row at a time; rows still refused are dropped and counted in
+ * `status.rejected`, so one bad row cannot block the queue forever.
+ *
+ * The outbox outlives sign-outs, so entries are kept per user (row.user_id)
+ * and only the signed-in user's rows are uploaded. Another account's rows wait
+ * for that account, rather than being refused by row-level security and lost.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+
+export interface OutboxRows {
+  biosensor_readings: TablesInsert<'biosensor_readings'> & { id: string };
+  seizure_events: TablesInsert<'seizure_events'> & { id: string };
+  alerts: TablesInsert<'alerts'> & { id: string };
+}
+
+export type OutboxTable = keyof OutboxRows;
+
+export interface OutboxEntry<T extends OutboxTable = OutboxTable> {
+  id: string;                 // Same as row.id
+  table: T;
+  row: OutboxRows[T];
+  createdAt: number;          // Upload order
+}
+
+export type OutboxState = 'synced' | 'pending' | 'syncing' | 'retrying' | 'offline';
+
+export interface OutboxStatus {
+  state: OutboxState;
+  pending: number;            // The signed-in user's queued rows
+  lastSyncedAt: Date | null;
+  lastError: string | null;
+  nextRetryAt: Date | null;
+  rejected: number;           // Rows the server refused and that were dropped
+}
+
+/**
+ * Where queued rows wait. Implementations only store; batching and retries
+ * happen in OfflineOutbox. Reads are per user (row.user_id).
+ */
+export interface OutboxStore {
+  put(entry: OutboxEntry): Promise<void>;
+  get(id: string): Promise<OutboxEntry | undefined>;
+  oldest(userId: string, limit: number): Promise<OutboxEntry[]>;
+  remove(ids: string[]): Promise<void>;
+  count(userId: string): Promise<number>;
+}
+
+export interface OutboxOptions {
+  batchSize: number;          // Rows per upload request
+  flushIntervalMs: number;
+  baseRetryMs: number;        // First retry delay; doubles per consecutive failure
+  maxRetryMs: number;
+  send: <T extends OutboxTable>(table: T, rows: OutboxRows[T][]) => Promise<void>;
+  currentUserId: () => Promise<string | null>;    // Whose rows to upload; none while signed out
+}
+
+const ENTRY_STORE = 'entries';
+const USER_INDEX = 'userCreatedAt';
+
+// SQLSTATE classes that resending will not fix: data exceptions and
+// integrity violations, plus a value of the wrong type for its column
+const PERMANENT_ERROR_CLASSES = ['22', '23'];
+const PERMANENT_ERROR_CODES = ['42804'];
+// Everything else is retried with backoff. That includes row-level security
+// refusals (42501), which a later sign-in fixes, and missing tables or
+// columns (42P01, 42703) from an app released ahead of its migration
+
+/**
+ * Browser store: one object store keyed by row id, read per user oldest first
+ */
+export class IndexedDBOutboxStore implements OutboxStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly databaseName: string = 'preaura-outbox') {}
+
+  async put(entry: OutboxEntry): Promise<void> {
+    const db = await this.open();
+    await this.complete(db, 'readwrite', store => store.put(entry));
+  }
+
+  async get(id: string): Promise<OutboxEntry | undefined> {
+    const db = await this.open();
+    return this.result<OutboxEntry | undefined>(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).get(id));
+  }
+
+  async oldest(userId: string, limit: number): Promise<OutboxEntry[]> {
+    const db = await this.open();
+    const index = db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).index(USER_INDEX);
+    return this.result<OutboxEntry[]>(index.getAll(IndexedDBOutboxStore.userRange(userId), limit));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const db = await this.open();
+    await this.complete(db, 'readwrite', store => ids.forEach(id => store.delete(id)));
+  }
+
+  async count(userId: string): Promise<number> {
+    const db = await this.open();
+    const index = db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).index(USER_INDEX);
+    return this.result<number>(index.count(IndexedDBOutboxStore.userRange(userId)));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 2);
+        request.onupgradeneeded = event => {
+          const store = event.oldVersion < 1
+            ? request.result.createObjectStore(ENTRY_STORE, { keyPath: 'id' })
+            : request.transaction.objectStore(ENTRY_STORE);
+          if (event.oldVersion < 1) store.createIndex('createdAt', 'createdAt');
+          // Version 2: per-user reads; existing entries are indexed by the user_id already in their row
+          if (event.oldVersion < 2) store.createIndex(USER_INDEX, ['row.user_id', 'createdAt']);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private complete(db: IDBDatabase, mode: IDBTransactionMode, write: (store: IDBObjectStore) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(ENTRY_STORE, mode);
+      write(transaction.objectStore(ENTRY_STORE));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+
+  private static userRange(userId: string): IDBKeyRange {
+    return IDBKeyRange.bound([userId, -Infinity], [userId, Infinity]);
+  }
+
+  private result<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * In-memory store for environments without IndexedDB; survives only the page
+ */
+export class MemoryOutboxStore implements OutboxStore {
+  private entries = new Map<string, OutboxEntry>();
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async get(id: string): Promise<OutboxEntry | undefined> {
+    return this.entries.get(id);
+  }
+
+  async oldest(userId: string, limit: number): Promise<OutboxEntry[]> {
+    return [...this.entries.values()]
+      .filter(entry => entry.row.user_id === userId)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(0, limit);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    ids.forEach(id => this.entries.delete(id));
+  }
+
+  async count(userId: string): Promise<number> {
+    return [...this.entries.values()].filter(entry => entry.row.user_id === userId).length;
+  }
+}
+
+export class OfflineOutbox {
+  readonly options: OutboxOptions;
+
+  private listeners = new Set<(status: OutboxStatus) => void>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private flushing: Promise<void> | null = null;
+  private turn: Promise<unknown> = Promise.resolve();
+  private syncing: boolean = false;
+  private lastCreatedAt: number = 0;
+  private failures: number = 0;
+  private status: OutboxStatus = {
+    state: 'synced',
+    pending: 0,
+    lastSyncedAt: null,
+    lastError: null,
+    nextRetryAt: null,
+    rejected: 0
+  };
+
+  constructor(
+    private readonly store: OutboxStore,
+    options: Partial<OutboxOptions> = {}
+  ) {
+    this.options = {
+      batchSize: 500,
+      flushIntervalMs: 5000,
+      baseRetryMs: 2000,
+      maxRetryMs: 5 * 60 * 1000,
+      send: OfflineOutbox.sendToSupabase,
+      currentUserId: OfflineOutbox.sessionUserId,
+      ...options
+    };
+  }
+
+  /**
+   * Begin periodic uploads (idempotent); uploads immediately when the
+   * browser reports it is back online
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      if (!this.status.nextRetryAt || Date.now() >= this.status.nextRetryAt.getTime()) void this.flush();
+    }, this.options.flushIntervalMs);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+    }
+    void this.refresh();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+  }
+
+  /**
+   * Queue a row for upload; its id is generated here when missing
+   */
+  async enqueue<T extends OutboxTable>(table: T, row: Omit<OutboxRows[T], 'id'> & { id?: string }): Promise<string> {
+    const id = row.id ?? crypto.randomUUID();
+    // Strictly increasing, so rows queued in the same millisecond keep their order
+    const createdAt = this.lastCreatedAt = Math.max(Date.now(), this.lastCreatedAt + 1);
+
+    await this.store.put({ id, table, row: { ...row, id } as OutboxRows[T], createdAt });
+    await this.refresh();
+
+    if (this.status.pending >= this.options.batchSize && !this.status.nextRetryAt) void this.flush();
+    return id;
+  }
+
+  /**
+   * Upload everything the signed-in user has queued, oldest first.
+   * Concurrent calls share one run.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.exclusive(() => this.drain()).finally(() => {
+        this.flushing = null;
+        return this.refresh();
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Change a row that is still queued, e.g. acknowledge an alert before it is
+   * uploaded. Returns false when the row is not in the outbox (already sent).
+   */
+  amend<T extends OutboxTable>(table: T, id: string, change: (row: OutboxRows[T]) => OutboxRows[T]): Promise<boolean> {
+    return this.exclusive(async () => {
+      const entry = await this.store.get(id);
+      if (!entry || entry.table !== table) return false;
+
+      await this.store.put({ ...entry, row: change(entry.row as OutboxRows[T]) });
+      return true;
+    });
+  }
+
+  getStatus(): OutboxStatus {
+    return this.status;
+  }
+
+  /**
+   * Listen for status changes; returns the unsubscribe function
+   */
+  subscribe(listener: (status: OutboxStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.status);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async drain(): Promise<void> {
+    if (OfflineOutbox.isOffline()) return;
+    const userId = await this.options.currentUserId();
+    if (!userId) return;
+    this.syncing = true;
+    this.update({});
+
+    try {
+      for (;;) {
+        const entries = await this.store.oldest(userId, this.options.batchSize);
+        if (entries.length === 0) break;
+
+        for (const table of [...new Set(entries.map(entry => entry.table))]) {
+          await this.sendBatch(table, entries.filter(entry => entry.table === table));
+        }
+        this.failures = 0;
+        this.update({ lastSyncedAt: new Date(), lastError: null, nextRetryAt: null });
+      }
+    } catch (error) {
+      this.failures++;
+      const delay = Math.min(this.options.maxRetryMs, this.options.baseRetryMs * 2 ** (this.failures - 1));
+      this.update({
+        lastError: error instanceof Error ? error.message : String(error),
+        nextRetryAt: new Date(Date.now() + delay * (0.5 + Math.random() / 2))
+      });
+      console.warn(`📴 Upload failed (attempt ${this.failures}), retrying in ${Math.round(delay / 1000)}s:`, error);
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  private async sendBatch(table: OutboxTable, entries: OutboxEntry[]): Promise<void> {
+    try {
+      await this.options.send(table, entries.map(entry => entry.row));
+      await this.store.remove(entries.map(entry => entry.id));
+    } catch (error) {
+      if (!OfflineOutbox.isPermanent(error)) throw error;
+
+      if (entries.length > 1) {
+        // Find the refused rows; the rest still go through
+        for (const entry of entries) {
+          await this.sendBatch(table, [entry]);
+        }
+        return;
+      }
+
+      console.error(`🗑️ Dropping ${table} row ${entries[0].id} refused by the server:`, error);
+      await this.store.remove([entries[0].id]);
+      this.update({ rejected: this.status.rejected + 1 });
+    }
+  }
+
+  /**
+   * Uploads and amendments take turns, so an amendment never lands on a row
+   * that is mid-upload and about to be removed
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.turn.then(task);
+    this.turn = run.catch(() => undefined);
+    return run;
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      const userId = await this.options.currentUserId();
+      this.update({ pending: userId ? await this.store.count(userId) : 0 });
+    } catch (error) {
+      console.error('Error reading the offline outbox:', error);
+    }
+  }
+
+  private update(changes: Partial<OutboxStatus>): void {
+    const next = { ...this.status, ...changes };
+    next.state = this.syncing ? 'syncing'
+      : OfflineOutbox.isOffline() ? 'offline'
+      : next.nextRetryAt ? 'retrying'
+      : next.pending > 0 ? 'pending'
+      : 'synced';
+    this.status = next;
+    this.listeners.forEach(listener => listener(next));
+  }
+
+  private handleOnline = () => {
+    console.log('📶 Back online - uploading queued readings');
+    this.failures = 0;
+    this.update({ nextRetryAt: null });
+    void this.flush();
+  };
+
+  private handleOffline = () => {
+    this.update({});
+  };
+
+  private static isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+
+  private static isPermanent(error: unknown): boolean {
+    const code = (error as { code?: unknown })?.code;
+    return typeof code === 'string'
+      && (PERMANENT_ERROR_CLASSES.includes(code.slice(0, 2)) || PERMANENT_ERROR_CODES.includes(code));
+  }
+
+  /**
+   * The session is read from local storage, so this works offline
+   */
+  private static async sessionUserId(): Promise<string | null> {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user.id ?? null;
+  }
+
+  /**
+   * Upsert by client id, ignoring rows the server already has
+   */
+  private static async sendToSupabase<T extends OutboxTable>(table: T, rows: OutboxRows[T][]): Promise<void> {
+    const options = { onConflict: 'id', ignoreDuplicates: true };
+    const { error } = table === 'biosensor_readings'
+      ? await supabase.from('biosensor_readings').upsert(rows as OutboxRows['biosensor_readings'][], options)
+      : table === 'seizure_events'
+        ? await supabase.from('seizure_events').upsert(rows as OutboxRows['seizure_events'][], options)
+        : await supabase.from('alerts').upsert(rows as OutboxRows['alerts'][], options);
+
+    if (error) {
+      throw Object.assign(new Error(`Uploading ${rows.length} ${table} rows failed: ${error.message}`), { code: error.code });
+    }
+  }
+}
+
+// Shared outbox for the app; falls back to memory where IndexedDB is unavailable
+export const outbox = new OfflineOutbox(
+  typeof indexedDB !== 'undefined' ? new IndexedDBOutboxStore() : new MemoryOutboxStore()
+);
+
+/**
+ * Usage Example:
+ *
+ * outbox.start();
+ * const unsubscribe = outbox.subscribe(status => console.log(status.state, status.pending));
+ * await outbox.enqueue('biosensor_readings', {
+ *   user_id: user.id, timestamp: new Date().toISOString(),
+ *   heart_rate: 72, skin_temp: 36.5, eda: 2.1, seizure_risk: 12
+ * });
+ */
@@ -0,0 +1,107 @@
+/**
+ * Patient Profile Store - Clinical details in the patient_profiles table
+ *
+ * Purpose: Load and save the one patient_profiles row per user: diagnosis,
+ * emergency contact and treating doctor
+ * Learning Focus: Unlike the details the Profile page keeps as JSON in
+ * profiles, every column here is checked by the database (age range, gender
+ * values, required fields), so a bad value fails on save rather than on read.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { Gender } from './profileStore';
+
+export interface PatientProfile {
+  id: string | null;                    // null until first saved
+  fullName: string;
+  age: number;
+  gender: Gender;
+  epilepsyType: string;
+  diagnosisLength: string;
+  emergencyContactName: string;
+  emergencyContactPhone: string;
+  doctorName: string;
+  doctorPhone: string;
+  doctorEmail: string | null;
+  medicalNotes: string | null;
+}
+
+export class PatientProfileStore {
+
+  /**
+   * The user's patient profile, or null if they have none
+   */
+  static async load(userId: string): Promise<PatientProfile | null> {
+    const { data, error } = await supabase
+      .from('patient_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Loading patient profile failed: ${error.message}`);
+    }
+    return data ? this.fromRow(data) : null;
+  }
+
+  /**
+   * Create or replace the user's patient profile
+   */
+  static async save(userId: string, profile: PatientProfile): Promise<PatientProfile> {
+    if (!Number.isInteger(profile.age) || profile.age < 1 || profile.age > 120) {
+      throw new Error(`Age must be a whole number from 1 to 120, got ${profile.age}`);
+    }
+
+    const { data, error } = await supabase
+      .from('patient_profiles')
+      .upsert({
+        user_id: userId,
+        full_name: profile.fullName.trim(),
+        age: profile.age,
+        gender: profile.gender,
+        epilepsy_type: profile.epilepsyType,
+        diagnosis_length: profile.diagnosisLength,
+        emergency_contact_name: profile.emergencyContactName.trim(),
+        emergency_contact_phone: profile.emergencyContactPhone.trim(),
+        doctor_name: profile.doctorName.trim(),
+        doctor_phone: profile.doctorPhone.trim(),
+        doctor_email: profile.doctorEmail?.trim() || null,
+        medical_notes: profile.medicalNotes || null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Saving patient profile failed: ${error.message}`);
+    }
+    return this.fromRow(data);
+  }
+
+  private static fromRow(row: Tables<'patient_profiles'>): PatientProfile {
+    return {
+      id: row.id,
+      fullName: row.full_name,
+      age: row.age,
+      gender: row.gender as Gender,
+      epilepsyType: row.epilepsy_type,
+      diagnosisLength: row.diagnosis_length,
+      emergencyContactName: row.emergency_contact_name,
+      emergencyContactPhone: row.emergency_contact_phone,
+      doctorName: row.doctor_name,
+      doctorPhone: row.doctor_phone,
+      doctorEmail: row.doctor_email,
+      medicalNotes: row.medical_notes
+    };
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const patient = await PatientProfileStore.load(user.id);
+ * if (patient) {
+ *   await PatientProfileStore.save(user.id, { ...patient, doctorPhone: '+15551234567' });
+ * }
+ */
@@ -0,0 +1,167 @@
+/**
+ * Profile Store - The signed-in user's profile and display preferences
+ *
+ * Purpose: Load and save the profiles row: display name, alert threshold,
+ * unit preferences, and the patient details the Profile page collects
+ * Learning Focus: Patient details live as JSON in profiles.emergency_contact
+ * with snake_case keys, because the notification edge function reads them
+ * there. Only this module knows that layout; callers see a flat UserProfile.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Gender = 'male' | 'female' | 'other' | 'prefer_not_to_say';
+export type MeasurementSystem = 'metric' | 'imperial';
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+
+export interface PatientDetails {
+  fullName?: string;
+  age?: number;
+  gender?: Gender;
+  height?: number;                      // cm
+  weight?: number;                      // kg
+  epilepsyType?: string;
+  diagnosisLength?: string;
+  emergencyContactName?: string;
+  emergencyContactPhone?: string;
+  doctorName?: string;
+  doctorPhone?: string;
+  doctorEmail?: string;
+  medicalNotes?: string;
+}
+
+export interface UserProfile extends PatientDetails {
+  id: string | null;                    // null until the profile is first saved
+  displayName: string | null;
+  alertThreshold: number | null;
+  measurementSystem: MeasurementSystem | null;
+  temperatureUnit: TemperatureUnit | null;
+}
+
+export interface ProfilePreferences {
+  measurementSystem?: MeasurementSystem;
+  temperatureUnit?: TemperatureUnit;
+}
+
+// JSON key for each detail inside profiles.emergency_contact
+const DETAIL_KEYS: Record<keyof PatientDetails, string> = {
+  fullName: 'full_name',
+  age: 'age',
+  gender: 'gender',
+  height: 'height',
+  weight: 'weight',
+  epilepsyType: 'epilepsy_type',
+  diagnosisLength: 'diagnosis_length',
+  emergencyContactName: 'emergency_contact_name',
+  emergencyContactPhone: 'emergency_contact_phone',
+  doctorName: 'doctor_name',
+  doctorPhone: 'doctor_phone',
+  doctorEmail: 'doctor_email',
+  medicalNotes: 'medical_notes'
+};
+
+export class ProfileStore {
+
+  /**
+   * The user's profile, or null if they have never saved one
+   */
+  static async load(userId: string): Promise<UserProfile | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Loading profile failed: ${error.message}`);
+    }
+    return data ? this.fromRow(data) : null;
+  }
+
+  /**
+   * Create or update the profile; unit preferences are left as they are
+   */
+  static async save(userId: string, profile: UserProfile): Promise<UserProfile> {
+    const details = Object.fromEntries(
+      (Object.keys(DETAIL_KEYS) as (keyof PatientDetails)[]).map(field => [DETAIL_KEYS[field], profile[field]])
+    );
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .upsert({
+        user_id: userId,
+        display_name: profile.fullName || profile.displayName,
+        alert_threshold: profile.alertThreshold,
+        emergency_contact: JSON.stringify(details),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Saving profile failed: ${error.message}`);
+    }
+    return this.fromRow(data);
+  }
+
+  /**
+   * Store unit preferences, creating the profile if there is none yet
+   */
+  static async savePreferences(userId: string, preferences: ProfilePreferences): Promise<void> {
+    const { error } = await supabase
+      .from('profiles')
+      .upsert({
+        user_id: userId,
+        ...(preferences.measurementSystem && { measurement_system: preferences.measurementSystem }),
+        ...(preferences.temperatureUnit && { temperature_unit: preferences.temperatureUnit }),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      throw new Error(`Saving preferences failed: ${error.message}`);
+    }
+  }
+
+  private static parseDetails(stored: string | null): PatientDetails {
+    if (!stored) return {};
+    if (!stored.startsWith('{')) {
+      // Profiles from before the details form hold just a phone number
+      return { emergencyContactPhone: stored };
+    }
+
+    try {
+      const json = JSON.parse(stored) as Record<string, unknown>;
+      const details: PatientDetails = {};
+      for (const field of Object.keys(DETAIL_KEYS) as (keyof PatientDetails)[]) {
+        const value = json[DETAIL_KEYS[field]];
+        if (value !== undefined && value !== null) {
+          (details as Record<string, unknown>)[field] = value;
+        }
+      }
+      return details;
+    } catch (parseError) {
+      console.error('❌ Unreadable patient details in profile:', parseError);
+      return {};
+    }
+  }
+
+  private static fromRow(row: Tables<'profiles'>): UserProfile {
+    return {
+      ...this.parseDetails(row.emergency_contact),
+      id: row.id,
+      displayName: row.display_name,
+      alertThreshold: row.alert_threshold === null ? null : Number(row.alert_threshold),
+      measurementSystem: row.measurement_system as MeasurementSystem | null,
+      temperatureUnit: row.temperature_unit as TemperatureUnit | null
+    };
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * const profile = await ProfileStore.load(user.id);
+ * await ProfileStore.save(user.id, { ...profile, doctorPhone: '+15551234567' });
+ * await ProfileStore.savePreferences(user.id, { measurementSystem: 'imperial', temperatureUnit: 'fahrenheit' });
+ */
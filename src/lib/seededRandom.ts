@@ -0,0 +1,29 @@
+/**
+ * Seeded Random - One deterministic PRNG for simulations and training
+ *
+ * Purpose: Scenario noise, training window selection and data splits must
+ * repeat exactly for the same seed, which Math.random cannot do
+ * Learning Focus: mulberry32 keeps a single 32-bit state: small, fast and
+ * good enough for simulation noise and shuffling (not for cryptography).
+ */
+
+/**
+ * mulberry32 - uniform numbers in [0, 1), the same sequence for the same seed
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Usage Example:
+ *
+ * const random = createSeededRandom(42);
+ * const pick = items[Math.floor(random() * items.length)];
+ */
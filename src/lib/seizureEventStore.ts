@@ -0,0 +1,87 @@
+/**
+ * Seizure Event Store - Recorded seizures in Supabase
+ *
+ * Purpose: Read and write the seizure_events table: when a seizure was
+ * recorded, its risk score, whether it raised an alert, and any EEG captured
+ * with it
+ * Learning Focus: EEG recordings are stored as JSONB, so the generatedAt date
+ * in their metadata comes back as an ISO string, not a Date.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { EEGData } from './eegGenerator';
+
+export interface SeizureEventRecord {
+  id: string;
+  timestamp: Date;
+  riskLevel: number;
+  alertTriggered: boolean;
+  notes: string | null;
+  eegData: EEGData | null;
+}
+
+export class SeizureEventStore {
+
+  /**
+   * Seizure events between `from` and `to`, newest first
+   */
+  static async load(userId: string, options: { from?: Date; to?: Date; limit?: number } = {}): Promise<SeizureEventRecord[]> {
+    let request = supabase
+      .from('seizure_events')
+      .select('*')
+      .eq('user_id', userId);
+    if (options.from) request = request.gte('timestamp', options.from.toISOString());
+    if (options.to) request = request.lt('timestamp', options.to.toISOString());
+
+    const { data, error } = await request.order('timestamp', { ascending: false }).limit(options.limit ?? 100);
+    if (error) {
+      throw new Error(`Loading seizure events failed: ${error.message}`);
+    }
+    return data.map(row => this.fromRow(row));
+  }
+
+  /**
+   * Insert a seizure event right away; live monitoring queues its events in the outbox instead
+   */
+  static async create(userId: string, event: Omit<SeizureEventRecord, 'id'>): Promise<SeizureEventRecord> {
+    const { data, error } = await supabase
+      .from('seizure_events')
+      .insert({
+        user_id: userId,
+        timestamp: event.timestamp.toISOString(),
+        risk_level: event.riskLevel,
+        alert_triggered: event.alertTriggered,
+        notes: event.notes,
+        eeg_data: event.eegData as unknown as Json
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Saving seizure event failed: ${error.message}`);
+    }
+    return this.fromRow(data);
+  }
+
+  private static fromRow(row: Tables<'seizure_events'>): SeizureEventRecord {
+    return {
+      id: row.id,
+      timestamp: new Date(row.timestamp),
+      riskLevel: Number(row.risk_level),
+      alertTriggered: row.alert_triggered,
+      notes: row.notes,
+      eegData: row.eeg_data as unknown as EEGData | null
+    };
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * await SeizureEventStore.create(user.id, {
+ *   timestamp: new Date(), riskLevel: 8, alertTriggered: true, notes: 'Simulated', eegData: null
+ * });
+ * const events = await SeizureEventStore.load(user.id, { from: new Date(Date.now() - 86400000) });
+ * console.log(`${events.length} seizures in the last day`);
+ */
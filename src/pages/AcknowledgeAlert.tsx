@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react"
+import { useSearchParams } from "react-router-dom"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Brain, CheckCircle } from "lucide-react"
+import { acknowledgeFromLink, lookupAcknowledgementLink, type AcknowledgementLink } from "@/lib/emergencyNotifications"
+
+// Emergency contacts land here from the link in an alert message. Opening the
+// page only looks the link up; the alert is acknowledged when they press the button.
+export default function AcknowledgeAlert() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get("token") ?? ""
+  const [link, setLink] = useState<AcknowledgementLink | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [confirmed, setConfirmed] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!token) {
+      setLink({ status: "invalid" })
+      return
+    }
+
+    let ignore = false
+    lookupAcknowledgementLink(token)
+      .then(result => { if (!ignore) setLink(result) })
+      .catch(err => { if (!ignore) setError(err.message) })
+    return () => { ignore = true }
+  }, [token])
+
+  const handleAcknowledge = async () => {
+    setSubmitting(true)
+    setError("")
+    try {
+      setLink(await acknowledgeFromLink(token))
+      setConfirmed(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Acknowledging the alert failed")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const message = () => {
+    switch (link?.status) {
+      case "invalid":
+        return "This acknowledgement link is not valid."
+      case "acknowledged":
+        return confirmed
+          ? `Thank you, ${link.contactName}. The alert is acknowledged and no one else will be contacted.`
+          : "This alert was already acknowledged."
+      case "already_acknowledged":
+        return "This alert was already acknowledged."
+      default:
+        return null
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-2">
+            <Brain className="h-8 w-8 text-primary" />
+          </div>
+          <CardTitle>PreAura alert</CardTitle>
+          <CardDescription>Acknowledge that you have checked on them</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {!link && !error && <p className="text-center text-sm text-gray-600">Checking the link...</p>}
+
+          {link?.status === "open" && (
+            <>
+              <p className="text-center">{link.contactName}, please confirm once you have checked on them.</p>
+              <Button onClick={handleAcknowledge} disabled={submitting} className="w-full">
+                {submitting ? "Acknowledging..." : "I have checked on them - stop the alerts"}
+              </Button>
+            </>
+          )}
+
+          {message() && (
+            <p className="flex items-center justify-center gap-2 text-center">
+              {link.status !== "invalid" && <CheckCircle className="h-5 w-5 text-green-600" />}
+              {message()}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
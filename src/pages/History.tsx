@@ -1,7 +1,6 @@
 import { useState, useEffect } from "react"
 import { useAuth } from "@/contexts/AuthContext"
 import { useTemperature } from "@/contexts/TemperatureContext"
-import { supabase } from "@/integrations/supabase/client"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
@@ -9,101 +8,115 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Calendar, Download, Filter, AlertTriangle, Activity } from "lucide-react"
-import { BiosensorReading } from "@/hooks/useBiosensorData"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { BiosensorHistory, HISTORY_ZOOM_LEVELS, type HistoryPoint } from "@/lib/biosensorHistory"
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
 import { TemperatureToggle } from "@/components/TemperatureToggle"
-
-interface SeizureEvent {
-  id: string
-  timestamp: string
-  risk_level: number
-  alert_triggered: boolean
-  notes?: string
-}
+import { AlertLogCard } from "@/components/AlertLogCard"
+import { AlertLog, type LoggedAlert } from "@/lib/alertLog"
+import { SeizureEventStore, type SeizureEventRecord } from "@/lib/seizureEventStore"
 
 export default function History() {
   const { user } = useAuth()
   const { convertTemperature, getUnitSymbol } = useTemperature()
-  const [readings, setReadings] = useState<BiosensorReading[]>([])
-  const [seizureEvents, setSeizureEvents] = useState<SeizureEvent[]>([])
+  const [points, setPoints] = useState<HistoryPoint[]>([])
+  const [seizureEvents, setSeizureEvents] = useState<SeizureEventRecord[]>([])
+  const [alerts, setAlerts] = useState<LoggedAlert[]>([])
   const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [zoomId, setZoomId] = useState(HISTORY_ZOOM_LEVELS[1].id)
   const [dateFilter, setDateFilter] = useState("")
   const [riskFilter, setRiskFilter] = useState("")
 
+  const [appliedRiskFilter, setAppliedRiskFilter] = useState("")
+
+  const zoom = HISTORY_ZOOM_LEVELS.find(level => level.id === zoomId) ?? HISTORY_ZOOM_LEVELS[0]
+  const userId = user?.id
+
+  // Wait for typing to pause before querying with a new risk filter
   useEffect(() => {
-    if (user) {
-      loadData()
-    }
-  }, [user])
+    const timer = setTimeout(() => setAppliedRiskFilter(riskFilter), 400)
+    return () => clearTimeout(timer)
+  }, [riskFilter])
+
+  useEffect(() => {
+    if (!userId) return
 
-  const loadData = async () => {
-    setLoading(true)
-    
-    try {
-      // Load biosensor readings
-      const { data: readingsData, error: readingsError } = await supabase
-        .from('biosensor_readings')
-        .select('*')
-        .order('timestamp', { ascending: false })
-        .limit(1000)
+    // Responses for an earlier filter can arrive after a newer one; only the latest is shown
+    let ignore = false
 
-      if (readingsError) throw readingsError
+    const loadData = async () => {
+      setLoading(true)
+      setLoadError(null)
+      // The window ends at the end of the chosen day, or now
+      const end = dateFilter ? new Date(`${dateFilter}T23:59:59.999`) : new Date()
+      const minRisk = appliedRiskFilter === "" ? undefined : parseFloat(appliedRiskFilter)
 
-      // Load seizure events
-      const { data: eventsData, error: eventsError } = await supabase
-        .from('seizure_events')
-        .select('*')
-        .order('timestamp', { ascending: false })
-        .limit(100)
+      try {
+        // Readings at the resolution that fits the zoom level, in one request
+        const historyPoints = await BiosensorHistory.load(userId, zoom, {
+          end,
+          minRisk: Number.isFinite(minRisk) ? minRisk : undefined
+        })
 
-      if (eventsError) throw eventsError
+        // Seizure events in the same window
+        const eventsData = await SeizureEventStore.load(userId, {
+          from: new Date(end.getTime() - zoom.spanMs),
+          to: end
+        })
 
-      // Transform database readings to match BiosensorReading interface
-      const transformedReadings = (readingsData || []).map(reading => ({
-        timestamp: new Date(reading.timestamp).getTime(),
-        heartRate: reading.heart_rate,
-        skinTemp: reading.skin_temp,
-        eda: reading.eda,
-        seizureRisk: reading.seizure_risk
-      }))
-      setReadings(transformedReadings)
-      setSeizureEvents(eventsData || [])
-    } catch (error) {
-      console.error('Error loading data:', error)
-    } finally {
-      setLoading(false)
-    }
-  }
+        // Alerts and reported seizures in the same window
+        const alertsData = await AlertLog.load(userId, {
+          from: new Date(end.getTime() - zoom.spanMs),
+          to: end
+        })
 
-  const filteredReadings = readings.filter(reading => {
-    // Fix date filtering logic
-    let dateMatch = true
-    if (dateFilter) {
-      // Convert reading timestamp to YYYY-MM-DD format for comparison
-      const readingDate = new Date(reading.timestamp).toISOString().split('T')[0]
-      dateMatch = readingDate === dateFilter
+        if (ignore) return
+        setPoints(historyPoints)
+        setSeizureEvents(eventsData)
+        setAlerts(alertsData)
+      } catch (error) {
+        if (ignore) return
+        console.error('Error loading data:', error)
+        setLoadError(error instanceof Error ? error.message : 'Could not load your history')
+      } finally {
+        if (!ignore) setLoading(false)
+      }
     }
-    
-    // Risk filter logic (this was working correctly)
-    const riskMatch = !riskFilter || reading.seizureRisk >= parseFloat(riskFilter)
-    
-    return dateMatch && riskMatch
-  })
 
-  // Helper: Get unique dates in your data for debugging
-  const availableDates = [...new Set(readings.map(reading => 
-    new Date(reading.timestamp).toISOString().split('T')[0]
-  ))].sort().reverse()
+    loadData()
+    return () => { ignore = true }
+  }, [userId, zoom, dateFilter, appliedRiskFilter])
+
+  const summary = BiosensorHistory.summarize(points)
+  const latestFirst = [...points].reverse()
+  const isRaw = zoom.resolution === "raw"
+
+  const formatTime = (timestamp: number) => {
+    const date = new Date(timestamp)
+    switch (zoom.resolution) {
+      case "raw": return date.toLocaleTimeString()
+      case "minute": return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+      case "hour": return date.toLocaleString([], { month: "short", day: "numeric", hour: "2-digit" })
+      case "day": return date.toLocaleDateString()
+    }
+  }
 
   const exportData = () => {
+    const stats = ['mean', 'min', 'max', 'p05', 'p50', 'p95'] as const
+    const metrics = [
+      { label: 'Heart Rate', key: 'heartRate', convert: (v: number) => v },
+      { label: `Skin Temp (${getUnitSymbol()})`, key: 'skinTemp', convert: (v: number) => convertTemperature(v, 'celsius') },
+      { label: 'EDA', key: 'eda', convert: (v: number) => v },
+      { label: 'Seizure Risk', key: 'seizureRisk', convert: (v: number) => v }
+    ] as const
+
     const csvContent = [
-      ['Timestamp', 'Heart Rate', `Skin Temp (${getUnitSymbol()})`, 'EDA', 'Seizure Risk'].join(','),
-      ...filteredReadings.map(reading => [
-        new Date(reading.timestamp).toISOString(),
-        reading.heartRate,
-        convertTemperature(reading.skinTemp, 'celsius').toFixed(2),
-        reading.eda,
-        reading.seizureRisk
+      ['Timestamp', 'Samples', ...metrics.flatMap(m => stats.map(stat => `${m.label} ${stat}`))].join(','),
+      ...points.map(point => [
+        new Date(point.timestamp).toISOString(),
+        point.sampleCount,
+        ...metrics.flatMap(m => stats.map(stat => m.convert(point[m.key][stat]).toFixed(2)))
       ].join(','))
     ].join('\n')
 
@@ -111,7 +124,7 @@ export default function History() {
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = `biosensor-data-${new Date().toISOString().split('T')[0]}.csv`
+    a.download = `biosensor-data-${zoom.resolution}-${new Date().toISOString().split('T')[0]}.csv`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
@@ -124,15 +137,17 @@ export default function History() {
     return "secondary"
   }
 
-  const chartData = filteredReadings.slice(0, 100).reverse().map(reading => ({
-    time: new Date(reading.timestamp).toLocaleTimeString(),
-    heartRate: reading.heartRate,
-    seizureRisk: reading.seizureRisk,
-    skinTemp: convertTemperature(reading.skinTemp, 'celsius'),
-    eda: reading.eda
+  const chartData = points.map(point => ({
+    time: formatTime(point.timestamp),
+    heartRate: point.heartRate.mean,
+    seizureRisk: point.seizureRisk.mean,
+    seizureRiskP95: point.seizureRisk.p95,
+    skinTemp: convertTemperature(point.skinTemp.mean, 'celsius'),
+    eda: point.eda.mean
   }))
 
-  if (loading) {
+  // Later reloads keep the current data on screen
+  if (loading && points.length === 0 && !loadError) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
@@ -162,10 +177,10 @@ export default function History() {
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card>
             <CardHeader className="pb-3">
-              <CardTitle className="text-sm font-medium">Total Readings</CardTitle>
+              <CardTitle className="text-sm font-medium">Readings in View</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{readings.length.toLocaleString()}</div>
+              <div className="text-2xl font-bold">{summary.sampleCount.toLocaleString()}</div>
             </CardContent>
           </Card>
           <Card>
@@ -173,7 +188,9 @@ export default function History() {
               <CardTitle className="text-sm font-medium">Seizure Alerts</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-destructive">{seizureEvents.length}</div>
+              <div className="text-2xl font-bold text-destructive">
+                {alerts.filter(alert => alert.source === "rule").length}
+              </div>
             </CardContent>
           </Card>
           <Card>
@@ -182,9 +199,7 @@ export default function History() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {readings.length > 0 
-                  ? (readings.reduce((sum, r) => sum + r.seizureRisk, 0) / readings.length).toFixed(1)
-                  : '0'}%
+                {summary.meanRisk.toFixed(1)}%
               </div>
             </CardContent>
           </Card>
@@ -194,8 +209,8 @@ export default function History() {
             </CardHeader>
             <CardContent>
               <div className="text-sm">
-                {readings.length > 0 
-                  ? new Date(readings[0].timestamp).toLocaleString()
+                {points.length > 0 
+                  ? new Date(points[points.length - 1].timestamp).toLocaleString()
                   : 'No data'}
               </div>
             </CardContent>
@@ -206,8 +221,11 @@ export default function History() {
         {chartData.length > 0 && (
           <Card>
             <CardHeader>
-              <CardTitle>Recent Trends</CardTitle>
-              <CardDescription>Last 100 readings visualization</CardDescription>
+              <CardTitle>Trends</CardTitle>
+              <CardDescription>
+                {zoom.label}{isRaw ? ", every reading" : `, ${zoom.resolution} averages`}
+                {loading && " (updating...)"}
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="h-64">
@@ -217,8 +235,11 @@ export default function History() {
                     <XAxis dataKey="time" />
                     <YAxis />
                     <Tooltip />
-                    <Line type="monotone" dataKey="seizureRisk" stroke="hsl(var(--destructive))" name="Seizure Risk %" />
-                    <Line type="monotone" dataKey="heartRate" stroke="hsl(var(--primary))" name="Heart Rate" />
+                    <Line type="monotone" dataKey="seizureRisk" stroke="hsl(var(--destructive))" name="Seizure Risk %" dot={false} />
+                    {!isRaw && (
+                      <Line type="monotone" dataKey="seizureRiskP95" stroke="hsl(var(--destructive))" strokeDasharray="4 4" name="Seizure Risk p95 %" dot={false} />
+                    )}
+                    <Line type="monotone" dataKey="heartRate" stroke="hsl(var(--primary))" name="Heart Rate" dot={false} />
                   </LineChart>
                 </ResponsiveContainer>
               </div>
@@ -234,25 +255,30 @@ export default function History() {
               Filters
             </CardTitle>
             <CardDescription>
-              Showing {filteredReadings.length} of {readings.length} readings
-              {availableDates.length > 0 && (
-                <div className="text-xs text-muted-foreground mt-2">
-                  Available dates: {availableDates.slice(0, 5).map(date => 
-                    new Date(date).toLocaleDateString()
-                  ).join(', ')}
-                  {availableDates.length > 5 && ` and ${availableDates.length - 5} more`}
-                </div>
-              )}
+              {points.length.toLocaleString()} {isRaw ? "readings" : `${zoom.resolution} buckets`} in view
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="zoom-level">Time Range</Label>
+                <Select value={zoomId} onValueChange={setZoomId}>
+                  <SelectTrigger id="zoom-level">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HISTORY_ZOOM_LEVELS.map(level => (
+                      <SelectItem key={level.id} value={level.id}>{level.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="date-filter">
-                  Filter by Date 
+                  Ending On
                   {dateFilter && (
                     <span className="text-muted-foreground font-normal ml-1">
-                      ({new Date(dateFilter).toLocaleDateString()})
+                      ({new Date(`${dateFilter}T00:00`).toLocaleDateString()})
                     </span>
                   )}
                 </Label>
@@ -269,7 +295,7 @@ export default function History() {
                   Minimum Risk Level (%)
                   {riskFilter && (
                     <span className="text-muted-foreground font-normal ml-1">
-                      (≥ {riskFilter}%)
+                      (≥ {riskFilter}%{isRaw ? "" : " peak"})
                     </span>
                   )}
                 </Label>
@@ -285,9 +311,15 @@ export default function History() {
                 />
               </div>
             </div>
+            {loadError && (
+              <p className="text-sm text-destructive mt-4">{loadError}</p>
+            )}
           </CardContent>
         </Card>
 
+        {/* Alert Log */}
+        {user && <AlertLogCard userId={user.id} alerts={alerts} onAlertsChange={setAlerts} />}
+
         {/* Seizure Events */}
         {seizureEvents.length > 0 && (
           <Card>
@@ -311,15 +343,15 @@ export default function History() {
                 <TableBody>
                   {seizureEvents.slice(0, 10).map((event) => (
                     <TableRow key={event.id}>
-                      <TableCell>{new Date(event.timestamp).toLocaleString()}</TableCell>
+                      <TableCell>{event.timestamp.toLocaleString()}</TableCell>
                       <TableCell>
-                        <Badge variant={getRiskColor(event.risk_level)}>
-                          {event.risk_level.toFixed(1)}%
+                        <Badge variant={getRiskColor(event.riskLevel)}>
+                          {event.riskLevel.toFixed(1)}%
                         </Badge>
                       </TableCell>
                       <TableCell>
-                        <Badge variant={event.alert_triggered ? "destructive" : "secondary"}>
-                          {event.alert_triggered ? "Yes" : "No"}
+                        <Badge variant={event.alertTriggered ? "destructive" : "secondary"}>
+                          {event.alertTriggered ? "Yes" : "No"}
                         </Badge>
                       </TableCell>
                       <TableCell>{event.notes || "-"}</TableCell>
@@ -336,11 +368,13 @@ export default function History() {
           <CardHeader>
             <CardTitle>Biosensor Readings</CardTitle>
             <CardDescription>
-              Showing {filteredReadings.length} of {readings.length} total readings
+              {isRaw
+                ? `Latest ${Math.min(50, points.length)} of ${points.length} readings`
+                : `Latest ${Math.min(50, points.length)} of ${points.length} ${zoom.resolution} summaries (mean, with range)`}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {filteredReadings.length === 0 ? (
+            {points.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
                 <Activity className="w-12 h-12 mx-auto mb-4 opacity-50" />
                 <p>No data found matching your filters</p>
@@ -350,6 +384,7 @@ export default function History() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Timestamp</TableHead>
+                    {!isRaw && <TableHead>Readings</TableHead>}
                     <TableHead>Heart Rate</TableHead>
                     <TableHead>Skin Temp ({getUnitSymbol()})</TableHead>
                     <TableHead>EDA</TableHead>
@@ -357,16 +392,29 @@ export default function History() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredReadings.slice(0, 50).map((reading, index) => (
-                    <TableRow key={index}>
-                      <TableCell>{new Date(reading.timestamp).toLocaleString()}</TableCell>
-                      <TableCell>{reading.heartRate.toFixed(1)} bpm</TableCell>
-                      <TableCell>{convertTemperature(reading.skinTemp, 'celsius').toFixed(1)}{getUnitSymbol()}</TableCell>
-                      <TableCell>{reading.eda.toFixed(2)} μS</TableCell>
+                  {latestFirst.slice(0, 50).map((point) => (
+                    <TableRow key={point.timestamp}>
+                      <TableCell>{new Date(point.timestamp).toLocaleString()}</TableCell>
+                      {!isRaw && <TableCell>{point.sampleCount.toLocaleString()}</TableCell>}
+                      <TableCell>
+                        {point.heartRate.mean.toFixed(1)} bpm
+                        {!isRaw && (
+                          <span className="text-xs text-muted-foreground ml-1">
+                            ({point.heartRate.min.toFixed(0)}-{point.heartRate.max.toFixed(0)})
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>{convertTemperature(point.skinTemp.mean, 'celsius').toFixed(1)}{getUnitSymbol()}</TableCell>
+                      <TableCell>{point.eda.mean.toFixed(2)} μS</TableCell>
                       <TableCell>
-                        <Badge variant={getRiskColor(reading.seizureRisk)}>
-                          {reading.seizureRisk.toFixed(1)}%
+                        <Badge variant={getRiskColor(point.seizureRisk.mean)}>
+                          {point.seizureRisk.mean.toFixed(1)}%
                         </Badge>
+                        {!isRaw && (
+                          <span className="text-xs text-muted-foreground ml-1">
+                            peak {point.seizureRisk.max.toFixed(0)}%
+                          </span>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
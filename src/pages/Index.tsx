@@ -1,24 +1,34 @@
 import { useState } from "react"
 import { useBiosensorData } from "@/hooks/useBiosensorData"
+import { useLivePrediction } from "@/hooks/useLivePrediction"
 import { RiskIndicator } from "@/components/RiskIndicator"
 import { BiosensorChart } from "@/components/BiosensorChart"
 import { ControlPanel } from "@/components/ControlPanel"
 import { AlertSystem } from "@/components/AlertSystem"
+import { ScenarioStatus } from "@/components/ScenarioStatus"
 import SeizureSimulation from "@/components/SeizureSimulation"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Activity, Brain, Zap } from "lucide-react"
 import { type SeizureEvent } from "@/data/mockPatients"
+import { ScenarioBiosensorSource } from "@/lib/biosensorSources"
 
 const Index = () => {
   const {
     currentReading,
     history,
     isRecording,
+    source,
+    sourceError,
+    syncStatus,
+    selectSource,
     startRecording,
     stopRecording,
     clearHistory
   } = useBiosensorData()
+  const livePrediction = useLivePrediction(source, isRecording)
+  // An untrained model's level carries no signal, so AI rules stay quiet
+  const aiRiskLevel = livePrediction && !livePrediction.untrained ? livePrediction.riskLevel : undefined
 
   const [lastAlertTime, setLastAlertTime] = useState<Date>()
   const [recordedSeizures, setRecordedSeizures] = useState<SeizureEvent[]>([])
@@ -58,8 +68,9 @@ const Index = () => {
 
         {/* Alert System */}
         <AlertSystem
-          riskLevel={currentReading.seizureRisk}
+          reading={currentReading}
           isRecording={isRecording}
+          aiRiskLevel={aiRiskLevel}
           onAlert={handleAlert}
         />
 
@@ -101,10 +112,17 @@ const Index = () => {
                   onClearHistory={clearHistory}
                   historyCount={history.length}
                   lastAlertTime={lastAlertTime}
+                  source={source}
+                  sourceError={sourceError}
+                  onSelectSource={selectSource}
+                  syncStatus={syncStatus}
                 />
               </div>
             </div>
 
+            {/* Scripted scenario progress */}
+            {source instanceof ScenarioBiosensorSource && <ScenarioStatus source={source} />}
+
             {/* Biosensor Charts */}
             <BiosensorChart 
               data={history}
@@ -165,7 +183,7 @@ const Index = () => {
           <CardContent className="flex items-center justify-center p-4">
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <Activity className="w-4 h-4" />
-              <span>Prototype - Using simulated biosensor data for demonstration</span>
+              <span>Prototype - Biosensor data from {source.label}</span>
             </div>
           </CardContent>
         </Card>
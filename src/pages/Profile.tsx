@@ -1,6 +1,5 @@
 import { useState, useEffect } from "react"
 import { useAuth } from "@/contexts/AuthContext"
-import { supabase } from "@/integrations/supabase/client"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -23,40 +22,21 @@ import {
   Stethoscope,
   AlertTriangle,
   Clock,
-  Settings
+  Settings,
+  Gauge
 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { useTemperature } from "@/contexts/TemperatureContext"
-
-interface ExtendedProfile {
-  id?: string
-  user_id: string
-  display_name: string | null
-  emergency_contact: string | null
-  alert_threshold: number | null
-  // Extended fields (will be stored as JSON in emergency_contact field for now)
-  full_name?: string
-  age?: number
-  gender?: 'male' | 'female' | 'other' | 'prefer_not_to_say'
-  height?: number // Height in cm
-  weight?: number // Weight in kg
-  epilepsy_type?: string
-  diagnosis_length?: string
-  emergency_contact_name?: string
-  emergency_contact_phone?: string
-  doctor_name?: string
-  doctor_phone?: string
-  doctor_email?: string
-  medical_notes?: string
-  created_at?: string
-  updated_at?: string
-}
+import { BiosensorCalibration, type BiosensorBaseline } from "@/lib/biosensorBaseline"
+import { AlertRulesCard } from "@/components/AlertRulesCard"
+import { EmergencyContactsCard } from "@/components/EmergencyContactsCard"
+import { ProfileStore, type UserProfile } from "@/lib/profileStore"
 
 export default function Profile() {
   const { user } = useAuth()
   const { toast } = useToast()
-  const { unit, setUnit } = useTemperature()
-  const [profile, setProfile] = useState<ExtendedProfile | null>(null)
+  const { unit, setUnit, convertTemperature, getUnitSymbol } = useTemperature()
+  const [profile, setProfile] = useState<UserProfile | null>(null)
   const [isEditing, setIsEditing] = useState(false)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
@@ -66,69 +46,80 @@ export default function Profile() {
   const [heightInches, setHeightInches] = useState(0)
   const [weightUnit, setWeightUnit] = useState<'kg' | 'lbs'>('kg')
   const [weightPounds, setWeightPounds] = useState(0)
+  const [baseline, setBaseline] = useState<BiosensorBaseline | null>(null)
+  const [calibrating, setCalibrating] = useState(false)
 
   // Form state for editing
-  const [formData, setFormData] = useState<ExtendedProfile>({
-    user_id: user?.id || '',
-    display_name: '',
-    emergency_contact: null,
-    alert_threshold: 70,
-    full_name: '',
+  const [formData, setFormData] = useState<UserProfile>({
+    id: null,
+    displayName: '',
+    alertThreshold: 70,
+    measurementSystem: null,
+    temperatureUnit: null,
+    fullName: '',
     age: 0,
     gender: 'prefer_not_to_say',
     height: 0,
     weight: 0,
-    epilepsy_type: '',
-    diagnosis_length: '',
-    emergency_contact_name: '',
-    emergency_contact_phone: '',
-    doctor_name: '',
-    doctor_phone: '',
-    doctor_email: '',
-    medical_notes: ''
+    epilepsyType: '',
+    diagnosisLength: '',
+    emergencyContactName: '',
+    emergencyContactPhone: '',
+    doctorName: '',
+    doctorPhone: '',
+    doctorEmail: '',
+    medicalNotes: ''
   })
 
   useEffect(() => {
     if (user) {
       loadProfile()
+      loadBaseline()
     }
   }, [user])
 
-  const loadProfile = async () => {
+  const loadBaseline = async () => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', user?.id)
-        .single()
-
-      if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
-        throw error
-      }
+      setBaseline(await BiosensorCalibration.load(user!.id))
+    } catch (error) {
+      console.error('Error loading biosensor baseline:', error)
+    }
+  }
 
-      if (data) {
-        // Parse extended profile data from JSON stored in emergency_contact field
-        let extendedData: any = {}
-        try {
-          if (data.emergency_contact && data.emergency_contact.startsWith('{')) {
-            extendedData = JSON.parse(data.emergency_contact)
-          }
-        } catch (e) {
-          // If not JSON, treat as simple emergency contact
-          extendedData = { emergency_contact_phone: data.emergency_contact }
-        }
+  const handleCalibrate = async () => {
+    if (!user) return
+    setCalibrating(true)
+    try {
+      setBaseline(await BiosensorCalibration.calibrate(user.id))
+      toast({
+        title: "Calibration complete",
+        description: "Seizure risk is now scored against your personal baseline.",
+      })
+    } catch (error) {
+      console.error('Error calibrating baseline:', error)
+      toast({
+        title: "Calibration failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setCalibrating(false)
+    }
+  }
 
-        const profileData: ExtendedProfile = {
-          ...data,
-          ...extendedData
-        }
+  const loadProfile = async () => {
+    try {
+      const profileData = await ProfileStore.load(user.id)
 
+      if (profileData) {
         setProfile(profileData)
         setFormData(profileData)
-        
-        // Initialize measurement system based on current units
-        const isImperial = unit === 'fahrenheit' || weightUnit === 'lbs' || heightUnit === 'ft'
-        setMeasurementSystem(isImperial ? 'imperial' : 'metric')
+
+        // measurement_system defaults to metric, so older profiles only show imperial through their temperature unit
+        const system = profileData.measurementSystem === 'imperial' || unit === 'fahrenheit' ? 'imperial' : 'metric'
+        setMeasurementSystem(system)
+        setHeightUnit(system === 'imperial' ? 'ft' : 'cm')
+        setWeightUnit(system === 'imperial' ? 'lbs' : 'kg')
         
         // Set height feet/inches for display
         if (profileData.height) {
@@ -160,63 +151,10 @@ export default function Profile() {
   const handleSave = async () => {
     setSaving(true)
     try {
-      // Separate basic profile data from extended data
-      const basicProfile = {
-        display_name: formData.full_name || formData.display_name,
-        alert_threshold: formData.alert_threshold,
-      }
-
-      // Store extended profile data as JSON in emergency_contact field
-      const extendedData = {
-        full_name: formData.full_name,
-        age: formData.age,
-        gender: formData.gender,
-        height: formData.height,
-        weight: formData.weight,
-        epilepsy_type: formData.epilepsy_type,
-        diagnosis_length: formData.diagnosis_length,
-        emergency_contact_name: formData.emergency_contact_name,
-        emergency_contact_phone: formData.emergency_contact_phone,
-        doctor_name: formData.doctor_name,
-        doctor_phone: formData.doctor_phone,
-        doctor_email: formData.doctor_email,
-        medical_notes: formData.medical_notes
-      }
-
-      const profileData = {
-        ...basicProfile,
-        emergency_contact: JSON.stringify(extendedData),
-        user_id: user?.id,
-        updated_at: new Date().toISOString()
-      }
-
-      let result
-      if (profile?.id) {
-        // Update existing profile
-        result = await supabase
-          .from('profiles')
-          .update(profileData)
-          .eq('id', profile.id)
-          .select()
-          .single()
-      } else {
-        // Create new profile
-        result = await supabase
-          .from('profiles')
-          .insert([{ ...profileData, created_at: new Date().toISOString() }])
-          .select()
-          .single()
-      }
-
-      if (result.error) throw result.error
-
-      // Combine the result with extended data for state
-      const updatedProfile = {
-        ...result.data,
-        ...extendedData
-      }
+      const updatedProfile = await ProfileStore.save(user.id, formData)
 
       setProfile(updatedProfile)
+      setFormData(updatedProfile)
       setIsEditing(false)
       toast({
         title: "Success",
@@ -241,7 +179,7 @@ export default function Profile() {
     setIsEditing(false)
   }
 
-  const handleInputChange = (field: keyof ExtendedProfile, value: string | number) => {
+  const handleInputChange = (field: keyof UserProfile, value: string | number) => {
     setFormData(prev => ({
       ...prev,
       [field]: value
@@ -257,6 +195,11 @@ export default function Profile() {
     
     // Update temperature unit
     setUnit(system === 'imperial' ? 'fahrenheit' : 'celsius')
+
+    if (user) {
+      ProfileStore.savePreferences(user.id, { measurementSystem: system })
+        .catch(error => console.error('Error saving measurement system:', error))
+    }
   }
 
   const calculateBMI = (height: number, weight: number): string => {
@@ -367,12 +310,12 @@ export default function Profile() {
                 {isEditing ? (
                   <Input
                     id="full_name"
-                    value={formData.full_name}
-                    onChange={(e) => handleInputChange('full_name', e.target.value)}
+                    value={formData.fullName}
+                    onChange={(e) => handleInputChange('fullName', e.target.value)}
                     placeholder="Enter your full name"
                   />
                 ) : (
-                  <p className="p-2 bg-muted rounded-md">{profile?.full_name || 'Not provided'}</p>
+                  <p className="p-2 bg-muted rounded-md">{profile?.fullName || 'Not provided'}</p>
                 )}
               </div>
               
@@ -718,12 +661,12 @@ export default function Profile() {
                 {isEditing ? (
                   <Input
                     id="epilepsy_type"
-                    value={formData.epilepsy_type}
-                    onChange={(e) => handleInputChange('epilepsy_type', e.target.value)}
+                    value={formData.epilepsyType}
+                    onChange={(e) => handleInputChange('epilepsyType', e.target.value)}
                     placeholder="e.g., Temporal Lobe Epilepsy, Generalized Epilepsy"
                   />
                 ) : (
-                  <p className="p-2 bg-muted rounded-md">{profile?.epilepsy_type || 'Not provided'}</p>
+                  <p className="p-2 bg-muted rounded-md">{profile?.epilepsyType || 'Not provided'}</p>
                 )}
               </div>
 
@@ -732,12 +675,12 @@ export default function Profile() {
                 {isEditing ? (
                   <Input
                     id="diagnosis_length"
-                    value={formData.diagnosis_length}
-                    onChange={(e) => handleInputChange('diagnosis_length', e.target.value)}
+                    value={formData.diagnosisLength}
+                    onChange={(e) => handleInputChange('diagnosisLength', e.target.value)}
                     placeholder="e.g., 5 years, Since childhood, 2 months"
                   />
                 ) : (
-                  <p className="p-2 bg-muted rounded-md">{profile?.diagnosis_length || 'Not provided'}</p>
+                  <p className="p-2 bg-muted rounded-md">{profile?.diagnosisLength || 'Not provided'}</p>
                 )}
               </div>
             </div>
@@ -747,14 +690,14 @@ export default function Profile() {
               {isEditing ? (
                 <Textarea
                   id="medical_notes"
-                  value={formData.medical_notes || ''}
-                  onChange={(e) => handleInputChange('medical_notes', e.target.value)}
+                  value={formData.medicalNotes || ''}
+                  onChange={(e) => handleInputChange('medicalNotes', e.target.value)}
                   placeholder="Any additional medical information, medications, triggers, etc."
                   rows={3}
                 />
               ) : (
                 <p className="p-2 bg-muted rounded-md min-h-[60px]">
-                  {profile?.medical_notes || 'No additional notes provided'}
+                  {profile?.medicalNotes || 'No additional notes provided'}
                 </p>
               )}
             </div>
@@ -841,14 +784,14 @@ export default function Profile() {
                 {isEditing ? (
                   <Input
                     id="emergency_contact_name"
-                    value={formData.emergency_contact_name}
-                    onChange={(e) => handleInputChange('emergency_contact_name', e.target.value)}
+                    value={formData.emergencyContactName}
+                    onChange={(e) => handleInputChange('emergencyContactName', e.target.value)}
                     placeholder="Enter emergency contact name"
                   />
                 ) : (
                   <div className="flex items-center gap-2 p-2 bg-muted rounded-md">
                     <Users className="w-4 h-4" />
-                    {profile?.emergency_contact_name || 'Not provided'}
+                    {profile?.emergencyContactName || 'Not provided'}
                   </div>
                 )}
               </div>
@@ -859,14 +802,14 @@ export default function Profile() {
                   <Input
                     id="emergency_contact_phone"
                     type="tel"
-                    value={formData.emergency_contact_phone}
-                    onChange={(e) => handleInputChange('emergency_contact_phone', e.target.value)}
+                    value={formData.emergencyContactPhone}
+                    onChange={(e) => handleInputChange('emergencyContactPhone', e.target.value)}
                     placeholder="Enter emergency contact phone"
                   />
                 ) : (
                   <div className="flex items-center gap-2 p-2 bg-muted rounded-md">
                     <Phone className="w-4 h-4" />
-                    {profile?.emergency_contact_phone || 'Not provided'}
+                    {profile?.emergencyContactPhone || 'Not provided'}
                   </div>
                 )}
               </div>
@@ -892,12 +835,12 @@ export default function Profile() {
                 {isEditing ? (
                   <Input
                     id="doctor_name"
-                    value={formData.doctor_name}
-                    onChange={(e) => handleInputChange('doctor_name', e.target.value)}
+                    value={formData.doctorName}
+                    onChange={(e) => handleInputChange('doctorName', e.target.value)}
                     placeholder="Enter doctor's name"
                   />
                 ) : (
-                  <p className="p-2 bg-muted rounded-md">{profile?.doctor_name || 'Not provided'}</p>
+                  <p className="p-2 bg-muted rounded-md">{profile?.doctorName || 'Not provided'}</p>
                 )}
               </div>
 
@@ -907,14 +850,14 @@ export default function Profile() {
                   <Input
                     id="doctor_phone"
                     type="tel"
-                    value={formData.doctor_phone}
-                    onChange={(e) => handleInputChange('doctor_phone', e.target.value)}
+                    value={formData.doctorPhone}
+                    onChange={(e) => handleInputChange('doctorPhone', e.target.value)}
                     placeholder="Enter doctor's phone"
                   />
                 ) : (
                   <div className="flex items-center gap-2 p-2 bg-muted rounded-md">
                     <Phone className="w-4 h-4" />
-                    {profile?.doctor_phone || 'Not provided'}
+                    {profile?.doctorPhone || 'Not provided'}
                   </div>
                 )}
               </div>
@@ -925,13 +868,13 @@ export default function Profile() {
                   <Input
                     id="doctor_email"
                     type="email"
-                    value={formData.doctor_email || ''}
-                    onChange={(e) => handleInputChange('doctor_email', e.target.value)}
+                    value={formData.doctorEmail || ''}
+                    onChange={(e) => handleInputChange('doctorEmail', e.target.value)}
                     placeholder="Enter doctor's email (optional)"
                   />
                 ) : (
                   <p className="p-2 bg-muted rounded-md">
-                    {profile?.doctor_email || 'Not provided'}
+                    {profile?.doctorEmail || 'Not provided'}
                   </p>
                 )}
               </div>
@@ -939,6 +882,66 @@ export default function Profile() {
           </CardContent>
         </Card>
 
+        {/* Biosensor Calibration */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="w-5 h-5" />
+              Biosensor Calibration
+            </CardTitle>
+            <CardDescription>
+              Learns your resting heart rate, skin temperature and EDA from the last 14 days of recordings,
+              so seizure risk reflects what is unusual for you
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Clock className="w-4 h-4" />
+                {baseline ? (
+                  <span>
+                    Last calibrated {baseline.calibratedAt.toLocaleString()}
+                    <span className="text-sm text-muted-foreground ml-2">
+                      ({baseline.sampleCount.toLocaleString()} readings, {baseline.readingsFrom.toLocaleDateString()} - {baseline.readingsTo.toLocaleDateString()})
+                    </span>
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">Never calibrated - using population thresholds</span>
+                )}
+              </div>
+              <Button onClick={handleCalibrate} disabled={calibrating} variant="outline">
+                <Activity className="w-4 h-4 mr-2" />
+                {calibrating ? 'Calibrating...' : baseline ? 'Recalibrate' : 'Calibrate Now'}
+              </Button>
+            </div>
+
+            {baseline && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+                <div className="p-3 bg-muted rounded-md">
+                  <div className="text-xl font-bold">{baseline.heartRate.mean.toFixed(0)} bpm</div>
+                  <div className="text-sm text-muted-foreground">Resting heart rate (±{baseline.heartRate.sd.toFixed(1)})</div>
+                </div>
+                <div className="p-3 bg-muted rounded-md">
+                  <div className="text-xl font-bold">
+                    {convertTemperature(baseline.skinTemp.mean).toFixed(1)}{getUnitSymbol()}
+                  </div>
+                  <div className="text-sm text-muted-foreground">Resting skin temperature</div>
+                </div>
+                <div className="p-3 bg-muted rounded-md">
+                  <div className="text-xl font-bold">{baseline.eda.mean.toFixed(2)} µS</div>
+                  <div className="text-sm text-muted-foreground">Resting EDA (±{baseline.eda.sd.toFixed(2)})</div>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Alert Rules */}
+        {user && <AlertRulesCard userId={user.id} />}
+
+        {/* Alert Notifications */}
+        {user && <EmergencyContactsCard userId={user.id} />}
+
         {/* Quick Stats */}
         {profile && (
           <Card>
@@ -992,11 +995,11 @@ export default function Profile() {
                   </div>
                 </div>
                 <div className="space-y-2">
-                  <div className="text-2xl font-bold text-primary">{profile.diagnosis_length || 'N/A'}</div>
+                  <div className="text-2xl font-bold text-primary">{profile.diagnosisLength || 'N/A'}</div>
                   <div className="text-sm text-muted-foreground">Diagnosed</div>
                 </div>
                 <div className="space-y-2">
-                  <div className="text-2xl font-bold text-primary">{profile.alert_threshold || 70}%</div>
+                  <div className="text-2xl font-bold text-primary">{profile.alertThreshold || 70}%</div>
                   <div className="text-sm text-muted-foreground">Alert Threshold</div>
                 </div>
               </div>
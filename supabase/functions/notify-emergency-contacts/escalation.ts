@@ -0,0 +1,115 @@
+/**
+ * Escalation - Who to notify about an alert, in what order, and what to say
+ *
+ * Purpose: The pure part of notify-emergency-contacts: building the contact
+ * chain for an alert, deciding the next step when a contact has not
+ * acknowledged in time, and formatting the message
+ * Learning Focus: No Deno, network or database here, so the escalation
+ * policy can be bundled and checked outside the edge runtime.
+ */
+
+export type Channel = 'sms' | 'email' | 'webhook';
+export type Severity = 'info' | 'warning' | 'critical';
+
+export interface ContactTarget {
+  name: string;
+  channel: Channel;
+  address: string;
+  escalateAfterMinutes: number;
+}
+
+export interface StoredContact {
+  name: string;
+  channel: Channel;
+  address: string;
+  priority: number;
+  min_severity: Severity;
+  escalate_after_minutes: number;
+  enabled: boolean;
+}
+
+export interface AlertPayload {
+  id: string;
+  ruleName: string;
+  severity: Severity;
+  riskLevel: number | null;
+  triggeredAt: string;          // ISO timestamp
+  description?: string;
+}
+
+export type EscalationStep =
+  | { type: 'notify'; level: number; contact: ContactTarget; nextEscalationAt: Date }
+  | { type: 'exhausted' };
+
+const SEVERITY_RANK: Record<Severity, number> = { info: 0, warning: 1, critical: 2 };
+const DEFAULT_ESCALATE_AFTER_MINUTES = 5;
+// The profile contact never chose which alerts to receive, so only the most serious reach them
+const PROFILE_CONTACT_MIN_SEVERITY: Severity = 'critical';
+
+/**
+ * Enabled contacts that want this severity, by priority; the profile's
+ * emergency contact (by SMS, critical alerts only) when the user has
+ * configured none
+ */
+export function buildContactChain(
+  contacts: StoredContact[],
+  severity: Severity,
+  profileContact?: { name?: string; phone?: string }
+): ContactTarget[] {
+  if (contacts.length === 0) {
+    return profileContact?.phone && SEVERITY_RANK[severity] >= SEVERITY_RANK[PROFILE_CONTACT_MIN_SEVERITY]
+      ? [{
+        name: profileContact.name || 'Emergency contact',
+        channel: 'sms',
+        address: profileContact.phone,
+        escalateAfterMinutes: DEFAULT_ESCALATE_AFTER_MINUTES
+      }]
+      : [];
+  }
+
+  return contacts
+    .filter(contact => contact.enabled && SEVERITY_RANK[severity] >= SEVERITY_RANK[contact.min_severity])
+    .sort((a, b) => a.priority - b.priority)
+    .map(contact => ({
+      name: contact.name,
+      channel: contact.channel,
+      address: contact.address,
+      escalateAfterMinutes: contact.escalate_after_minutes
+    }));
+}
+
+/**
+ * Step `level` of the chain: notify that contact, or stop when none are left
+ */
+export function escalationStep(chain: ContactTarget[], level: number, now: Date): EscalationStep {
+  const contact = chain[level];
+  if (!contact) return { type: 'exhausted' };
+
+  return {
+    type: 'notify',
+    level,
+    contact,
+    nextEscalationAt: new Date(now.getTime() + contact.escalateAfterMinutes * 60 * 1000)
+  };
+}
+
+/**
+ * Message text for a contact; short enough for one SMS segment plus the link
+ */
+export function formatAlertMessage(
+  alert: AlertPayload,
+  patientName: string,
+  acknowledgeUrl: string,
+  escalated: boolean
+): { subject: string; text: string } {
+  const time = new Date(alert.triggeredAt).toISOString().slice(11, 16);
+  const risk = alert.riskLevel !== null ? ` (risk ${Math.round(alert.riskLevel)}%)` : '';
+  const subject = `PreAura ${alert.severity} alert for ${patientName}`;
+  const lines = [
+    `${subject}: ${alert.ruleName}${risk} at ${time} UTC.`,
+    escalated ? 'Earlier contacts have not responded.' : '',
+    `Please check on them, then acknowledge: ${acknowledgeUrl}`
+  ];
+
+  return { subject, text: lines.filter(Boolean).join(' ') };
+}
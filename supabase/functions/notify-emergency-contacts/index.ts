@@ -0,0 +1,342 @@
+/**
+ * notify-emergency-contacts - Fan alerts out to emergency contacts, with escalation
+ *
+ * Purpose: Receive alert events from the app, message the user's emergency
+ * contacts one at a time in priority order, and move on to the next contact
+ * when the current one has not acknowledged within their escalation window
+ * Learning Focus: The database is the state machine. alert_notifications
+ * holds where each alert is in its contact chain; every step is a
+ * conditional update, so a retried request or two overlapping escalation
+ * runs can never message the same contact twice.
+ *
+ * Requests:
+ *   POST { action: 'dispatch', alert }       user JWT - start notifying for an alert
+ *   POST { action: 'acknowledge', alertId }  user JWT - the patient is OK; stop escalating
+ *   POST { action: 'escalate' }              move every overdue alert to its next contact
+ *   POST { action: 'ackStatus', ack }        who an acknowledgement link is for, and whether it is still open
+ *   POST { action: 'ackLink', ack }          the contact acknowledges from that link
+ *
+ * Contacts are sent a link to the app's /acknowledge page, which asks them to
+ * confirm and then posts `ackLink`. The function itself only speaks JSON
+ * (hosted Edge Functions serve HTML as text/plain), and opening the link never
+ * acknowledges by itself: link previewers and mail scanners fetch URLs, and
+ * must not stop the escalation.
+ *
+ * `escalate` only acts on alerts that are already due, so it is safe to call
+ * from anywhere; schedule it every minute with pg_cron + pg_net:
+ *
+ *   select cron.schedule('escalate-alerts', '* * * * *', $$
+ *     select net.http_post(
+ *       url := '<project url>/functions/v1/notify-emergency-contacts',
+ *       headers := '{"Content-Type": "application/json"}'::jsonb,
+ *       body := '{"action": "escalate"}'::jsonb)
+ *   $$);
+ *
+ * Secrets: APP_URL, the app's address for acknowledgement links (defaults to
+ * the local dev server); TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER for SMS;
+ * RESEND_API_KEY, NOTIFICATION_EMAIL_FROM for email. Channels without them
+ * (or everything, with NOTIFICATIONS_STUB=true) log to the console instead.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  buildContactChain,
+  escalationStep,
+  formatAlertMessage,
+  type AlertPayload,
+  type ContactTarget,
+  type StoredContact
+} from './escalation.ts';
+import { createProviders } from './providers.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const APP_URL = (Deno.env.get('APP_URL') ?? 'http://localhost:8080').replace(/\/+$/, '');
+
+const supabase = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+const providers = createProviders(name => Deno.env.get(name));
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+interface NotificationRow {
+  id: string;
+  user_id: string;
+  rule_name: string;
+  severity: AlertPayload['severity'];
+  risk_level: number | null;
+  triggered_at: string;
+  contacts: ContactTarget[];
+  escalation_level: number;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+/**
+ * The user behind the request's JWT, or null
+ */
+async function requestUser(request: Request): Promise<string | null> {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  return error ? null : data.user.id;
+}
+
+/**
+ * The user's display name and the emergency contact saved on their profile
+ */
+async function loadProfile(userId: string): Promise<{ name: string; contact: { name?: string; phone?: string } }> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('display_name, emergency_contact')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  // The Profile page stores its extended fields as JSON in emergency_contact;
+  // profiles from before the details form hold just a phone number (as in ProfileStore)
+  const stored = profile?.emergency_contact;
+  let extended: { full_name?: string; emergency_contact_name?: string; emergency_contact_phone?: string } = {};
+  if (stored && !stored.startsWith('{')) {
+    extended = { emergency_contact_phone: stored };
+  } else if (stored) {
+    try {
+      extended = JSON.parse(stored);
+    } catch {
+      extended = {};
+    }
+  }
+
+  const contact = extended.emergency_contact_phone
+    ? { name: extended.emergency_contact_name, phone: extended.emergency_contact_phone }
+    : await supabase
+      .from('patient_profiles')
+      .select('emergency_contact_name, emergency_contact_phone')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data }) => ({ name: data?.emergency_contact_name, phone: data?.emergency_contact_phone }));
+
+  return { name: extended.full_name || profile?.display_name || 'your contact', contact };
+}
+
+/**
+ * Message one contact and record the attempt, successful or not
+ */
+async function notifyContact(notification: NotificationRow, level: number, contact: ContactTarget): Promise<void> {
+  const ackToken = crypto.randomUUID();
+  const { name } = await loadProfile(notification.user_id);
+  const alert: AlertPayload = {
+    id: notification.id,
+    ruleName: notification.rule_name,
+    severity: notification.severity,
+    riskLevel: notification.risk_level,
+    triggeredAt: notification.triggered_at
+  };
+  const acknowledgeUrl = `${APP_URL}/acknowledge?token=${ackToken}`;
+  const { subject, text } = formatAlertMessage(alert, name, acknowledgeUrl, level > 0);
+
+  const provider = providers[contact.channel];
+  const result = await provider
+    .send(contact, { subject, text, payload: { alert, escalationLevel: level, acknowledgeUrl } })
+    .catch((error: Error) => ({ ok: false as const, error: error.message }));
+
+  if (!result.ok) {
+    console.error(`❌ ${provider.name} could not reach ${contact.name}: ${result.error}`);
+  }
+
+  const { error } = await supabase.from('notification_attempts').insert({
+    notification_id: notification.id,
+    user_id: notification.user_id,
+    escalation_level: level,
+    contact_name: contact.name,
+    channel: contact.channel,
+    address: contact.address,
+    provider: provider.name,
+    status: result.ok ? 'sent' : 'failed',
+    provider_message_id: result.ok ? result.messageId : null,
+    error: result.ok ? null : result.error,
+    ack_token: ackToken
+  });
+  if (error) console.error('❌ Recording notification attempt failed:', error.message);
+}
+
+/**
+ * Move a notification from `fromLevel` to the next step of its chain.
+ * Returns false when another request already moved it.
+ */
+async function advance(notification: NotificationRow, fromLevel: number, toLevel: number): Promise<boolean> {
+  const step = escalationStep(notification.contacts, toLevel, new Date());
+
+  const { data, error } = await supabase
+    .from('alert_notifications')
+    .update(step.type === 'notify'
+      ? { escalation_level: toLevel, next_escalation_at: step.nextEscalationAt.toISOString() }
+      : { status: 'exhausted', next_escalation_at: null })
+    .eq('id', notification.id)
+    .eq('status', 'notifying')
+    .eq('escalation_level', fromLevel)
+    .select('id');
+
+  if (error) throw new Error(`Updating notification ${notification.id} failed: ${error.message}`);
+  if (data.length === 0) return false;
+
+  if (step.type === 'notify') {
+    await notifyContact(notification, step.level, step.contact);
+  } else {
+    console.warn(`⚠️ No one acknowledged alert ${notification.id}; all ${notification.contacts.length} contacts tried`);
+  }
+  return true;
+}
+
+async function dispatch(userId: string, alert: AlertPayload): Promise<Response> {
+  if (!alert?.id || !alert.ruleName || !alert.severity || !alert.triggeredAt) {
+    return json({ error: 'alert needs id, ruleName, severity and triggeredAt' }, 400);
+  }
+
+  const { data: contacts, error: contactsError } = await supabase
+    .from('emergency_contacts')
+    .select('name, channel, address, priority, min_severity, escalate_after_minutes, enabled')
+    .eq('user_id', userId);
+  if (contactsError) throw new Error(`Loading emergency contacts failed: ${contactsError.message}`);
+
+  const { contact } = await loadProfile(userId);
+  const chain = buildContactChain(contacts as StoredContact[], alert.severity, contact);
+
+  const notification: NotificationRow = {
+    id: alert.id,
+    user_id: userId,
+    rule_name: alert.ruleName,
+    severity: alert.severity,
+    risk_level: alert.riskLevel ?? null,
+    triggered_at: alert.triggeredAt,
+    contacts: chain,
+    escalation_level: -1
+  };
+
+  // The alert id is the primary key: a retried dispatch finds the row and stops here.
+  // Due immediately, so the next escalation run picks it up if this request dies first.
+  const row = chain.length > 0
+    ? { ...notification, status: 'notifying', next_escalation_at: new Date().toISOString() }
+    : { ...notification, status: 'no_contacts' };
+  const { data: inserted, error } = await supabase
+    .from('alert_notifications')
+    .upsert(row, { onConflict: 'id', ignoreDuplicates: true })
+    .select('id');
+  if (error) throw new Error(`Recording alert ${alert.id} failed: ${error.message}`);
+  if (inserted.length === 0) return json({ status: 'duplicate' });
+  if (chain.length === 0) return json({ status: 'no_contacts' });
+
+  await advance(notification, -1, 0);
+  return json({ status: 'notifying', contacts: chain.length });
+}
+
+async function acknowledge(alertId: string, acknowledgedBy: string, userId?: string): Promise<boolean> {
+  let request = supabase
+    .from('alert_notifications')
+    .update({ status: 'acknowledged', acknowledged_at: new Date().toISOString(), acknowledged_by: acknowledgedBy, next_escalation_at: null })
+    .eq('id', alertId)
+    .in('status', ['notifying', 'exhausted']);
+  if (userId) request = request.eq('user_id', userId);
+
+  const { data, error } = await request.select('id');
+  if (error) throw new Error(`Acknowledging alert ${alertId} failed: ${error.message}`);
+  if (data.length === 0) return false;
+
+  // Mirror it on the alert log, unless the patient got there first
+  const { error: logError } = await supabase
+    .from('alerts')
+    .update({ acknowledged_at: new Date().toISOString(), acknowledged_by: acknowledgedBy })
+    .eq('id', alertId)
+    .is('acknowledged_at', null);
+  if (logError) console.error(`❌ Recording acknowledgement on alert ${alertId} failed:`, logError.message);
+  return true;
+}
+
+/**
+ * What the app's acknowledgement page shows before the contact confirms
+ */
+async function acknowledgementStatus(token: string): Promise<Response> {
+  const { data: attempt } = await supabase
+    .from('notification_attempts')
+    .select('notification_id, contact_name')
+    .eq('ack_token', token)
+    .maybeSingle();
+  if (!attempt) return json({ status: 'invalid' });
+
+  const { data: notification } = await supabase
+    .from('alert_notifications')
+    .select('status')
+    .eq('id', attempt.notification_id)
+    .maybeSingle();
+  return json({
+    status: notification?.status === 'acknowledged' ? 'acknowledged' : 'open',
+    contactName: attempt.contact_name
+  });
+}
+
+/**
+ * The contact confirmed on the acknowledgement page
+ */
+async function acknowledgeLink(token: string): Promise<Response> {
+  const { data: attempt } = await supabase
+    .from('notification_attempts')
+    .update({ acknowledged_at: new Date().toISOString() })
+    .eq('ack_token', token)
+    .select('notification_id, contact_name')
+    .maybeSingle();
+  if (!attempt) return json({ status: 'invalid' });
+
+  const acknowledged = await acknowledge(attempt.notification_id, attempt.contact_name);
+  return json({ status: acknowledged ? 'acknowledged' : 'already_acknowledged', contactName: attempt.contact_name });
+}
+
+async function escalateDue(): Promise<Response> {
+  const { data: due, error } = await supabase
+    .from('alert_notifications')
+    .select('id, user_id, rule_name, severity, risk_level, triggered_at, contacts, escalation_level')
+    .eq('status', 'notifying')
+    .lte('next_escalation_at', new Date().toISOString())
+    .order('next_escalation_at', { ascending: true })
+    .limit(100);
+  if (error) throw new Error(`Loading due notifications failed: ${error.message}`);
+
+  let escalated = 0;
+  for (const notification of due as NotificationRow[]) {
+    if (await advance(notification, notification.escalation_level, notification.escalation_level + 1)) escalated++;
+  }
+  return json({ escalated });
+}
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    if (request.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+    const body = await request.json();
+    if (body.action === 'escalate') return await escalateDue();
+
+    // Contacts hold a link token, not a session
+    if (body.action === 'ackStatus' || body.action === 'ackLink') {
+      if (typeof body.ack !== 'string' || body.ack === '') return json({ error: 'ack token required' }, 400);
+      return body.action === 'ackStatus' ? await acknowledgementStatus(body.ack) : await acknowledgeLink(body.ack);
+    }
+
+    const userId = await requestUser(request);
+    if (!userId) return json({ error: 'Not signed in' }, 401);
+
+    switch (body.action) {
+      case 'dispatch':
+        return await dispatch(userId, body.alert as AlertPayload);
+      case 'acknowledge':
+        return json({ acknowledged: await acknowledge(body.alertId, 'patient', userId) });
+      default:
+        return json({ error: `Unknown action "${body.action}"` }, 400);
+    }
+  } catch (error) {
+    console.error('❌ notify-emergency-contacts:', error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -0,0 +1,115 @@
+/**
+ * Notification Providers - One sender per channel behind a common interface
+ *
+ * Purpose: Deliver a message over SMS (Twilio), email (Resend) or a webhook.
+ * A channel whose credentials are not set falls back to the console
+ * provider, which logs instead of sending - the stub used when running the
+ * function locally with `supabase functions serve`.
+ * Learning Focus: Providers report failures as results, not exceptions, so
+ * every attempt is recorded and one bad address never blocks escalation.
+ */
+
+import type { Channel, ContactTarget } from './escalation.ts';
+
+export interface OutgoingMessage {
+  subject: string;
+  text: string;
+  payload: Record<string, unknown>;   // Sent as-is to webhooks
+}
+
+export type DeliveryResult =
+  | { ok: true; messageId: string | null }
+  | { ok: false; error: string };
+
+export interface NotificationProvider {
+  readonly name: string;
+  send(contact: ContactTarget, message: OutgoingMessage): Promise<DeliveryResult>;
+}
+
+export class TwilioSmsProvider implements NotificationProvider {
+  readonly name = 'twilio';
+
+  constructor(private accountSid: string, private authToken: string, private from: string) {}
+
+  async send(contact: ContactTarget, message: OutgoingMessage): Promise<DeliveryResult> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ To: contact.address, From: this.from, Body: message.text })
+    });
+
+    const body = await response.json().catch(() => ({}));
+    return response.ok
+      ? { ok: true, messageId: body.sid ?? null }
+      : { ok: false, error: `Twilio ${response.status}: ${body.message ?? response.statusText}` };
+  }
+}
+
+export class ResendEmailProvider implements NotificationProvider {
+  readonly name = 'resend';
+
+  constructor(private apiKey: string, private from: string) {}
+
+  async send(contact: ContactTarget, message: OutgoingMessage): Promise<DeliveryResult> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from: this.from, to: [contact.address], subject: message.subject, text: message.text })
+    });
+
+    const body = await response.json().catch(() => ({}));
+    return response.ok
+      ? { ok: true, messageId: body.id ?? null }
+      : { ok: false, error: `Resend ${response.status}: ${body.message ?? response.statusText}` };
+  }
+}
+
+export class WebhookProvider implements NotificationProvider {
+  readonly name = 'webhook';
+
+  async send(contact: ContactTarget, message: OutgoingMessage): Promise<DeliveryResult> {
+    const response = await fetch(contact.address, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...message.payload, subject: message.subject, text: message.text })
+    });
+
+    return response.ok
+      ? { ok: true, messageId: response.headers.get('x-request-id') }
+      : { ok: false, error: `Webhook ${response.status}: ${response.statusText}` };
+  }
+}
+
+export class ConsoleProvider implements NotificationProvider {
+  readonly name = 'console';
+
+  async send(contact: ContactTarget, message: OutgoingMessage): Promise<DeliveryResult> {
+    console.log(`📨 [stub] ${contact.channel} to ${contact.name} <${contact.address}>: ${message.text}`);
+    return { ok: true, messageId: `stub-${crypto.randomUUID()}` };
+  }
+}
+
+/**
+ * The provider for each channel, from the function's secrets
+ */
+export function createProviders(env: (name: string) => string | undefined): Record<Channel, NotificationProvider> {
+  const stub = new ConsoleProvider();
+  if (env('NOTIFICATIONS_STUB') === 'true') {
+    return { sms: stub, email: stub, webhook: stub };
+  }
+
+  const twilioSid = env('TWILIO_ACCOUNT_SID');
+  const twilioToken = env('TWILIO_AUTH_TOKEN');
+  const twilioFrom = env('TWILIO_FROM_NUMBER');
+  const resendKey = env('RESEND_API_KEY');
+  const emailFrom = env('NOTIFICATION_EMAIL_FROM');
+
+  return {
+    sms: twilioSid && twilioToken && twilioFrom ? new TwilioSmsProvider(twilioSid, twilioToken, twilioFrom) : stub,
+    email: resendKey && emailFrom ? new ResendEmailProvider(resendKey, emailFrom) : stub,
+    webhook: new WebhookProvider()
+  };
+}
@@ -0,0 +1,47 @@
+-- Per-patient biosensor baselines
+-- Stores each user's resting heart rate, skin temperature and EDA (centre and
+-- spread) plus hour-of-day offsets, learned from their own biosensor_readings.
+-- The seizure risk score measures deviation from these values.
+
+CREATE TABLE public.biosensor_baselines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE,
+  heart_rate_mean NUMERIC NOT NULL,
+  heart_rate_sd NUMERIC NOT NULL,
+  skin_temp_mean NUMERIC NOT NULL,
+  skin_temp_sd NUMERIC NOT NULL,
+  eda_mean NUMERIC NOT NULL,
+  eda_sd NUMERIC NOT NULL,
+  circadian JSONB NOT NULL DEFAULT '{}'::jsonb,
+  sample_count INTEGER NOT NULL,
+  readings_from TIMESTAMP WITH TIME ZONE NOT NULL,
+  readings_to TIMESTAMP WITH TIME ZONE NOT NULL,
+  calibrated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.biosensor_baselines.circadian IS 'Hour-of-day offsets from the mean: {"heartRate": [24 numbers], "skinTemp": [...], "eda": [...]}, local time of the calibrating device';
+COMMENT ON COLUMN public.biosensor_baselines.calibrated_at IS 'When calibration last ran';
+
+ALTER TABLE public.biosensor_baselines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own baseline"
+ON public.biosensor_baselines
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own baseline"
+ON public.biosensor_baselines
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own baseline"
+ON public.biosensor_baselines
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_biosensor_baselines_updated_at
+BEFORE UPDATE ON public.biosensor_baselines
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
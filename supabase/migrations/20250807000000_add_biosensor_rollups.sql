@@ -0,0 +1,142 @@
+-- Downsampled biosensor history
+-- One row per user, resolution and time bucket, with count, mean, min, max
+-- and 5th/50th/95th percentiles of each metric, so the History page can
+-- show months of data in a single request instead of loading raw 1 Hz rows.
+--
+-- Minute buckets are computed exactly from biosensor_readings. Hour and day
+-- buckets are combined from the minute buckets: count, mean, min and max are
+-- exact; percentiles are those of the minute percentiles (an approximation
+-- that keeps a refresh cheap). Buckets are in UTC.
+--
+-- A statement-level trigger refreshes the buckets touched by each insert, so
+-- clients should write readings in batches (the offline outbox does).
+
+CREATE TABLE public.biosensor_rollups (
+  user_id UUID NOT NULL,
+  resolution TEXT NOT NULL CHECK (resolution IN ('minute', 'hour', 'day')),
+  bucket TIMESTAMP WITH TIME ZONE NOT NULL,
+  sample_count INTEGER NOT NULL,
+  heart_rate_mean NUMERIC NOT NULL, heart_rate_min NUMERIC NOT NULL, heart_rate_max NUMERIC NOT NULL, heart_rate_p05 NUMERIC NOT NULL, heart_rate_p50 NUMERIC NOT NULL, heart_rate_p95 NUMERIC NOT NULL,
+  skin_temp_mean NUMERIC NOT NULL, skin_temp_min NUMERIC NOT NULL, skin_temp_max NUMERIC NOT NULL, skin_temp_p05 NUMERIC NOT NULL, skin_temp_p50 NUMERIC NOT NULL, skin_temp_p95 NUMERIC NOT NULL,
+  eda_mean NUMERIC NOT NULL, eda_min NUMERIC NOT NULL, eda_max NUMERIC NOT NULL, eda_p05 NUMERIC NOT NULL, eda_p50 NUMERIC NOT NULL, eda_p95 NUMERIC NOT NULL,
+  seizure_risk_mean NUMERIC NOT NULL, seizure_risk_min NUMERIC NOT NULL, seizure_risk_max NUMERIC NOT NULL, seizure_risk_p05 NUMERIC NOT NULL, seizure_risk_p50 NUMERIC NOT NULL, seizure_risk_p95 NUMERIC NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, resolution, bucket)
+);
+
+COMMENT ON COLUMN public.biosensor_rollups.bucket IS 'Start of the minute, hour or day (UTC) the row summarises';
+
+ALTER TABLE public.biosensor_rollups ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only by the rollup functions below
+CREATE POLICY "Users can view their own rollups"
+ON public.biosensor_rollups
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Recompute a user's buckets overlapping [p_from, p_to]
+CREATE OR REPLACE FUNCTION public.refresh_biosensor_rollups(
+  p_user_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_unit TEXT;
+BEGIN
+  INSERT INTO biosensor_rollups (
+    user_id, resolution, bucket, sample_count,
+    heart_rate_mean, heart_rate_min, heart_rate_max, heart_rate_p05, heart_rate_p50, heart_rate_p95,
+    skin_temp_mean, skin_temp_min, skin_temp_max, skin_temp_p05, skin_temp_p50, skin_temp_p95,
+    eda_mean, eda_min, eda_max, eda_p05, eda_p50, eda_p95,
+    seizure_risk_mean, seizure_risk_min, seizure_risk_max, seizure_risk_p05, seizure_risk_p50, seizure_risk_p95
+  )
+  SELECT
+    p_user_id, 'minute', date_trunc('minute', timestamp), count(*),
+    avg(heart_rate), min(heart_rate), max(heart_rate),
+    percentile_cont(0.05) WITHIN GROUP (ORDER BY heart_rate), percentile_cont(0.5) WITHIN GROUP (ORDER BY heart_rate), percentile_cont(0.95) WITHIN GROUP (ORDER BY heart_rate),
+    avg(skin_temp), min(skin_temp), max(skin_temp),
+    percentile_cont(0.05) WITHIN GROUP (ORDER BY skin_temp), percentile_cont(0.5) WITHIN GROUP (ORDER BY skin_temp), percentile_cont(0.95) WITHIN GROUP (ORDER BY skin_temp),
+    avg(eda), min(eda), max(eda),
+    percentile_cont(0.05) WITHIN GROUP (ORDER BY eda), percentile_cont(0.5) WITHIN GROUP (ORDER BY eda), percentile_cont(0.95) WITHIN GROUP (ORDER BY eda),
+    avg(seizure_risk), min(seizure_risk), max(seizure_risk),
+    percentile_cont(0.05) WITHIN GROUP (ORDER BY seizure_risk), percentile_cont(0.5) WITHIN GROUP (ORDER BY seizure_risk), percentile_cont(0.95) WITHIN GROUP (ORDER BY seizure_risk)
+  FROM biosensor_readings
+  WHERE user_id = p_user_id
+    AND timestamp >= date_trunc('minute', p_from)
+    AND timestamp < date_trunc('minute', p_to) + interval '1 minute'
+  GROUP BY date_trunc('minute', timestamp)
+  ON CONFLICT (user_id, resolution, bucket) DO UPDATE SET
+    sample_count = EXCLUDED.sample_count,
+    heart_rate_mean = EXCLUDED.heart_rate_mean, heart_rate_min = EXCLUDED.heart_rate_min, heart_rate_max = EXCLUDED.heart_rate_max, heart_rate_p05 = EXCLUDED.heart_rate_p05, heart_rate_p50 = EXCLUDED.heart_rate_p50, heart_rate_p95 = EXCLUDED.heart_rate_p95,
+    skin_temp_mean = EXCLUDED.skin_temp_mean, skin_temp_min = EXCLUDED.skin_temp_min, skin_temp_max = EXCLUDED.skin_temp_max, skin_temp_p05 = EXCLUDED.skin_temp_p05, skin_temp_p50 = EXCLUDED.skin_temp_p50, skin_temp_p95 = EXCLUDED.skin_temp_p95,
+    eda_mean = EXCLUDED.eda_mean, eda_min = EXCLUDED.eda_min, eda_max = EXCLUDED.eda_max, eda_p05 = EXCLUDED.eda_p05, eda_p50 = EXCLUDED.eda_p50, eda_p95 = EXCLUDED.eda_p95,
+    seizure_risk_mean = EXCLUDED.seizure_risk_mean, seizure_risk_min = EXCLUDED.seizure_risk_min, seizure_risk_max = EXCLUDED.seizure_risk_max, seizure_risk_p05 = EXCLUDED.seizure_risk_p05, seizure_risk_p50 = EXCLUDED.seizure_risk_p50, seizure_risk_p95 = EXCLUDED.seizure_risk_p95,
+    updated_at = now();
+
+  FOREACH v_unit IN ARRAY ARRAY['hour', 'day'] LOOP
+    INSERT INTO biosensor_rollups (
+      user_id, resolution, bucket, sample_count,
+      heart_rate_mean, heart_rate_min, heart_rate_max, heart_rate_p05, heart_rate_p50, heart_rate_p95,
+      skin_temp_mean, skin_temp_min, skin_temp_max, skin_temp_p05, skin_temp_p50, skin_temp_p95,
+      eda_mean, eda_min, eda_max, eda_p05, eda_p50, eda_p95,
+      seizure_risk_mean, seizure_risk_min, seizure_risk_max, seizure_risk_p05, seizure_risk_p50, seizure_risk_p95
+    )
+    SELECT
+      p_user_id, v_unit, date_trunc(v_unit, bucket), sum(sample_count),
+      sum(heart_rate_mean * sample_count) / sum(sample_count), min(heart_rate_min), max(heart_rate_max),
+      percentile_cont(0.05) WITHIN GROUP (ORDER BY heart_rate_p05), percentile_cont(0.5) WITHIN GROUP (ORDER BY heart_rate_p50), percentile_cont(0.95) WITHIN GROUP (ORDER BY heart_rate_p95),
+      sum(skin_temp_mean * sample_count) / sum(sample_count), min(skin_temp_min), max(skin_temp_max),
+      percentile_cont(0.05) WITHIN GROUP (ORDER BY skin_temp_p05), percentile_cont(0.5) WITHIN GROUP (ORDER BY skin_temp_p50), percentile_cont(0.95) WITHIN GROUP (ORDER BY skin_temp_p95),
+      sum(eda_mean * sample_count) / sum(sample_count), min(eda_min), max(eda_max),
+      percentile_cont(0.05) WITHIN GROUP (ORDER BY eda_p05), percentile_cont(0.5) WITHIN GROUP (ORDER BY eda_p50), percentile_cont(0.95) WITHIN GROUP (ORDER BY eda_p95),
+      sum(seizure_risk_mean * sample_count) / sum(sample_count), min(seizure_risk_min), max(seizure_risk_max),
+      percentile_cont(0.05) WITHIN GROUP (ORDER BY seizure_risk_p05), percentile_cont(0.5) WITHIN GROUP (ORDER BY seizure_risk_p50), percentile_cont(0.95) WITHIN GROUP (ORDER BY seizure_risk_p95)
+    FROM biosensor_rollups
+    WHERE user_id = p_user_id
+      AND resolution = 'minute'
+      AND bucket >= date_trunc(v_unit, p_from)
+      AND bucket < date_trunc(v_unit, p_to) + ('1 ' || v_unit)::interval
+    GROUP BY date_trunc(v_unit, bucket)
+    ON CONFLICT (user_id, resolution, bucket) DO UPDATE SET
+      sample_count = EXCLUDED.sample_count,
+      heart_rate_mean = EXCLUDED.heart_rate_mean, heart_rate_min = EXCLUDED.heart_rate_min, heart_rate_max = EXCLUDED.heart_rate_max, heart_rate_p05 = EXCLUDED.heart_rate_p05, heart_rate_p50 = EXCLUDED.heart_rate_p50, heart_rate_p95 = EXCLUDED.heart_rate_p95,
+      skin_temp_mean = EXCLUDED.skin_temp_mean, skin_temp_min = EXCLUDED.skin_temp_min, skin_temp_max = EXCLUDED.skin_temp_max, skin_temp_p05 = EXCLUDED.skin_temp_p05, skin_temp_p50 = EXCLUDED.skin_temp_p50, skin_temp_p95 = EXCLUDED.skin_temp_p95,
+      eda_mean = EXCLUDED.eda_mean, eda_min = EXCLUDED.eda_min, eda_max = EXCLUDED.eda_max, eda_p05 = EXCLUDED.eda_p05, eda_p50 = EXCLUDED.eda_p50, eda_p95 = EXCLUDED.eda_p95,
+      seizure_risk_mean = EXCLUDED.seizure_risk_mean, seizure_risk_min = EXCLUDED.seizure_risk_min, seizure_risk_max = EXCLUDED.seizure_risk_max, seizure_risk_p05 = EXCLUDED.seizure_risk_p05, seizure_risk_p50 = EXCLUDED.seizure_risk_p50, seizure_risk_p95 = EXCLUDED.seizure_risk_p95,
+      updated_at = now();
+  END LOOP;
+END;
+$$;
+
+-- Only the trigger (and the backfill below) may refresh rollups
+REVOKE EXECUTE ON FUNCTION public.refresh_biosensor_rollups(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.rollup_inserted_biosensor_readings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_biosensor_rollups(user_id, min(timestamp), max(timestamp))
+  FROM inserted_readings
+  GROUP BY user_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rollup_biosensor_readings
+AFTER INSERT ON public.biosensor_readings
+REFERENCING NEW TABLE AS inserted_readings
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.rollup_inserted_biosensor_readings();
+
+-- Backfill existing readings
+SELECT public.refresh_biosensor_rollups(user_id, min(timestamp), max(timestamp))
+FROM public.biosensor_readings
+GROUP BY user_id;
@@ -0,0 +1,51 @@
+-- Per-user alert rules
+-- Each rule has a condition tree (JSON, see src/lib/alertRules.ts), a
+-- severity, a cooldown and optional quiet hours. Users without rules are
+-- alerted by a single rule built from profiles.alert_threshold.
+
+CREATE TABLE public.alert_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  severity TEXT NOT NULL DEFAULT 'warning' CHECK (severity IN ('info', 'warning', 'critical')),
+  cooldown_seconds INTEGER NOT NULL DEFAULT 30 CHECK (cooldown_seconds >= 0),
+  condition JSONB NOT NULL,
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+COMMENT ON COLUMN public.alert_rules.condition IS 'Condition tree: {"type": "threshold" | "sustained" | "rateOfChange" | "all" | "any" | "riskLevelTransition", ...}';
+COMMENT ON COLUMN public.alert_rules.quiet_hours_start IS 'Local time from which the rule is silenced; may be after quiet_hours_end (overnight)';
+
+ALTER TABLE public.alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own alert rules"
+ON public.alert_rules
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own alert rules"
+ON public.alert_rules
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own alert rules"
+ON public.alert_rules
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own alert rules"
+ON public.alert_rules
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_alert_rules_updated_at
+BEFORE UPDATE ON public.alert_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_alert_rules_user ON public.alert_rules(user_id, created_at);
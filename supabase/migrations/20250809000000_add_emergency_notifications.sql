@@ -0,0 +1,116 @@
+-- Emergency contact notifications
+-- Alerts are sent to the notify-emergency-contacts edge function, which
+-- messages the user's emergency contacts in priority order. Each contact is
+-- given escalate_after_minutes to acknowledge before the next one is tried.
+--
+-- alert_notifications holds one row per dispatched alert, with the contact
+-- chain as it was at dispatch; notification_attempts records every message
+-- sent or failed. Both are written only by the edge function (service role).
+
+CREATE TABLE public.emergency_contacts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 0,
+  name TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'email', 'webhook')),
+  address TEXT NOT NULL,
+  min_severity TEXT NOT NULL DEFAULT 'critical' CHECK (min_severity IN ('info', 'warning', 'critical')),
+  escalate_after_minutes INTEGER NOT NULL DEFAULT 5 CHECK (escalate_after_minutes > 0),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.emergency_contacts.priority IS 'Contacts are tried in ascending priority';
+COMMENT ON COLUMN public.emergency_contacts.address IS 'Phone number (E.164), email address or webhook URL, depending on channel';
+
+ALTER TABLE public.emergency_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own emergency contacts"
+ON public.emergency_contacts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own emergency contacts"
+ON public.emergency_contacts
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own emergency contacts"
+ON public.emergency_contacts
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own emergency contacts"
+ON public.emergency_contacts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_emergency_contacts_updated_at
+BEFORE UPDATE ON public.emergency_contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_emergency_contacts_user ON public.emergency_contacts(user_id, priority);
+
+CREATE TABLE public.alert_notifications (
+  id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL,
+  rule_name TEXT NOT NULL,
+  severity TEXT NOT NULL CHECK (severity IN ('info', 'warning', 'critical')),
+  risk_level NUMERIC,
+  triggered_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  contacts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'notifying' CHECK (status IN ('notifying', 'acknowledged', 'exhausted', 'no_contacts')),
+  escalation_level INTEGER NOT NULL DEFAULT 0,
+  next_escalation_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.alert_notifications.id IS 'The alert event id, so a retried dispatch cannot notify twice';
+COMMENT ON COLUMN public.alert_notifications.contacts IS 'Contacts to notify, in order, as they were when the alert was dispatched';
+COMMENT ON COLUMN public.alert_notifications.escalation_level IS 'Index into contacts of the contact currently being waited on';
+
+CREATE TABLE public.notification_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  notification_id UUID NOT NULL REFERENCES public.alert_notifications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  escalation_level INTEGER NOT NULL,
+  contact_name TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'email', 'webhook')),
+  address TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  provider_message_id TEXT,
+  error TEXT,
+  ack_token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.notification_attempts.ack_token IS 'Secret in the acknowledgement link sent to the contact';
+
+ALTER TABLE public.alert_notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own alert notifications"
+ON public.alert_notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own notification attempts"
+ON public.notification_attempts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_alert_notifications_updated_at
+BEFORE UPDATE ON public.alert_notifications
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_alert_notifications_user ON public.alert_notifications(user_id, triggered_at DESC);
+CREATE INDEX idx_alert_notifications_due ON public.alert_notifications(next_escalation_at) WHERE status = 'notifying';
+CREATE INDEX idx_notification_attempts_notification ON public.notification_attempts(notification_id, attempted_at);
@@ -0,0 +1,69 @@
+-- Persistent alert log
+-- One row per alert raised by an alert rule, with why it fired (rule,
+-- condition, description), the readings the rule looked at, who
+-- acknowledged it, and the outcome the patient labelled afterwards. Seizures
+-- that no alert warned of are reported as rows with source 'patient_report'
+-- and outcome 'missed'. Together these are the ground truth for tuning rules.
+--
+-- The id is the alert event id, shared with alert_notifications, so the
+-- notification edge function can record contact acknowledgements here.
+
+CREATE TABLE public.alerts (
+  id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL,
+  source TEXT NOT NULL DEFAULT 'rule' CHECK (source IN ('rule', 'patient_report')),
+  rule_id TEXT,
+  rule_name TEXT,
+  severity TEXT CHECK (severity IN ('info', 'warning', 'critical')),
+  reason TEXT,
+  condition JSONB,
+  triggered_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  risk_level NUMERIC,
+  ai_risk_level TEXT,
+  readings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_by TEXT,
+  outcome TEXT CHECK (outcome IN ('true_alarm', 'false_alarm', 'missed')),
+  seizure_at TIMESTAMP WITH TIME ZONE,
+  outcome_notes TEXT,
+  outcome_labeled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (source = 'rule' OR outcome = 'missed')
+);
+
+COMMENT ON COLUMN public.alerts.rule_id IS 'alert_rules id, or ''profile-alert-threshold'' for the rule built from profiles.alert_threshold';
+COMMENT ON COLUMN public.alerts.triggered_at IS 'When the alert fired; for patient reports, when the seizure happened';
+COMMENT ON COLUMN public.alerts.readings IS 'Biosensor samples the rule looked at, oldest first: [{"timestamp": ms, "heartRate", "skinTemp", "eda", "seizureRisk", "aiRiskLevel"?}]';
+COMMENT ON COLUMN public.alerts.acknowledged_by IS '''patient'', or the name of the emergency contact who followed the acknowledgement link';
+COMMENT ON COLUMN public.alerts.seizure_at IS 'When the seizure started, for true alarms and missed seizures';
+
+ALTER TABLE public.alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own alerts"
+ON public.alerts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own alerts"
+ON public.alerts
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own alerts"
+ON public.alerts
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own alerts"
+ON public.alerts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_alerts_updated_at
+BEFORE UPDATE ON public.alerts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_alerts_user_triggered ON public.alerts(user_id, triggered_at DESC);
+CREATE INDEX idx_alerts_user_rule ON public.alerts(user_id, rule_id, outcome);